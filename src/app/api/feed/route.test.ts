@@ -0,0 +1,44 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import * as d3 from 'd3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseCatalog } from '@/lib/catalog';
+import { DEFAULT_LIVE_FEED_INTERVAL_S, LIVE_FEED_INTERVAL_OPTIONS_S } from '@/lib/liveFeed';
+import { GET } from './route';
+
+// One poll of the replay, as the live feed client makes it
+const poll = async () => {
+  const response = await GET(new Request('http://localhost/api/feed'));
+  return response.json() as Promise<{ metadata: { generated: number }; features: { id: string }[] }>;
+};
+
+describe('GET /api/feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers every replayed event to a client polling at any of the offered intervals', async () => {
+    const text = await readFile(path.join(process.cwd(), 'public', 'database.csv'), 'utf8');
+    const { events } = parseCatalog(d3.csvParse(text));
+    // The replay clock starts at the first request and runs a simulated day per second; polls follow at the
+    // default interval, then at the longest
+    const received = new Set<string>();
+    let generated = 0;
+    for (const intervalS of [DEFAULT_LIVE_FEED_INTERVAL_S, Math.max(...LIVE_FEED_INTERVAL_OPTIONS_S)]) {
+      for (let i = 0; i < 10; i++) {
+        const feed = await poll();
+        feed.features.forEach(f => received.add(f.id));
+        generated = feed.metadata.generated;
+        vi.advanceTimersByTime(intervalS * 1000);
+      }
+    }
+
+    const replayed = events.filter(d => d.time <= generated);
+    expect(replayed.length).toBeGreaterThan(1000);
+    expect(replayed.filter(d => !received.has(d.id))).toEqual([]);
+  });
+});
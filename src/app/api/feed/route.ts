@@ -0,0 +1,62 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import * as d3 from 'd3';
+import { EarthquakeData, parseCatalog } from '@/lib/catalog';
+import { DEFAULT_FEED_REPLAY_OPTIONS, buildReplayFeed, replayWindowMs } from '@/lib/feedReplay';
+import { LIVE_FEED_INTERVAL_OPTIONS_S } from '@/lib/liveFeed';
+import { DAY_MS } from '@/lib/playback';
+
+// Local stand-in for a USGS GeoJSON summary feed: replays `public/database.csv` in accelerated time, so
+// live mode can be developed and tested without network access.
+//
+//   GET /api/feed?speed=1&start=1965-01-01&window=7&review=1
+//
+// speed: simulated days per real second (default 1); start: simulated date at the first request
+// (default: the first catalog event); window: days of events in each response (default: as many as the
+// replay clock runs between two polls at the longest interval the live feed controls offer, at least 7);
+// review: days before an event's status changes from automatic to reviewed (default 1).
+
+export const dynamic = 'force-dynamic'; // Every request reads the replay clock
+
+// Parsed once per server process
+let catalogPromise: Promise<EarthquakeData[]> | null = null;
+const loadReplayCatalog = () => {
+  catalogPromise ??= readFile(path.join(process.cwd(), 'public', 'database.csv'), 'utf8')
+    .then(text => parseCatalog(d3.csvParse(text)).events);
+  return catalogPromise;
+};
+
+// Real time of the first request; the replay clock starts there
+let replayStartedAt: number | null = null;
+
+// Longest poll interval the client offers, which each response has to cover
+const LONGEST_POLL_INTERVAL_MS = Math.max(...LIVE_FEED_INTERVAL_OPTIONS_S) * 1000;
+
+// Positive number from the query string, or the fallback
+const positiveParam = (params: URLSearchParams, name: string, fallback: number): number => {
+  const value = Number(params.get(name));
+  return params.has(name) && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const events = await loadReplayCatalog();
+  if (events.length === 0) return Response.json({ error: 'The catalog has no events' }, { status: 500 });
+
+  const catalogStart = events[0].time;
+  const catalogEnd = events[events.length - 1].time;
+  const requestedStart = Date.parse(params.get('start') ?? '');
+  const start = Number.isFinite(requestedStart) ? requestedStart : catalogStart;
+  const speed = positiveParam(params, 'speed', 1) * DAY_MS / 1000; // Simulated ms per real ms
+
+  // Simulated "now", wrapping around to the start once the end of the catalog is reached
+  replayStartedAt ??= Date.now();
+  const elapsed = (Date.now() - replayStartedAt) * speed;
+  const now = start + elapsed % Math.max(1, catalogEnd - start + DAY_MS);
+
+  const feed = buildReplayFeed(events, now, {
+    windowMs: positiveParam(params, 'window', replayWindowMs(speed, LONGEST_POLL_INTERVAL_MS) / DAY_MS) * DAY_MS,
+    reviewDelayMs: positiveParam(params, 'review', DEFAULT_FEED_REPLAY_OPTIONS.reviewDelayMs / DAY_MS) * DAY_MS,
+  });
+  return Response.json(feed, { headers: { 'Cache-Control': 'no-store' } });
+}
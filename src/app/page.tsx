@@ -1,9 +1,13 @@
 import WorldMap from '@/components/WorldMap';
+import { SearchParams, parseViewState } from '@/lib/urlState';
 
-export default function Home() {
+// The view state (filters, playhead, zoom, selection) is restored from the query string,
+// so a shared link reopens the same map
+export default async function Home({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const initialViewState = parseViewState(await searchParams);
   return (
     <div className="w-screen h-screen">
-      <WorldMap />
+      <WorldMap initialViewState={initialViewState} />
     </div>
   );
 }
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CatalogReport } from '@/lib/catalog';
+import {
+  CATALOG_FIELDS,
+  CATALOG_FORMAT_LABELS,
+  CatalogField,
+  ColumnMapping,
+  REQUIRED_CATALOG_FIELDS,
+  detectColumnMapping,
+  missingRequiredFields,
+} from '@/lib/catalogFormats';
+import { CatalogFileInfo, CatalogLoadMode } from '@/lib/catalogProtocol';
+
+interface CatalogImportDialogProps {
+  file: CatalogFileInfo;
+  previewImport: (mapping: ColumnMapping) => Promise<CatalogReport>; // Parses the file with a mapping, in the worker
+  onLoad: (mapping: ColumnMapping, mode: CatalogLoadMode) => void;
+  onCancel: () => void;
+}
+
+// Review dialog for a dropped catalog file: shows the auto-detected column mapping, lets the user
+// override it field by field, previews how many rows would load, and loads the catalog in place of or
+// on top of the current one
+const CatalogImportDialog: React.FC<CatalogImportDialogProps> = ({ file, previewImport, onLoad, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => detectColumnMapping(file.columns));
+  const [mode, setMode] = useState<CatalogLoadMode>('replace');
+  // Report of parsing with the current mapping; null while it is being parsed or when fields are missing
+  const [report, setReport] = useState<CatalogReport | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const missing = missingRequiredFields(mapping);
+  // Parse with the current mapping so the user sees the effect of each change before loading
+  useEffect(() => {
+    setReport(null);
+    setPreviewError(null);
+    if (missingRequiredFields(mapping).length > 0) return;
+    let cancelled = false;
+    previewImport(mapping)
+      .then(next => { if (!cancelled) setReport(next); })
+      .catch((err: Error) => { if (!cancelled) setPreviewError(err.message); });
+    return () => { cancelled = true; };
+  }, [previewImport, mapping]);
+  const outcome = missing.length > 0
+    ? `Map the required fields first: ${missing.join(', ')}`
+    : previewError ?? (!report
+      ? 'Checking rows…'
+      : `${report.acceptedRows.toLocaleString()} of ${report.totalRows.toLocaleString()} rows would load` +
+        (report.rejectedRows > 0 ? ` (${report.rejectedRows.toLocaleString()} rejected)` : ''));
+
+  const setField = (field: CatalogField, column: string) =>
+    setMapping(prev => ({ ...prev, [field]: column === '' ? undefined : column }));
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-30" role="dialog" aria-modal="true" aria-labelledby="catalog-import-title">
+      <div className="bg-white rounded shadow-lg p-4 w-[32rem] max-h-[90%] overflow-y-auto text-xs text-gray-600 space-y-3">
+        <div>
+          <h3 id="catalog-import-title" className="text-sm font-semibold text-gray-700">Load catalog</h3>
+          <p>
+            {file.fileName}: {CATALOG_FORMAT_LABELS[file.format]}, {file.recordCount.toLocaleString()} records
+          </p>
+        </div>
+
+        {/* Column mapping, pre-filled with the detected columns */}
+        <div>
+          <div className="font-medium text-gray-700 mb-1">Column mapping</div>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {CATALOG_FIELDS.map(field => (
+              <label key={field} className="flex items-center justify-between gap-1">
+                <span className={REQUIRED_CATALOG_FIELDS.includes(field) ? 'font-medium text-gray-800' : ''}>
+                  {field}{REQUIRED_CATALOG_FIELDS.includes(field) ? ' *' : ''}
+                </span>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setField(field, e.target.value)}
+                  className="w-32 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                >
+                  <option value="">—</option>
+                  {file.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <p className="mt-1 text-[10px]">* required. Map a full date-time to Date and leave Time empty.</p>
+        </div>
+
+        {/* First few source records, to check the mapping against */}
+        <div className="overflow-x-auto">
+          <table className="text-[10px] border-collapse">
+            <thead>
+              <tr>{file.columns.map(column => <th key={column} className="border px-1 text-left font-medium">{column}</th>)}</tr>
+            </thead>
+            <tbody>
+              {file.preview.map((record, i) => (
+                <tr key={i}>{file.columns.map(column => <td key={column} className="border px-1 whitespace-nowrap">{record[column]}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Outcome of parsing with the current mapping */}
+        <p className={missing.length > 0 || previewError || report?.acceptedRows === 0 ? 'text-red-600' : ''}>{outcome}</p>
+
+        {/* Replace the current catalog, or overlay the file on it (matching IDs are replaced) */}
+        <fieldset className="flex gap-4">
+          <legend className="sr-only">How to load</legend>
+          <label className="flex items-center gap-1">
+            <input type="radio" name="catalogLoadMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+            Replace current catalog
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="radio" name="catalogLoadMode" checked={mode === 'overlay'} onChange={() => setMode('overlay')} />
+            Overlay on current catalog
+          </label>
+        </fieldset>
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onCancel} className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300">Cancel</button>
+          <button
+            type="button"
+            onClick={() => report && onLoad(mapping, mode)}
+            disabled={!report || report.acceptedRows === 0}
+            className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Load
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogImportDialog;
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { CatalogIssueCode, CatalogReport } from '@/lib/catalog';
+
+// Human-readable labels for each issue code
+const ISSUE_LABELS: Record<CatalogIssueCode, string> = {
+  'invalid-date': 'Bad date/time',
+  'invalid-coordinates': 'Bad coordinates',
+  'missing-magnitude': 'Missing magnitude',
+  'missing-depth': 'Missing depth',
+  'two-digit-year': 'Two-digit year guessed',
+  'missing-id': 'Missing ID',
+  'duplicate-id': 'Duplicate ID',
+};
+
+// Maximum number of individual issues listed; the per-code counts always cover everything
+const MAX_LISTED_ISSUES = 50;
+
+interface CatalogReportSummaryProps {
+  report: CatalogReport | null;
+  sourceName?: string | null; // Name of a user-loaded catalog file; omitted for the bundled catalog
+}
+
+// Compact summary of the catalog validation report, expandable to show individual rows
+const CatalogReportSummary: React.FC<CatalogReportSummaryProps> = ({ report, sourceName }) => {
+  if (!report) return null;
+
+  // Count issues per code so the summary stays short even for large catalogs
+  const counts = report.issues.reduce((acc, issue) => {
+    acc.set(issue.code, (acc.get(issue.code) ?? 0) + 1);
+    return acc;
+  }, new Map<CatalogIssueCode, number>());
+
+  return (
+    <div className="text-xs text-gray-600">
+      <p>
+        {sourceName && <span className="font-medium text-gray-700">{sourceName}: </span>}
+        {report.acceptedRows.toLocaleString()} of {report.totalRows.toLocaleString()} rows loaded
+        {report.rejectedRows > 0 && (
+          <span className="text-red-600"> ({report.rejectedRows.toLocaleString()} rejected)</span>
+        )}
+      </p>
+      {report.issues.length > 0 && (
+        <details className="mt-1">
+          <summary className="cursor-pointer">
+            {report.issues.length.toLocaleString()} validation {report.issues.length === 1 ? 'issue' : 'issues'}
+          </summary>
+          <ul className="mt-1 space-y-0.5">
+            {Array.from(counts, ([code, count]) => (
+              <li key={code}>{ISSUE_LABELS[code]}: {count.toLocaleString()}</li>
+            ))}
+          </ul>
+          <ul className="mt-1 max-h-32 overflow-y-auto border-t pt-1 space-y-0.5 font-mono text-[10px]">
+            {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+              <li key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+                Line {issue.line}{issue.id ? ` (${issue.id})` : ''}: {issue.message}
+              </li>
+            ))}
+            {report.issues.length > MAX_LISTED_ISSUES && (
+              <li>…and {(report.issues.length - MAX_LISTED_ISSUES).toLocaleString()} more</li>
+            )}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default CatalogReportSummary;
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { CategoryCount } from '@/lib/filters';
+
+interface CategoryFilterProps {
+  id: string; // Prefix for checkbox element IDs
+  label: string;
+  options: CategoryCount[];
+  excluded: string[];
+  onChange: (excluded: string[]) => void;
+}
+
+// Checkbox list for toggling the values of a categorical field (event type, magnitude type, ...)
+const CategoryFilter: React.FC<CategoryFilterProps> = ({ id, label, options, excluded, onChange }) => {
+  if (options.length === 0) return null;
+
+  // Toggle a single value in or out of the exclusion list
+  const toggle = (value: string, checked: boolean) => {
+    onChange(checked ? excluded.filter(v => v !== value) : [...excluded, value]);
+  };
+
+  return (
+    <fieldset>
+      <legend className="flex w-full items-center justify-between text-xs font-medium text-gray-600">
+        {label}
+        {/* Quick reset, only shown when something is hidden */}
+        {excluded.length > 0 && (
+          <button type="button" onClick={() => onChange([])} className="text-[10px] text-blue-600 hover:underline">
+            Show all
+          </button>
+        )}
+      </legend>
+      <div className="mt-1 grid grid-cols-2 gap-x-2 gap-y-0.5">
+        {options.map(({ value, count }) => (
+          <div key={value} className="flex items-center">
+            <input
+              type="checkbox"
+              id={`${id}-${value.replace(/\s+/g, '-')}`}
+              checked={!excluded.includes(value)}
+              onChange={(e) => toggle(value, e.target.checked)}
+              className="w-3 h-3 text-blue-600 bg-gray-100 border-gray-300 rounded"
+            />
+            <label htmlFor={`${id}-${value.replace(/\s+/g, '-')}`} className="ml-1 truncate text-[11px] text-gray-600" title={value}>
+              {value} <span className="text-gray-400">({count.toLocaleString()})</span>
+            </label>
+          </div>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+export default CategoryFilter;
@@ -0,0 +1,179 @@
+'use client';
+
+import React from 'react';
+import { ComparisonSettings } from '@/lib/comparison';
+import { CategoryCount, DEPTH_FILTER_DOMAIN_KM } from '@/lib/filters';
+import { DAY_MS, TimeRange } from '@/lib/playback';
+import { Region } from '@/lib/regions';
+import CategoryFilter from './CategoryFilter';
+
+interface ComparisonControlsProps {
+  settings: ComparisonSettings | null; // null = comparison mode off
+  catalogTimeSpan: TimeRange; // Shown for B's period when it has no range of its own
+  eventTypeOptions: CategoryCount[];
+  magnitudeTypeOptions: CategoryCount[];
+  regions: Region[];
+  onEnable: () => void;
+  onDisable: () => void;
+  onChange: (settings: ComparisonSettings) => void;
+}
+
+// Date input value (YYYY-MM-DD, UTC) for a time
+const toDateInputValue = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Time of a date input value: the start of the day, or its last millisecond for the end of a range
+const fromDateInputValue = (value: string, endOfDay: boolean): number => {
+  const time = Date.parse(value);
+  return endOfDay ? time + DAY_MS - 1 : time;
+};
+
+// Comparison mode toggle and the settings of map B, shown right of the swipe divider
+const ComparisonControls: React.FC<ComparisonControlsProps> = ({
+  settings,
+  catalogTimeSpan,
+  eventTypeOptions,
+  magnitudeTypeOptions,
+  regions,
+  onEnable,
+  onDisable,
+  onChange,
+}) => {
+  const [from, to] = settings?.timeRange ?? catalogTimeSpan;
+  const [minDepth, maxDepth] = settings?.depthRangeKm ?? DEPTH_FILTER_DOMAIN_KM;
+
+  // Applies a new period when the dates are complete and in order; the whole catalog clears B's own range
+  const changeTimeRange = (start: number, end: number) => {
+    if (!settings || !Number.isFinite(start) || !Number.isFinite(end) || start >= end) return;
+    const wholeCatalog = start <= catalogTimeSpan[0] && end >= catalogTimeSpan[1];
+    onChange({ ...settings, timeRange: wholeCatalog ? null : [start, end] });
+  };
+
+  // Applies a new depth range when its ends stay in order inside the slider's range
+  const changeDepthRange = (shallowest: number, deepest: number) => {
+    if (!settings || !Number.isFinite(shallowest) || !Number.isFinite(deepest) || shallowest >= deepest) return;
+    onChange({
+      ...settings,
+      depthRangeKm: [Math.max(DEPTH_FILTER_DOMAIN_KM[0], shallowest), Math.min(DEPTH_FILTER_DOMAIN_KM[1], deepest)],
+    });
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="comparisonMode"
+          checked={settings !== null}
+          onChange={(e) => (e.target.checked ? onEnable() : onDisable())}
+          className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+        />
+        <label htmlFor="comparisonMode" className="ml-2 text-xs font-medium text-gray-600">
+          Compare two maps (swipe)
+        </label>
+      </div>
+      {settings && (
+        <fieldset className="space-y-1 border-l-2 border-blue-200 pl-2">
+          <legend className="text-[10px] text-gray-500">
+            Map B, right of the divider, with filters of its own. Map A uses the filters above.
+          </legend>
+          <label htmlFor="comparisonMagnitude" className="block text-xs font-medium text-gray-600">
+            Min Magnitude (B): {settings.minMagnitude.toFixed(1)}
+          </label>
+          <input
+            type="range"
+            id="comparisonMagnitude"
+            min="0"
+            max="10"
+            step="0.1"
+            value={settings.minMagnitude}
+            onChange={(e) => onChange({ ...settings, minMagnitude: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
+          />
+          <div className="flex items-center gap-1 text-xs text-gray-600">
+            <span className="flex-1">Depth (B)</span>
+            <input
+              type="number"
+              aria-label="Shallowest depth for map B (km)"
+              min={DEPTH_FILTER_DOMAIN_KM[0]}
+              max={DEPTH_FILTER_DOMAIN_KM[1]}
+              step="10"
+              value={minDepth}
+              onChange={(e) => changeDepthRange(Number(e.target.value), maxDepth)}
+              className="w-14 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            />
+            –
+            <input
+              type="number"
+              aria-label="Deepest depth for map B (km)"
+              min={DEPTH_FILTER_DOMAIN_KM[0]}
+              max={DEPTH_FILTER_DOMAIN_KM[1]}
+              step="10"
+              value={maxDepth}
+              onChange={(e) => changeDepthRange(minDepth, Number(e.target.value))}
+              className="w-14 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            />
+            km
+          </div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="comparisonMainshocksOnly"
+              checked={settings.mainshocksOnly}
+              onChange={(e) => onChange({ ...settings, mainshocksOnly: e.target.checked })}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+            />
+            <label htmlFor="comparisonMainshocksOnly" className="ml-2 text-xs font-medium text-gray-600">
+              Mainshocks only (B)
+            </label>
+          </div>
+          <div>
+            <label htmlFor="comparisonRegion" className="block text-xs font-medium text-gray-600">Region (B)</label>
+            <select
+              id="comparisonRegion"
+              value={settings.regionId ?? ''}
+              onChange={(e) => onChange({ ...settings, regionId: e.target.value || null })}
+              className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            >
+              <option value="">Whole world</option>
+              {regions.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </div>
+          <CategoryFilter
+            id="comparisonEventType"
+            label="Event Types (B)"
+            options={eventTypeOptions}
+            excluded={settings.excludedEventTypes}
+            onChange={excludedEventTypes => onChange({ ...settings, excludedEventTypes })}
+          />
+          <CategoryFilter
+            id="comparisonMagnitudeType"
+            label="Magnitude Types (B)"
+            options={magnitudeTypeOptions}
+            excluded={settings.excludedMagnitudeTypes}
+            onChange={excludedMagnitudeTypes => onChange({ ...settings, excludedMagnitudeTypes })}
+          />
+          <div className="flex items-center gap-1 text-xs text-gray-600">
+            <span className="flex-1">Period (B)</span>
+            <input
+              type="date"
+              aria-label="Start of map B's period (UTC)"
+              value={toDateInputValue(from)}
+              onChange={(e) => changeTimeRange(fromDateInputValue(e.target.value, false), to)}
+              className="w-24 text-[10px] border border-gray-300 rounded px-0.5 py-0.5 bg-white"
+            />
+            <input
+              type="date"
+              aria-label="End of map B's period (UTC)"
+              value={toDateInputValue(to)}
+              onChange={(e) => changeTimeRange(from, fromDateInputValue(e.target.value, true))}
+              className="w-24 text-[10px] border border-gray-300 rounded px-0.5 py-0.5 bg-white"
+            />
+          </div>
+          <p className="text-[10px] text-gray-500">B plays in step with A, the same share of the way through its own period, so both finish together. Drag the divider to swipe between the maps.</p>
+        </fieldset>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonControls;
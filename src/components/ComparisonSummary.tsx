@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { SideSummary, YEAR_MS, relativeChange } from '@/lib/comparison';
+import { DAY_MS } from '@/lib/playback';
+
+interface ComparisonSummaryProps {
+  a: SideSummary;
+  b: SideSummary;
+}
+
+// Signed difference with an optional percentage, e.g. "+12 (+25%)"
+const formatDifference = (a: number | null, b: number | null, digits: number) => {
+  if (a === null || b === null) return '–';
+  const difference = b - a;
+  const change = relativeChange(a, b);
+  const sign = difference > 0 ? '+' : difference < 0 ? '−' : '±';
+  const percent = change === null ? '' : ` (${change >= 0 ? '+' : '−'}${Math.abs(change * 100).toFixed(0)}%)`;
+  return `${sign}${Math.abs(difference).toFixed(digits)}${percent}`;
+};
+
+const formatNumber = (value: number | null, digits: number) =>
+  value === null ? '–' : value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// Period length in years, or days when shorter than a year
+const formatPeriod = (periodMs: number) =>
+  periodMs >= YEAR_MS ? `${(periodMs / YEAR_MS).toFixed(1)} yr` : `${Math.round(periodMs / DAY_MS)} d`;
+
+// Difference summary of comparison mode: counts, rates and mean magnitude of each map, and B relative to A
+const ComparisonSummary: React.FC<ComparisonSummaryProps> = ({ a, b }) => {
+  const rows = [
+    { label: 'Events', a: a.count, b: b.count, digits: 0 },
+    { label: 'Rate / yr', a: a.ratePerYear, b: b.ratePerYear, digits: 1 },
+    { label: 'Mean mag.', a: a.meanMagnitude, b: b.meanMagnitude, digits: 2 },
+  ];
+  return (
+    <div className="bg-white bg-opacity-80 p-3 rounded shadow-md text-xs text-gray-600 space-y-1 w-56">
+      <h3 className="text-sm font-semibold text-gray-700">Comparison</h3>
+      <table className="w-full">
+        <thead>
+          <tr className="text-gray-700">
+            <th scope="col" className="text-left font-medium"></th>
+            <th scope="col" className="text-right font-medium">A</th>
+            <th scope="col" className="text-right font-medium">B</th>
+            <th scope="col" className="text-right font-medium">B − A</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label}>
+              <th scope="row" className="text-left font-normal">{row.label}</th>
+              <td className="text-right font-medium text-gray-800">{formatNumber(row.a, row.digits)}</td>
+              <td className="text-right font-medium text-gray-800">{formatNumber(row.b, row.digits)}</td>
+              <td className="text-right text-[10px] whitespace-nowrap">{formatDifference(row.a, row.b, row.digits)}</td>
+            </tr>
+          ))}
+          <tr>
+            <th scope="row" className="text-left font-normal">Period</th>
+            <td className="text-right">{formatPeriod(a.periodMs)}</td>
+            <td className="text-right">{formatPeriod(b.periodMs)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-500">Rates are events per year over the period shown so far on each map.</p>
+    </div>
+  );
+};
+
+export default ComparisonSummary;
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { EarthquakeData } from '@/lib/catalog';
+import { CrossSectionPoint } from '@/lib/crossSection';
+import { createDepthColorScale, createMagnitudeRadiusScale } from '@/lib/scales';
+
+interface CrossSectionChartProps {
+  points: CrossSectionPoint[]; // Events inside the swath (already filtered by playback and filters)
+  lengthKm: number;
+  swathKm: number;
+  highlightedEventId: string | null; // Event hovered on the map or the chart
+  pinnedEventId: string | null;
+  onHover: (event: EarthquakeData | null) => void;
+  onSelect: (event: EarthquakeData) => void;
+  onClose: () => void;
+}
+
+// Chart dimensions (the width follows the panel)
+const CHART_HEIGHT = 170;
+const MARGIN = { top: 8, right: 12, bottom: 26, left: 40 };
+const MIN_DEPTH_AXIS_KM = 100; // The depth axis reaches at least this deep, so shallow sections aren't stretched
+
+// Distance–depth chart for the events within the swath of a profile line drawn on the map.
+// Markers use the map's depth colors and magnitude sizes; hovering and clicking are shared with the map.
+const CrossSectionChart: React.FC<CrossSectionChartProps> = ({
+  points,
+  lengthKm,
+  swathKm,
+  highlightedEventId,
+  pinnedEventId,
+  onHover,
+  onSelect,
+  onClose,
+}) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const depthColorScale = useMemo(() => createDepthColorScale(), []);
+  const radiusScale = useMemo(() => createMagnitudeRadiusScale(), []);
+  // Latest callbacks, read by D3 event handlers bound when the chart is redrawn
+  const callbacksRef = useRef({ onHover, onSelect });
+  callbacksRef.current = { onHover, onSelect };
+  const highlighted = points.find(p => p.event.id === highlightedEventId) ?? null;
+
+  // Effect 1: Redraws the axes and markers whenever the events or the profile change
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const { width } = svgRef.current.getBoundingClientRect();
+    if (width <= 0 || lengthKm <= 0) return;
+
+    const x = d3.scaleLinear()
+      .domain([0, lengthKm])
+      .range([MARGIN.left, width - MARGIN.right]);
+    // Depth increases downwards, like a geological section
+    const y = d3.scaleLinear()
+      .domain([0, Math.max(MIN_DEPTH_AXIS_KM, d3.max(points, p => p.event.depth) ?? 0)])
+      .range([MARGIN.top, CHART_HEIGHT - MARGIN.bottom])
+      .nice();
+
+    // Axes
+    svg.selectAll<SVGGElement, null>('g.x-axis')
+      .data([null])
+      .join('g')
+      .attr('class', 'x-axis')
+      .attr('transform', `translate(0,${CHART_HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(Math.max(2, Math.floor(width / 80))).tickSizeOuter(0))
+      .attr('font-size', 9);
+    svg.selectAll<SVGGElement, null>('g.y-axis')
+      .data([null])
+      .join('g')
+      .attr('class', 'y-axis')
+      .attr('transform', `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(5).tickSizeOuter(0))
+      .attr('font-size', 9);
+    svg.selectAll('text.x-label')
+      .data([null])
+      .join('text')
+      .attr('class', 'x-label')
+      .attr('x', width - MARGIN.right)
+      .attr('y', CHART_HEIGHT - 2)
+      .attr('text-anchor', 'end')
+      .attr('font-size', 9)
+      .attr('fill', '#4b5563')
+      .text('Distance along profile (km)');
+    svg.selectAll('text.y-label')
+      .data([null])
+      .join('text')
+      .attr('class', 'y-label')
+      .attr('transform', `translate(10,${MARGIN.top}) rotate(-90)`)
+      .attr('text-anchor', 'end')
+      .attr('font-size', 9)
+      .attr('fill', '#4b5563')
+      .text('Depth (km)');
+
+    // Profile ends, labelled as on the map
+    svg.selectAll('text.profile-end')
+      .data([{ label: 'A', distance: 0 }, { label: 'B', distance: lengthKm }])
+      .join('text')
+      .attr('class', 'profile-end')
+      .attr('x', d => x(d.distance))
+      .attr('y', MARGIN.top + 8)
+      .attr('text-anchor', d => d.distance === 0 ? 'start' : 'end')
+      .attr('dx', d => d.distance === 0 ? 3 : -3)
+      .attr('font-size', 10)
+      .attr('font-weight', 600)
+      .attr('fill', '#1d4ed8')
+      .text(d => d.label);
+
+    // Events, keyed by ID; the same radius scale as the map so magnitudes read alike
+    svg.selectAll('g.events')
+      .data([null])
+      .join('g')
+      .attr('class', 'events')
+      .selectAll<SVGCircleElement, CrossSectionPoint>('circle')
+      .data(points, p => p.event.id)
+      .join('circle')
+      .attr('cx', p => x(p.distanceKm))
+      .attr('cy', p => y(p.event.depth))
+      .attr('r', p => Math.max(1, isNaN(p.event.magnitude) ? 1 : radiusScale(p.event.magnitude)))
+      .attr('fill', p => depthColorScale(p.event.depth))
+      .attr('fill-opacity', 0.7)
+      .attr('stroke', '#333')
+      .attr('stroke-width', 0.5)
+      .style('cursor', 'pointer')
+      .on('mouseover', (_event, p) => callbacksRef.current.onHover(p.event))
+      .on('mouseout', () => callbacksRef.current.onHover(null))
+      .on('click', (_event, p) => callbacksRef.current.onSelect(p.event));
+
+    // Rings for the highlighted and pinned events, drawn over every marker
+    const rings = [
+      ...points.filter(p => p.event.id === pinnedEventId).map(p => ({ point: p, pinned: true })),
+      ...points.filter(p => p.event.id === highlightedEventId).map(p => ({ point: p, pinned: false })),
+    ];
+    svg.selectAll('g.rings')
+      .data([null])
+      .join('g')
+      .attr('class', 'rings')
+      .attr('pointer-events', 'none')
+      .selectAll('circle')
+      .data(rings)
+      .join('circle')
+      .attr('cx', d => x(d.point.distanceKm))
+      .attr('cy', d => y(d.point.event.depth))
+      .attr('r', d => Math.max(1, radiusScale(d.point.event.magnitude)) + 3)
+      .attr('fill', 'none')
+      .attr('stroke', d => d.pinned ? '#111827' : '#f59e0b')
+      .attr('stroke-width', 2);
+  }, [points, lengthKm, highlightedEventId, pinnedEventId, depthColorScale, radiusScale]);
+
+  return (
+    <div className="bg-white bg-opacity-90 rounded shadow-md p-2 text-xs text-gray-600">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-gray-700">
+          Cross-section A–B: {Math.round(lengthKm).toLocaleString()} km, swath {swathKm} km
+        </span>
+        <span className="truncate">
+          {highlighted
+            ? `M${highlighted.event.magnitude.toFixed(1)} at ${highlighted.event.depth.toFixed(0)} km depth, ${Math.round(highlighted.distanceKm)} km from A`
+            : `${points.length.toLocaleString()} events`}
+        </span>
+        <button type="button" onClick={onClose} className="text-blue-600 hover:underline whitespace-nowrap">
+          Clear profile
+        </button>
+      </div>
+      <svg ref={svgRef} width="100%" height={CHART_HEIGHT} aria-label="Depth cross-section along the profile"></svg>
+    </div>
+  );
+};
+
+export default CrossSectionChart;
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { SWATH_WIDTH_OPTIONS_KM } from '@/lib/crossSection';
+
+interface CrossSectionControlsProps {
+  hasProfile: boolean;
+  drawing: boolean; // The profile tool is active on the map
+  swathKm: number;
+  onDrawingChange: (drawing: boolean) => void;
+  onSwathChange: (swathKm: number) => void;
+  onClear: () => void;
+}
+
+// Tool for drawing a depth profile line on the map, and the width of the swath plotted along it
+const CrossSectionControls: React.FC<CrossSectionControlsProps> = ({
+  hasProfile,
+  drawing,
+  swathKm,
+  onDrawingChange,
+  onSwathChange,
+  onClear,
+}) => (
+  <div className="space-y-1">
+    <span className="block text-xs font-medium text-gray-600">Depth Cross-Section</span>
+    {drawing ? (
+      <div className="text-[10px] text-gray-600">
+        Drag on the map from A to B to draw the profile line. Esc cancels.{' '}
+        <button type="button" onClick={() => onDrawingChange(false)} className="text-blue-600 hover:underline">Cancel</button>
+      </div>
+    ) : (
+      <div className="flex gap-1">
+        <button type="button" onClick={() => onDrawingChange(true)} className="flex-1 px-2 py-0.5 text-xs rounded bg-gray-200 hover:bg-gray-300">
+          {hasProfile ? 'Redraw profile' : 'Draw profile'}
+        </button>
+        {hasProfile && (
+          <button type="button" onClick={onClear} className="px-2 py-0.5 text-xs rounded bg-gray-200 hover:bg-gray-300">
+            Clear
+          </button>
+        )}
+      </div>
+    )}
+    <label className="flex items-center justify-between text-xs text-gray-600">
+      Swath width
+      <select
+        value={swathKm}
+        onChange={(e) => onSwathChange(Number(e.target.value))}
+        className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+      >
+        {SWATH_WIDTH_OPTIONS_KM.map(km => <option key={km} value={km}>{km} km</option>)}
+      </select>
+    </label>
+  </div>
+);
+
+export default CrossSectionControls;
@@ -0,0 +1,193 @@
+'use client';
+
+import React from 'react';
+import { formatDistanceStrict } from 'date-fns';
+import { EarthquakeData } from '@/lib/catalog';
+import { NearestPlace } from '@/lib/geo';
+import { NEARBY_RADIUS_OPTIONS_KM, NEARBY_WINDOW_OPTIONS_DAYS, NearbyEvent } from '@/lib/nearby';
+import { SequenceSummary } from '@/lib/declustering';
+
+// Maximum number of nearby events listed; the heading always shows the full count
+const MAX_LISTED_NEARBY = 100;
+
+// Every catalog field, labelled with its CSV column name, in catalog order
+const CATALOG_FIELDS: { label: string; value: (d: EarthquakeData) => string | number | null }[] = [
+  { label: 'ID', value: d => d.id },
+  { label: 'Type', value: d => d.type },
+  { label: 'Latitude', value: d => d.latitude },
+  { label: 'Longitude', value: d => d.longitude },
+  { label: 'Depth (km)', value: d => d.depth },
+  { label: 'Depth Error', value: d => d.depthError },
+  { label: 'Depth Seismic Stations', value: d => d.depthSeismicStations },
+  { label: 'Magnitude', value: d => d.magnitude },
+  { label: 'Magnitude Type', value: d => d.magnitudeType },
+  { label: 'Magnitude Error', value: d => d.magnitudeError },
+  { label: 'Magnitude Seismic Stations', value: d => d.magnitudeSeismicStations },
+  { label: 'Azimuthal Gap', value: d => d.azimuthalGap },
+  { label: 'Horizontal Distance', value: d => d.horizontalDistance },
+  { label: 'Horizontal Error', value: d => d.horizontalError },
+  { label: 'Root Mean Square', value: d => d.rootMeanSquare },
+  { label: 'Source', value: d => d.source },
+  { label: 'Location Source', value: d => d.locationSource },
+  { label: 'Magnitude Source', value: d => d.magnitudeSource },
+  { label: 'Status', value: d => d.status },
+];
+
+// Absolute time in UTC, e.g. "2011-03-11 05:46:24 UTC"
+const formatUtc = (time: number) => `${new Date(time).toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+
+// Signed time difference in words, e.g. "3 days before" / "2 hours after"
+const formatOffset = (offsetMs: number) => offsetMs === 0
+  ? 'same time'
+  : `${formatDistanceStrict(0, Math.abs(offsetMs))} ${offsetMs < 0 ? 'before' : 'after'}`;
+
+interface EventDetailPanelProps {
+  event: EarthquakeData;
+  playheadTime: number;
+  nearestPlace: NearestPlace | null; // null until the base map has loaded
+  nearby: NearbyEvent[];
+  sequence: SequenceSummary | null; // Declustered mainshock/aftershock sequence the event belongs to
+  radiusKm: number;
+  windowDays: number;
+  onRadiusChange: (radiusKm: number) => void;
+  onWindowChange: (windowDays: number) => void;
+  onSelect: (event: EarthquakeData) => void; // Pins another event, e.g. one from the nearby list
+  onClose: () => void;
+}
+
+// Side panel for a pinned event: every catalog field, where and when it happened, and the events around it
+const EventDetailPanel: React.FC<EventDetailPanelProps> = ({
+  event,
+  playheadTime,
+  nearestPlace,
+  nearby,
+  sequence,
+  radiusKm,
+  windowDays,
+  onRadiusChange,
+  onWindowChange,
+  onSelect,
+  onClose,
+}) => {
+  const foreshockCount = nearby.filter(n => n.offsetMs < 0).length;
+
+  return (
+    <div className="bg-white bg-opacity-90 p-3 rounded shadow-md text-xs text-gray-600 space-y-2 w-64 max-h-[calc(100vh-12rem)] overflow-y-auto">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-700">
+          M{event.magnitude.toFixed(1)} {event.type}
+        </h3>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Unpin event">✕</button>
+      </div>
+
+      {/* Where and when */}
+      <dl className="space-y-0.5">
+        <div>
+          <dt className="inline font-medium text-gray-700">Nearest country: </dt>
+          <dd className="inline">
+            {!nearestPlace ? '–' : nearestPlace.inside
+              ? nearestPlace.name
+              : `${nearestPlace.name} (≈${Math.round(nearestPlace.distanceKm).toLocaleString()} km away)`}
+          </dd>
+        </div>
+        <div>
+          <dt className="inline font-medium text-gray-700">Time: </dt>
+          <dd className="inline">{formatUtc(event.time)}</dd>
+        </div>
+        <div>
+          <dt className="inline font-medium text-gray-700">Relative to playhead: </dt>
+          <dd className="inline">{formatOffset(event.time - playheadTime)}</dd>
+        </div>
+      </dl>
+
+      {/* All catalog fields; missing values are shown as a dash */}
+      <details>
+        <summary className="cursor-pointer font-medium text-gray-700">Catalog fields</summary>
+        <dl className="mt-1 grid grid-cols-2 gap-x-2 gap-y-0.5 text-[10px]">
+          {CATALOG_FIELDS.map(field => {
+            const value = field.value(event);
+            return (
+              <React.Fragment key={field.label}>
+                <dt>{field.label}</dt>
+                <dd className="text-right text-gray-800 break-all">{value ?? '–'}</dd>
+              </React.Fragment>
+            );
+          })}
+        </dl>
+      </details>
+
+      {/* Mainshock/aftershock sequence from the catalog's declustering */}
+      {sequence && (
+        <div className="border-t pt-2 space-y-0.5">
+          <div className="font-medium text-gray-700">Sequence (Gardner–Knopoff)</div>
+          {sequence.role === 'mainshock' ? (
+            <p>
+              {sequence.events.length > 1
+                ? `Mainshock: ${sequence.foreshockCount.toLocaleString()} foreshocks and ${sequence.aftershockCount.toLocaleString()} aftershocks, ringed in violet on the map.`
+                : 'Independent event: no foreshocks or aftershocks within its window.'}
+            </p>
+          ) : (
+            <p>
+              {sequence.role === 'foreshock' ? 'Foreshock' : 'Aftershock'} of{' '}
+              <button type="button" onClick={() => onSelect(sequence.mainshock)} className="text-blue-600 hover:underline">
+                M{sequence.mainshock.magnitude.toFixed(1)} on {formatUtc(sequence.mainshock.time).slice(0, 10)}
+              </button>
+              , one of {sequence.events.length.toLocaleString()} events in its sequence.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Nearby events: possible foreshocks (before) and aftershocks (after) */}
+      <div className="border-t pt-2 space-y-1">
+        <div className="font-medium text-gray-700">Nearby events</div>
+        <div className="flex items-center gap-1">
+          <label htmlFor="nearbyRadius" className="sr-only">Search radius</label>
+          <select
+            id="nearbyRadius"
+            value={radiusKm}
+            onChange={(e) => onRadiusChange(Number(e.target.value))}
+            className="flex-1 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+          >
+            {NEARBY_RADIUS_OPTIONS_KM.map(km => <option key={km} value={km}>within {km} km</option>)}
+          </select>
+          <label htmlFor="nearbyWindow" className="sr-only">Time window</label>
+          <select
+            id="nearbyWindow"
+            value={windowDays}
+            onChange={(e) => onWindowChange(Number(e.target.value))}
+            className="flex-1 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+          >
+            {NEARBY_WINDOW_OPTIONS_DAYS.map(days => <option key={days} value={days}>±{days} {days === 1 ? 'day' : 'days'}</option>)}
+          </select>
+        </div>
+        <div className="text-[10px]">
+          {nearby.length.toLocaleString()} events: {foreshockCount.toLocaleString()} before, {(nearby.length - foreshockCount).toLocaleString()} after
+        </div>
+        {nearby.length > 0 && (
+          <ul className="space-y-0.5 text-[10px]">
+            {nearby.slice(0, MAX_LISTED_NEARBY).map(n => (
+              <li key={n.event.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(n.event)}
+                  className="w-full flex justify-between gap-1 text-left hover:bg-gray-100 rounded px-0.5"
+                  title={`Pin ${n.event.id}`}
+                >
+                  <span className="font-medium text-gray-800">M{n.event.magnitude.toFixed(1)}</span>
+                  <span className="flex-1">{formatOffset(n.offsetMs)}</span>
+                  <span>{Math.round(n.distanceKm)} km</span>
+                </button>
+              </li>
+            ))}
+            {nearby.length > MAX_LISTED_NEARBY && (
+              <li className="text-gray-500">…and {(nearby.length - MAX_LISTED_NEARBY).toLocaleString()} more</li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventDetailPanel;
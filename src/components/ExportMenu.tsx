@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+
+// Downloadable formats: the selected events as data, or the map as an image
+export type EventExportFormat = 'csv' | 'geojson';
+export type MapExportFormat = 'svg' | 'png';
+
+interface ExportMenuProps {
+  eventCount: number; // Events passing the filters at the playhead
+  disabled: boolean; // Nothing to export until the map and catalog have loaded
+  error: string | null; // Last export failure, if any
+  onExportEvents: (format: EventExportFormat) => void;
+  onExportMap: (format: MapExportFormat) => void;
+}
+
+const BUTTON_CLASS = 'px-2 py-0.5 rounded bg-gray-200 hover:bg-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed';
+
+// Export buttons for the current selection (CSV/GeoJSON) and the map as drawn (SVG/PNG)
+const ExportMenu: React.FC<ExportMenuProps> = ({ eventCount, disabled, error, onExportEvents, onExportMap }) => (
+  <div className="border-t pt-3 space-y-1 text-xs text-gray-600">
+    <div className="font-medium">Export</div>
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="w-full">Events ({eventCount.toLocaleString()}):</span>
+      <button type="button" onClick={() => onExportEvents('csv')} disabled={disabled || eventCount === 0} className={BUTTON_CLASS}>CSV</button>
+      <button type="button" onClick={() => onExportEvents('geojson')} disabled={disabled || eventCount === 0} className={BUTTON_CLASS}>GeoJSON</button>
+    </div>
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="w-full">Map with legend:</span>
+      <button type="button" onClick={() => onExportMap('svg')} disabled={disabled} className={BUTTON_CLASS}>SVG</button>
+      <button type="button" onClick={() => onExportMap('png')} disabled={disabled} className={BUTTON_CLASS}>PNG</button>
+    </div>
+    {error && <p className="text-red-600">{error}</p>}
+  </div>
+);
+
+export default ExportMenu;
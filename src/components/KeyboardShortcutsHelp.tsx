@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { KeyboardShortcut, MAP_SHORTCUTS, PLAYBACK_SHORTCUTS, keyLabel } from '@/lib/keyboardShortcuts';
+
+interface KeyboardShortcutsHelpProps {
+  id: string; // Referenced by the map's aria-describedby
+}
+
+interface ShortcutListProps {
+  title: string;
+  shortcuts: KeyboardShortcut<string>[];
+}
+
+// One group of shortcuts: keys on the left, what they do on the right
+const ShortcutList: React.FC<ShortcutListProps> = ({ title, shortcuts }) => (
+  <div className="mt-1">
+    <span className="block font-medium text-gray-700">{title}</span>
+    <dl className="grid grid-cols-[auto_1fr] gap-x-2">
+      {shortcuts.map(shortcut => (
+        <React.Fragment key={shortcut.command}>
+          <dt>
+            {shortcut.keys.map(key => (
+              <kbd key={key} className="mr-0.5 px-1 rounded border border-gray-300 bg-gray-50 font-mono text-[10px]">{keyLabel(key)}</kbd>
+            ))}
+          </dt>
+          <dd>{shortcut.label}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  </div>
+);
+
+// Collapsible list of the playback and map keyboard shortcuts
+const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({ id }) => (
+  <details id={id} className="text-xs text-gray-600">
+    <summary className="cursor-pointer font-medium">Keyboard shortcuts</summary>
+    <ShortcutList title="Playback (anywhere)" shortcuts={PLAYBACK_SHORTCUTS} />
+    <ShortcutList title="Map (focus it with Tab)" shortcuts={MAP_SHORTCUTS} />
+  </details>
+);
+
+export default KeyboardShortcutsHelp;
@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { MAX_DEPTH_KM, MIN_DEPTH_KM, createDepthColorScale, createMagnitudeRadiusScale } from '@/lib/scales';
+import { SYMBOL_EVENT_TYPES, eventSymbolPath } from '@/lib/markers';
+import { AggregateLegend } from '@/lib/aggregation';
+
+interface LegendProps {
+  aggregate?: AggregateLegend | null; // Color ramp of an aggregated layer mode, shown instead of the marker legend
+  note?: string; // Extra line under the legend, e.g. how clusters work
+}
+
+// Magnitudes shown as sample circles
+const LEGEND_MAGNITUDES = [4, 5, 6, 7, 8];
+// Number of color stops sampled from the depth scale for the gradient bar
+const GRADIENT_STOPS = 10;
+
+// Depth/magnitude legend generated from the same scale factories the map renderers use
+const Legend: React.FC<LegendProps> = ({ aggregate = null, note }) => {
+  const depthColorScale = useMemo(() => createDepthColorScale(), []);
+  const magnitudeRadiusScale = useMemo(() => createMagnitudeRadiusScale(), []);
+  const maxRadius = magnitudeRadiusScale(LEGEND_MAGNITUDES[LEGEND_MAGNITUDES.length - 1]);
+  const depthTicks = d3.ticks(MIN_DEPTH_KM, MAX_DEPTH_KM, 4);
+
+  if (aggregate) {
+    return (
+      <div className="bg-white bg-opacity-80 p-3 rounded shadow-md text-[10px] text-gray-600 space-y-1">
+        <div className="font-semibold text-gray-700">{aggregate.title}</div>
+        <svg width={160} height={10} aria-label={`${aggregate.title} color scale`}>
+          <defs>
+            <linearGradient id="legend-aggregate-gradient">
+              {Array.from({ length: GRADIENT_STOPS + 1 }, (_, i) => (
+                <stop key={i} offset={`${(i / GRADIENT_STOPS) * 100}%`} stopColor={aggregate.interpolator(i / GRADIENT_STOPS)} />
+              ))}
+            </linearGradient>
+          </defs>
+          <rect x={5} y={0} width={150} height={8} fill="url(#legend-aggregate-gradient)" opacity={0.8} />
+        </svg>
+        <div className="flex justify-between px-1">
+          <span>{aggregate.labels[0]}</span>
+          <span>{aggregate.labels[1]}</span>
+        </div>
+        {note && <p className="w-40">{note}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white bg-opacity-80 p-3 rounded shadow-md text-[10px] text-gray-600 space-y-2">
+      {/* Depth color scale */}
+      <div>
+        <div className="font-semibold text-gray-700 mb-1">Depth (km)</div>
+        <svg width={160} height={22} aria-label="Depth color scale">
+          <defs>
+            <linearGradient id="legend-depth-gradient">
+              {Array.from({ length: GRADIENT_STOPS + 1 }, (_, i) => {
+                const t = i / GRADIENT_STOPS;
+                return (
+                  <stop
+                    key={i}
+                    offset={`${t * 100}%`}
+                    stopColor={depthColorScale(MIN_DEPTH_KM + t * (MAX_DEPTH_KM - MIN_DEPTH_KM))}
+                  />
+                );
+              })}
+            </linearGradient>
+          </defs>
+          <rect x={5} y={0} width={150} height={8} fill="url(#legend-depth-gradient)" opacity={0.7} />
+          {depthTicks.map(tick => {
+            const x = 5 + ((tick - MIN_DEPTH_KM) / (MAX_DEPTH_KM - MIN_DEPTH_KM)) * 150;
+            return (
+              <g key={tick} transform={`translate(${x},0)`}>
+                <line y1={8} y2={11} stroke="#6b7280" />
+                <text y={20} textAnchor="middle" fill="currentColor">{tick}</text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {/* Magnitude radius scale */}
+      <div>
+        <div className="font-semibold text-gray-700 mb-1">Magnitude</div>
+        <svg width={160} height={maxRadius * 2 + 14} aria-label="Magnitude size scale">
+          {LEGEND_MAGNITUDES.map((magnitude, i) => {
+            const x = 12 + i * 34;
+            const r = magnitudeRadiusScale(magnitude);
+            return (
+              <g key={magnitude} transform={`translate(${x},${maxRadius})`}>
+                <circle r={r} fill="#9ca3af" fillOpacity={0.7} stroke="#333" strokeWidth={0.5} />
+                <text y={maxRadius + 11} textAnchor="middle" fill="currentColor">{magnitude}</text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {/* Marker shapes for non-earthquake events */}
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {SYMBOL_EVENT_TYPES.map(type => (
+          <span key={type} className="flex items-center gap-1">
+            <svg width={12} height={12} aria-hidden="true">
+              <path d={eventSymbolPath(type, 5)} transform="translate(6,6)" fill="#9ca3af" stroke="#000" />
+            </svg>
+            {type}
+          </span>
+        ))}
+      </div>
+      {note && <p className="w-40">{note}</p>}
+    </div>
+  );
+};
+
+export default Legend;
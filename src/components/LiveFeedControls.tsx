@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { LIVE_FEED_INTERVAL_OPTIONS_S, LIVE_FEED_PRESETS, LiveFeedChanges } from '@/lib/liveFeed';
+
+interface LiveFeedControlsProps {
+  enabled: boolean;
+  url: string;
+  intervalS: number;
+  lastPollAt: number | null; // Real time of the last successful poll
+  lastChanges: LiveFeedChanges | null;
+  error: string | null;
+  onEnabledChange: (enabled: boolean) => void;
+  onUrlChange: (url: string) => void;
+  onIntervalChange: (intervalS: number) => void;
+}
+
+// Live mode toggle, feed URL (a preset or any USGS-compatible GeoJSON URL), poll interval and poll status
+const LiveFeedControls: React.FC<LiveFeedControlsProps> = ({
+  enabled,
+  url,
+  intervalS,
+  lastPollAt,
+  lastChanges,
+  error,
+  onEnabledChange,
+  onUrlChange,
+  onIntervalChange,
+}) => (
+  <div className="border-t pt-3 space-y-1 text-xs text-gray-600">
+    <div className="flex items-center">
+      <input
+        type="checkbox"
+        id="liveFeedToggle"
+        checked={enabled}
+        onChange={(e) => onEnabledChange(e.target.checked)}
+        className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded"
+      />
+      <label htmlFor="liveFeedToggle" className="ml-2 font-medium">
+        Live feed{enabled && <span className="ml-1 text-red-600">●</span>}
+      </label>
+    </div>
+    <select
+      aria-label="Feed preset"
+      value={LIVE_FEED_PRESETS.some(p => p.url === url) ? url : ''}
+      onChange={(e) => onUrlChange(e.target.value)}
+      className="w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+    >
+      {LIVE_FEED_PRESETS.map(preset => <option key={preset.url} value={preset.url}>{preset.label}</option>)}
+      <option value="" disabled>Custom URL (below)</option>
+    </select>
+    {/* Committed on blur or Enter, so a half-typed URL is never polled */}
+    <input
+      key={url}
+      type="url"
+      aria-label="Feed URL"
+      defaultValue={url}
+      onBlur={(e) => e.target.value.trim() && onUrlChange(e.target.value.trim())}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className="w-full text-xs border border-gray-300 rounded px-1 py-0.5"
+    />
+    <label className="flex items-center justify-between">
+      Poll every
+      <select
+        value={intervalS}
+        onChange={(e) => onIntervalChange(Number(e.target.value))}
+        className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+      >
+        {LIVE_FEED_INTERVAL_OPTIONS_S.map(s => <option key={s} value={s}>{s < 60 ? `${s} s` : `${s / 60} min`}</option>)}
+      </select>
+    </label>
+    {enabled && lastPollAt !== null && (
+      <p>
+        Updated {format(lastPollAt, 'HH:mm:ss')}
+        {lastChanges && ` · last change: ${lastChanges.added.toLocaleString()} new, ${lastChanges.updated.toLocaleString()} revised`}
+      </p>
+    )}
+    {enabled && error && <p className="text-red-600">{error}</p>}
+  </div>
+);
+
+export default LiveFeedControls;
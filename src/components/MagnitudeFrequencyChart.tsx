@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { MagnitudeFrequencyBin } from '@/lib/stats';
+
+interface MagnitudeFrequencyChartProps {
+  bins: MagnitudeFrequencyBin[];
+  completenessMagnitude: number | null;
+}
+
+// Chart dimensions
+const WIDTH = 200;
+const HEIGHT = 110;
+const MARGIN = { top: 6, right: 6, bottom: 20, left: 30 };
+
+// Gutenberg–Richter mini chart: cumulative N(≥M) on a log axis, with non-cumulative counts as bars
+const MagnitudeFrequencyChart: React.FC<MagnitudeFrequencyChartProps> = ({ bins, completenessMagnitude }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  // Effect 1: Redraws the chart whenever the distribution changes
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    if (bins.length === 0) {
+      svg.selectAll('*').remove();
+      return;
+    }
+
+    const [minMagnitude, maxMagnitude] = d3.extent(bins, b => b.magnitude) as [number, number];
+    const x = d3.scaleLinear()
+      .domain([minMagnitude, maxMagnitude + 0.1])
+      .range([MARGIN.left, WIDTH - MARGIN.right]);
+    const y = d3.scaleLog()
+      .domain([1, Math.max(10, bins[0].cumulativeCount)])
+      .range([HEIGHT - MARGIN.bottom, MARGIN.top])
+      .nice();
+
+    // Non-cumulative counts as faint bars
+    svg.selectAll('g.bars')
+      .data([null])
+      .join('g')
+      .attr('class', 'bars')
+      .selectAll('rect')
+      .data(bins)
+      .join('rect')
+      .attr('x', b => x(b.magnitude))
+      .attr('width', b => Math.max(0.5, x(b.magnitude + 0.1) - x(b.magnitude) - 0.5))
+      .attr('y', b => y(b.count))
+      .attr('height', b => y(1) - y(b.count))
+      .attr('fill', '#d1d5db');
+
+    // Cumulative counts as points joined by a line
+    svg.selectAll('path.cumulative')
+      .data([bins])
+      .join('path')
+      .attr('class', 'cumulative')
+      .attr('fill', 'none')
+      .attr('stroke', '#1d4ed8')
+      .attr('stroke-width', 1.2)
+      .attr('d', d3.line<MagnitudeFrequencyBin>()
+        .x(b => x(b.magnitude))
+        .y(b => y(b.cumulativeCount)));
+
+    // Completeness magnitude marker
+    svg.selectAll('line.mc')
+      .data(completenessMagnitude === null ? [] : [completenessMagnitude])
+      .join('line')
+      .attr('class', 'mc')
+      .attr('x1', m => x(m))
+      .attr('x2', m => x(m))
+      .attr('y1', MARGIN.top)
+      .attr('y2', HEIGHT - MARGIN.bottom)
+      .attr('stroke', '#dc2626')
+      .attr('stroke-dasharray', '2 2');
+
+    // Axes
+    svg.selectAll<SVGGElement, null>('g.x-axis')
+      .data([null])
+      .join('g')
+      .attr('class', 'x-axis')
+      .attr('transform', `translate(0,${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(5).tickSizeOuter(0))
+      .attr('font-size', 8);
+    svg.selectAll<SVGGElement, null>('g.y-axis')
+      .data([null])
+      .join('g')
+      .attr('class', 'y-axis')
+      .attr('transform', `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(3, '~s').tickSizeOuter(0))
+      .attr('font-size', 8);
+  }, [bins, completenessMagnitude]);
+
+  return <svg ref={svgRef} width={WIDTH} height={HEIGHT} aria-label="Magnitude-frequency distribution"></svg>;
+};
+
+export default MagnitudeFrequencyChart;
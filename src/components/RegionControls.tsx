@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { LonLat, Region } from '@/lib/regions';
+
+// Shape the user is currently drawing on the map, if any
+export type RegionDrawMode = 'polygon' | 'rectangle' | null;
+
+interface RegionControlsProps {
+  regions: Region[]; // Predefined regions followed by the user's saved ones
+  selectedRegionId: string | null;
+  drawMode: RegionDrawMode;
+  pendingPolygon: LonLat[] | null; // A finished drawing waiting to be named and saved
+  onSelect: (regionId: string | null) => void;
+  onDrawModeChange: (mode: RegionDrawMode) => void;
+  onSavePending: (name: string) => void;
+  onDiscardPending: () => void;
+  onDelete: (regionId: string) => void;
+}
+
+// Hints shown while drawing
+const DRAW_HINTS: Record<'polygon' | 'rectangle', string> = {
+  polygon: 'Click to add points; double-click or click the first point to finish. Esc cancels.',
+  rectangle: 'Drag on the map to draw a rectangle. Esc cancels.',
+};
+
+// Region focus dropdown plus the tools for drawing, saving and deleting custom regions
+const RegionControls: React.FC<RegionControlsProps> = ({
+  regions,
+  selectedRegionId,
+  drawMode,
+  pendingPolygon,
+  onSelect,
+  onDrawModeChange,
+  onSavePending,
+  onDiscardPending,
+  onDelete,
+}) => {
+  const [pendingName, setPendingName] = useState<string>('');
+  const selectedRegion = regions.find(r => r.id === selectedRegionId) ?? null;
+  const predefined = regions.filter(r => !r.custom);
+  const custom = regions.filter(r => r.custom);
+
+  // Save the pending drawing under the typed name (or a numbered default)
+  const save = () => {
+    onSavePending(pendingName.trim() || `Custom region ${custom.length + 1}`);
+    setPendingName('');
+  };
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor="region" className="block text-xs font-medium text-gray-600">Region</label>
+      <div className="flex items-center gap-1">
+        <select
+          id="region"
+          value={selectedRegionId ?? ''}
+          onChange={(e) => onSelect(e.target.value === '' ? null : e.target.value)}
+          className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+        >
+          <option value="">Whole world</option>
+          <optgroup label="Tectonic regions">
+            {predefined.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </optgroup>
+          {custom.length > 0 && (
+            <optgroup label="My regions">
+              {custom.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {selectedRegion?.custom && (
+          <button
+            type="button"
+            onClick={() => onDelete(selectedRegion.id)}
+            className="text-[10px] text-red-600 hover:underline"
+            title="Delete this region"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {pendingPolygon ? (
+        // Name and save a finished drawing
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={pendingName}
+            onChange={(e) => setPendingName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+            placeholder="Region name"
+            aria-label="New region name"
+            className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-1 py-0.5"
+            autoFocus
+          />
+          <button type="button" onClick={save} className="px-2 py-0.5 text-xs rounded bg-blue-500 hover:bg-blue-600 text-white">Save</button>
+          <button type="button" onClick={onDiscardPending} className="px-2 py-0.5 text-xs rounded bg-gray-200 hover:bg-gray-300">Discard</button>
+        </div>
+      ) : drawMode ? (
+        <div className="text-[10px] text-gray-600">
+          {DRAW_HINTS[drawMode]}{' '}
+          <button type="button" onClick={() => onDrawModeChange(null)} className="text-blue-600 hover:underline">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex gap-1">
+          <button type="button" onClick={() => onDrawModeChange('polygon')} className="flex-1 px-2 py-0.5 text-xs rounded bg-gray-200 hover:bg-gray-300">
+            Draw polygon
+          </button>
+          <button type="button" onClick={() => onDrawModeChange('rectangle')} className="flex-1 px-2 py-0.5 text-xs rounded bg-gray-200 hover:bg-gray-300">
+            Draw rectangle
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionControls;
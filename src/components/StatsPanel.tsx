@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { SelectionStats } from '@/lib/stats';
+import { createDepthColorScale } from '@/lib/scales';
+import MagnitudeFrequencyChart from './MagnitudeFrequencyChart';
+
+interface StatsPanelProps {
+  stats: SelectionStats;
+}
+
+// Live statistics for the events currently selected by playback and filters
+const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
+  const depthColorScale = useMemo(() => createDepthColorScale(), []);
+  const formatMagnitude = (m: number | null) => (m === null ? '–' : m.toFixed(2));
+
+  return (
+    <div className="bg-white bg-opacity-80 p-3 rounded shadow-md text-xs text-gray-600 space-y-2 w-56">
+      <h3 className="text-sm font-semibold text-gray-700">Statistics</h3>
+      <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+        <dt>Displayed</dt>
+        <dd className="text-right font-medium text-gray-800">{stats.count.toLocaleString()}</dd>
+        <dt>Mean magnitude</dt>
+        <dd className="text-right font-medium text-gray-800">{formatMagnitude(stats.meanMagnitude)}</dd>
+        <dt>Max magnitude</dt>
+        <dd className="text-right font-medium text-gray-800">{formatMagnitude(stats.maxMagnitude)}</dd>
+        <dt>Most active region</dt>
+        <dd className="text-right font-medium text-gray-800 truncate" title={stats.mostActiveRegion?.name}>
+          {stats.mostActiveRegion ? `${stats.mostActiveRegion.name} (${stats.mostActiveRegion.count.toLocaleString()})` : '–'}
+        </dd>
+      </dl>
+
+      {/* Depth distribution as a stacked bar, colored at each class's midpoint depth */}
+      <div>
+        <div className="font-medium text-gray-700 mb-1">Depth distribution</div>
+        <div className="flex h-2 w-full overflow-hidden rounded bg-gray-200">
+          {stats.count > 0 && stats.depthCounts.map(c => (
+            <div
+              key={c.label}
+              style={{
+                width: `${(c.count / stats.count) * 100}%`,
+                backgroundColor: depthColorScale(Number.isFinite(c.max) ? (c.min + c.max) / 2 : c.min + 200),
+                opacity: 0.7,
+              }}
+              title={`${c.label}: ${c.count.toLocaleString()}`}
+            />
+          ))}
+        </div>
+        <ul className="mt-1 space-y-0.5 text-[10px]">
+          {stats.depthCounts.map(c => (
+            <li key={c.label} className="flex justify-between">
+              <span>{c.label} ({Number.isFinite(c.max) ? `${c.min}–${c.max}` : `≥${c.min}`} km)</span>
+              <span>{c.count.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Gutenberg–Richter magnitude-frequency distribution */}
+      <div>
+        <div className="font-medium text-gray-700">Magnitude–frequency</div>
+        <MagnitudeFrequencyChart bins={stats.magnitudeFrequency} completenessMagnitude={stats.completenessMagnitude} />
+        <div className="text-[10px]">
+          Mc ≈ {stats.completenessMagnitude?.toFixed(1) ?? '–'}, b ≈ {formatMagnitude(stats.bValue)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { EarthquakeData } from '@/lib/catalog';
+import { TimeRange } from '@/lib/playback';
+
+interface TimelineProps {
+  events: EarthquakeData[]; // Events to count in the histogram (already filtered)
+  domain: TimeRange; // Time span covered by the strip, normally the whole catalog
+  timeRange: TimeRange | null; // Brushed date range, or null for the whole catalog
+  playheadTime: number;
+  onTimeRangeChange: (range: TimeRange | null) => void;
+  onPlayheadChange: (time: number) => void;
+}
+
+// Layout constants for the timeline strip
+const TIMELINE_HEIGHT = 80;
+const MARGIN = { top: 8, right: 16, bottom: 18, left: 16 };
+// Brushed ranges snap to UTC days, so they are displayed in UTC as well
+const formatDay = d3.utcFormat('%Y-%m-%d');
+const formatMonth = d3.utcFormat('%b %Y');
+
+// Timeline strip: per-month event histogram, a d3-brush for selecting a date range, and a draggable playhead
+const Timeline: React.FC<TimelineProps> = ({ events, domain, timeRange, playheadTime, onTimeRangeChange, onPlayheadChange }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  // Time scale shared by the histogram, brush and playhead, kept in a ref so the playhead effect can reuse it
+  const xScaleRef = useRef<d3.ScaleTime<number, number> | null>(null);
+  const brushRef = useRef<d3.BrushBehavior<null> | null>(null);
+  // Latest callbacks, read by D3 event handlers that are only bound when the histogram is redrawn
+  const callbacksRef = useRef({ onTimeRangeChange, onPlayheadChange });
+  callbacksRef.current = { onTimeRangeChange, onPlayheadChange };
+
+  // Effect 1: Draws the histogram, axis, brush and playhead handle whenever the event set changes
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const { width } = svgRef.current.getBoundingClientRect();
+    if (width <= 0 || domain[1] <= domain[0]) return;
+
+    const innerBottom = TIMELINE_HEIGHT - MARGIN.bottom;
+
+    // Monthly bins spanning the whole domain
+    const start = d3.utcMonth.floor(new Date(domain[0]));
+    const end = d3.utcMonth.offset(d3.utcMonth.floor(new Date(domain[1])), 1);
+    const x = d3.scaleUtc().domain([start, end]).range([MARGIN.left, width - MARGIN.right]);
+    xScaleRef.current = x;
+    const bins = d3.bin<EarthquakeData, Date>()
+      .value(d => new Date(d.time))
+      .domain([start, end])
+      .thresholds(d3.utcMonths(start, end))(events);
+    const y = d3.scaleLinear()
+      .domain([0, d3.max(bins, b => b.length) ?? 1])
+      .range([innerBottom, MARGIN.top]);
+
+    // Histogram bars (one per month)
+    svg.selectAll('g.histogram')
+      .data([null])
+      .join('g')
+      .attr('class', 'histogram')
+      .selectAll('rect')
+      .data(bins)
+      .join('rect')
+      .attr('x', b => x(b.x0!))
+      .attr('width', b => Math.max(0, x(b.x1!) - x(b.x0!) - 0.5))
+      .attr('y', b => y(b.length))
+      .attr('height', b => innerBottom - y(b.length))
+      .attr('fill', '#6b7280')
+      .selectAll('title')
+      .data(b => [b])
+      .join('title')
+      .text(b => `${formatMonth(b.x0!)}: ${b.length} events`);
+
+    // Time axis
+    svg.selectAll<SVGGElement, null>('g.axis')
+      .data([null])
+      .join('g')
+      .attr('class', 'axis')
+      .attr('transform', `translate(0,${innerBottom})`)
+      .call(d3.axisBottom(x).ticks(Math.max(2, Math.floor(width / 80))).tickSizeOuter(0))
+      .attr('font-size', 9);
+
+    // Brush for selecting an explicit start/end date; selections snap to whole UTC days
+    const brush = d3.brushX<null>()
+      .extent([[MARGIN.left, MARGIN.top], [width - MARGIN.right, innerBottom]])
+      .on('end', (event: d3.D3BrushEvent<null>) => {
+        if (!event.sourceEvent) return; // Ignore programmatic moves (see Effect 2)
+        if (!event.selection) {
+          callbacksRef.current.onTimeRangeChange(null);
+          return;
+        }
+        const [x0, x1] = event.selection as [number, number];
+        const rangeStart = d3.utcDay.floor(x.invert(x0)).getTime();
+        const rangeEnd = Math.max(rangeStart + 1, d3.utcDay.ceil(x.invert(x1)).getTime() - 1);
+        callbacksRef.current.onTimeRangeChange([rangeStart, rangeEnd]);
+      });
+    brushRef.current = brush;
+    svg.selectAll<SVGGElement, null>('g.brush')
+      .data([null])
+      .join('g')
+      .attr('class', 'brush')
+      .call(brush);
+
+    // Playhead: a vertical line with a handle that can be dragged to any point in time.
+    // Drawn after the brush so the handle sits above the brush overlay and receives the drag.
+    const playhead = svg.selectAll<SVGGElement, null>('g.playhead')
+      .data([null])
+      .join(enter => {
+        const g = enter.append('g').attr('class', 'playhead');
+        g.append('line').attr('stroke', '#dc2626').attr('stroke-width', 1.5).attr('pointer-events', 'none');
+        g.append('path').attr('d', 'M-6,0 L6,0 L0,8 Z').attr('fill', '#dc2626').style('cursor', 'ew-resize');
+        return g;
+      });
+    playhead.select('line').attr('y1', MARGIN.top).attr('y2', innerBottom);
+    playhead.select<SVGPathElement>('path').call(d3.drag<SVGPathElement, null>()
+      .on('drag', (event: d3.D3DragEvent<SVGPathElement, null, unknown>) => {
+        const clampedX = Math.max(MARGIN.left, Math.min(width - MARGIN.right, event.x));
+        callbacksRef.current.onPlayheadChange(x.invert(clampedX).getTime());
+      }));
+  }, [events, domain]);
+
+  // Effect 2: Keeps the brush selection in sync when the range changes outside the brush (e.g. cleared)
+  useEffect(() => {
+    const x = xScaleRef.current;
+    if (!svgRef.current || !x || !brushRef.current) return;
+    const brushGroup = d3.select(svgRef.current).selectAll<SVGGElement, null>('g.brush');
+    brushGroup.call(brushRef.current.move, timeRange ? [x(timeRange[0]), x(timeRange[1])] : null);
+  }, [timeRange, events, domain]);
+
+  // Effect 3: Moves the playhead to the current simulated time
+  useEffect(() => {
+    const x = xScaleRef.current;
+    if (!svgRef.current || !x) return;
+    d3.select(svgRef.current).select('g.playhead').attr('transform', `translate(${x(playheadTime)},0)`);
+  }, [playheadTime, events, domain]);
+
+  return (
+    <div className="relative w-full bg-white border-t border-gray-300">
+      <div className="absolute top-1 right-4 flex items-center gap-2 text-[10px] text-gray-600 z-10">
+        {timeRange ? (
+          <>
+            <span>{formatDay(new Date(timeRange[0]))} → {formatDay(new Date(timeRange[1]))} (UTC)</span>
+            <button type="button" onClick={() => onTimeRangeChange(null)} className="text-blue-600 hover:underline">
+              Clear range
+            </button>
+          </>
+        ) : (
+          <span>Drag on the histogram to select a date range</span>
+        )}
+      </div>
+      <svg ref={svgRef} width="100%" height={TIMELINE_HEIGHT}></svg>
+    </div>
+  );
+};
+
+export default Timeline;
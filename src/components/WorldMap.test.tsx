@@ -0,0 +1,192 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SIMULATION_TICK_MS } from '@/hooks/usePlayback';
+import { DEFAULT_COMPARISON_SETTINGS } from '@/lib/comparison';
+import { PLAYBACK_SPEED_OPTIONS } from '@/lib/playback';
+import { DEFAULT_PROJECTION, createProjection } from '@/lib/projections';
+import { DEFAULT_VIEW_STATE } from '@/lib/urlState';
+import { CATALOG_HEADER, FIXTURE_CATALOG_CSV, catalogRow } from '@/test/fixtures';
+import WorldMap from './WorldMap';
+
+// Files the map fetches on mount, served from memory so the test runs offline
+const FILES: Record<string, string> = {
+  '/world-110m.json': JSON.stringify({ type: 'FeatureCollection', features: [] }),
+  '/database.csv': FIXTURE_CATALOG_CSV,
+};
+
+// Markers on the map, leaving out those still animating away
+const markerCount = (container: HTMLElement) =>
+  container.querySelectorAll('g.earthquakes circle:not(.exiting), g.earthquakes path.event-symbol:not(.exiting)').length;
+
+// The fastest playback speed, a year of simulated time per second
+const YEAR_PER_SECOND = PLAYBACK_SPEED_OPTIONS[PLAYBACK_SPEED_OPTIONS.length - 1].simulatedMsPerSecond;
+
+// A 2D context that draws nothing, for canvas layers whose drawn markers are hit-tested
+const blankContext = () => new Proxy({}, { get: () => () => {}, set: () => true }) as CanvasRenderingContext2D;
+
+const pressKey = (key: string) => act(() => {
+  fireEvent.keyDown(window, { key });
+});
+
+// jsdom has no SVG transform lists, which d3 reads to interpolate transform transitions (the symbol
+// markers grow in with one); reading none makes them interpolate from the identity instead
+Object.defineProperty(SVGElement.prototype, 'transform', {
+  configurable: true,
+  get: () => ({ baseVal: { consolidate: () => null } }),
+});
+
+describe('WorldMap', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+      url in FILES ? new Response(FILES[url]) : new Response('Not found', { status: 404 })));
+    // jsdom does no layout; give every element the size of a small map
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 800, 400));
+    // Nor does it draw on canvases; few enough events stay on the SVG renderer anyway
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('shows the events that have happened as playback advances', async () => {
+    const { container } = render(<WorldMap />);
+    // Playback starts at the first event
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+
+    // Three skips of a tenth of the 5½-year catalog pass the second event
+    pressKey(']');
+    pressKey(']');
+    pressKey(']');
+    await waitFor(() => expect(markerCount(container)).toBe(2));
+
+    pressKey('End');
+    await waitFor(() => expect(markerCount(container)).toBe(6));
+    // The explosion is drawn as a symbol rather than a circle
+    expect(container.querySelectorAll('g.earthquakes path.event-symbol:not(.exiting)')).toHaveLength(1);
+
+    pressKey('Home');
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+  });
+
+  it('plays the catalog back, adding each event once the playhead passes it', async () => {
+    const { container, getByRole } = render(<WorldMap />);
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+
+    // Playback starts on load; it is restarted from the first event on the fake clock, at a year per second,
+    // so each second of playback passes one more of the yearly events
+    fireEvent.click(getByRole('button', { name: 'Pause' }));
+    pressKey('Home');
+    fireEvent.change(container.querySelector('#playbackSpeed')!, { target: { value: String(YEAR_PER_SECOND) } });
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+    fireEvent.click(getByRole('button', { name: 'Play' }));
+    const ticksPerSecond = 1000 / SIMULATION_TICK_MS;
+    for (const expected of [1, 2, 3, 4, 5, 6]) {
+      for (let tick = 0; tick < ticksPerSecond; tick++) {
+        await act(() => vi.advanceTimersByTimeAsync(SIMULATION_TICK_MS));
+      }
+      expect(markerCount(container)).toBe(expected);
+    }
+    // Playback pauses at the last event
+    expect(getByRole('button', { name: 'Finished' }).hasAttribute('disabled')).toBe(true);
+  });
+
+  it('hides events filtered out by magnitude', async () => {
+    const { container } = render(<WorldMap />);
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+    pressKey('End');
+    await waitFor(() => expect(markerCount(container)).toBe(6));
+
+    fireEvent.change(container.querySelector('#magnitude')!, { target: { value: '6' } });
+    await waitFor(() => expect(markerCount(container)).toBe(3));
+
+    fireEvent.change(container.querySelector('#magnitude')!, { target: { value: '0' } });
+    await waitFor(() => expect(markerCount(container)).toBe(6));
+  });
+
+  it('compares map A with a second filter set in comparison mode', async () => {
+    const { container, getByRole } = render(<WorldMap />);
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+    pressKey('End');
+    await waitFor(() => expect(markerCount(container)).toBe(6));
+
+    // Map B starts as a copy of map A; raising its minimum magnitude leaves A alone
+    fireEvent.click(container.querySelector('#comparisonMode')!);
+    fireEvent.change(container.querySelector('#comparisonMagnitude')!, { target: { value: '7' } });
+    const eventsRow = () => Array.from(getByRole('rowheader', { name: 'Events' }).parentElement!.children, cell => cell.textContent);
+    await waitFor(() => expect(eventsRow()).toEqual(['Events', '6', '1', '−5 (−83%)']));
+    expect(markerCount(container)).toBe(6);
+  });
+
+  it("shows and pins map B's events right of the swipe divider", async () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => blankContext());
+    // jsdom's animation frames run on one interval, which stops for good once started under the fake clock
+    // of the playback test; the canvas layers get frames of their own
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => setTimeout(() => callback(performance.now()), 16));
+    vi.stubGlobal('cancelAnimationFrame', (handle: number) => clearTimeout(handle));
+    const { container, getByRole, getByText, queryByText } = render(<WorldMap />);
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+    pressKey('End');
+    await waitFor(() => expect(markerCount(container)).toBe(6));
+    // Markers appear at once, without fading in
+    fireEvent.click(container.querySelector('#reducedMotion')!);
+
+    // Map B shows only EQ2 (M7.5, off Chile); the divider moves left of it
+    fireEvent.click(container.querySelector('#comparisonMode')!);
+    fireEvent.change(container.querySelector('#comparisonMagnitude')!, { target: { value: '7' } });
+    const divider = getByRole('separator', { name: 'Swipe between map A and map B' });
+    for (let i = 0; i < 6; i++) fireEvent.keyDown(divider, { key: 'ArrowLeft' });
+    expect(divider.getAttribute('aria-valuenow')).toBe('20');
+
+    const [x, y] = createProjection(DEFAULT_PROJECTION, 800, 400)([-70.4, -20.5])!;
+    const svg = getByRole('application');
+    await waitFor(() => {
+      fireEvent.mouseMove(svg, { clientX: x, clientY: y });
+      expect(getByText(/Magnitude: 7\.5/)).toBeTruthy();
+    });
+    fireEvent.click(svg, { clientX: x, clientY: y });
+    expect(getByRole('heading', { name: 'M7.5 Earthquake' })).toBeTruthy();
+
+    // With the divider right of it again, the marker is map A's, and map B's tooltip goes
+    for (let i = 0; i < 3; i++) fireEvent.keyDown(divider, { key: 'ArrowRight' });
+    fireEvent.mouseMove(svg, { clientX: x, clientY: y });
+    expect(queryByText('Click to pin details')).toBeNull();
+  });
+
+  it('drops regions restored from the URL that no longer exist, for both maps', async () => {
+    const initialViewState = {
+      ...DEFAULT_VIEW_STATE,
+      regionId: 'custom-deleted',
+      comparison: { ...DEFAULT_COMPARISON_SETTINGS, regionId: 'custom-deleted' },
+    };
+    render(<WorldMap initialViewState={initialViewState} />);
+    await waitFor(() => expect(new URLSearchParams(window.location.search).get('compare')).toBe('1'), { timeout: 3000 });
+    const params = new URLSearchParams(window.location.search);
+    expect(params.has('region')).toBe(false);
+    expect(params.has('bregion')).toBe(false);
+  });
+
+  it('loads a dropped catalog file on top of the current one through the import dialog', async () => {
+    const { container, getByRole, getByLabelText, getByText } = render(<WorldMap />);
+    await waitFor(() => expect(markerCount(container)).toBe(1));
+
+    // jsdom's files can't be read as text; the map reads nothing else of them
+    const text = [CATALOG_HEADER, catalogRow('FILE1', '01/01/1971', '00:00:00', 10, 10, 5.5, 20)].join('\n');
+    const file = { name: 'mine.csv', text: async () => text } as File;
+    fireEvent.drop(container.querySelector('.overflow-hidden')!, { dataTransfer: { files: [file], types: ['Files'] } });
+    await waitFor(() => expect(getByText('1 of 1 rows would load')).toBeTruthy());
+    expect(getByText('mine.csv: CSV / delimited text, 1 records')).toBeTruthy();
+
+    fireEvent.click(getByLabelText('Overlay on current catalog'));
+    fireEvent.click(getByRole('button', { name: 'Load' }));
+    await waitFor(() => expect(getByText('mine.csv (overlay):')).toBeTruthy());
+    pressKey('End');
+    await waitFor(() => expect(markerCount(container)).toBe(7));
+  });
+});
@@ -1,64 +1,426 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { FeatureCollection } from 'geojson';
-import { formatDistanceToNow, format } from 'date-fns'; // Import date-fns functions
-import { gsap } from 'gsap'; // Import GSAP
-
-// Define an interface for our earthquake data
-interface EarthquakeData {
-  latitude: number;
-  longitude: number;
-  magnitude: number;
-  depth: number;
-  timestamp: string; // ISO 8601 format timestamp
-}
+import { formatDistanceStrict, format } from 'date-fns'; // Import date-fns functions
+import { EarthquakeData } from '@/lib/catalog';
+import { ColumnMapping } from '@/lib/catalogFormats';
+import { CatalogFileInfo, CatalogLoadMode, CatalogQuery } from '@/lib/catalogProtocol';
+import {
+  DepthRange,
+  EventFilters,
+  formatDepthRange,
+} from '@/lib/filters';
+import {
+  DEFAULT_SWATH_WIDTH_KM,
+  DepthProfile,
+  profileLengthKm,
+  profileToGeoJson,
+  swathToGeoJson,
+} from '@/lib/crossSection';
+import { drawBaseMap, projectBaseMap } from '@/lib/baseMap';
+import {
+  AggregateLegend,
+  HEXBIN_METRIC_OPTIONS,
+  HexbinMetric,
+  LAYER_MODE_OPTIONS,
+  LayerMode,
+  ScreenPoint,
+} from '@/lib/aggregation';
+import { drawAggregateLayer, sameAggregateLegend } from '@/lib/aggregateLayer';
+import { joinSvgMarkers, projectSvgMarkers, scaleSvgMarkers } from '@/lib/svgMarkers';
+import { PROJECTION_OPTIONS, ProjectionId, isPointVisible } from '@/lib/projections';
+import { createPlaceLocator } from '@/lib/geo';
+import { describeEvent } from '@/lib/announcements';
+import { markerScreenPoints, nearestToPoint } from '@/lib/eventNavigation';
+import { DEFAULT_VIEW_STATE, ViewState, serializeViewState } from '@/lib/urlState';
+import { MAX_DEPTH_KM, MIN_DEPTH_KM, markerRadius } from '@/lib/scales';
+import { CanvasLayer, RendererMode, createCanvasLayer, resolveRenderer } from '@/lib/canvasLayer';
+import { ANIMATION_DURATION_S, motionMs } from '@/lib/motion';
+import { PLAYBACK_SPEED_OPTIONS, PLAYBACK_WINDOW_OPTIONS, clampPlayhead, playbackBounds } from '@/lib/playback';
+import {
+  LonLat,
+  PREDEFINED_REGIONS,
+  Region,
+  loadCustomRegions,
+  regionToGeoJson,
+  saveCustomRegions,
+} from '@/lib/regions';
+import { useMapRefs, mapMarkerStyle } from '@/hooks/useMapRefs';
+import { useCatalogWorker } from '@/hooks/useCatalogWorker';
+import { useCatalogView, useNearbyEvents, usePinnedSequence, useTimelineEvents } from '@/hooks/useCatalogQueries';
+import { usePlayback } from '@/hooks/usePlayback';
+import { useLiveFeed } from '@/hooks/useLiveFeed';
+import { ZOOM_STEP, useMapNavigation } from '@/hooks/useMapNavigation';
+import { useProfileDrawing, useRegionDrawing } from '@/hooks/useDrawingTools';
+import { useMapKeyboardNavigation, usePlaybackShortcuts } from '@/hooks/useKeyboardNavigation';
+import { usePlaybackAnnouncements, useReducedMotion } from '@/hooks/useAccessibility';
+import { useComparison } from '@/hooks/useComparison';
+import { useMapExport } from '@/hooks/useMapExport';
+import CatalogReportSummary from './CatalogReportSummary';
+import CatalogImportDialog from './CatalogImportDialog';
+import CategoryFilter from './CategoryFilter';
+import RegionControls, { RegionDrawMode } from './RegionControls';
+import Timeline from './Timeline';
+import Legend from './Legend';
+import StatsPanel from './StatsPanel';
+import EventDetailPanel from './EventDetailPanel';
+import LiveFeedControls from './LiveFeedControls';
+import ExportMenu from './ExportMenu';
+import CrossSectionControls from './CrossSectionControls';
+import CrossSectionChart from './CrossSectionChart';
+import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
+import ComparisonControls from './ComparisonControls';
+import ComparisonSummary from './ComparisonSummary';
 
 // Define an interface for the tooltip state
 interface TooltipState {
   visible: boolean;
-  content: string;
+  event: EarthquakeData | null; // Event under the pointer
   x: number; // screen X coordinate
   y: number; // screen Y coordinate
 }
+const HIDDEN_TOOLTIP: TooltipState = { visible: false, event: null, x: 0, y: 0 };
+
+// Tooltip next to a marker's on-screen position
+const tooltipAt = ({ event, x, y }: ScreenPoint): TooltipState => ({ visible: true, event, x: x + 10, y: y + 10 });
 
-// Constants for simulation and animation
-const SIMULATION_INTERVAL_MS = 100; // Milliseconds between adding each earthquake in the simulation
-const ANIMATION_DURATION_S = 0.5; // Duration for earthquake appearance/disappearance animations
 const DATE_DISPLAY_FORMAT = 'yyyy-MM-dd HH:mm'; // Format for displaying simulation time
+const DEPTH_SLIDER_STEP_KM = 10;
+
+// Formatted simulated time, as displayed next to the play button
+const formatPlaybackTime = (time: number) => format(time, DATE_DISPLAY_FORMAT);
+
+// Accessibility: a tap this close to a marker inspects it, since fingers are less precise than pointers
+const TAP_RADIUS_PX = 22;
+
+// Minimum real time between URL updates, so playback doesn't flood the browser history API
+const URL_UPDATE_INTERVAL_MS = 1000;
+
+// Event time relative to the simulated time, e.g. "3 days ago" (events after the playhead read "in ...")
+const relativeToPlayhead = (time: number, playheadTime: number) =>
+  formatDistanceStrict(time, playheadTime, { addSuffix: true });
+
+// Highlight ring around the pinned event, the events near it, the rest of its sequence, the event
+// hovered in the cross-section, and the event the keyboard focus is on
+interface SelectionRing {
+  event: EarthquakeData;
+  kind: 'pinned' | 'nearby' | 'sequence' | 'hovered' | 'focused';
+  radius: number; // On-screen radius in px, divided by the zoom scale when drawn
+}
+const SELECTION_RING_GAP_PX = 3; // Gap between a marker and its highlight ring
+const RING_COLORS: Record<SelectionRing['kind'], string> = {
+  pinned: '#111827',
+  nearby: '#4b5563',
+  sequence: '#7c3aed',
+  hovered: '#f59e0b',
+  focused: '#2563eb',
+};
 
-const WorldMap: React.FC = () => {
-  // Refs for SVG element, container div, D3 projection, and color scale
-  const svgRef = useRef<SVGSVGElement | null>(null);
+// Label at one end of the depth profile line ("A" at the start, "B" at the end)
+interface ProfileEndLabel {
+  label: string;
+  point: LonLat;
+}
+
+// Transform for a profile end label, kept at its on-screen size like the markers
+const profileLabelTransform = (projection: d3.GeoProjection, d: ProfileEndLabel, scale: number) => {
+  const [x, y] = projection(d.point) ?? [0, 0];
+  return `translate(${x},${y}) scale(${scale})`;
+};
+
+interface WorldMapProps {
+  initialViewState?: ViewState; // View restored from the URL; defaults to the whole world from the start
+}
+
+// The map component draws the layers; the catalog worker, playback, live feed, navigation, drawing tools,
+// keyboard handling and comparison mode live in hooks (src/hooks) that share the map's D3 refs.
+const WorldMap: React.FC<WorldMapProps> = ({ initialViewState = DEFAULT_VIEW_STATE }) => {
+  // The SVG, projection, zoom transform and scales, shared with the hooks
+  const map = useMapRefs(initialViewState.projection);
   const containerRef = useRef<HTMLDivElement | null>(null);
-  // Store D3 projection in a ref to avoid recomputing it on every render
-  const projectionRef = useRef<d3.GeoProjection | null>(null);
-  // Store D3 color scale in a ref
-  const depthColorScaleRef = useRef<d3.ScaleSequential<string, never> | null>(null);
-  // Store D3 radius scale (power scale) in a ref
-  const magnitudeRadiusScaleRef = useRef<d3.ScalePower<number, number, never> | null>(null);
+  // Zoom scale the markers were last drawn for, so unchanged markers can skip attribute updates
+  const renderedZoomScaleRef = useRef<number | null>(null);
+  // Canvas element and the Canvas 2D earthquake layer drawn into it
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const canvasLayerRef = useRef<CanvasLayer | null>(null);
+  // Renderer actually in use after resolving 'auto', read by the canvas hover handler
+  const activeRendererRef = useRef<'svg' | 'canvas'>('svg');
+  // Real time of the last URL update (the first one counts from when the map became ready)
+  const lastUrlUpdateRef = useRef<number | null>(null);
+  // Events drawn by the last render (either renderer), redrawn into the exported map image
+  const drawnEarthquakesRef = useRef<EarthquakeData[]>([]);
+  // Number of events in the last render, including those aggregated into bins or clusters
+  const shownEarthquakeCountRef = useRef<number>(0);
+  // Zoom transform the aggregated layer was binned at, so the zoom handler can stretch it until the next redraw
+  const aggregateTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  // Pointer type of the last press on the map, so taps on touch screens can be told from mouse clicks
+  const lastPointerTypeRef = useRef<string>('mouse');
 
   // State for GeoJSON world map data
   const [geoData, setGeoData] = useState<FeatureCollection | null>(null);
-  // State for storing the entire earthquake dataset, sorted chronologically
-  const [allEarthquakes, setAllEarthquakes] = useState<EarthquakeData[]>([]);
-  // State representing the current index in the simulation timeline
-  const [simulationIndex, setSimulationIndex] = useState<number>(0);
+  // State for user-supplied catalogs: the loaded file's name (null = bundled catalog), a dropped file
+  // awaiting review in the import dialog, the last read error, and whether a file is being dragged over the map
+  const [catalogSourceName, setCatalogSourceName] = useState<string | null>(null);
+  const [pendingCatalogFile, setPendingCatalogFile] = useState<CatalogFileInfo | null>(null);
+  const [catalogLoadError, setCatalogLoadError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
   // State for managing the tooltip visibility and content
-  const [tooltip, setTooltip] = useState<TooltipState>({ visible: false, content: '', x: 0, y: 0 });
+  const [tooltip, setTooltip] = useState<TooltipState>(HIDDEN_TOOLTIP);
+  // State for the event pinned by a click, shown in the detail panel, and the nearby-event search around it
+  const [pinnedEventId, setPinnedEventId] = useState<string | null>(initialViewState.pinnedEventId);
+  const [nearbyRadiusKm, setNearbyRadiusKm] = useState<number>(initialViewState.nearbyRadiusKm);
+  const [nearbyWindowDays, setNearbyWindowDays] = useState<number>(initialViewState.nearbyWindowDays);
+  // State for the latest message for screen readers (the focused event, new events during playback, playback changes)
+  const [announcement, setAnnouncement] = useState<string>('');
+  // Reduced-motion mode, which skips marker, zoom and projection animations
+  const [reducedMotion, setReducedMotion] = useReducedMotion(map);
 
   // State for filtering earthquakes
-  const [minMagnitudeFilter, setMinMagnitudeFilter] = useState<number>(0);
-  const [showOnlyShallow, setShowOnlyShallow] = useState<boolean>(false); // Shallow = depth < 50km
+  const [minMagnitudeFilter, setMinMagnitudeFilter] = useState<number>(initialViewState.minMagnitude);
+  const [depthRangeKm, setDepthRangeKm] = useState<DepthRange>(initialViewState.depthRangeKm); // [shallowest, deepest]
+  const [excludedEventTypes, setExcludedEventTypes] = useState<string[]>(initialViewState.excludedEventTypes); // e.g. hide 'Nuclear Explosion'
+  const [excludedMagnitudeTypes, setExcludedMagnitudeTypes] = useState<string[]>(initialViewState.excludedMagnitudeTypes); // e.g. hide 'MB'
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(initialViewState.regionId); // null = whole world
+  const [mainshocksOnly, setMainshocksOnly] = useState<boolean>(initialViewState.mainshocksOnly); // Hide foreshocks and aftershocks
+
+  // State for user-drawn regions: saved regions, the active drawing tool, and a finished drawing awaiting a name
+  const [customRegions, setCustomRegions] = useState<Region[]>([]);
+  const [regionDrawMode, setRegionDrawMode] = useState<RegionDrawMode>(null);
+  const [pendingRegionPolygon, setPendingRegionPolygon] = useState<LonLat[] | null>(null);
+  const regions = useMemo(() => [...PREDEFINED_REGIONS, ...customRegions], [customRegions]);
+
+  // State for the depth cross-section: the drawn profile line, the swath width, whether the profile tool
+  // is active, and the event hovered in the cross-section chart (ringed on the map)
+  const [profileLine, setProfileLine] = useState<[LonLat, LonLat] | null>(null);
+  const [swathWidthKm, setSwathWidthKm] = useState<number>(DEFAULT_SWATH_WIDTH_KM);
+  const [profileDrawing, setProfileDrawing] = useState<boolean>(false);
+  const [crossSectionHoverEvent, setCrossSectionHoverEvent] = useState<EarthquakeData | null>(null);
+  const depthProfile = useMemo<DepthProfile | null>(
+    () => (profileLine ? { start: profileLine[0], end: profileLine[1], swathKm: swathWidthKm } : null),
+    [profileLine, swathWidthKm],
+  );
+  const selectedRegion = useMemo(() => regions.find(r => r.id === selectedRegionId) ?? null, [regions, selectedRegionId]);
+
+  // State for the earthquake layer renderer (SVG elements, Canvas 2D, or chosen by event count)
+  const [rendererMode, setRendererMode] = useState<RendererMode>(initialViewState.rendererMode);
+  const [activeRenderer, setActiveRenderer] = useState<'svg' | 'canvas'>('svg');
+  // State for the layer mode (per-event markers, or aggregated into a heatmap, hexagons or clusters),
+  // what colors the hexagons, and the color ramp of the aggregated mode for the legend
+  const [layerMode, setLayerMode] = useState<LayerMode>(initialViewState.layerMode);
+  const [hexbinMetric, setHexbinMetric] = useState<HexbinMetric>(initialViewState.hexbinMetric);
+  const [aggregateLegend, setAggregateLegend] = useState<AggregateLegend | null>(null);
+
+  // The catalog (sorted chronologically) and the worker that answers questions about it, playback through
+  // it, and live mode, which merges a polled feed into it
+  const catalog = useCatalogWorker(regions);
+  const allEarthquakes = catalog.events;
+  const playback = usePlayback(allEarthquakes, initialViewState);
+  const { playheadTime } = playback;
+  const [playbackStart, playbackEnd] = playback.bounds;
+  const liveFeed = useLiveFeed(catalog, playback);
+
+  // Distinct event and magnitude types in the catalog, with counts, for the type filter checkboxes
+  const eventTypeOptions = catalog.summary?.eventTypes ?? [];
+  const magnitudeTypeOptions = catalog.summary?.magnitudeTypes ?? [];
+  const mainshockCount = catalog.summary?.mainshockCount ?? 0;
+  // Current filter settings, sent to the worker with every query
+  const eventFilters = useMemo<EventFilters>(() => ({
+    minMagnitude: minMagnitudeFilter,
+    depthRangeKm,
+    excludedEventTypes,
+    excludedMagnitudeTypes,
+    region: selectedRegion,
+    mainshocksOnly,
+  }), [minMagnitudeFilter, depthRangeKm, excludedEventTypes, excludedMagnitudeTypes, selectedRegion, mainshocksOnly]);
+
+
+  // Redraws everything that depends on the projection: land, ocean, region outlines, markers and selection
+  // rings. Called on every frame while the globe is dragged or the projection morphs, without re-rendering;
+  // markers that turn to the far side of the globe are hidden until Effect 3 next drops them.
+  const reprojectLayers = () => {
+    const style = mapMarkerStyle(map);
+    if (!map.svg.current || !style) return;
+    const svg = d3.select(map.svg.current);
+    const { projection } = style;
+    const k = map.zoomTransform.current.k;
+    const pathGenerator = d3.geoPath().projection(projection);
+    const position = (d: EarthquakeData) => projection([d.longitude, d.latitude]) ?? [0, 0];
+    const display = (d: EarthquakeData) => (isPointVisible(projection, [d.longitude, d.latitude]) ? null : 'none');
+
+    projectBaseMap(svg, projection, map.projectionId.current === 'mercator');
+    svg.select('g.region-outline').selectAll<SVGPathElement, { region: Region }>('path')
+      .attr('d', d => pathGenerator(regionToGeoJson(d.region)));
+    const profileGroup = svg.select('g.profile');
+    profileGroup.selectAll<SVGPathElement, d3.GeoPermissibleObjects>('path').attr('d', pathGenerator);
+    profileGroup.selectAll<SVGTextElement, ProfileEndLabel>('text')
+      .attr('transform', d => profileLabelTransform(projection, d, 1 / k))
+      .attr('display', d => (isPointVisible(projection, d.point) ? null : 'none'));
+
+    projectSvgMarkers(svg.select<SVGGElement>('g.earthquakes'), projection, k);
+    svg.select('g.selection').selectAll<SVGCircleElement, SelectionRing>('circle')
+      .attr('cx', d => position(d.event)[0])
+      .attr('cy', d => position(d.event)[1])
+      .attr('display', d => display(d.event));
+
+    // Aggregated layers are binned in screen space, so they are hidden until Effect 3 rebins them
+    svg.select('g.aggregate').attr('display', 'none');
+
+    canvasLayerRef.current?.update(activeRendererRef.current === 'canvas' ? drawnEarthquakesRef.current : [], style);
+    // Map B of comparison mode repeats the base map underneath its own markers
+    comparison.reproject();
+  };
+
+  // Applies the live zoom transform on every zoom event. The land and earthquake groups share the transform,
+  // while markers are counter-scaled by 1/k so they keep their on-screen size; the viewport query waits for
+  // the gesture to end.
+  const applyZoom = (transform: d3.ZoomTransform) => {
+    const svg = d3.select(map.svg.current);
+    const projection = map.projection.current!;
+    svg.selectAll('g.land-features, g.region-outline, g.profile, g.earthquakes, g.selection').attr('transform', transform.toString());
+    const style = mapMarkerStyle(map)!;
+    scaleSvgMarkers(svg.select<SVGGElement>('g.earthquakes'), style, transform.k);
+    svg.select('g.selection').selectAll<SVGCircleElement, SelectionRing>('circle')
+      .attr('r', d => d.radius / transform.k);
+    svg.select('g.profile').selectAll<SVGTextElement, ProfileEndLabel>('text')
+      .attr('transform', d => profileLabelTransform(projection, d, 1 / transform.k));
+    const binned = aggregateTransformRef.current;
+    const stretch = transform.k / binned.k;
+    svg.select('g.aggregate')
+      .attr('transform', `translate(${transform.x - binned.x * stretch},${transform.y - binned.y * stretch}) scale(${stretch})`);
+    canvasLayerRef.current?.setTransform(transform);
+    // Map B of comparison mode shares the zoom
+    comparison.applyZoom(transform);
+  };
+
+  // Pan/zoom, the projection and the globe (restored from the URL once the map is set up in Effect 2)
+  const navigation = useMapNavigation(map, initialViewState, { reprojectLayers, onZoom: applyZoom });
+  const { attach: attachNavigation, zoomBy } = navigation;
+
+  // The catalog worker's answer for the playhead, filters, viewport and depth profile: events selected by
+  // playback and filters (regardless of viewport), the statistics shown for them, and the selected events
+  // inside the viewport, drawn by Effect 3, and inside the profile's swath
+  const catalogQuery = useMemo<CatalogQuery>(() => ({
+    filters: eventFilters,
+    playheadTime,
+    playbackWindowMs: playback.windowMs,
+    timeRange: playback.timeRange,
+    bounds: navigation.viewBounds,
+    profile: depthProfile,
+  }), [eventFilters, playheadTime, playback.windowMs, playback.timeRange, navigation.viewBounds, depthProfile]);
+  const {
+    selected: selectedEarthquakes,
+    visible: visibleEarthquakes,
+    stats: selectionStats,
+    crossSection: crossSectionPoints,
+  } = useCatalogView(catalog, catalogQuery);
+  // Events passing the non-temporal filters, counted by the timeline histogram
+  const timelineEarthquakes = useTimelineEvents(catalog, eventFilters);
+
+  // Map B of comparison mode, kept in step with map A
+  const comparison = useComparison(map, catalog, initialViewState.comparison, {
+    geoData,
+    container: containerRef,
+    filters: eventFilters,
+    regions,
+    playback,
+    stats: selectionStats,
+    viewBounds: navigation.viewBounds,
+    mapSize: navigation.mapSize,
+    reducedMotion,
+  });
+  const { covers: coversMapB, hitTest: hitTestMapB, nearestMarker: nearestMarkerMapB, setSettings: setComparisonSettings } = comparison;
+
+  // Exports of the selected events, or of the map as drawn with a summary of what it shows
+  const mapExport = useMapExport(map, {
+    sourceName: catalogSourceName,
+    playback,
+    filters: eventFilters,
+    layerMode,
+    selectedEvents: selectedEarthquakes,
+    drawnEvents: drawnEarthquakesRef,
+    shownCount: shownEarthquakeCountRef,
+  });
+
+  // The pinned event, its nearest country (from the base map, so no network lookup), the events around it,
+  // and its mainshock/aftershock sequence (Gardner–Knopoff windows), ringed on the map
+  const pinnedEvent = useMemo(() => allEarthquakes.find(d => d.id === pinnedEventId) ?? null, [allEarthquakes, pinnedEventId]);
+  const nearbyEarthquakes = useNearbyEvents(catalog, pinnedEvent, nearbyRadiusKm, nearbyWindowDays);
+  const pinnedSequence = usePinnedSequence(catalog, pinnedEvent);
+  const placeLocator = useMemo(() => (geoData ? createPlaceLocator(geoData) : null), [geoData]);
+  const locatePlace = useCallback(
+    (d: EarthquakeData) => placeLocator?.nearestCountry([d.longitude, d.latitude]) ?? null,
+    [placeLocator],
+  );
+  const nearestPlace = useMemo(() => (pinnedEvent ? locatePlace(pinnedEvent) : null), [pinnedEvent, locatePlace]);
+
+  // Keyboard: playback shortcuts anywhere on the page, and moving between markers while the map has the focus
+  // (the focused event gets a ring and a tooltip). Changes are announced to screen readers.
+  usePlaybackShortcuts(playback, allEarthquakes.length > 0, formatPlaybackTime, setAnnouncement);
+  const { focusedEventId, setFocusedEventId, handleKeyDown: handleMapKeyDown } = useMapKeyboardNavigation(map, {
+    drawnEvents: drawnEarthquakesRef,
+    zoomBy,
+    onPin: setPinnedEventId,
+    onTooltip: point => setTooltip(point ? tooltipAt(point) : HIDDEN_TOOLTIP),
+    describe: d => describeEvent(d, locatePlace(d)),
+    announce: setAnnouncement,
+  });
+  const focusedEvent = useMemo(() => allEarthquakes.find(d => d.id === focusedEventId) ?? null, [allEarthquakes, focusedEventId]);
+  usePlaybackAnnouncements(selectedEarthquakes, playback.isRunning, playheadTime, locatePlace, setAnnouncement);
+
+  // Drawing tools: a custom region, handed over for naming, and the depth profile line
+  useRegionDrawing(
+    map,
+    regionDrawMode,
+    polygon => {
+      setPendingRegionPolygon(polygon);
+      setRegionDrawMode(null);
+    },
+    () => setRegionDrawMode(null),
+  );
+  useProfileDrawing(
+    map,
+    profileDrawing,
+    line => {
+      setProfileLine(line);
+      setProfileDrawing(false);
+    },
+    () => setProfileDrawing(false),
+  );
 
-  // State for simulation controls
-  const [isSimulationRunning, setIsSimulationRunning] = useState<boolean>(true); // Controls play/pause
-  const [currentSimulationTime, setCurrentSimulationTime] = useState<string>(''); // Formatted time string for display
+  // The whole view state, mirrored into the URL by Effect 8 so a copied link reopens the same map
+  const viewState = useMemo<ViewState>(() => ({
+    minMagnitude: minMagnitudeFilter,
+    depthRangeKm,
+    excludedEventTypes,
+    excludedMagnitudeTypes,
+    regionId: selectedRegionId,
+    mainshocksOnly,
+    playheadTime: allEarthquakes.length > 0 ? playheadTime : null,
+    playing: playback.isRunning,
+    playbackSpeed: playback.speed,
+    playbackWindowMs: playback.windowMs,
+    timeRange: playback.timeRange,
+    projection: navigation.projectionId,
+    mapView: navigation.mapView,
+    pinnedEventId,
+    rendererMode,
+    layerMode,
+    hexbinMetric,
+    nearbyRadiusKm,
+    nearbyWindowDays,
+    comparison: comparison.settings,
+  }), [
+    minMagnitudeFilter, depthRangeKm, excludedEventTypes, excludedMagnitudeTypes, selectedRegionId, mainshocksOnly, allEarthquakes,
+    playheadTime, playback.isRunning, playback.speed, playback.windowMs, playback.timeRange, navigation.projectionId,
+    navigation.mapView, pinnedEventId, rendererMode, layerMode, hexbinMetric, nearbyRadiusKm, nearbyWindowDays, comparison.settings,
+  ]);
+  // Formatted time string for display
+  const currentSimulationTime = allEarthquakes.length > 0 ? formatPlaybackTime(playheadTime) : '';
 
-  // Effect 1: Fetch static data (GeoJSON for map outlines, CSV for earthquake data) on initial mount
+  // Effect 1: Fetch the GeoJSON for the map outlines on initial mount (the catalog worker fetches the catalog)
   useEffect(() => {
-    // Fetch GeoJSON data for world map outlines
     d3.json<FeatureCollection>('/world-110m.json').then(data => {
       if (data) {
         setGeoData(data);
@@ -66,325 +428,454 @@ const WorldMap: React.FC = () => {
         console.error('Failed to load GeoJSON data');
       }
     }).catch(err => console.error('Error loading GeoJSON:', err));
-
-    // Fetch and parse Earthquake CSV data
-    d3.csv('/database.csv').then(data => {
-      const parsedData: EarthquakeData[] = data.reduce((acc: EarthquakeData[], d) => {
-        // Safely parse numeric values and date/time strings
-        const latitude = parseFloat(d.Latitude ?? '');
-        const longitude = parseFloat(d.Longitude ?? '');
-        const magnitude = parseFloat(d.Magnitude ?? '');
-        const depth = parseFloat(d.Depth ?? '');
-        const dateStr = d.Date ?? ''; // Expects MM/DD/YYYY
-        const timeStr = d.Time ?? ''; // Expects HH:mm:ss
-
-        let timestamp = '';
-        if (dateStr && timeStr) {
-          const dateParts = dateStr.split('/');
-          if (dateParts.length === 3) {
-            const month = dateParts[0].padStart(2, '0');
-            const day = dateParts[1].padStart(2, '0');
-            let year = dateParts[2];
-            // Simple heuristic to handle potential 2-digit years (e.g., '99' -> '1999', '05' -> '2005')
-            if (year.length === 2) {
-              const yearNum = parseInt(year, 10);
-              year = (yearNum < 70 ? '20' : '19') + year;
-            }
-            // Construct an ISO-like timestamp string (required by new Date())
-            timestamp = `${year}-${month}-${day}T${timeStr}Z`; // Assume UTC ('Z')
-          } else {
-            console.warn('Skipping row with unexpected date format:', dateStr);
-          }
-        }
-
-        // Add to accumulator only if all data is valid and timestamp parses correctly
-        if (!isNaN(latitude) && !isNaN(longitude) && !isNaN(magnitude) && !isNaN(depth) && timestamp) {
-          try {
-            new Date(timestamp).toISOString(); // Validate the constructed timestamp
-            acc.push({ latitude, longitude, magnitude, depth, timestamp });
-          } catch (e) {
-             console.warn('Skipping row with invalid reconstructed timestamp:', timestamp, e);
-          }
-        }
-        // Silently skip rows with missing or invalid data
-        return acc;
-      }, []);
-
-      // Sort data chronologically for the time-based simulation
-      const sortedData = parsedData.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      setAllEarthquakes(sortedData);
-      setSimulationIndex(0); // Start simulation from the beginning
-      setIsSimulationRunning(true); // Start simulation automatically
-
-      // Initialize the displayed simulation time
-      if (sortedData.length > 0) {
-        try {
-            setCurrentSimulationTime(format(new Date(sortedData[0].timestamp), DATE_DISPLAY_FORMAT));
-        } catch {
-            setCurrentSimulationTime('Invalid Date');
-        }
-      } else {
-          setCurrentSimulationTime(''); // Handle empty dataset
-      }
-    }).catch(err => console.error('Error loading or parsing earthquake CSV:', err));
-
   }, []); // Empty dependency array ensures this runs only once on mount
 
-  // Effect 2: Controls the simulation timer based on `isSimulationRunning` state
+  // Effect 2: Sets up the static map elements, the projection and navigation, and the canvas layer's pointer handling
   useEffect(() => {
-    if (allEarthquakes.length === 0) return; // Don't run if data isn't loaded
-
-    let intervalId: NodeJS.Timeout | null = null;
-
-    // Only set the interval if the simulation is running
-    if (isSimulationRunning) {
-        intervalId = setInterval(() => {
-            setSimulationIndex(prevIndex => {
-                const nextIndex = prevIndex + 1;
-                if (nextIndex < allEarthquakes.length) {
-                    // Update time display to reflect the timestamp of the *next* earthquake to be shown
-                    try {
-                        setCurrentSimulationTime(format(new Date(allEarthquakes[nextIndex].timestamp), DATE_DISPLAY_FORMAT));
-                    } catch {
-                        setCurrentSimulationTime('Invalid Date');
-                    }
-                    return nextIndex; // Advance the simulation index
-                } else {
-                    // Simulation reached the end
-                    setIsSimulationRunning(false); // Automatically pause
-                    if (intervalId) clearInterval(intervalId); // Clear the interval
-                    // Ensure the time display shows the timestamp of the very last earthquake
-                    if (allEarthquakes.length > 0) {
-                         try {
-                            setCurrentSimulationTime(format(new Date(allEarthquakes[allEarthquakes.length - 1].timestamp), DATE_DISPLAY_FORMAT));
-                         } catch {
-                            setCurrentSimulationTime('Invalid Date');
-                         }
-                    }
-                    return prevIndex; // Keep index at the final position
-                }
-            });
-        }, SIMULATION_INTERVAL_MS);
-    }
-
-    // Cleanup function: clear the interval when the component unmounts
-    // or when the dependencies (allEarthquakes, isSimulationRunning) change
-    return () => {
-        if (intervalId) clearInterval(intervalId);
-    };
-  }, [allEarthquakes, isSimulationRunning]); // Dependencies: rerun effect if data loads or play/pause state changes
-
-  // Effect 3: Updates the displayed simulation time when the user manually changes the index via the slider
-  useEffect(() => {
-      // Ensure data exists and index is within bounds
-      if (allEarthquakes.length > 0 && simulationIndex >= 0 && simulationIndex < allEarthquakes.length) {
-        try {
-            // Format and display the timestamp of the earthquake at the current slider index
-            setCurrentSimulationTime(format(new Date(allEarthquakes[simulationIndex].timestamp), DATE_DISPLAY_FORMAT));
-        } catch {
-            setCurrentSimulationTime('Invalid Date')
-        }
-      } else if (allEarthquakes.length > 0 && simulationIndex >= allEarthquakes.length) {
-          // Handle edge case where slider might exceed max index briefly
-          // Show the time of the last available earthquake
-           try {
-                setCurrentSimulationTime(format(new Date(allEarthquakes[allEarthquakes.length - 1].timestamp), DATE_DISPLAY_FORMAT));
-            } catch {
-                setCurrentSimulationTime('Invalid Date')
-            }
-      }
-  }, [simulationIndex, allEarthquakes]); // Dependencies: rerun if slider index or data changes
-
-  // Effect 4: Sets up D3 projection, color scale, radius scale, and static map elements
-  useEffect(() => {
-    if (!svgRef.current || !containerRef.current || !geoData) return;
+    if (!map.svg.current || !containerRef.current || !geoData) return;
 
-    const svg = d3.select(svgRef.current);
+    const svg = d3.select(map.svg.current);
     // Get container dimensions for responsive scaling
     const { width, height } = containerRef.current.getBoundingClientRect();
 
     if (width <= 0 || height <= 0) return; // Avoid drawing if container isn't ready
 
-    // Initialize or update D3 projection (Mercator in this case)
-    projectionRef.current = d3.geoMercator()
-      .scale(width / (2 * Math.PI) * 0.9) // Scale based on width, slightly adjusted
-      .center([0, 20]) // Center the map view (longitude 0, latitude 20)
-      .translate([width / 2, height / 2]); // Center projection within the SVG container
-
-    // Initialize or update D3 color scale for depth (Red=Shallow, Blue=Deep)
-    const minDepth = 0; // Assumed minimum depth
-    const maxDepth = 700; // Assumed maximum depth from typical earthquake data
-    depthColorScaleRef.current = d3.scaleSequential(d3.interpolateRgb("red", "blue"))
-      .domain([minDepth, maxDepth]); // Map depth range to color gradient
-
-    // Initialize or update D3 power scale for magnitude -> radius
-    magnitudeRadiusScaleRef.current = d3.scalePow()
-        .exponent(2) // Make radius grow quadratically with magnitude
-        .domain([0, 10]) // Input magnitude range (Richter scale)
-        .range([0, 20]); // Output radius range in pixels (adjust max radius as needed)
-
-    // Draw static map background (ocean color)
-    // Use join pattern to add rect if it doesn't exist, or update dimensions if it does
-    svg.selectAll('.map-background')
-       .data([null]) // Bind a single data point
-       .join('rect') // Enter/Update/Exit pattern
-       .attr('class', 'map-background')
-       .attr('width', width)
-       .attr('height', height)
-       .attr('fill', '#a0c4ff'); // Light blue for oceans
-
-    // Draw land features using GeoJSON data
-    // Ensure the projection is valid before creating the path generator
-    if (!projectionRef.current) return;
-    const pathGenerator = d3.geoPath().projection(projectionRef.current);
-
-    // Select the group for land features, create if it doesn't exist
-    let landGroup = svg.select<SVGGElement>('g.land-features');
-    if (landGroup.empty()) {
-        landGroup = svg.append('g').attr('class', 'land-features');
+    // Create the canvas earthquake layer once and match its backing store to the map size
+    if (canvasRef.current && !canvasLayerRef.current) {
+      canvasLayerRef.current = createCanvasLayer(canvasRef.current, motionMs(ANIMATION_DURATION_S * 1000, map.reducedMotion.current));
     }
+    canvasLayerRef.current?.resize(width, height);
 
-    // Draw paths for each country/feature in the GeoJSON data
-    landGroup.selectAll('path')
-      .data(geoData.features)
-      .join('path') // Use join for efficient updates if geoData were to change
-      .attr('d', pathGenerator) // Generate SVG path data from GeoJSON feature
-      .attr('fill', '#cccccc') // Light grey for land
-      .attr('stroke', '#ffffff') // White borders between countries
-      .attr('stroke-width', 0.5);
+    // Draw static map background (ocean color, or the surroundings of the world outline; see reprojectLayers)
+    // and the land, underneath everything else
+    drawBaseMap(svg, geoData, width, height);
 
     // Ensure the group element for earthquakes exists, creating it if necessary
     // This prevents earthquakes from being drawn before the land/background
     if (svg.select('g.earthquakes').empty()) {
         svg.append('g').attr('class', 'earthquakes');
     }
+    // Group for the selected region's outline, between the land and the earthquakes
+    if (svg.select('g.region-outline').empty()) {
+        svg.insert('g', 'g.earthquakes').attr('class', 'region-outline');
+    }
+    // Group for the depth profile line and its swath, also underneath the earthquakes
+    if (svg.select('g.profile').empty()) {
+        svg.insert('g', 'g.earthquakes').attr('class', 'profile');
+    }
+    // Group for the pinned event's highlight rings, above the earthquakes
+    if (svg.select('g.selection').empty()) {
+        svg.append('g').attr('class', 'selection');
+    }
+    // Group for the aggregated layer modes, drawn in screen coordinates between the markers and the rings
+    if (svg.select('g.aggregate').empty()) {
+        svg.insert('g', 'g.selection').attr('class', 'aggregate');
+    }
+
+    // Project everything for the map's size (the projection restored from the URL, Mercator by default)
+    // and attach pan/zoom and globe turning
+    attachNavigation(width, height);
 
-  }, [geoData]); // Dependency: rerun only if GeoData changes (assumes container size stable after initial load)
+    // Canvas markers have no DOM nodes of their own, so hover and click are hit-tested against the layer.
+    // The canvas ignores pointer events, letting them reach the SVG (and its zoom behavior) underneath.
+    // Right of the swipe divider in comparison mode, map B's markers are hit-tested the same way instead.
+    const hitTestsAt = (x: number) => coversMapB(x) || (activeRendererRef.current === 'canvas' && canvasLayerRef.current !== null);
+    const markerAt = (x: number, y: number) => (coversMapB(x) ? hitTestMapB(x, y) : canvasLayerRef.current?.hitTest(x, y) ?? null);
+    let overMapB = false;
+    svg
+      .on('mousemove.canvas', (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event, svg.node());
+        // Crossing back over the divider leaves map B's tooltip behind
+        if (overMapB && !coversMapB(x)) setTooltip(HIDDEN_TOOLTIP);
+        overMapB = coversMapB(x);
+        if (!hitTestsAt(x)) return;
+        const hit = markerAt(x, y);
+        svg.style('cursor', hit ? 'pointer' : '');
+        setTooltip(prev => hit ? tooltipAt({ event: hit, x, y }) : prev.visible ? HIDDEN_TOOLTIP : prev);
+      })
+      .on('mouseleave.canvas', () => {
+        if (activeRendererRef.current === 'canvas' || overMapB) setTooltip(HIDDEN_TOOLTIP);
+        overMapB = false;
+      })
+      .on('click.canvas', (event: MouseEvent) => {
+        // d3-zoom suppresses the click that ends a drag, so panning doesn't pin anything
+        const [x, y] = d3.pointer(event, svg.node());
+        if (!hitTestsAt(x)) return;
+        const hit = markerAt(x, y);
+        if (hit) setPinnedEventId(hit.id);
+      });
+
+    // Tap-to-inspect: touch screens have no hover, so a tap shows the tooltip of the nearest marker (with
+    // either renderer, on either comparison map) and pins it. A finger covers small markers, so the tap only
+    // has to land near one.
+    svg
+      .on('pointerdown.tap', (event: PointerEvent) => {
+        lastPointerTypeRef.current = event.pointerType;
+      })
+      .on('click.tap', (event: MouseEvent) => {
+        if (lastPointerTypeRef.current !== 'touch' || !map.projection.current) return;
+        const [x, y] = d3.pointer(event, svg.node());
+        const hit = coversMapB(x)
+          ? nearestMarkerMapB(x, y, TAP_RADIUS_PX)
+          : nearestToPoint(markerScreenPoints(drawnEarthquakesRef.current, map.projection.current, map.zoomTransform.current), { x, y }, TAP_RADIUS_PX);
+        setTooltip(hit ? tooltipAt(hit) : HIDDEN_TOOLTIP);
+        if (hit) setPinnedEventId(hit.event.id);
+      });
+
+  }, [map, geoData, attachNavigation, coversMapB, hitTestMapB, nearestMarkerMapB]); // Runs once the map outlines load: the refs and callbacks never change (assumes container size stable after initial load)
+
+  // Draws the aggregated layer modes for the events selected by Effect 3, binned in screen space at the
+  // current zoom, and returns the events still to be drawn as markers. Clicking a cluster zooms in on it.
+  const drawAggregates = useCallback((events: EarthquakeData[]): EarthquakeData[] => {
+    if (!map.svg.current || !map.projection.current) return events;
+    const transform = map.zoomTransform.current;
+    aggregateTransformRef.current = transform;
+    const { markers, legend } = drawAggregateLayer(d3.select(map.svg.current).select<SVGGElement>('g.aggregate'), events, {
+      layerMode,
+      hexbinMetric,
+      projection: map.projection.current,
+      transform,
+      ...map.mapSize.current,
+      onClusterClick: cluster => zoomBy(ZOOM_STEP, [cluster.x, cluster.y]),
+    });
+    setAggregateLegend(prev => (sameAggregateLegend(prev, legend) ? prev : legend));
+    return markers;
+  }, [map, layerMode, hexbinMetric, zoomBy]);
 
-  // Effect 5: Renders and animates earthquake circles based on the current simulation index and filters
+  // Effect 3: Renders and animates earthquake markers for the events the catalog worker picked for the
+  // current playhead, filters and viewport
   useEffect(() => {
     // Ensure all required elements and data are available
-    if (!svgRef.current || !projectionRef.current || !depthColorScaleRef.current || !magnitudeRadiusScaleRef.current || allEarthquakes.length === 0) {
-      return; // Add check for magnitudeRadiusScaleRef
-    }
+    const style = mapMarkerStyle(map);
+    if (!map.svg.current || !style) return;
+
+    const svg = d3.select(map.svg.current);
+    const { projection } = style;
+
+    // 1-2. The subset of earthquakes to display comes from the catalog worker (useCatalogView): events inside the
+    //      playback window that pass the filters and lie inside the current viewport. Events on the far side
+    //      of the globe are dropped here, where the projection lives.
+    const filteredEarthquakes = visibleEarthquakes.filter(d => isPointVisible(projection, [d.longitude, d.latitude]));
+    shownEarthquakeCountRef.current = filteredEarthquakes.length;
+
+    // 3. In the aggregated layer modes, bins or cluster badges stand in for most markers
+    const markerEarthquakes = drawAggregates(filteredEarthquakes);
+    drawnEarthquakesRef.current = markerEarthquakes;
+    // The keyboard focus leaves an event once its marker is gone
+    setFocusedEventId(id => (id !== null && !markerEarthquakes.some(d => d.id === id) ? null : id));
+
+    // Pick the renderer: large sets go to the canvas layer, small ones stay as SVG elements.
+    // The inactive renderer is handed an empty set, so switching cross-fades through the exit animations.
+    const renderer = resolveRenderer(rendererMode, markerEarthquakes.length);
+    activeRendererRef.current = renderer;
+    setActiveRenderer(renderer);
+    const svgEarthquakes = renderer === 'svg' ? markerEarthquakes : [];
+    canvasLayerRef.current?.update(renderer === 'canvas' ? markerEarthquakes : [], style);
+
+    // 4. Join the SVG markers to the events, animating them in and out
+    // Existing markers only need new attributes when the zoom scale changed since the last render
+    const k = map.zoomTransform.current.k;
+    const zoomChanged = renderedZoomScaleRef.current !== k;
+    renderedZoomScaleRef.current = k;
+    // Events revised by the live feed keep their markers, which move and resize to the new values
+    const revisedIds = liveFeed.revisedEventIds.current;
+    liveFeed.revisedEventIds.current = new Set();
+
+    joinSvgMarkers(svg.select<SVGGElement>('g.earthquakes'), svgEarthquakes, {
+      style,
+      zoomScale: k,
+      zoomChanged,
+      revisedIds,
+      durationMs: motionMs(ANIMATION_DURATION_S * 1000, map.reducedMotion.current),
+      // Tooltip on hover and pin on click, unless map B covers the marker (Effect 2 handles map B's markers)
+      handlers: {
+        over: (d, [x, y]) => {
+          if (!coversMapB(x)) setTooltip({ visible: true, event: d, x: x + 10, y: y + 10 });
+        },
+        move: ([x, y]) => setTooltip(prev => ({ ...prev, x: x + 10, y: y + 10 })),
+        out: ([x]) => {
+          if (!coversMapB(x)) setTooltip(HIDDEN_TOOLTIP);
+        },
+        click: (d, [x]) => {
+          if (!coversMapB(x)) setPinnedEventId(d.id);
+        },
+      },
+    });
+  }, [map, visibleEarthquakes, rendererMode, drawAggregates, geoData, liveFeed.revisedEventIds, setFocusedEventId, coversMapB]); // Dependencies: Rerun rendering when the worker answers for a new playhead, filters or viewport, or the layer mode or map data changes
 
-    const svg = d3.select(svgRef.current);
-    const projection = projectionRef.current;
-    const depthColorScale = depthColorScaleRef.current;
+  // Effect 4: Stops the canvas layer's animation loop on unmount
+  useEffect(() => () => canvasLayerRef.current?.destroy(), []);
 
-    // 1. Determine the subset of earthquakes to display based on the simulation index
-    const activeEarthquakes = allEarthquakes.slice(0, simulationIndex);
+  // Effect 5: Restores the user's saved regions (localStorage is only available in the browser).
+  // A region ID restored from the URL, for either map, that matches neither a predefined nor a saved region is dropped.
+  useEffect(() => {
+    const saved = loadCustomRegions();
+    const isKnown = (id: string | null) => id === null || [...PREDEFINED_REGIONS, ...saved].some(r => r.id === id);
+    setCustomRegions(saved);
+    setSelectedRegionId(id => (isKnown(id) ? id : null));
+    setComparisonSettings(settings => (settings && !isKnown(settings.regionId) ? { ...settings, regionId: null } : settings));
+  }, [setComparisonSettings]);
+
+  // Effect 6: Outlines the selected region, plus a drawing waiting to be saved
+  useEffect(() => {
+    if (!map.svg.current || !map.projection.current || !geoData) return;
+    const pathGenerator = d3.geoPath().projection(map.projection.current);
+    const shapes: { region: Region; pending: boolean }[] = [];
+    if (selectedRegion) shapes.push({ region: selectedRegion, pending: false });
+    if (pendingRegionPolygon) shapes.push({ region: { id: 'pending', name: '', polygon: pendingRegionPolygon }, pending: true });
 
-    // 2. Apply filters (magnitude, depth) to the active subset
-    const filteredEarthquakes = activeEarthquakes.filter(d => {
-      const magnitudePass = d.magnitude >= minMagnitudeFilter;
-      const depthPass = !showOnlyShallow || (showOnlyShallow && d.depth < 50); // Apply depth filter if toggled
-      return magnitudePass && depthPass;
+    d3.select(map.svg.current).select('g.region-outline')
+      .selectAll<SVGPathElement, { region: Region; pending: boolean }>('path')
+      .data(shapes, d => d.region.id)
+      .join('path')
+      .attr('d', d => pathGenerator(regionToGeoJson(d.region)))
+      .attr('fill', d => d.pending ? 'rgba(37, 99, 235, 0.15)' : 'rgba(250, 204, 21, 0.12)')
+      .attr('stroke', d => d.pending ? '#2563eb' : '#ca8a04')
+      .attr('stroke-width', 1.5)
+      .attr('stroke-dasharray', d => d.pending ? '4 3' : null)
+      .attr('vector-effect', 'non-scaling-stroke')
+      .attr('pointer-events', 'none');
+  }, [map, selectedRegion, pendingRegionPolygon, geoData]);
+
+  // Effect 7: Rings the pinned event (bold), the events near it (thin, dashed), the rest of its
+  // mainshock/aftershock sequence (violet), the event hovered in the cross-section chart (amber) and
+  // the event the keyboard focus is on (blue), above all markers
+  useEffect(() => {
+    if (!map.svg.current || !map.projection.current || !geoData) return;
+    const projection = map.projection.current;
+    const k = map.zoomTransform.current.k;
+    const ringFor = (event: EarthquakeData, kind: SelectionRing['kind']): SelectionRing => ({
+      event,
+      kind,
+      radius: markerRadius(map.magnitudeRadiusScale, event) + SELECTION_RING_GAP_PX,
     });
+    const sequence = pinnedSequence?.events.filter(d => d !== pinnedEvent) ?? [];
+    const rings = pinnedEvent
+      ? [
+        ...nearbyEarthquakes.map(n => ringFor(n.event, 'nearby')),
+        ...sequence.map(d => ringFor(d, 'sequence')),
+        ringFor(pinnedEvent, 'pinned'),
+      ]
+      : [];
+    if (crossSectionHoverEvent) rings.push(ringFor(crossSectionHoverEvent, 'hovered'));
+    if (focusedEvent) rings.push(ringFor(focusedEvent, 'focused'));
+
+    d3.select(map.svg.current).select('g.selection')
+      .selectAll<SVGCircleElement, SelectionRing>('circle')
+      .data(rings, d => `${d.kind}-${d.event.id}`)
+      .join('circle')
+      .attr('cx', d => projection([d.event.longitude, d.event.latitude])?.[0] ?? 0)
+      .attr('cy', d => projection([d.event.longitude, d.event.latitude])?.[1] ?? 0)
+      .attr('display', d => (isPointVisible(projection, [d.event.longitude, d.event.latitude]) ? null : 'none'))
+      .attr('r', d => d.radius / k)
+      .attr('fill', 'none')
+      .attr('stroke', d => RING_COLORS[d.kind])
+      .attr('stroke-width', d => d.kind === 'nearby' || d.kind === 'sequence' ? 1 : 2)
+      .attr('stroke-dasharray', d => d.kind === 'nearby' ? '2 2' : null)
+      .attr('vector-effect', 'non-scaling-stroke')
+      .attr('pointer-events', 'none');
+  }, [map, pinnedEvent, nearbyEarthquakes, pinnedSequence, crossSectionHoverEvent, focusedEvent, geoData]);
+
+  // Effect 8: Mirrors the view state into the URL query string (without adding history entries).
+  // Updates are throttled, and wait until the catalog and map have loaded so the restored
+  // playhead and zoom aren't overwritten by the initial defaults.
+  useEffect(() => {
+    if (allEarthquakes.length === 0 || !geoData) return;
+    const now = performance.now();
+    // The first update waits a full interval, giving the restored zoom time to reach the state
+    if (lastUrlUpdateRef.current === null) lastUrlUpdateRef.current = now;
+    const delay = Math.max(0, lastUrlUpdateRef.current + URL_UPDATE_INTERVAL_MS - now);
+    const timeoutId = setTimeout(() => {
+      lastUrlUpdateRef.current = performance.now();
+      const query = serializeViewState(viewState).toString();
+      if (query !== window.location.search.replace(/^\?/, '')) {
+        window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+      }
+    }, delay);
+    return () => clearTimeout(timeoutId);
+  }, [viewState, allEarthquakes, geoData]);
+
+  // Effect 9: Draws the depth profile line, its swath and the A/B labels at its ends, under the markers
+  useEffect(() => {
+    if (!map.svg.current || !map.projection.current || !geoData) return;
+    const projection = map.projection.current;
+    const pathGenerator = d3.geoPath().projection(projection);
+    const k = map.zoomTransform.current.k;
+    const group = d3.select(map.svg.current).select('g.profile').attr('pointer-events', 'none');
+
+    group.selectAll<SVGPathElement, d3.GeoPermissibleObjects>('path.swath')
+      .data(depthProfile ? [swathToGeoJson(depthProfile)] : [])
+      .join('path')
+      .attr('class', 'swath')
+      .attr('d', pathGenerator)
+      .attr('fill', 'rgba(29, 78, 216, 0.12)')
+      .attr('stroke', '#1d4ed8')
+      .attr('stroke-width', 0.75)
+      .attr('stroke-dasharray', '3 3')
+      .attr('vector-effect', 'non-scaling-stroke');
+    group.selectAll<SVGPathElement, d3.GeoPermissibleObjects>('path.profile-line')
+      .data(depthProfile ? [profileToGeoJson(depthProfile)] : [])
+      .join('path')
+      .attr('class', 'profile-line')
+      .attr('d', pathGenerator)
+      .attr('fill', 'none')
+      .attr('stroke', '#1d4ed8')
+      .attr('stroke-width', 2)
+      .attr('vector-effect', 'non-scaling-stroke');
+    const labels: ProfileEndLabel[] = depthProfile
+      ? [{ label: 'A', point: depthProfile.start }, { label: 'B', point: depthProfile.end }]
+      : [];
+    group.selectAll<SVGTextElement, ProfileEndLabel>('text')
+      .data(labels, d => d.label)
+      .join('text')
+      .attr('transform', d => profileLabelTransform(projection, d, 1 / k))
+      .attr('display', d => (isPointVisible(projection, d.point) ? null : 'none'))
+      .attr('y', -6)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', 12)
+      .attr('font-weight', 700)
+      .attr('fill', '#1d4ed8')
+      .attr('stroke', '#ffffff')
+      .attr('stroke-width', 3)
+      .attr('paint-order', 'stroke')
+      .text(d => d.label);
+  }, [map, depthProfile, geoData]);
+
+  // Effect 10: Turns the canvas layer's fades off in reduced-motion mode (the SVG renderer checks on each render)
+  useEffect(() => {
+    canvasLayerRef.current?.setFadeDuration(motionMs(ANIMATION_DURATION_S * 1000, reducedMotion));
+  }, [reducedMotion, geoData]);
+  // Catalog file handlers: a dropped or chosen file is read and detected in the worker, then reviewed in the import dialog
+  const openCatalogFile = (file: File) => {
+    setCatalogLoadError(null);
+    file.text()
+      .then(text => catalog.readFile(file.name, text))
+      .then(setPendingCatalogFile)
+      .catch((err: Error) => {
+        console.error('Error reading catalog file:', err);
+        setCatalogLoadError(`${file.name}: ${err.message}`);
+      });
+  };
+  const handleCatalogLoad = (mapping: ColumnMapping, mode: CatalogLoadMode) => {
+    const fileName = pendingCatalogFile?.fileName ?? 'Catalog';
+    setPendingCatalogFile(null);
+    // Overlaid events replace current events with the same ID; the playhead stays where it was
+    catalog.importFile(mapping, mode).then(events => {
+      const bounds = playbackBounds(events, null);
+      setCatalogSourceName(mode === 'overlay' ? `${fileName} (overlay)` : fileName);
+      playback.setTimeRange(null);
+      playback.setPlayheadTime(mode === 'overlay' ? clampPlayhead(playheadTime, bounds) : bounds[0]);
+    }).catch((err: Error) => {
+      console.error('Error loading catalog file:', err);
+      setCatalogLoadError(`${fileName}: ${err.message}`);
+    });
+  };
+  const restoreBundledCatalog = () => {
+    catalog.load().then(events => {
+      setCatalogSourceName(null);
+      playback.setTimeRange(null);
+      playback.setPlayheadTime(events.length > 0 ? events[0].time : 0);
+    }).catch(err => console.error('Error loading or parsing earthquake catalog:', err));
+  };
+  // Drag-and-drop onto the map; only file drags are accepted
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFile(true);
+  };
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving between child elements fires dragleave too; only react when the pointer leaves the map
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFile(false);
+  };
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const [file] = Array.from(event.dataTransfer.files);
+    if (file) openCatalogFile(file);
+  };
+
+  // Region handlers: selecting a region filters to it and zooms to fit; drawings are saved to localStorage
+  const handleRegionSelect = (regionId: string | null) => {
+    setSelectedRegionId(regionId);
+    navigation.zoomToRegion(regions.find(r => r.id === regionId) ?? null);
+  };
+  const handleSavePendingRegion = (name: string) => {
+    if (!pendingRegionPolygon) return;
+    const region: Region = { id: `custom-${Date.now()}`, name, polygon: pendingRegionPolygon, custom: true };
+    const updated = [...customRegions, region];
+    setCustomRegions(updated);
+    saveCustomRegions(updated);
+    setPendingRegionPolygon(null);
+    setSelectedRegionId(region.id);
+    navigation.zoomToRegion(region);
+  };
+  const handleDeleteRegion = (regionId: string) => {
+    const updated = customRegions.filter(r => r.id !== regionId);
+    setCustomRegions(updated);
+    saveCustomRegions(updated);
+    if (selectedRegionId === regionId) setSelectedRegionId(null);
+    setComparisonSettings(settings => (settings?.regionId === regionId ? { ...settings, regionId: null } : settings));
+  };
+
+  // Removes the profile line, closing the cross-section chart
+  const clearProfile = () => {
+    setProfileLine(null);
+    setCrossSectionHoverEvent(null);
+  };
 
-    // 3. Use D3's data join pattern to efficiently add, update, and remove circles
-    const earthquakeGroup = svg.select<SVGGElement>('g.earthquakes');
-
-    earthquakeGroup.selectAll<SVGCircleElement, EarthquakeData>('circle')
-      // Bind filtered data; use timestamp as a unique key for object constancy
-      .data(filteredEarthquakes, d => d.timestamp)
-      .join(
-        // --- ENTER selection --- (for new data points)
-        enter => enter.append('circle')
-          // Set static attributes
-          .attr('cx', d => projection([d.longitude, d.latitude])?.[0] ?? 0)
-          .attr('cy', d => projection([d.longitude, d.latitude])?.[1] ?? 0)
-          .attr('fill', d => depthColorScale(d.depth))
-          .attr('stroke', '#333')
-          .attr('stroke-width', 0.5)
-          .style('cursor', 'pointer')
-          // Set initial state for transition
-          .attr('r', 0)
-          .attr('opacity', 0)
-          // Add Tooltip handlers
-          .on('mouseover', (event, d) => {
-             // Show tooltip on hover
-             try {
-                 const [x, y] = d3.pointer(event, svg.node()); // Get mouse position relative to SVG
-                 const formattedTime = formatDistanceToNow(new Date(d.timestamp), { addSuffix: true });
-                 const content = `
-                     Magnitude: ${d.magnitude.toFixed(1)}<br/>
-                     Depth: ${d.depth.toFixed(0)} km<br/>
-                     Time: ${formattedTime}
-                 `;
-                 setTooltip({ visible: true, content, x: x + 10, y: y + 10 }); // Position tooltip near cursor
-             } catch (e) {
-                 // Handle potential date parsing errors
-                 console.error('Error formatting date for tooltip:', d.timestamp, e);
-                 const [x, y] = d3.pointer(event, svg.node());
-                 setTooltip({ visible: true, content: 'Error displaying data', x: x + 10, y: y + 10 });
-             }
-          })
-          .on('mousemove', (event) => {
-             // Update tooltip position as mouse moves
-             const [x, y] = d3.pointer(event, svg.node());
-             setTooltip(prev => ({ ...prev, x: x + 10, y: y + 10 }));
-          })
-          .on('mouseout', () => {
-             // Hide tooltip when mouse leaves the circle
-             setTooltip({ visible: false, content: '', x: 0, y: 0 });
-          })
-          // Apply D3 transition for enter animation
-          .call(enter => enter.transition()
-            .duration(ANIMATION_DURATION_S * 1000) // Convert seconds to ms for D3
-            .attr('r', d => {
-                const scale = magnitudeRadiusScaleRef.current; // Get scale from ref
-                const targetRadius = scale && !isNaN(d.magnitude) ? scale(d.magnitude) : 1; // Default to 1px
-                return !isNaN(targetRadius) ? targetRadius : 1; // Ensure not NaN
-            })
-            .attr('opacity', 0.7)
-          ),
-        // --- UPDATE selection --- (for existing data points that remain after filtering)
-        update => update
-          // Apply D3 transition for smoothness if filters change attributes
-          .call(update => update.transition(`update-${Date.now()}`)
-            .duration(ANIMATION_DURATION_S * 500) // Shorter update transition (ms)
-            .attr('cx', d => projection([d.longitude, d.latitude])?.[0] ?? 0)
-            .attr('cy', d => projection([d.longitude, d.latitude])?.[1] ?? 0)
-            .attr('r', d => { // Restore dynamic radius calculation
-                const scale = magnitudeRadiusScaleRef.current;
-                const targetRadius = scale && !isNaN(d.magnitude) ? scale(d.magnitude) : 1;
-                return !isNaN(targetRadius) ? targetRadius : 1;
-            })
-            .attr('fill', d => depthColorScale(d.depth))
-            .style('opacity', 0.7)
-          ),
-        // --- EXIT selection --- (for data points removed by filtering or simulation progress)
-        exit => exit
-          // --- GSAP Exit Animation ---
-          .each(function() { // Use 'function' to preserve 'this' context
-              // eslint-disable-next-line @typescript-eslint/no-this-alias
-              const circleElement = this; // Capture 'this' for use in GSAP onComplete arrow fn
-              // Animate to radius 0, opacity 0
-              gsap.to(circleElement, { // Target the circle being removed
-                  attr: { r: 0 }, // Final state: zero radius
-                  autoAlpha: 0, // Final state: invisible
-                  duration: ANIMATION_DURATION_S,
-                  ease: 'power1.in', // Easing function for smooth disappearance
-                  // Remove the SVG element from the DOM after animation completes
-                  onComplete: () => {
-                      d3.select(circleElement).remove();
-                  }
-              });
-          })
-      );
-
-  }, [allEarthquakes, simulationIndex, minMagnitudeFilter, showOnlyShallow, geoData]); // Dependencies: Rerun rendering if data, simulation index, filters, or map data changes
 
   // --- Component JSX ---
   return (
-    // Main container div, using refs for size calculations
-    <div ref={containerRef} className="relative w-full h-full bg-gray-100 overflow-hidden">
+    // Outer column: the map on top, the timeline strip underneath
+    <div className="flex flex-col w-full h-full">
+    {/* Map container div, using refs for size calculations */}
+    <div
+      ref={containerRef}
+      className="relative w-full flex-1 min-h-0 bg-gray-100 overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Filter & Simulation Controls Panel */}
-      <div className="absolute top-4 left-4 bg-white bg-opacity-80 p-4 rounded shadow-md z-10 space-y-3 w-64">
+      <div className="absolute top-4 left-4 bg-white bg-opacity-80 p-4 rounded shadow-md z-10 space-y-3 w-64 max-h-[calc(100%-2rem)] overflow-y-auto">
          <p className="text-xs text-gray-600 mb-2">
            An interactive map simulating global earthquake occurrences over time.
          </p>
+         <CatalogReportSummary report={catalog.report} sourceName={catalogSourceName} />
+         {/* Load a user-supplied catalog (also possible by dropping a file on the map) */}
+         <div className="flex items-center gap-2 text-xs">
+           <label className="px-2 py-0.5 rounded bg-gray-200 hover:bg-gray-300 cursor-pointer">
+             Load catalog file…
+             <input
+               type="file"
+               accept=".csv,.txt,.tsv,.json,.geojson,.xml,.quakeml"
+               className="sr-only"
+               onChange={(e) => {
+                 const file = e.target.files?.[0];
+                 if (file) openCatalogFile(file);
+                 e.target.value = ''; // Allow choosing the same file again
+               }}
+             />
+           </label>
+           {catalogSourceName && (
+             <button type="button" onClick={restoreBundledCatalog} className="text-blue-600 hover:underline">
+               Use bundled catalog
+             </button>
+           )}
+         </div>
+         {catalogLoadError && <p className="text-xs text-red-600">{catalogLoadError}</p>}
+         {/* Live mode: poll a USGS-compatible feed and merge its events into the catalog */}
+         <LiveFeedControls
+           enabled={liveFeed.enabled}
+           url={liveFeed.url}
+           intervalS={liveFeed.intervalS}
+           lastPollAt={liveFeed.snapshot?.receivedAt ?? null}
+           lastChanges={liveFeed.changes}
+           error={liveFeed.error}
+           onEnabledChange={liveFeed.setEnabled}
+           onUrlChange={liveFeed.setUrl}
+           onIntervalChange={liveFeed.setIntervalS}
+         />
          <h3 className="text-sm font-semibold text-gray-700">Filters & Simulation</h3>
 
          {/* Simulation Controls Section */}
@@ -392,40 +883,52 @@ const WorldMap: React.FC = () => {
             {/* Play/Pause Button and Time Display */}
             <div className="flex items-center justify-between">
                  <button
-                    onClick={() => setIsSimulationRunning(!isSimulationRunning)}
+                    onClick={() => playback.setRunning(!playback.isRunning)}
                     // Disable button if data isn't loaded or simulation finished
-                    disabled={allEarthquakes.length === 0 || simulationIndex >= allEarthquakes.length}
+                    disabled={allEarthquakes.length === 0 || playback.isFinished}
                     // Dynamic styling for Play/Pause state
                     className={`px-3 py-1 text-xs font-medium rounded ${
-                      isSimulationRunning
+                      playback.isRunning
                         ? 'bg-yellow-500 hover:bg-yellow-600 text-white' // Pause style
                         : 'bg-green-500 hover:bg-green-600 text-white'   // Play style
                     } disabled:bg-gray-400 disabled:cursor-not-allowed`}
                  >
-                    {isSimulationRunning ? 'Pause' : (simulationIndex >= allEarthquakes.length ? 'Finished' : 'Play')}
+                    {playback.isRunning ? 'Pause' : (playback.isFinished ? 'Finished' : 'Play')}
                  </button>
                  {/* Display current simulation time */}
                  <span className="text-xs text-gray-600 whitespace-nowrap ml-2">
                     {currentSimulationTime || 'Loading data...'}
                  </span>
             </div>
-             {/* Simulation Progress Slider */}
-             <div>
-                <label htmlFor="simulationProgress" className="sr-only">Simulation Progress</label>
-                <input
-                    type="range"
-                    id="simulationProgress"
-                    min="0"
-                    // Set max value to the last valid index of the earthquake array
-                    max={allEarthquakes.length > 0 ? allEarthquakes.length -1 : 0}
-                    value={simulationIndex}
-                    // Update simulationIndex state when slider changes
-                    onChange={(e) => setSimulationIndex(parseInt(e.target.value))}
-                    disabled={allEarthquakes.length === 0} // Disable if no data
-                    className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 disabled:bg-gray-300"
-                    // Tooltip for the slider itself
-                    title={`Earthquake ${simulationIndex + 1} of ${allEarthquakes.length}`}
-                />
+             {/* Playback Speed & Time Window */}
+             <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label htmlFor="playbackSpeed" className="block text-xs font-medium text-gray-600">Speed</label>
+                    <select
+                        id="playbackSpeed"
+                        value={playback.speed}
+                        onChange={(e) => playback.setSpeed(Number(e.target.value))}
+                        className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                    >
+                        {PLAYBACK_SPEED_OPTIONS.map(option => (
+                            <option key={option.simulatedMsPerSecond} value={option.simulatedMsPerSecond}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="playbackWindow" className="block text-xs font-medium text-gray-600">Show</label>
+                    <select
+                        id="playbackWindow"
+                        // Cumulative (null) is encoded as an empty string in the select
+                        value={playback.windowMs ?? ''}
+                        onChange={(e) => playback.setWindowMs(e.target.value === '' ? null : Number(e.target.value))}
+                        className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                    >
+                        {PLAYBACK_WINDOW_OPTIONS.map(option => (
+                            <option key={option.label} value={option.durationMs ?? ''}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
              </div>
          </div>
 
@@ -448,36 +951,333 @@ const WorldMap: React.FC = () => {
             />
           </div>
 
-          {/* Depth Filter Toggle */}
+          {/* Depth Range Sliders (shallowest and deepest depth; each thumb stops short of the other) */}
+          <div>
+            <label htmlFor="minDepth" className="block text-xs font-medium text-gray-600">
+              Depth: {formatDepthRange(depthRangeKm)}
+            </label>
+            <input
+              type="range"
+              id="minDepth"
+              aria-label="Shallowest depth"
+              min={MIN_DEPTH_KM}
+              max={MAX_DEPTH_KM}
+              step={DEPTH_SLIDER_STEP_KM}
+              value={depthRangeKm[0]}
+              onChange={(e) => setDepthRangeKm([Math.min(Number(e.target.value), depthRangeKm[1] - DEPTH_SLIDER_STEP_KM), depthRangeKm[1]])}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
+            />
+            <input
+              type="range"
+              aria-label="Deepest depth"
+              min={MIN_DEPTH_KM}
+              max={MAX_DEPTH_KM}
+              step={DEPTH_SLIDER_STEP_KM}
+              value={depthRangeKm[1]}
+              onChange={(e) => setDepthRangeKm([depthRangeKm[0], Math.max(Number(e.target.value), depthRangeKm[0] + DEPTH_SLIDER_STEP_KM)])}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
+            />
+          </div>
+
+          {/* Declustering: hide foreshocks and aftershocks, e.g. for comparing background rates */}
           <div className="flex items-center">
             <input
               type="checkbox"
-              id="depthToggle"
-              checked={showOnlyShallow}
-              onChange={(e) => setShowOnlyShallow(e.target.checked)}
+              id="mainshocksOnly"
+              checked={mainshocksOnly}
+              onChange={(e) => setMainshocksOnly(e.target.checked)}
               className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
             />
-            <label htmlFor="depthToggle" className="ml-2 text-xs font-medium text-gray-600">
-              Show Only Shallow (&lt;50km)
+            <label htmlFor="mainshocksOnly" className="ml-2 text-xs font-medium text-gray-600">
+              Mainshocks only ({mainshockCount.toLocaleString()} of {allEarthquakes.length.toLocaleString()})
             </label>
           </div>
+
+          {/* Renderer Selection */}
+          <div>
+            <label htmlFor="renderer" className="block text-xs font-medium text-gray-600">
+              Renderer{rendererMode === 'auto' ? ` (using ${activeRenderer === 'canvas' ? 'Canvas' : 'SVG'})` : ''}
+            </label>
+            <select
+              id="renderer"
+              value={rendererMode}
+              onChange={(e) => setRendererMode(e.target.value as RendererMode)}
+              className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            >
+              <option value="auto">Auto (by event count)</option>
+              <option value="svg">SVG</option>
+              <option value="canvas">Canvas 2D</option>
+            </select>
+          </div>
+
+          {/* Layer Mode: one marker per event, or aggregated for dense views */}
+          <div>
+            <label htmlFor="layerMode" className="block text-xs font-medium text-gray-600">Layer</label>
+            <select
+              id="layerMode"
+              value={layerMode}
+              onChange={(e) => setLayerMode(e.target.value as LayerMode)}
+              className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            >
+              {LAYER_MODE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            {layerMode === 'hexbin' && (
+              <select
+                aria-label="Color hexagons by"
+                value={hexbinMetric}
+                onChange={(e) => setHexbinMetric(e.target.value as HexbinMetric)}
+                className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+              >
+                {HEXBIN_METRIC_OPTIONS.map(option => <option key={option.id} value={option.id}>Color by {option.label.toLowerCase()}</option>)}
+              </select>
+            )}
+          </div>
+
+          {/* Map Projection */}
+          <div>
+            <label htmlFor="projection" className="block text-xs font-medium text-gray-600">Projection</label>
+            <select
+              id="projection"
+              value={navigation.projectionId}
+              onChange={(e) => navigation.changeProjection(e.target.value as ProjectionId)}
+              className="mt-1 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            >
+              {PROJECTION_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            {navigation.projectionId === 'orthographic' && (
+              <p className="mt-1 text-[10px] text-gray-500">Drag to turn the globe; scroll or use +/− to zoom.</p>
+            )}
+          </div>
+
+          {/* Comparison mode: a second map with its own filters and period, swiped against this one */}
+          <ComparisonControls
+            settings={comparison.settings}
+            catalogTimeSpan={playback.catalogTimeSpan}
+            eventTypeOptions={eventTypeOptions}
+            magnitudeTypeOptions={magnitudeTypeOptions}
+            regions={regions}
+            onEnable={comparison.enable}
+            onDisable={comparison.disable}
+            onChange={comparison.setSettings}
+          />
+
+          {/* Region Focus */}
+          <RegionControls
+            regions={regions}
+            selectedRegionId={selectedRegionId}
+            drawMode={regionDrawMode}
+            pendingPolygon={pendingRegionPolygon}
+            onSelect={handleRegionSelect}
+            onDrawModeChange={(mode) => { setPendingRegionPolygon(null); setProfileDrawing(false); setRegionDrawMode(mode); }}
+            onSavePending={handleSavePendingRegion}
+            onDiscardPending={() => setPendingRegionPolygon(null)}
+            onDelete={handleDeleteRegion}
+          />
+
+          {/* Depth cross-section along a drawn profile line */}
+          <CrossSectionControls
+            hasProfile={profileLine !== null}
+            drawing={profileDrawing}
+            swathKm={swathWidthKm}
+            onDrawingChange={(drawing) => { if (drawing) setRegionDrawMode(null); setProfileDrawing(drawing); }}
+            onSwathChange={setSwathWidthKm}
+            onClear={clearProfile}
+          />
+
+          {/* Event Type & Magnitude Type Filters */}
+          <CategoryFilter
+            id="eventType"
+            label="Event Types"
+            options={eventTypeOptions}
+            excluded={excludedEventTypes}
+            onChange={setExcludedEventTypes}
+          />
+          <CategoryFilter
+            id="magnitudeType"
+            label="Magnitude Types"
+            options={magnitudeTypeOptions}
+            excluded={excludedMagnitudeTypes}
+            onChange={setExcludedMagnitudeTypes}
+          />
+
+          {/* Accessibility: reduced motion and the keyboard shortcuts */}
+          <div className="space-y-1">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="reducedMotion"
+                checked={reducedMotion}
+                onChange={(e) => setReducedMotion(e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+              />
+              <label htmlFor="reducedMotion" className="ml-2 text-xs font-medium text-gray-600">
+                Reduce motion (no marker, zoom or projection animations)
+              </label>
+            </div>
+            <KeyboardShortcutsHelp id="keyboardShortcuts" />
+          </div>
+
+          {/* Export of the selected events and the map */}
+          <ExportMenu
+            eventCount={selectedEarthquakes.length}
+            disabled={allEarthquakes.length === 0 || !geoData}
+            error={mapExport.error}
+            onExportEvents={mapExport.exportEvents}
+            onExportMap={mapExport.exportMap}
+          />
+      </div>
+
+      {/* Right-hand column: pinned event details, Statistics Panel and Zoom Controls */}
+      <div className="absolute top-4 right-4 z-10 flex items-start gap-2">
+        {pinnedEvent && (
+          <EventDetailPanel
+            event={pinnedEvent}
+            playheadTime={playheadTime}
+            nearestPlace={nearestPlace}
+            nearby={nearbyEarthquakes}
+            sequence={pinnedSequence}
+            radiusKm={nearbyRadiusKm}
+            windowDays={nearbyWindowDays}
+            onRadiusChange={setNearbyRadiusKm}
+            onWindowChange={setNearbyWindowDays}
+            onSelect={(event) => setPinnedEventId(event.id)}
+            onClose={() => setPinnedEventId(null)}
+          />
+        )}
+        <div className="flex flex-col gap-2">
+          {comparison.summaries && <ComparisonSummary a={comparison.summaries.a} b={comparison.summaries.b} />}
+          <StatsPanel stats={selectionStats} />
+        </div>
+        <div className="flex flex-col bg-white bg-opacity-80 rounded shadow-md text-sm">
+          <button type="button" onClick={() => zoomBy(ZOOM_STEP)} className="px-2 py-1 hover:bg-gray-200" title="Zoom in" aria-label="Zoom in">+</button>
+          <button type="button" onClick={() => zoomBy(1 / ZOOM_STEP)} className="px-2 py-1 border-t hover:bg-gray-200" title="Zoom out" aria-label="Zoom out">−</button>
+          <button type="button" onClick={navigation.resetZoom} className="px-2 py-1 border-t text-xs hover:bg-gray-200" title="Reset view" aria-label="Reset view">⟲</button>
+        </div>
       </div>
 
-      {/* SVG Container for the D3 map */}
-      <svg ref={svgRef} width="100%" height="100%"></svg>
+      {/* Cross-section chart for the drawn profile, between the controls panel and the legend */}
+      {depthProfile && (
+        <div className="absolute bottom-4 left-72 right-52 z-10">
+          <CrossSectionChart
+            points={crossSectionPoints}
+            lengthKm={profileLengthKm(depthProfile)}
+            swathKm={depthProfile.swathKm}
+            highlightedEventId={crossSectionHoverEvent?.id ?? tooltip.event?.id ?? null}
+            pinnedEventId={pinnedEventId}
+            onHover={setCrossSectionHoverEvent}
+            onSelect={(event) => setPinnedEventId(event.id)}
+            onClose={clearProfile}
+          />
+        </div>
+      )}
+
+      {/* Depth/Magnitude Legend */}
+      <div className="absolute bottom-4 right-4 z-10">
+        <Legend
+          aggregate={aggregateLegend}
+          note={layerMode === 'clusters' ? 'Numbered badges group nearby events; zoom in or click one to expand it.' : undefined}
+        />
+      </div>
 
-      {/* Tooltip Element (rendered conditionally) */}
-      {tooltip.visible && (
+      {/* SVG Container for the D3 map, focusable for keyboard navigation between events */}
+      <svg
+        ref={map.svg}
+        width="100%"
+        height="100%"
+        tabIndex={0}
+        role="application"
+        aria-label="Earthquake map. Arrow keys move between events, Enter pins the focused event."
+        aria-describedby="keyboardShortcuts"
+        onKeyDown={handleMapKeyDown}
+        className="focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-blue-600"
+      ></svg>
+
+      {/* Screen reader announcements (focused event, new events during playback, playback changes) */}
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+      {/* Canvas 2D earthquake layer, stacked over the SVG map; pointer events pass through to the SVG */}
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+
+      {/* Comparison mode: map B, stacked over map A and shown right of the swipe divider. Pointer events pass
+          through to map A, whose zoom both maps share. */}
+      {comparison.settings && (
+        <>
+          <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 0 0 ${comparison.swipePosition * 100}%)` }}>
+            <svg ref={comparison.svgRef} width="100%" height="100%" aria-hidden="true"></svg>
+            <canvas ref={comparison.canvasRef} className="absolute inset-0 w-full h-full" />
+          </div>
+          <div className="absolute inset-y-0 w-0.5 -ml-px bg-white shadow pointer-events-none" style={{ left: `${comparison.swipePosition * 100}%` }}>
+            <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-white bg-opacity-80 text-xs text-gray-700 whitespace-nowrap shadow">
+              <strong>A</strong> {format(playbackStart, 'yyyy')}–{format(playbackEnd, 'yyyy')}, M ≥ {minMagnitudeFilter.toFixed(1)}
+            </span>
+            <span className="absolute top-2 left-2 px-1.5 py-0.5 rounded bg-white bg-opacity-80 text-xs text-gray-700 whitespace-nowrap shadow">
+              <strong>B</strong> {format(comparison.bounds[0], 'yyyy')}–{format(comparison.bounds[1], 'yyyy')}, M ≥ {comparison.settings.minMagnitude.toFixed(1)}
+            </span>
+            <div
+              role="separator"
+              aria-orientation="vertical"
+              aria-label="Swipe between map A and map B"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(comparison.swipePosition * 100)}
+              tabIndex={0}
+              onPointerDown={comparison.handleSwipePointer}
+              onPointerMove={comparison.handleSwipePointer}
+              onKeyDown={comparison.handleSwipeKeyDown}
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-10 flex items-center justify-center rounded bg-white shadow-md text-xs text-gray-500 cursor-ew-resize select-none touch-none pointer-events-auto focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-600"
+            >
+              ⇔
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Drop target hint while a file is dragged over the map */}
+      {isDraggingFile && (
+        <div className="absolute inset-2 z-20 flex items-center justify-center rounded border-4 border-dashed border-blue-500 bg-blue-100 bg-opacity-60 pointer-events-none">
+          <p className="text-sm font-medium text-blue-800">
+            Drop a catalog file to load it (CSV, FDSN text, GeoJSON, QuakeML or JSON)
+          </p>
+        </div>
+      )}
+
+      {/* Column mapping and load options for a dropped catalog file */}
+      {pendingCatalogFile && (
+        <CatalogImportDialog
+          file={pendingCatalogFile}
+          previewImport={catalog.previewImport}
+          onLoad={handleCatalogLoad}
+          onCancel={() => setPendingCatalogFile(null)}
+        />
+      )}
+
+      {/* Tooltip Element (rendered conditionally; for map B's markers right of the swipe divider too) */}
+      {tooltip.visible && tooltip.event && (
         <div
           // Standard tooltip styling
-          className="absolute bg-gray-800 text-white text-xs rounded p-2 pointer-events-none shadow-lg"
+          className="absolute bg-gray-800 text-white text-xs rounded p-2 pointer-events-none shadow-lg z-20"
           // Position tooltip based on state updated by mouse events
           style={{ left: `${tooltip.x}px`, top: `${tooltip.y}px` }}
-          // Use dangerouslySetInnerHTML for simple HTML content in tooltip
-          dangerouslySetInnerHTML={{ __html: tooltip.content }}
-        />
+        >
+          {tooltip.event.type}<br />
+          Magnitude: {tooltip.event.magnitude.toFixed(1)} {tooltip.event.magnitudeType ?? ''}<br />
+          Depth: {tooltip.event.depth.toFixed(0)} km<br />
+          Time: {relativeToPlayhead(tooltip.event.time, playheadTime)}<br />
+          <span className="text-gray-400">{tooltip.event.id === focusedEventId ? 'Press Enter to pin details' : 'Click to pin details'}</span>
+        </div>
       )}
     </div>
+
+    {/* Timeline strip: monthly histogram, date-range brush and draggable playhead */}
+    <Timeline
+      events={timelineEarthquakes}
+      domain={playback.catalogTimeSpan}
+      timeRange={playback.timeRange}
+      playheadTime={playheadTime}
+      onTimeRangeChange={playback.changeTimeRange}
+      onPlayheadChange={playback.seek}
+    />
+    </div>
   );
 };
 
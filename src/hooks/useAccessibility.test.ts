@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EarthquakeData } from '@/lib/catalog';
+import { DAY_MS } from '@/lib/playback';
+import { makeEvent } from '@/test/fixtures';
+import { useMapRefs } from './useMapRefs';
+import { usePlaybackAnnouncements, useReducedMotion } from './useAccessibility';
+
+const START = Date.UTC(2000, 0, 1);
+const EVENTS = [0, 1, 2, 3].map(day => makeEvent({ id: `EQ${day}`, time: START + day * DAY_MS, magnitude: 5 + day / 10 }));
+
+describe('useReducedMotion', () => {
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('starts from the system setting and keeps the map ref in step', () => {
+    vi.stubGlobal('matchMedia', () => ({ matches: true, addEventListener: () => {}, removeEventListener: () => {} }));
+    const { result } = renderHook(() => {
+      const map = useMapRefs('mercator');
+      return { map, reducedMotion: useReducedMotion(map) };
+    });
+    expect(result.current.reducedMotion[0]).toBe(true);
+    expect(result.current.map.reducedMotion.current).toBe(true);
+
+    act(() => result.current.reducedMotion[1](false));
+    expect(result.current.map.reducedMotion.current).toBe(false);
+  });
+});
+
+describe('usePlaybackAnnouncements', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['performance'] });
+    vi.advanceTimersByTime(10000);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('announces the events playback has passed, at most every few seconds', () => {
+    const announce = vi.fn();
+    const { rerender } = renderHook(
+      ({ selected, playheadTime }: { selected: EarthquakeData[]; playheadTime: number }) =>
+        usePlaybackAnnouncements(selected, true, playheadTime, () => null, announce),
+      { initialProps: { selected: EVENTS.slice(0, 1), playheadTime: START } },
+    );
+    expect(announce).not.toHaveBeenCalled();
+
+    rerender({ selected: EVENTS.slice(0, 3), playheadTime: START + 2 * DAY_MS });
+    expect(announce).toHaveBeenCalledTimes(1);
+    expect(announce.mock.calls[0][0]).toMatch(/^2 new events\. Largest: magnitude 5\.2/);
+
+    // Too soon after the last announcement; the event is announced with the next ones
+    rerender({ selected: EVENTS, playheadTime: START + 3 * DAY_MS });
+    expect(announce).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(5000);
+    rerender({ selected: [...EVENTS], playheadTime: START + 4 * DAY_MS });
+    expect(announce).toHaveBeenCalledTimes(2);
+    expect(announce.mock.calls[1][0]).toMatch(/^1 new event\. Magnitude 5\.3/);
+  });
+});
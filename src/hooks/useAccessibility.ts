@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { describeNewEvents } from '@/lib/announcements';
+import { EarthquakeData } from '@/lib/catalog';
+import { NearestPlace } from '@/lib/geo';
+import { MapRefs } from './useMapRefs';
+
+const ANNOUNCEMENT_INTERVAL_MS = 5000; // Minimum real time between announcements of new events during playback
+
+/**
+ * Reduced-motion mode, which skips marker, zoom and projection animations. It follows the system setting until
+ * changed by the user; D3 and GSAP code reads the map's ref, kept in step here.
+ */
+export const useReducedMotion = (map: MapRefs): [boolean, (reduced: boolean) => void] => {
+  const [reducedMotion, setReducedMotion] = useState<boolean>(false);
+  map.reducedMotion.current = reducedMotion;
+
+  // Starts from the system setting, and follows changes to it
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    setReducedMotion(query.matches);
+    const onChange = (event: MediaQueryListEvent) => setReducedMotion(event.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return [reducedMotion, setReducedMotion];
+};
+
+/**
+ * Announces events appearing during playback: how many since the last announcement and the largest of them,
+ * at most every few seconds so screen readers can keep up.
+ */
+export const usePlaybackAnnouncements = (
+  selected: EarthquakeData[], // In time order
+  isRunning: boolean,
+  playheadTime: number,
+  locate: (d: EarthquakeData) => NearestPlace | null,
+  announce: (message: string) => void,
+): void => {
+  // Playhead time up to which new events have been announced (null when paused), and the real time of the last announcement
+  const announcedUntilRef = useRef<number | null>(null);
+  const lastAnnouncementAtRef = useRef<number>(0);
+
+  useEffect(() => {
+    if (!isRunning) {
+      announcedUntilRef.current = null;
+      return;
+    }
+    if (announcedUntilRef.current === null) announcedUntilRef.current = playheadTime;
+    const now = performance.now();
+    if (now - lastAnnouncementAtRef.current < ANNOUNCEMENT_INTERVAL_MS) return;
+    // The new events are at the end
+    const fresh = selected.slice(d3.bisector((d: EarthquakeData) => d.time).right(selected, announcedUntilRef.current));
+    if (fresh.length === 0) return;
+    announcedUntilRef.current = fresh[fresh.length - 1].time;
+    lastAnnouncementAtRef.current = now;
+    announce(describeNewEvents(fresh, locate));
+  }, [selected, isRunning, playheadTime, locate, announce]);
+};
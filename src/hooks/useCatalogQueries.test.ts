@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EarthquakeData } from '@/lib/catalog';
+import { CatalogQuery } from '@/lib/catalogProtocol';
+import { DEPTH_FILTER_DOMAIN_KM, EventFilters } from '@/lib/filters';
+import { PREDEFINED_REGIONS } from '@/lib/regions';
+import { FIXTURE_CATALOG_CSV } from '@/test/fixtures';
+import { EMPTY_CATALOG_VIEW, useCatalogView, useNearbyEvents, usePinnedSequence, useTimelineEvents } from './useCatalogQueries';
+import { useCatalogWorker } from './useCatalogWorker';
+
+const NO_FILTERS: EventFilters = {
+  minMagnitude: 0,
+  depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+  excludedEventTypes: [],
+  excludedMagnitudeTypes: [],
+  region: null,
+  mainshocksOnly: false,
+};
+
+// The fixture catalog at the end of 1967, without filters
+const QUERY: CatalogQuery = {
+  filters: NO_FILTERS,
+  playheadTime: Date.UTC(1967, 11, 31),
+  playbackWindowMs: null,
+  timeRange: null,
+  bounds: null,
+  profile: null,
+};
+
+const ids = (events: EarthquakeData[]) => events.map(d => d.id);
+
+// The hooks under test, asking the worker the hook starts for the fixture catalog
+const renderQueries = (query: CatalogQuery | null, filters: EventFilters, pinnedId: string | null) =>
+  renderHook(() => {
+    const catalog = useCatalogWorker(PREDEFINED_REGIONS);
+    const pinned = catalog.events.find(d => d.id === pinnedId) ?? null;
+    return {
+      catalog,
+      view: useCatalogView(catalog, query),
+      timeline: useTimelineEvents(catalog, filters),
+      nearby: useNearbyEvents(catalog, pinned, 20000, 100000),
+      sequence: usePinnedSequence(catalog, pinned),
+    };
+  });
+
+describe('catalog query hooks', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(FIXTURE_CATALOG_CSV)));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('shows the events up to the playhead, and those inside the viewport', async () => {
+    const query = { ...QUERY, bounds: { west: 100, south: -90, east: 180, north: 90 } };
+    const { result } = renderQueries(query, NO_FILTERS, null);
+    await waitFor(() => expect(ids(result.current.view.selected)).toEqual(['EQ1', 'EQ2', 'EQ3']));
+    expect(ids(result.current.view.visible)).toEqual(['EQ1', 'EQ3']);
+    expect(result.current.view.stats.count).toBe(3);
+  });
+
+  it('shows nothing for no query', async () => {
+    const { result } = renderQueries(null, NO_FILTERS, null);
+    await waitFor(() => expect(result.current.catalog.summary).not.toBeNull());
+    expect(result.current.view).toBe(EMPTY_CATALOG_VIEW);
+  });
+
+  it('counts the events passing the filters for the timeline, whatever the playhead', async () => {
+    const { result } = renderQueries(QUERY, { ...NO_FILTERS, excludedEventTypes: ['Nuclear Explosion'] }, null);
+    await waitFor(() => expect(ids(result.current.timeline)).toEqual(['EQ1', 'EQ2', 'EQ3', 'EQ4', 'EQ5']));
+  });
+
+  it('finds the events near the pinned event and its sequence', async () => {
+    const { result } = renderQueries(QUERY, NO_FILTERS, 'EQ3');
+    await waitFor(() => expect(result.current.nearby).toHaveLength(5));
+    expect(result.current.nearby.map(n => n.event.id)).not.toContain('EQ3');
+    expect(result.current.nearby.every(n => n.offsetMs === n.event.time - Date.UTC(1967, 2, 1))).toBe(true);
+    // The fixture events are too far apart to form sequences, so the pinned event is a mainshock on its own
+    await waitFor(() => expect(result.current.sequence).not.toBeNull());
+    expect(result.current.sequence?.role).toBe('mainshock');
+    expect(ids(result.current.sequence!.events)).toEqual(['EQ3']);
+    expect(result.current.sequence?.aftershockCount).toBe(0);
+  });
+});
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { EarthquakeData } from '@/lib/catalog';
+import { CatalogQuery, CatalogQueryResult } from '@/lib/catalogProtocol';
+import { CrossSectionPoint } from '@/lib/crossSection';
+import { SequenceSummary } from '@/lib/declustering';
+import { EventFilters } from '@/lib/filters';
+import { NearbyEvent } from '@/lib/nearby';
+import { SelectionStats, computeSelectionStats } from '@/lib/stats';
+import { CatalogWorker } from './useCatalogWorker';
+
+// Questions the map asks the catalog worker. Each hook asks again whenever its question or the catalog
+// changes, and resolves the catalog indices in the answer against the catalog the question was asked for.
+
+// The catalog worker's answer for a playhead, filters and viewport
+export interface CatalogView {
+  selected: EarthquakeData[]; // In the playback window and passing the filters, wherever they are
+  visible: EarthquakeData[]; // Those of them inside the viewport
+  stats: SelectionStats; // Statistics of the selected events
+  crossSection: CrossSectionPoint[]; // Selected events inside the depth profile's swath
+}
+
+export const EMPTY_CATALOG_VIEW: CatalogView = { selected: [], visible: [], stats: computeSelectionStats([], []), crossSection: [] };
+
+const NO_EVENTS: EarthquakeData[] = [];
+const NO_NEARBY_EVENTS: NearbyEvent[] = [];
+
+/**
+ * Resolves the worker's answer to a query against the catalog it was asked for.
+ */
+export const resolveCatalogView = ({ selected, visible, stats, crossSection }: CatalogQueryResult, events: EarthquakeData[]): CatalogView => ({
+  selected: Array.from(selected, i => events[i]),
+  visible: Array.from(visible, i => events[i]),
+  stats,
+  crossSection: crossSection
+    ? Array.from(crossSection.indices, (i, j) => ({
+      event: events[i],
+      distanceKm: crossSection.distancesKm[j],
+      offsetKm: crossSection.offsetsKm[j],
+    }))
+    : [],
+});
+
+/**
+ * Which events to show at the playhead: those in the playback window passing the filters, which of them lie
+ * inside the viewport and the profile's swath, and their statistics. Asked on every playback tick; the client
+ * drops ticks that pile up while the worker is busy. Queries on different channels (the two maps of comparison
+ * mode) don't replace each other. A null query (e.g. comparison mode off) shows nothing.
+ */
+export const useCatalogView = (catalog: CatalogWorker, query: CatalogQuery | null, channel?: string): CatalogView => {
+  const { events, revision, clientFor } = catalog;
+  const [view, setView] = useState<CatalogView>(EMPTY_CATALOG_VIEW);
+  useEffect(() => {
+    if (!query) {
+      setView(EMPTY_CATALOG_VIEW);
+      return;
+    }
+    clientFor(events)?.query(query, result => setView(resolveCatalogView(result, events)), channel);
+  }, [events, revision, clientFor, query, channel]); // Revision: the statistics are recounted once new regions are sent
+  return view;
+};
+
+/**
+ * The events passing the non-temporal filters, counted by the timeline histogram.
+ */
+export const useTimelineEvents = (catalog: CatalogWorker, filters: EventFilters): EarthquakeData[] => {
+  const { events, clientFor } = catalog;
+  const [matching, setMatching] = useState<EarthquakeData[]>(NO_EVENTS);
+  useEffect(() => {
+    const client = clientFor(events);
+    if (!client) return;
+    let cancelled = false;
+    client.filter(filters)
+      .then(indices => {
+        if (!cancelled) setMatching(Array.from(indices, i => events[i]));
+      })
+      .catch(err => console.error('Error filtering earthquake catalog:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [events, clientFor, filters]);
+  return matching;
+};
+
+/**
+ * The other events within the radius and time window of the pinned event.
+ */
+export const useNearbyEvents = (
+  catalog: CatalogWorker,
+  pinnedEvent: EarthquakeData | null,
+  radiusKm: number,
+  windowDays: number,
+): NearbyEvent[] => {
+  const { events, clientFor } = catalog;
+  const [nearby, setNearby] = useState<NearbyEvent[]>(NO_NEARBY_EVENTS);
+  useEffect(() => {
+    const client = clientFor(events);
+    if (!client || !pinnedEvent) {
+      setNearby(NO_NEARBY_EVENTS);
+      return;
+    }
+    let cancelled = false;
+    client.findNearby(pinnedEvent.id, radiusKm, windowDays)
+      .then(({ indices, distancesKm }) => {
+        if (cancelled) return;
+        setNearby(Array.from(indices, (i, j) => ({
+          event: events[i],
+          distanceKm: distancesKm[j],
+          offsetMs: events[i].time - pinnedEvent.time,
+        })));
+      })
+      .catch(err => console.error('Error finding nearby events:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [events, clientFor, pinnedEvent, radiusKm, windowDays]);
+  return nearby;
+};
+
+/**
+ * The mainshock/aftershock sequence (Gardner–Knopoff windows) the pinned event belongs to.
+ */
+export const usePinnedSequence = (catalog: CatalogWorker, pinnedEvent: EarthquakeData | null): SequenceSummary | null => {
+  const { events, clientFor } = catalog;
+  const [sequence, setSequence] = useState<SequenceSummary | null>(null);
+  useEffect(() => {
+    const client = clientFor(events);
+    if (!client || !pinnedEvent) {
+      setSequence(null);
+      return;
+    }
+    let cancelled = false;
+    client.findSequence(pinnedEvent.id)
+      .then(found => {
+        if (cancelled) return;
+        setSequence(found && {
+          role: found.role,
+          mainshock: events[found.mainshock],
+          events: Array.from(found.events, i => events[i]),
+          foreshockCount: found.foreshockCount,
+          aftershockCount: found.aftershockCount,
+        });
+      })
+      .catch(err => console.error("Error finding the pinned event's sequence:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [events, clientFor, pinnedEvent]);
+  return sequence;
+};
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mergeCatalogs } from '@/lib/catalog';
+import { CatalogClient } from '@/lib/catalogClient';
+import { detectColumnMapping } from '@/lib/catalogFormats';
+import { PREDEFINED_REGIONS } from '@/lib/regions';
+import { CATALOG_HEADER, FIXTURE_CATALOG_CSV, catalogRow, makeEvent } from '@/test/fixtures';
+import { useCatalogWorker } from './useCatalogWorker';
+
+// The clients the hook starts (the catalog service runs in-process under jsdom)
+const clients = vi.hoisted(() => [] as CatalogClient[]);
+vi.mock('@/lib/catalogClient', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/catalogClient')>();
+  return {
+    ...actual,
+    createCatalogClient: () => {
+      const client = actual.createCatalogClient();
+      clients.push(client);
+      return client;
+    },
+  };
+});
+
+// A user's file in the bundled format, revising the first fixture event and adding one
+const FILE_CSV = [
+  CATALOG_HEADER,
+  catalogRow('EQ1', '01/02/1965', '13:44:18', 19.246, 145.616, 6.2, 131.6),
+  catalogRow('FILE1', '01/01/1971', '00:00:00', 10, 10, 5.5, 20),
+].join('\n');
+
+describe('useCatalogWorker', () => {
+  beforeEach(() => {
+    clients.length = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(FIXTURE_CATALOG_CSV)));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('loads the bundled catalog into the worker and shows it', async () => {
+    const { result } = renderHook(() => useCatalogWorker(PREDEFINED_REGIONS));
+    await waitFor(() => expect(result.current.events).toHaveLength(6));
+    expect(result.current.report?.rejectedRows).toBe(0);
+    expect(result.current.summary?.eventTypes).toEqual([
+      { value: 'Earthquake', count: 5 },
+      { value: 'Nuclear Explosion', count: 1 },
+    ]);
+    // The worker holds the shown catalog, so its answers can be resolved against it
+    expect(result.current.clientFor(result.current.events)).toBe(clients[0]);
+    expect(result.current.clientFor([])).toBeNull();
+  });
+
+  it('shows the catalog the worker merges events into, keeping the array when nothing changed', async () => {
+    const { result } = renderHook(() => useCatalogWorker(PREDEFINED_REGIONS));
+    await waitFor(() => expect(result.current.events).toHaveLength(6));
+    const before = result.current.events;
+
+    const added = [makeEvent({ id: 'NEW1', time: Date.UTC(1971, 0, 1), type: 'Explosion' })];
+    await act(() => result.current.merge([before[0], ...added]));
+    expect(result.current.events).toEqual(mergeCatalogs(before, added));
+    expect(result.current.summary?.eventTypes).toContainEqual({ value: 'Explosion', count: 1 });
+    expect(result.current.clientFor(result.current.events)).toBe(clients[0]);
+
+    const merged = result.current.events;
+    const change = await act(() => result.current.merge(added));
+    expect(change).toMatchObject({ added: [], updated: [] });
+    expect(result.current.events).toBe(merged);
+  });
+
+  it('imports a file read in the worker in place of or on top of the catalog', async () => {
+    const { result } = renderHook(() => useCatalogWorker(PREDEFINED_REGIONS));
+    await waitFor(() => expect(result.current.events).toHaveLength(6));
+
+    const file = await act(() => result.current.readFile('mine.csv', FILE_CSV));
+    expect(file).toMatchObject({ fileName: 'mine.csv', format: 'csv', recordCount: 2 });
+    const mapping = detectColumnMapping(file.columns);
+    expect(await act(() => result.current.previewImport(mapping))).toMatchObject({ acceptedRows: 2, rejectedRows: 0 });
+
+    await act(() => result.current.importFile(mapping, 'overlay'));
+    expect(result.current.events.map(d => d.id)).toEqual(['EQ1', 'EQ2', 'EQ3', 'EQ4', 'EQ5', 'NX1', 'FILE1']);
+    expect(result.current.events[0].magnitude).toBe(6.2);
+    expect(result.current.report?.totalRows).toBe(2);
+
+    await act(() => result.current.importFile(mapping, 'replace'));
+    expect(result.current.events.map(d => d.id)).toEqual(['EQ1', 'FILE1']);
+    expect(result.current.summary?.eventTypes).toEqual([{ value: 'Earthquake', count: 2 }]);
+  });
+
+  it('stops the worker on unmount', async () => {
+    const { result, unmount } = renderHook(() => useCatalogWorker(PREDEFINED_REGIONS));
+    await waitFor(() => expect(result.current.events).toHaveLength(6));
+    const terminate = vi.spyOn(clients[0], 'terminate');
+    unmount();
+    expect(terminate).toHaveBeenCalled();
+  });
+});
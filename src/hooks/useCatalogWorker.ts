@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CatalogReport, DEFAULT_CATALOG_URL, EarthquakeData } from '@/lib/catalog';
+import { CatalogChange, CatalogClient, createCatalogClient } from '@/lib/catalogClient';
+import { ColumnMapping } from '@/lib/catalogFormats';
+import { CatalogFileInfo, CatalogLoadMode, CatalogSummary } from '@/lib/catalogProtocol';
+import { Region } from '@/lib/regions';
+
+// The catalog before one has loaded (the worker starts out holding an empty catalog too)
+const NO_EVENTS: EarthquakeData[] = [];
+
+// The catalog shown on the map, and the worker that parses, merges and indexes it and answers questions about it
+export interface CatalogWorker {
+  events: EarthquakeData[]; // Sorted chronologically
+  summary: CatalogSummary | null; // What the worker derived from the catalog it last indexed; null before the first
+  report: CatalogReport | null; // Validation report of the last catalog loaded or imported
+  revision: number; // Changes whenever the worker's answers to the same question may change (e.g. new regions)
+  /**
+   * The worker's client, when the worker holds `events` so that the indices it answers with can be resolved
+   * against them; null while it is still loading or merging another catalog.
+   */
+  clientFor: (events: EarthquakeData[]) => CatalogClient | null;
+  /** Loads a catalog CSV (the bundled one by default) in the worker and shows it. */
+  load: (url?: string) => Promise<EarthquakeData[]>;
+  /** Reads a user's catalog file in the worker, for the import dialog. */
+  readFile: (fileName: string, text: string) => Promise<CatalogFileInfo>;
+  /** Validation report of the file read last, parsed with a column mapping. */
+  previewImport: (mapping: ColumnMapping) => Promise<CatalogReport>;
+  /** Loads the file read last in place of the catalog, or merges it in by ID, and shows the result. */
+  importFile: (mapping: ColumnMapping, mode: CatalogLoadMode) => Promise<EarthquakeData[]>;
+  /**
+   * Merges new or revised events (e.g. a live feed snapshot) into the catalog by ID and shows the result.
+   * Resolves with the change, whose events are the current array itself when nothing changed.
+   */
+  merge: (events: EarthquakeData[]) => Promise<CatalogChange>;
+}
+
+/**
+ * Starts the catalog worker, loads the bundled catalog into it, and shows each catalog the worker replaces
+ * or merges. The worker's regions are kept in step with the map's, and the worker is stopped on unmount.
+ */
+export const useCatalogWorker = (regions: Region[]): CatalogWorker => {
+  // Client for the catalog worker, which parses and indexes the catalog and answers filter and viewport queries
+  const clientRef = useRef<CatalogClient | null>(null);
+
+  const [events, setEvents] = useState<EarthquakeData[]>(NO_EVENTS);
+  // What the worker derived from a catalog (type counts, mainshocks)
+  const [summary, setSummary] = useState<CatalogSummary | null>(null);
+  const [report, setReport] = useState<CatalogReport | null>(null);
+  const [revision, setRevision] = useState<number>(0);
+
+  // Calls the worker through its client, failing once the worker has stopped
+  const withClient = useCallback(<T>(use: (client: CatalogClient) => Promise<T>): Promise<T> => {
+    const client = clientRef.current;
+    return client ? use(client) : Promise.reject(new Error('The catalog worker is not running'));
+  }, []);
+
+  // Sends a catalog change to the worker and shows the catalog it comes back with
+  const change = useCallback((send: (client: CatalogClient) => Promise<CatalogChange>) =>
+    withClient(send).then(result => {
+      setEvents(result.events);
+      // A merge that changed nothing leaves the summary as it was
+      if (result.report || result.added.length > 0 || result.updated.length > 0) setSummary(result.summary);
+      if (result.report) {
+        setReport(result.report);
+        if (result.report.rejectedRows > 0) {
+          console.warn(`Rejected ${result.report.rejectedRows} of ${result.report.totalRows} catalog rows; see the validation report`);
+        }
+      }
+      return result;
+    }), [withClient]);
+
+  const load = useCallback(
+    (url: string = DEFAULT_CATALOG_URL) => change(client => client.load(url)).then(result => result.events),
+    [change],
+  );
+  const importFile = useCallback(
+    (mapping: ColumnMapping, mode: CatalogLoadMode) => change(client => client.importFile(mapping, mode)).then(result => result.events),
+    [change],
+  );
+  const merge = useCallback((changed: EarthquakeData[]) => change(client => client.mergeEvents(changed)), [change]);
+  const readFile = useCallback(
+    (fileName: string, text: string) => withClient(client => client.readFile(fileName, text)),
+    [withClient],
+  );
+  const previewImport = useCallback((mapping: ColumnMapping) => withClient(client => client.previewImport(mapping)), [withClient]);
+
+  const clientFor = useCallback(
+    (catalog: EarthquakeData[]) => (clientRef.current?.catalog() === catalog ? clientRef.current : null),
+    [],
+  );
+
+  // Starts the worker and fetches the bundled catalog (events arrive sorted chronologically)
+  useEffect(() => {
+    const client = createCatalogClient();
+    clientRef.current = client;
+    load().catch(err => console.error('Error loading or parsing earthquake catalog:', err));
+    return () => {
+      client.terminate();
+      clientRef.current = null;
+    };
+  }, [load]);
+
+  // Keeps the worker's regions in step, for the most active region in the statistics
+  useEffect(() => {
+    clientRef.current?.setRegions(regions)
+      .then(() => setRevision(r => r + 1))
+      .catch(err => console.error('Error updating regions:', err));
+  }, [regions]);
+
+  return useMemo(
+    () => ({ events, summary, report, revision, clientFor, load, readFile, previewImport, importFile, merge }),
+    [events, summary, report, revision, clientFor, load, readFile, previewImport, importFile, merge],
+  );
+};
@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ComparisonSettings, DEFAULT_COMPARISON_SETTINGS, DEFAULT_SWIPE_POSITION } from '@/lib/comparison';
+import { DEPTH_FILTER_DOMAIN_KM, EventFilters } from '@/lib/filters';
+import { PREDEFINED_REGIONS } from '@/lib/regions';
+import { DEFAULT_VIEW_STATE, ViewState } from '@/lib/urlState';
+import { FIXTURE_CATALOG_CSV } from '@/test/fixtures';
+import { useCatalogView } from './useCatalogQueries';
+import { useCatalogWorker } from './useCatalogWorker';
+import { Comparison, useComparison } from './useComparison';
+import { useMapRefs } from './useMapRefs';
+import { usePlayback } from './usePlayback';
+
+const FILTERS: EventFilters = {
+  minMagnitude: 5.9,
+  depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+  excludedEventTypes: [],
+  excludedMagnitudeTypes: [],
+  region: null,
+  mainshocksOnly: false,
+};
+
+// Events shown on maps A and B
+const counts = ({ summaries }: Comparison) => summaries && [summaries.a.count, summaries.b.count];
+
+// Map A, paused (by default at the end of the fixture catalog), and map B compared with it
+const renderComparison = (
+  initialSettings: ComparisonSettings | null = null,
+  viewState: Partial<ViewState> = { playheadTime: Date.UTC(1971, 0, 1) },
+) => renderHook(() => {
+  const map = useMapRefs('mercator');
+  const catalog = useCatalogWorker(PREDEFINED_REGIONS);
+  const playback = usePlayback(catalog.events, { ...DEFAULT_VIEW_STATE, playing: false, ...viewState });
+  const view = useCatalogView(catalog, {
+    filters: FILTERS,
+    playheadTime: playback.playheadTime,
+    playbackWindowMs: playback.windowMs,
+    timeRange: playback.timeRange,
+    bounds: null,
+    profile: null,
+  });
+  return useComparison(map, catalog, initialSettings, {
+    geoData: null,
+    container: { current: null },
+    filters: FILTERS,
+    regions: PREDEFINED_REGIONS,
+    playback,
+    stats: view.stats,
+    viewBounds: null,
+    mapSize: null,
+    reducedMotion: false,
+  });
+});
+
+// A key press on the swipe divider's handle
+const swipeKey = (key: string) => ({ key, preventDefault: vi.fn() }) as unknown as React.KeyboardEvent<HTMLDivElement>;
+
+describe('useComparison', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(FIXTURE_CATALOG_CSV)));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('shows nothing while comparison mode is off', async () => {
+    const { result } = renderComparison();
+    await waitFor(() => expect(result.current.bounds[1]).toBe(Date.UTC(1970, 6, 4, 16)));
+    expect(result.current.settings).toBeNull();
+    expect(result.current.summaries).toBeNull();
+    expect(result.current.view.selected).toEqual([]);
+    // Without map B, every point is map A's
+    expect(result.current.covers(Number.MAX_VALUE)).toBe(false);
+    expect(result.current.hitTest(0, 0)).toBeNull();
+    expect(result.current.nearestMarker(0, 0, Infinity)).toBeNull();
+  });
+
+  it('starts as a copy of map A, then filters map B on its own', async () => {
+    const { result } = renderComparison();
+    await waitFor(() => expect(result.current.bounds[1]).toBe(Date.UTC(1970, 6, 4, 16)));
+    act(() => result.current.enable());
+    expect(result.current.settings).toEqual({ ...DEFAULT_COMPARISON_SETTINGS, minMagnitude: 5.9 });
+    await waitFor(() => expect(counts(result.current)).toEqual([4, 4]));
+
+    act(() => result.current.setSettings({ ...result.current.settings!, minMagnitude: 7 }));
+    await waitFor(() => expect(counts(result.current)).toEqual([4, 1]));
+    expect(result.current.view.selected.map(d => d.id)).toEqual(['EQ2']);
+
+    // B's event types are its own: hiding the explosion leaves map A unchanged
+    act(() => result.current.setSettings({ ...result.current.settings!, minMagnitude: 0, excludedEventTypes: ['Nuclear Explosion'] }));
+    await waitFor(() => expect(counts(result.current)).toEqual([4, 5]));
+    expect(result.current.view.selected.map(d => d.id)).not.toContain('NX1');
+
+    act(() => result.current.disable());
+    expect(result.current.summaries).toBeNull();
+    await waitFor(() => expect(result.current.view.selected).toEqual([]));
+  });
+
+  it("plays map B's own period in step with map A", async () => {
+    // B covers 1965 only; A's playhead is at the end of the catalog, so B's is at the end of 1965
+    const timeRange: [number, number] = [Date.UTC(1965, 0, 1), Date.UTC(1966, 0, 1)];
+    const { result } = renderComparison({ ...DEFAULT_COMPARISON_SETTINGS, timeRange });
+    await waitFor(() => expect(counts(result.current)).toEqual([4, 1]));
+    expect(result.current.bounds).toEqual(timeRange);
+    expect(result.current.view.selected.map(d => d.id)).toEqual(['EQ1']);
+  });
+
+  it("plays a longer period for map B faster, so that both finish together", async () => {
+    // A plays 1965 and is about halfway through it; B plays the whole catalog, so it is about halfway through that, in 1967
+    const { result } = renderComparison(DEFAULT_COMPARISON_SETTINGS, {
+      timeRange: [Date.UTC(1965, 0, 1), Date.UTC(1966, 0, 1)],
+      playheadTime: Date.UTC(1965, 6, 2, 12),
+    });
+    await waitFor(() => expect(counts(result.current)).toEqual([1, 3]));
+    expect(result.current.view.selected.map(d => d.id)).toEqual(['EQ1', 'EQ2', 'EQ3']);
+  });
+
+  it('moves the swipe divider with the arrow keys, within the map', () => {
+    const { result } = renderComparison();
+    act(() => result.current.enable());
+    expect(result.current.swipePosition).toBe(DEFAULT_SWIPE_POSITION);
+    act(() => result.current.handleSwipeKeyDown(swipeKey('ArrowRight')));
+    expect(result.current.swipePosition).toBeCloseTo(DEFAULT_SWIPE_POSITION + 0.05);
+    for (let i = 0; i < 20; i++) act(() => result.current.handleSwipeKeyDown(swipeKey('ArrowLeft')));
+    expect(result.current.swipePosition).toBe(0);
+    const other = swipeKey('Enter');
+    act(() => result.current.handleSwipeKeyDown(other));
+    expect(other.preventDefault).not.toHaveBeenCalled();
+  });
+});
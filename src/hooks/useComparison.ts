@@ -0,0 +1,216 @@
+import React, { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { FeatureCollection } from 'geojson';
+import { ScreenPoint } from '@/lib/aggregation';
+import { drawBaseMap, projectBaseMap } from '@/lib/baseMap';
+import { CanvasLayer, createCanvasLayer } from '@/lib/canvasLayer';
+import { EarthquakeData } from '@/lib/catalog';
+import { CatalogQuery } from '@/lib/catalogProtocol';
+import {
+  ComparisonSettings,
+  DEFAULT_SWIPE_POSITION,
+  SideSummary,
+  comparisonFilters,
+  comparisonPlayhead,
+  comparisonSettingsFrom,
+  selectionPeriod,
+  summarizeSide,
+} from '@/lib/comparison';
+import { markerScreenPoints, nearestToPoint } from '@/lib/eventNavigation';
+import { EventFilters } from '@/lib/filters';
+import { ANIMATION_DURATION_S, motionMs } from '@/lib/motion';
+import { TimeRange, playbackBounds } from '@/lib/playback';
+import { isPointVisible } from '@/lib/projections';
+import { Region } from '@/lib/regions';
+import { GeoBounds } from '@/lib/spatialIndex';
+import { SelectionStats } from '@/lib/stats';
+import { CatalogView, useCatalogView } from './useCatalogQueries';
+import { CatalogWorker } from './useCatalogWorker';
+import { MapRefs, mapMarkerStyle } from './useMapRefs';
+import { Playback } from './usePlayback';
+
+const SWIPE_KEY_STEP = 0.05; // Share of the map width the swipe divider moves per arrow key press
+
+// What map B is compared with: map A's filters, playback, statistics and viewport
+export interface ComparisonOptions {
+  geoData: FeatureCollection | null;
+  container: RefObject<HTMLDivElement | null>; // The map container, which the swipe divider spans
+  filters: EventFilters; // Map A's, copied to map B when comparison mode is turned on
+  regions: Region[]; // Predefined and saved regions, for map B's region filter
+  playback: Pick<Playback, 'playheadTime' | 'windowMs' | 'timeRange' | 'bounds'>;
+  stats: SelectionStats;
+  viewBounds: GeoBounds | null;
+  mapSize: { width: number; height: number } | null; // null until map A is set up
+  reducedMotion: boolean;
+}
+
+// Comparison mode: map B, stacked over map A and shown right of the swipe divider
+export interface Comparison {
+  settings: ComparisonSettings | null; // null = comparison mode off
+  swipePosition: number; // Share of the map width from the left
+  bounds: TimeRange; // Map B's playback bounds
+  view: CatalogView; // The worker's answer for map B
+  summaries: { a: SideSummary; b: SideSummary } | null; // Counts, rates and mean magnitude of both maps
+  svgRef: RefObject<SVGSVGElement | null>;
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  setSettings: React.Dispatch<React.SetStateAction<ComparisonSettings | null>>;
+  /** Turns comparison mode on, with map B showing the same as map A, ready to be changed. */
+  enable: () => void;
+  disable: () => void;
+  /** Redraws map B for map A's current projection. */
+  reproject: () => void;
+  /** Applies map A's live zoom transform to map B. */
+  applyZoom: (transform: d3.ZoomTransform) => void;
+  /** Whether a point on the map (SVG pixels) is right of the swipe divider, over map B's markers. */
+  covers: (x: number) => boolean;
+  /** Map B's event whose marker covers a point, with the same lookup as map A's canvas layer; null left of the divider. */
+  hitTest: (x: number, y: number) => EarthquakeData | null;
+  /** Map B's marker nearest a point within `radius` pixels, for taps; null left of the divider. */
+  nearestMarker: (x: number, y: number, radius: number) => ScreenPoint | null;
+  handleSwipePointer: (event: React.PointerEvent<HTMLDivElement>) => void;
+  handleSwipeKeyDown: (event: React.KeyboardEvent<HTMLDivElement>) => void;
+}
+
+/**
+ * Map B of comparison mode: a base map like map A's and a canvas layer for its markers, with its own filters
+ * and period. It shares map A's projection and zoom, and plays in step with A's playhead.
+ */
+export const useComparison = (
+  map: MapRefs,
+  catalog: CatalogWorker,
+  initialSettings: ComparisonSettings | null,
+  options: ComparisonOptions,
+): Comparison => {
+  const { geoData, container, filters, regions, playback, stats, viewBounds, mapSize, reducedMotion } = options;
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layerRef = useRef<CanvasLayer | null>(null);
+  // Events the layer last drew
+  const drawnRef = useRef<EarthquakeData[]>([]);
+
+  const [settings, setSettings] = useState<ComparisonSettings | null>(initialSettings);
+  const [swipePosition, setSwipePosition] = useState<number>(DEFAULT_SWIPE_POSITION);
+  // The divider's position for the pointer handlers, which map A attaches once
+  const swipePositionRef = useRef<number>(swipePosition);
+
+  // Map B's filters, and its playback bounds and playhead, kept in step with map A's
+  const bFilters = useMemo(() => (settings ? comparisonFilters(settings, regions) : null), [settings, regions]);
+  const bounds = useMemo(() => playbackBounds(catalog.events, settings?.timeRange ?? null), [catalog.events, settings]);
+  const playheadTime = comparisonPlayhead(playback.playheadTime, playback.bounds, bounds);
+  const query = useMemo<CatalogQuery | null>(() => (settings && bFilters ? {
+    filters: bFilters,
+    playheadTime,
+    playbackWindowMs: playback.windowMs,
+    timeRange: settings.timeRange,
+    bounds: viewBounds,
+    profile: null,
+  } : null), [settings, bFilters, playheadTime, playback.windowMs, viewBounds]);
+  // Map B's queries go on a channel of their own, so the two maps' playback ticks don't replace each other
+  const view = useCatalogView(catalog, query, 'comparison');
+
+  const enabled = settings !== null;
+  const summaries = useMemo(() => (enabled ? {
+    a: summarizeSide(stats, selectionPeriod(playback.playheadTime, playback.windowMs, playback.bounds)),
+    b: summarizeSide(view.stats, selectionPeriod(playheadTime, playback.windowMs, bounds)),
+  } : null), [enabled, stats, playback.playheadTime, playback.windowMs, playback.bounds, view, playheadTime, bounds]);
+
+  // Sets up map B once map A has been: from then on reproject and applyZoom keep it in step with map A
+  useEffect(() => {
+    const projection = map.projection.current;
+    if (!enabled || !geoData || !mapSize || !svgRef.current || !canvasRef.current || !projection) return;
+    const { width, height } = mapSize;
+    const svg = d3.select(svgRef.current);
+    drawBaseMap(svg, geoData, width, height);
+    projectBaseMap(svg, projection, map.projectionId.current === 'mercator');
+    svg.select('g.land-features').attr('transform', map.zoomTransform.current.toString());
+
+    const layer = createCanvasLayer(canvasRef.current, motionMs(ANIMATION_DURATION_S * 1000, map.reducedMotion.current));
+    layer.resize(width, height);
+    layer.setTransform(map.zoomTransform.current);
+    layerRef.current = layer;
+    return () => {
+      layer.destroy();
+      layerRef.current = null;
+      drawnRef.current = [];
+    };
+  }, [map, enabled, geoData, mapSize]);
+
+  // Draws map B's markers, leaving out events on the far side of the globe like map A does
+  useEffect(() => {
+    const layer = layerRef.current;
+    const style = mapMarkerStyle(map);
+    if (!layer || !style) return;
+    const events = view.visible.filter(d => isPointVisible(style.projection, [d.longitude, d.latitude]));
+    drawnRef.current = events;
+    layer.update(events, style);
+  }, [map, view, enabled]);
+
+  // Turns the layer's fades off in reduced-motion mode
+  useEffect(() => {
+    layerRef.current?.setFadeDuration(motionMs(ANIMATION_DURATION_S * 1000, reducedMotion));
+  }, [reducedMotion]);
+
+  const reproject = useCallback(() => {
+    const style = mapMarkerStyle(map);
+    if (!style) return;
+    if (svgRef.current) projectBaseMap(d3.select(svgRef.current), style.projection, map.projectionId.current === 'mercator');
+    layerRef.current?.update(drawnRef.current, style);
+  }, [map]);
+
+  const applyZoom = useCallback((transform: d3.ZoomTransform) => {
+    d3.select(svgRef.current).select('g.land-features').attr('transform', transform.toString());
+    layerRef.current?.setTransform(transform);
+  }, []);
+
+  useEffect(() => {
+    swipePositionRef.current = swipePosition;
+  }, [swipePosition]);
+
+  // Map B only has a layer while comparison mode is on
+  const covers = useCallback((x: number) => (
+    layerRef.current !== null && x > swipePositionRef.current * map.mapSize.current.width
+  ), [map]);
+
+  const hitTest = useCallback((x: number, y: number) => (covers(x) ? layerRef.current!.hitTest(x, y) : null), [covers]);
+
+  const nearestMarker = useCallback((x: number, y: number, radius: number) => {
+    const projection = map.projection.current;
+    if (!covers(x) || !projection) return null;
+    return nearestToPoint(markerScreenPoints(drawnRef.current, projection, map.zoomTransform.current), { x, y }, radius);
+  }, [map, covers]);
+
+  return {
+    settings,
+    swipePosition,
+    bounds,
+    view,
+    summaries,
+    svgRef,
+    canvasRef,
+    setSettings,
+    enable: () => {
+      setSettings(comparisonSettingsFrom(filters, playback.timeRange));
+      setSwipePosition(DEFAULT_SWIPE_POSITION);
+    },
+    disable: () => setSettings(null),
+    reproject,
+    applyZoom,
+    covers,
+    hitTest,
+    nearestMarker,
+    // Dragging the swipe divider's handle moves it with the pointer; arrow keys nudge it
+    handleSwipePointer: event => {
+      if (event.type === 'pointerdown') event.currentTarget.setPointerCapture(event.pointerId);
+      else if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+      if (!container.current) return;
+      const { left, width } = container.current.getBoundingClientRect();
+      setSwipePosition(Math.min(1, Math.max(0, (event.clientX - left) / width)));
+    },
+    handleSwipeKeyDown: event => {
+      const step = event.key === 'ArrowLeft' ? -SWIPE_KEY_STEP : event.key === 'ArrowRight' ? SWIPE_KEY_STEP : 0;
+      if (step === 0) return;
+      event.preventDefault();
+      setSwipePosition(position => Math.min(1, Math.max(0, position + step)));
+    },
+  };
+};
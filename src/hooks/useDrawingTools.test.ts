@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as d3 from 'd3';
+import { RegionDrawMode } from '@/components/RegionControls';
+import { createProjection } from '@/lib/projections';
+import { screenToLonLat, useProfileDrawing, useRegionDrawing } from './useDrawingTools';
+import { useMapRefs } from './useMapRefs';
+
+const WIDTH = 800;
+const HEIGHT = 400;
+
+// Where a screen point lies on the unzoomed map
+const PROJECTION = createProjection('mercator', WIDTH, HEIGHT, [0, 0]);
+const lonLatAt = (x: number, y: number) => PROJECTION.invert!([x, y])!;
+
+// A map SVG with the Mercator projection set up (jsdom has no layout, so its pointer positions are client positions)
+const setUpMap = () => {
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  document.body.append(svg);
+  return (map: ReturnType<typeof useMapRefs>) => {
+    map.svg.current = svg;
+    map.mapSize.current = { width: WIDTH, height: HEIGHT };
+    map.projection.current = PROJECTION;
+    return map;
+  };
+};
+
+// The rectangle capturing the pointer while a tool is active
+const captureRect = (className: string) => document.querySelector(`g.${className} rect`)!;
+
+const click = (target: Element, x: number, y: number) => fireEvent.click(target, { clientX: x, clientY: y });
+
+// A drag with d3-drag, which follows the pointer on the event's window once pressed (the test environment's
+// window isn't accepted as the view of a new event, so it is set on the event afterwards)
+const drag = (target: Element, [x0, y0]: [number, number], [x1, y1]: [number, number]) => {
+  const mouse = (type: string, clientX: number, clientY: number) =>
+    Object.defineProperty(new MouseEvent(type, { bubbles: true, cancelable: true, clientX, clientY }), 'view', { value: window });
+  target.dispatchEvent(mouse('mousedown', x0, y0));
+  window.dispatchEvent(mouse('mousemove', x1, y1));
+  window.dispatchEvent(mouse('mouseup', x1, y1));
+};
+
+describe('screenToLonLat', () => {
+  it('undoes the zoom transform and the projection', () => {
+    const transform = d3.zoomIdentity.translate(-WIDTH / 2, -HEIGHT / 2).scale(2);
+    const [lon, lat] = screenToLonLat(PROJECTION, transform, transform.apply(PROJECTION([30, 10])!))!;
+    expect(lon).toBeCloseTo(30);
+    expect(lat).toBeCloseTo(10);
+    expect(screenToLonLat(null, transform, [0, 0])).toBeNull();
+  });
+});
+
+describe('useRegionDrawing', () => {
+  afterEach(() => {
+    cleanup();
+    document.body.innerHTML = '';
+  });
+
+  const renderRegionDrawing = (mode: RegionDrawMode) => {
+    const withMap = setUpMap();
+    const onFinish = vi.fn();
+    const onCancel = vi.fn();
+    const rendered = renderHook(({ mode }) => useRegionDrawing(withMap(useMapRefs('mercator')), mode, onFinish, onCancel), {
+      initialProps: { mode },
+    });
+    return { ...rendered, onFinish, onCancel };
+  };
+
+  it('hands over a clicked polygon once the first vertex is clicked again', () => {
+    const { onFinish } = renderRegionDrawing('polygon');
+    const rect = captureRect('region-draw');
+    click(rect, 400, 100);
+    click(rect, 500, 300);
+    click(rect, 300, 300);
+    expect(onFinish).not.toHaveBeenCalled();
+    click(rect, 402, 101);
+
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    const [polygon] = onFinish.mock.calls[0];
+    expect(polygon).toEqual([lonLatAt(400, 100), lonLatAt(500, 300), lonLatAt(300, 300)]);
+  });
+
+  it('hands over a dragged rectangle, ignoring plain clicks', () => {
+    const { onFinish } = renderRegionDrawing('rectangle');
+    const rect = captureRect('region-draw');
+    drag(rect, [400, 200], [401, 201]);
+    expect(onFinish).not.toHaveBeenCalled();
+
+    drag(rect, [400, 200], [500, 100]);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    const [polygon] = onFinish.mock.calls[0];
+    expect(polygon).toEqual([lonLatAt(400, 200), lonLatAt(500, 200), lonLatAt(500, 100), lonLatAt(400, 100)]);
+  });
+
+  it('cancels on Escape, and removes the overlay when the tool is put away', () => {
+    const { onCancel, rerender } = renderRegionDrawing('polygon');
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+
+    rerender({ mode: null });
+    expect(document.querySelector('g.region-draw')).toBeNull();
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useProfileDrawing', () => {
+  afterEach(() => {
+    cleanup();
+    document.body.innerHTML = '';
+  });
+
+  it('hands over a dragged line from A to B', () => {
+    const withMap = setUpMap();
+    const onFinish = vi.fn();
+    renderHook(() => useProfileDrawing(withMap(useMapRefs('mercator')), true, onFinish, vi.fn()));
+    const rect = captureRect('profile-draw');
+    drag(rect, [400, 200], [405, 200]);
+    expect(onFinish).not.toHaveBeenCalled();
+
+    drag(rect, [400, 200], [600, 200]);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(onFinish).toHaveBeenCalledWith([lonLatAt(400, 200), lonLatAt(600, 200)]);
+  });
+});
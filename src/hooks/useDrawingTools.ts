@@ -0,0 +1,163 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { RegionDrawMode } from '@/components/RegionControls';
+import { LonLat } from '@/lib/regions';
+import { MapRefs } from './useMapRefs';
+
+// Drawing tools on the map: a transparent overlay captures the pointer while a tool is active, so drags draw
+// instead of panning the map, and Escape cancels the drawing.
+
+const CLOSE_POLYGON_DISTANCE_PX = 8; // Clicking this close to the first vertex finishes a drawn polygon
+const MIN_PROFILE_DRAG_PX = 10; // Shorter drags with the profile tool are ignored as clicks
+
+/**
+ * Converts a screen point to lon/lat through the zoom transform and the projection, or null off the map.
+ */
+export const screenToLonLat = (projection: d3.GeoProjection | null, transform: d3.ZoomTransform, point: [number, number]): LonLat | null => {
+  const geo = projection?.invert?.(transform.invert(point));
+  return geo && Number.isFinite(geo[0]) && Number.isFinite(geo[1]) ? [geo[0], geo[1]] : null;
+};
+
+// Adds the pointer-capturing overlay for a drawing tool, and cancels the drawing on Escape.
+// Returns the overlay and a function that removes both.
+const addDrawingOverlay = (map: MapRefs, className: string, onCancel: () => void) => {
+  const svg = d3.select(map.svg.current!);
+  const { width, height } = map.mapSize.current;
+  const overlay = svg.append('g').attr('class', className);
+  const capture = overlay.append('rect')
+    .attr('width', width)
+    .attr('height', height)
+    .attr('fill', 'transparent')
+    .style('cursor', 'crosshair');
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') onCancel();
+  };
+  window.addEventListener('keydown', onKeyDown);
+  const remove = () => {
+    window.removeEventListener('keydown', onKeyDown);
+    overlay.remove();
+  };
+  return { svg, overlay, capture, remove };
+};
+
+// Keeps the latest callbacks in a ref, so an active tool isn't torn down when the callbacks change
+const useLatest = <T>(value: T) => {
+  const ref = useRef<T>(value);
+  ref.current = value;
+  return ref;
+};
+
+/**
+ * Drawing a custom region while a region tool is active: a dragged rectangle, or a polygon clicked vertex by
+ * vertex (finished by clicking the first vertex again or double-clicking). The finished polygon is handed over
+ * in lon/lat.
+ */
+export const useRegionDrawing = (
+  map: MapRefs,
+  mode: RegionDrawMode,
+  onFinish: (polygon: LonLat[]) => void,
+  onCancel: () => void,
+): void => {
+  const callbacks = useLatest({ onFinish, onCancel });
+
+  useEffect(() => {
+    if (!map.svg.current || !mode) return;
+    const { svg, overlay, capture, remove } = addDrawingOverlay(map, 'region-draw', () => callbacks.current.onCancel());
+
+    const toLonLat = (point: [number, number]) => screenToLonLat(map.projection.current, map.zoomTransform.current, point);
+    // Converts the drawn screen points to a region polygon and hands it over for naming
+    const finish = (screenPoints: [number, number][]) => {
+      const polygon = screenPoints.map(toLonLat);
+      if (polygon.length < 3 || polygon.some(p => p === null)) return;
+      callbacks.current.onFinish(polygon as LonLat[]);
+    };
+
+    const preview = overlay.append('path')
+      .attr('fill', 'rgba(37, 99, 235, 0.15)')
+      .attr('stroke', '#2563eb')
+      .attr('stroke-dasharray', '4 3')
+      .attr('pointer-events', 'none');
+    const line = d3.line();
+
+    if (mode === 'rectangle') {
+      // d3-drag stops the mousedown from reaching the zoom behavior on the SVG
+      let origin: [number, number] = [0, 0];
+      const corners = (end: [number, number]): [number, number][] =>
+        [origin, [end[0], origin[1]], end, [origin[0], end[1]]];
+      capture.call(d3.drag<SVGRectElement, unknown>()
+        .on('start', (event) => { origin = [event.x, event.y]; })
+        .on('drag', (event) => { preview.attr('d', `${line(corners([event.x, event.y]))}Z`); })
+        .on('end', (event) => {
+          preview.attr('d', null);
+          if (Math.abs(event.x - origin[0]) < 3 || Math.abs(event.y - origin[1]) < 3) return; // Ignore plain clicks
+          finish(corners([event.x, event.y]));
+        }));
+    } else {
+      // Polygon: clicks add vertices, the pointer drags a rubber band from the last one
+      const points: [number, number][] = [];
+      const drawPreview = (cursor?: [number, number]) =>
+        preview.attr('d', points.length > 0 ? line(cursor ? [...points, cursor] : points) : null);
+      capture
+        .on('mousedown', (event: MouseEvent) => event.stopPropagation()) // Don't start a pan
+        .on('click', (event: MouseEvent) => {
+          event.stopPropagation(); // Don't pin a canvas marker under the pointer
+          const point = d3.pointer(event, svg.node());
+          const [first] = points;
+          if (first && points.length >= 3 && Math.hypot(point[0] - first[0], point[1] - first[1]) < CLOSE_POLYGON_DISTANCE_PX) {
+            finish(points);
+            return;
+          }
+          points.push(point);
+          drawPreview();
+        })
+        .on('mousemove', (event: MouseEvent) => drawPreview(d3.pointer(event, svg.node())))
+        .on('dblclick', (event: MouseEvent) => {
+          event.stopPropagation(); // Don't zoom in
+          // The double-click's own clicks added the same point twice; drop the duplicates
+          const deduped = points.filter((p, i) => i === 0 || Math.hypot(p[0] - points[i - 1][0], p[1] - points[i - 1][1]) > 2);
+          finish(deduped);
+        });
+    }
+
+    return remove;
+  }, [map, mode, callbacks]);
+};
+
+/**
+ * Drawing the depth profile line while the profile tool is active: a drag from A to B, handed over in lon/lat.
+ */
+export const useProfileDrawing = (
+  map: MapRefs,
+  active: boolean,
+  onFinish: (line: [LonLat, LonLat]) => void,
+  onCancel: () => void,
+): void => {
+  const callbacks = useLatest({ onFinish, onCancel });
+
+  useEffect(() => {
+    if (!map.svg.current || !active) return;
+    const { overlay, capture, remove } = addDrawingOverlay(map, 'profile-draw', () => callbacks.current.onCancel());
+    const preview = overlay.append('line')
+      .attr('stroke', '#1d4ed8')
+      .attr('stroke-width', 2)
+      .attr('stroke-dasharray', '4 3')
+      .attr('pointer-events', 'none');
+
+    let origin: [number, number] = [0, 0];
+    capture.call(d3.drag<SVGRectElement, unknown>()
+      .on('start', (event) => {
+        origin = [event.x, event.y];
+        preview.attr('x1', event.x).attr('y1', event.y).attr('x2', event.x).attr('y2', event.y);
+      })
+      .on('drag', (event) => { preview.attr('x2', event.x).attr('y2', event.y); })
+      .on('end', (event) => {
+        if (Math.hypot(event.x - origin[0], event.y - origin[1]) < MIN_PROFILE_DRAG_PX) return; // Ignore plain clicks
+        const start = screenToLonLat(map.projection.current, map.zoomTransform.current, origin);
+        const end = screenToLonLat(map.projection.current, map.zoomTransform.current, [event.x, event.y]);
+        if (!start || !end) return;
+        callbacks.current.onFinish([start, end]);
+      }));
+
+    return remove;
+  }, [map, active, callbacks]);
+};
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EarthquakeData } from '@/lib/catalog';
+import { DAY_MS } from '@/lib/playback';
+import { createProjection } from '@/lib/projections';
+import { DEFAULT_VIEW_STATE } from '@/lib/urlState';
+import { makeEvent } from '@/test/fixtures';
+import { useMapKeyboardNavigation, usePlaybackShortcuts } from './useKeyboardNavigation';
+import { ZOOM_STEP } from './useMapNavigation';
+import { useMapRefs } from './useMapRefs';
+import { usePlayback } from './usePlayback';
+
+const START = Date.UTC(2000, 0, 1);
+
+// Events on the equator: one in the middle of the map, one to either side
+const CENTRE = makeEvent({ id: 'CENTRE', time: START });
+const EAST = makeEvent({ id: 'EAST', time: START + 50 * DAY_MS, longitude: 60 });
+const WEST = makeEvent({ id: 'WEST', time: START + 100 * DAY_MS, longitude: -60 });
+const EVENTS = [CENTRE, EAST, WEST];
+
+const pressKey = (key: string) => act(() => {
+  fireEvent.keyDown(window, { key });
+});
+
+describe('usePlaybackShortcuts', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  // Paused playback through the events, with the shortcuts attached
+  const renderShortcuts = () => {
+    const announce = vi.fn();
+    const rendered = renderHook(() => {
+      const playback = usePlayback(EVENTS, { ...DEFAULT_VIEW_STATE, playing: false });
+      usePlaybackShortcuts(playback, true, time => new Date(time).toISOString().slice(0, 10), announce);
+      return playback;
+    });
+    return { ...rendered, announce };
+  };
+
+  it('plays and pauses, announcing it', () => {
+    const { result, announce } = renderShortcuts();
+    pressKey(' ');
+    expect(result.current.isRunning).toBe(true);
+    expect(announce).toHaveBeenLastCalledWith('Playing');
+    pressKey('k');
+    expect(result.current.isRunning).toBe(false);
+    expect(announce).toHaveBeenLastCalledWith('Paused at 2000-01-01');
+  });
+
+  it('skips through the playback range and jumps to either end', () => {
+    const { result, announce } = renderShortcuts();
+    pressKey(']');
+    expect(result.current.playheadTime).toBe(START + 10 * DAY_MS);
+    expect(announce).toHaveBeenLastCalledWith('2000-01-11');
+    pressKey('End');
+    expect(result.current.playheadTime).toBe(START + 100 * DAY_MS);
+    pressKey('[');
+    expect(result.current.playheadTime).toBe(START + 90 * DAY_MS);
+    pressKey('Home');
+    expect(result.current.playheadTime).toBe(START);
+  });
+});
+
+describe('useMapKeyboardNavigation', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  // Keyboard navigation over the three markers on an 800×400 map
+  const renderNavigation = () => {
+    const options = {
+      drawnEvents: { current: EVENTS } as React.RefObject<EarthquakeData[]>,
+      zoomBy: vi.fn(),
+      onPin: vi.fn(),
+      onTooltip: vi.fn(),
+      describe: (d: EarthquakeData) => d.id,
+      announce: vi.fn(),
+    };
+    const rendered = renderHook(() => {
+      const map = useMapRefs('mercator');
+      map.projection.current ??= createProjection('mercator', 800, 400);
+      map.mapSize.current = { width: 800, height: 400 };
+      return useMapKeyboardNavigation(map, options);
+    });
+    // The map's key handler, called the way React calls it
+    const press = (key: string) => act(() => {
+      rendered.result.current.handleKeyDown({
+        nativeEvent: new KeyboardEvent('keydown', { key }),
+        preventDefault: () => {},
+      } as React.KeyboardEvent<SVGSVGElement>);
+    });
+    return { ...rendered, options, press };
+  };
+
+  it('moves the focus from the marker nearest the centre to the nearest one in each direction', () => {
+    const { result, options, press } = renderNavigation();
+    press('ArrowLeft');
+    expect(result.current.focusedEventId).toBe('CENTRE');
+    expect(options.announce).toHaveBeenLastCalledWith('CENTRE');
+    press('ArrowRight');
+    expect(result.current.focusedEventId).toBe('EAST');
+    expect(options.onTooltip).toHaveBeenLastCalledWith(expect.objectContaining({ event: EAST }));
+
+    press('ArrowRight');
+    expect(result.current.focusedEventId).toBe('EAST');
+    expect(options.announce).toHaveBeenLastCalledWith('No more events in that direction');
+  });
+
+  it('pins the focused event, leaves it, and zooms', () => {
+    const { result, options, press } = renderNavigation();
+    press('Enter');
+    expect(options.onPin).not.toHaveBeenCalled();
+    press('ArrowDown');
+    press('Enter');
+    expect(options.onPin).toHaveBeenCalledWith('CENTRE');
+
+    press('Escape');
+    expect(result.current.focusedEventId).toBeNull();
+    expect(options.onTooltip).toHaveBeenLastCalledWith(null);
+
+    press('+');
+    press('-');
+    expect(options.zoomBy.mock.calls).toEqual([[ZOOM_STEP], [1 / ZOOM_STEP]]);
+  });
+
+  it('announces when there are no markers to move to', () => {
+    const { options, press } = renderNavigation();
+    options.drawnEvents.current = [];
+    press('ArrowUp');
+    expect(options.announce).toHaveBeenLastCalledWith('No event markers on the map');
+  });
+});
@@ -0,0 +1,109 @@
+import React, { RefObject, useEffect, useState } from 'react';
+import { EarthquakeData } from '@/lib/catalog';
+import { NavigationDirection, markerScreenPoints, nearestInDirection, nearestToPoint } from '@/lib/eventNavigation';
+import { MAP_SHORTCUTS, MapCommand, PLAYBACK_SHORTCUTS, SEEK_FRACTION, shortcutCommand } from '@/lib/keyboardShortcuts';
+import { ScreenPoint } from '@/lib/aggregation';
+import { movePlayhead } from '@/lib/playback';
+import { MapRefs } from './useMapRefs';
+import { Playback } from './usePlayback';
+import { ZOOM_STEP } from './useMapNavigation';
+
+const MOVE_DIRECTIONS: Record<Extract<MapCommand, `move-${string}`>, NavigationDirection> = {
+  'move-left': 'left',
+  'move-right': 'right',
+  'move-up': 'up',
+  'move-down': 'down',
+};
+
+/**
+ * Playback shortcuts, anywhere on the page except in form fields: play/pause, step by one second of playback,
+ * skip by a tenth of the range, and jump to either end. Changes are announced.
+ */
+export const usePlaybackShortcuts = (
+  playback: Playback,
+  hasEvents: boolean,
+  formatTime: (time: number) => string,
+  announce: (message: string) => void,
+): void => {
+  const { playheadTime, isRunning, isFinished, speed, bounds, setRunning, setPlayheadTime } = playback;
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const command = shortcutCommand(PLAYBACK_SHORTCUTS, event);
+      if (!command || !hasEvents) return;
+      event.preventDefault();
+      if (command === 'toggle-play') {
+        if (!isRunning && isFinished) return;
+        setRunning(!isRunning);
+        announce(isRunning ? `Paused at ${formatTime(playheadTime)}` : 'Playing');
+        return;
+      }
+      const time = movePlayhead(playheadTime, command, speed, bounds, SEEK_FRACTION);
+      setPlayheadTime(time);
+      announce(formatTime(time));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [hasEvents, playheadTime, isRunning, isFinished, speed, bounds, setRunning, setPlayheadTime, formatTime, announce]);
+};
+
+// What the focused map's keys act on
+export interface MapKeyboardOptions {
+  drawnEvents: RefObject<EarthquakeData[]>; // Markers on the map, in the order they were drawn
+  zoomBy: (factor: number) => void;
+  onPin: (eventId: string) => void;
+  /** Shows the tooltip for an event at a screen point, or hides it (null). */
+  onTooltip: (point: ScreenPoint | null) => void;
+  describe: (event: EarthquakeData) => string;
+  announce: (message: string) => void;
+}
+
+export interface MapKeyboardNavigation {
+  focusedEventId: string | null; // Event the keyboard focus is on, ringed on the map
+  setFocusedEventId: React.Dispatch<React.SetStateAction<string | null>>;
+  handleKeyDown: (event: React.KeyboardEvent<SVGSVGElement>) => void;
+}
+
+/**
+ * Map keys while the map has the keyboard focus: arrow keys move the focus to the nearest marker in that
+ * direction (the first press picks the one nearest the centre), Enter pins it, Escape leaves it, +/− zoom.
+ * The focused event gets a tooltip, and is announced.
+ */
+export const useMapKeyboardNavigation = (map: MapRefs, options: MapKeyboardOptions): MapKeyboardNavigation => {
+  const [focusedEventId, setFocusedEventId] = useState<string | null>(null);
+  const { drawnEvents, zoomBy, onPin, onTooltip, describe, announce } = options;
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    const command = shortcutCommand(MAP_SHORTCUTS, event.nativeEvent);
+    const projection = map.projection.current;
+    if (!command || !projection) return;
+    event.preventDefault();
+    switch (command) {
+      case 'zoom-in':
+      case 'zoom-out':
+        zoomBy(command === 'zoom-in' ? ZOOM_STEP : 1 / ZOOM_STEP);
+        return;
+      case 'pin':
+        if (focusedEventId) onPin(focusedEventId);
+        return;
+      case 'clear-focus':
+        setFocusedEventId(null);
+        onTooltip(null);
+        return;
+    }
+    const points = markerScreenPoints(drawnEvents.current, projection, map.zoomTransform.current);
+    const current = points.find(p => p.event.id === focusedEventId);
+    const { width, height } = map.mapSize.current;
+    const next = current
+      ? nearestInDirection(points, current, MOVE_DIRECTIONS[command])
+      : nearestToPoint(points, { x: width / 2, y: height / 2 });
+    if (!next) {
+      announce(points.length === 0 ? 'No event markers on the map' : 'No more events in that direction');
+      return;
+    }
+    setFocusedEventId(next.event.id);
+    onTooltip(next);
+    announce(describe(next.event));
+  };
+
+  return { focusedEventId, setFocusedEventId, handleKeyDown };
+};
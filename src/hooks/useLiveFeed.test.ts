@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_LIVE_FEED_URL } from '@/lib/liveFeed';
+import { PREDEFINED_REGIONS } from '@/lib/regions';
+import { DEFAULT_VIEW_STATE } from '@/lib/urlState';
+import { CATALOG_HEADER, FIXTURE_CATALOG_CSV, catalogRow } from '@/test/fixtures';
+import { useCatalogWorker } from './useCatalogWorker';
+import { useLiveFeed } from './useLiveFeed';
+import { usePlayback } from './usePlayback';
+
+// A feed revising the first fixture event's magnitude and adding one event after the last
+const FEED_CSV = [
+  CATALOG_HEADER,
+  catalogRow('EQ1', '01/02/1965', '13:44:18', 19.246, 145.616, 6.2, 131.6),
+  catalogRow('NEW1', '01/01/1971', '00:00:00', 10, 10, 5.5, 20),
+].join('\n');
+
+// The bundled catalog and the feed, served from memory
+const FILES: Record<string, string> = {
+  '/database.csv': FIXTURE_CATALOG_CSV,
+  [DEFAULT_LIVE_FEED_URL]: FEED_CSV,
+};
+
+// Live mode over the catalog worker and playback it drives
+const renderLiveFeed = () => renderHook(() => {
+  const catalog = useCatalogWorker(PREDEFINED_REGIONS);
+  const playback = usePlayback(catalog.events, DEFAULT_VIEW_STATE);
+  return { catalog, playback, liveFeed: useLiveFeed(catalog, playback) };
+});
+
+describe('useLiveFeed', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(FILES[url])));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('merges the feed into the catalog, stopping playback and following the feed clock', async () => {
+    const { result } = renderLiveFeed();
+    await waitFor(() => expect(result.current.catalog.events).toHaveLength(6));
+    expect(result.current.playback.isRunning).toBe(true);
+
+    act(() => result.current.liveFeed.setEnabled(true));
+    expect(result.current.playback.isRunning).toBe(false);
+    await waitFor(() => expect(result.current.catalog.events).toHaveLength(7));
+    expect(result.current.liveFeed.changes).toEqual({ added: 1, updated: 1 });
+    expect([...result.current.liveFeed.revisedEventIds.current]).toEqual(['EQ1']);
+    expect(result.current.catalog.events.find(d => d.id === 'EQ1')?.magnitude).toBe(6.2);
+    // The feed was fetched after its last event, so the playhead is at the end of the merged catalog
+    expect(result.current.playback.playheadTime).toBe(Date.UTC(1971, 0, 1));
+  });
+
+  it('merges each snapshot once, leaving catalogs loaded afterwards alone', async () => {
+    const { result } = renderLiveFeed();
+    await waitFor(() => expect(result.current.catalog.events).toHaveLength(6));
+    act(() => result.current.liveFeed.setEnabled(true));
+    await waitFor(() => expect(result.current.catalog.events).toHaveLength(7));
+
+    await act(() => result.current.catalog.load());
+    expect(result.current.catalog.events).toHaveLength(6);
+    expect(result.current.catalog.events.find(d => d.id === 'EQ1')?.magnitude).toBe(6);
+  });
+
+  it('reports poll errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+      url === DEFAULT_LIVE_FEED_URL ? new Response('', { status: 503, statusText: 'Service Unavailable' }) : new Response(FILES[url])));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderLiveFeed();
+    act(() => result.current.liveFeed.setEnabled(true));
+    await waitFor(() => expect(result.current.liveFeed.error).toBe('Feed request failed: 503 Service Unavailable'));
+    vi.restoreAllMocks();
+  });
+});
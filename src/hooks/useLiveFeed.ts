@@ -0,0 +1,117 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_LIVE_FEED_INTERVAL_S,
+  DEFAULT_LIVE_FEED_URL,
+  LiveFeedChanges,
+  LiveFeedSnapshot,
+  fetchLiveFeed,
+} from '@/lib/liveFeed';
+import { clampPlayhead, playbackBounds } from '@/lib/playback';
+import { CatalogWorker } from './useCatalogWorker';
+import { Playback } from './usePlayback';
+
+// Live mode state and controls
+export interface LiveFeed {
+  enabled: boolean;
+  url: string;
+  intervalS: number;
+  snapshot: LiveFeedSnapshot | null; // Latest poll
+  changes: LiveFeedChanges | null; // Last change the feed made to the catalog
+  error: string | null; // Last poll error
+  revisedEventIds: RefObject<Set<string>>; // Events revised by the last merge, redrawn in place by the map
+  /** Turns live mode on or off. Live mode takes over the playhead, so playback and any brushed range are dropped. */
+  setEnabled: (enabled: boolean) => void;
+  setUrl: (url: string) => void;
+  setIntervalS: (intervalS: number) => void;
+}
+
+/**
+ * Polls a USGS-compatible feed while live mode is on and merges each new snapshot into the catalog by ID: new
+ * events enter with the usual animation, revised ones are updated in place, and the playhead follows the
+ * feed's clock.
+ */
+export const useLiveFeed = (catalog: CatalogWorker, playback: Pick<Playback, 'setPlayheadTime' | 'setRunning' | 'setTimeRange'>): LiveFeed => {
+  const [enabled, setEnabledState] = useState<boolean>(false);
+  const [url, setUrlState] = useState<string>(DEFAULT_LIVE_FEED_URL);
+  const [intervalS, setIntervalS] = useState<number>(DEFAULT_LIVE_FEED_INTERVAL_S);
+  const [snapshot, setSnapshot] = useState<LiveFeedSnapshot | null>(null);
+  const [changes, setChanges] = useState<LiveFeedChanges | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Snapshot last merged into the catalog
+  const mergedSnapshotRef = useRef<LiveFeedSnapshot | null>(null);
+  const revisedEventIds = useRef<Set<string>>(new Set());
+
+  // Polls the feed while live mode is on. The next poll is scheduled once the previous one has finished,
+  // so a slow feed never has overlapping requests.
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const poll = () => {
+      fetchLiveFeed(url, controller.signal)
+        .then(next => {
+          if (next.report.rejectedRows > 0) {
+            console.warn(`Rejected ${next.report.rejectedRows} of ${next.report.totalRows} feed events`);
+          }
+          setSnapshot(next);
+          setError(null);
+        })
+        .catch((err: Error) => {
+          if (controller.signal.aborted) return;
+          console.error('Error polling live feed:', err);
+          setError(err.message);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) timeoutId = setTimeout(poll, intervalS * 1000);
+        });
+    };
+    poll();
+    return () => {
+      controller.abort();
+      clearTimeout(timeoutId);
+    };
+  }, [enabled, url, intervalS]);
+
+  // Merges each new snapshot once, in the worker: catalogs loaded or overlaid in between pick up the feed's
+  // events with the next poll
+  const { merge } = catalog;
+  const { setPlayheadTime } = playback;
+  useEffect(() => {
+    if (!snapshot || mergedSnapshotRef.current === snapshot) return;
+    mergedSnapshotRef.current = snapshot;
+    merge(snapshot.events)
+      .then(({ events, added, updated }) => {
+        if (added.length > 0 || updated.length > 0) {
+          revisedEventIds.current = new Set(updated.map(d => d.id));
+          setChanges({ added: added.length, updated: updated.length });
+        }
+        setPlayheadTime(clampPlayhead(snapshot.generated, playbackBounds(events, null)));
+      })
+      .catch(err => console.error('Error merging live feed:', err));
+  }, [snapshot, merge, setPlayheadTime]);
+
+  return {
+    enabled,
+    url,
+    intervalS,
+    snapshot,
+    changes,
+    error,
+    revisedEventIds,
+    setEnabled: next => {
+      setEnabledState(next);
+      setSnapshot(null);
+      setChanges(null);
+      setError(null);
+      if (next) {
+        playback.setRunning(false);
+        playback.setTimeRange(null);
+      }
+    },
+    setUrl: next => {
+      setSnapshot(null);
+      setUrlState(next);
+    },
+    setIntervalS,
+  };
+};
@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import * as d3 from 'd3';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EarthquakeData } from '@/lib/catalog';
+import { downloadBlob } from '@/lib/exportData';
+import { DEPTH_FILTER_DOMAIN_KM, EventFilters } from '@/lib/filters';
+import { buildMapSvg, svgToPngBlob } from '@/lib/mapExport';
+import { makeEvent } from '@/test/fixtures';
+import { MapExportSources, useMapExport } from './useMapExport';
+import { useMapRefs } from './useMapRefs';
+
+// Downloads are captured instead of saved; the map image is built as usual, but jsdom cannot rasterize it
+vi.mock('@/lib/exportData', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/exportData')>()),
+  downloadBlob: vi.fn(),
+}));
+vi.mock('@/lib/mapExport', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/mapExport')>();
+  return { ...actual, buildMapSvg: vi.fn(actual.buildMapSvg), svgToPngBlob: vi.fn() };
+});
+
+const SELECTED = [makeEvent({ id: 'A' }), makeEvent({ id: 'B', longitude: 90 })];
+const FILTERS: EventFilters = {
+  minMagnitude: 5.5,
+  depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+  excludedEventTypes: [],
+  excludedMagnitudeTypes: [],
+  region: null,
+  mainshocksOnly: false,
+};
+
+// Text of a downloaded blob (jsdom's Blob has no `text()`)
+const readBlob = (blob: Blob) => new Promise<string>(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.readAsText(blob);
+});
+
+// The exports of an 800×400 map showing the first selected event, set up as the map component would
+const renderMapExport = (overrides: Partial<MapExportSources> = {}) => renderHook(() => {
+  const map = useMapRefs('mercator');
+  const drawnEvents = { current: SELECTED.slice(0, 1) as EarthquakeData[] };
+  map.svg.current ??= d3.select(document.body).append('svg').call(svg => svg.append('g').attr('class', 'earthquakes')).node();
+  map.projection.current ??= d3.geoMercator().translate([400, 200]);
+  map.mapSize.current = { width: 800, height: 400 };
+  return useMapExport(map, {
+    sourceName: null,
+    playback: { playheadTime: Date.UTC(2000, 0, 1), windowMs: null, timeRange: null },
+    filters: FILTERS,
+    layerMode: 'events',
+    selectedEvents: SELECTED,
+    drawnEvents,
+    shownCount: { current: 1 },
+    ...overrides,
+  });
+});
+
+describe('useMapExport', () => {
+  afterEach(() => {
+    cleanup();
+    document.body.innerHTML = '';
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('downloads the selected events as CSV or GeoJSON', async () => {
+    const { result } = renderMapExport();
+    act(() => result.current.exportEvents('csv'));
+    act(() => result.current.exportEvents('geojson'));
+    const [[csv, csvName], [geoJson, geoJsonName]] = vi.mocked(downloadBlob).mock.calls;
+    expect(csvName).toBe('earthquakes.csv');
+    expect((await readBlob(csv)).split('\n')).toHaveLength(3);
+    expect(geoJsonName).toBe('earthquakes.geojson');
+    expect(JSON.parse(await readBlob(geoJson)).features.map((f: { id: string }) => f.id)).toEqual(['A', 'B']);
+  });
+
+  it('exports the markers drawn, with a summary of the catalog, time span, filters and layer', () => {
+    const { result } = renderMapExport({ sourceName: 'my-catalog.csv', layerMode: 'clusters' });
+    act(() => result.current.exportMap('svg'));
+    const options = vi.mocked(buildMapSvg).mock.calls[0][1];
+    expect(options.events.map(d => d.id)).toEqual(['A']);
+    expect(options.summary).toEqual([
+      'my-catalog.csv at 2000-01-01 00:00 UTC',
+      'All (cumulative)',
+      'Magnitude ≥ 5.5',
+      'Layer: Clusters',
+      '1 events shown',
+    ]);
+    expect(vi.mocked(downloadBlob).mock.calls[0][1]).toBe('earthquake-map.svg');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports a PNG export the browser refuses, until the next export', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(svgToPngBlob).mockRejectedValue(new Error('The map SVG could not be rasterized'));
+    const { result } = renderMapExport();
+    act(() => result.current.exportMap('png'));
+    await waitFor(() => expect(result.current.error).toBe('PNG export failed: The map SVG could not be rasterized'));
+    expect(downloadBlob).not.toHaveBeenCalled();
+
+    act(() => result.current.exportEvents('csv'));
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { RefObject, useState } from 'react';
+import * as d3 from 'd3';
+import { EventExportFormat, MapExportFormat } from '@/components/ExportMenu';
+import { LAYER_MODE_OPTIONS, LayerMode } from '@/lib/aggregation';
+import { EarthquakeData } from '@/lib/catalog';
+import { downloadBlob, eventsToCsv, eventsToGeoJson } from '@/lib/exportData';
+import { EventFilters, describeFilters } from '@/lib/filters';
+import { buildMapSvg, serializeSvg, svgToPngBlob } from '@/lib/mapExport';
+import { PLAYBACK_WINDOW_OPTIONS } from '@/lib/playback';
+import { MapRefs, mapMarkerStyle } from './useMapRefs';
+import { Playback } from './usePlayback';
+
+// What the exports are made of: the selected events, and what the map shows for the filter summary
+export interface MapExportSources {
+  sourceName: string | null; // The loaded file's name; null = bundled catalog
+  playback: Pick<Playback, 'playheadTime' | 'windowMs' | 'timeRange'>;
+  filters: EventFilters;
+  layerMode: LayerMode;
+  selectedEvents: EarthquakeData[]; // Selected by playback and filters, regardless of viewport
+  drawnEvents: RefObject<EarthquakeData[]>; // Drawn as markers by the map's last draw
+  shownCount: RefObject<number>; // Events inside the viewport, including those aggregated
+}
+
+// Export actions for the export menu
+export interface MapExport {
+  error: string | null; // Last failed export (e.g. PNG rasterization refused by the browser)
+  /** Downloads the selected events as CSV or GeoJSON. */
+  exportEvents: (format: EventExportFormat) => void;
+  /** Downloads the map as drawn, with a legend and a summary of the filters and time span, as SVG or PNG. */
+  exportMap: (format: MapExportFormat) => void;
+}
+
+/**
+ * Exports the selected events as data, or the map as drawn with a legend and filter summary.
+ */
+export const useMapExport = (map: MapRefs, sources: MapExportSources): MapExport => {
+  const [error, setError] = useState<string | null>(null);
+  const { sourceName, playback, filters, layerMode, selectedEvents, drawnEvents, shownCount } = sources;
+
+  const exportEvents = (format: EventExportFormat) => {
+    setError(null);
+    if (format === 'csv') {
+      downloadBlob(new Blob([eventsToCsv(selectedEvents)], { type: 'text/csv;charset=utf-8' }), 'earthquakes.csv');
+    } else {
+      const geoJson = JSON.stringify(eventsToGeoJson(selectedEvents));
+      downloadBlob(new Blob([geoJson], { type: 'application/geo+json' }), 'earthquakes.geojson');
+    }
+  };
+
+  const exportMap = (format: MapExportFormat) => {
+    const style = mapMarkerStyle(map);
+    if (!map.svg.current || !style) return;
+    setError(null);
+    const { width, height } = map.mapSize.current;
+    const formatUtc = d3.utcFormat('%Y-%m-%d %H:%M');
+    const windowOption = PLAYBACK_WINDOW_OPTIONS.find(option => option.durationMs === playback.windowMs);
+    const { timeRange } = playback;
+    const summary = [
+      `${sourceName ?? 'Bundled catalog'} at ${formatUtc(new Date(playback.playheadTime))} UTC`,
+      `${windowOption?.label ?? 'Custom window'}${timeRange ? `, ${formatUtc(new Date(timeRange[0]))} to ${formatUtc(new Date(timeRange[1]))} UTC` : ''}`,
+      ...describeFilters(filters),
+      ...(layerMode === 'events' ? [] : [`Layer: ${LAYER_MODE_OPTIONS.find(o => o.id === layerMode)?.label}`]),
+      `${shownCount.current.toLocaleString()} events shown`,
+    ];
+    const svg = buildMapSvg(map.svg.current, {
+      width,
+      height,
+      transform: map.zoomTransform.current,
+      events: drawnEvents.current,
+      style,
+      summary,
+    });
+    const svgText = serializeSvg(svg);
+    if (format === 'svg') {
+      downloadBlob(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }), 'earthquake-map.svg');
+      return;
+    }
+    svgToPngBlob(svgText, width, height)
+      .then(blob => downloadBlob(blob, 'earthquake-map.png'))
+      .catch((err: Error) => {
+        console.error('Error exporting map as PNG:', err);
+        setError(`PNG export failed: ${err.message}`);
+      });
+  };
+
+  return { error, exportEvents, exportMap };
+};
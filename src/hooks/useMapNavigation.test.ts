@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MapView } from '@/lib/urlState';
+import { MAX_ZOOM, ProjectionId } from '@/lib/projections';
+import { ZOOM_STEP, useMapNavigation } from './useMapNavigation';
+import { useMapRefs } from './useMapRefs';
+
+const WIDTH = 800;
+const HEIGHT = 400;
+
+// Navigation on a map SVG of a fixed size (jsdom does no layout, so d3-zoom reads the size from the viewBox),
+// with animations skipped
+const renderNavigation = (projection: ProjectionId = 'mercator', mapView: MapView | null = null) => {
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.setAttribute('viewBox', `0 0 ${WIDTH} ${HEIGHT}`);
+  document.body.append(svg);
+  const callbacks = { reprojectLayers: vi.fn(), onZoom: vi.fn() };
+  const rendered = renderHook(() => {
+    const map = useMapRefs(projection);
+    map.svg.current = svg;
+    map.reducedMotion.current = true;
+    return { map, navigation: useMapNavigation(map, { projection, mapView }, callbacks) };
+  });
+  return { ...rendered, callbacks };
+};
+
+describe('useMapNavigation', () => {
+  afterEach(() => {
+    cleanup();
+    document.body.innerHTML = '';
+  });
+
+  it('sets up the projection for the map size and shows the whole world', () => {
+    const { result, callbacks } = renderNavigation();
+    expect(result.current.navigation.mapSize).toBeNull();
+    act(() => result.current.navigation.attach(WIDTH, HEIGHT));
+
+    const { map, navigation } = result.current;
+    expect(map.projection.current).not.toBeNull();
+    expect(map.mapSize.current).toEqual({ width: WIDTH, height: HEIGHT });
+    expect(callbacks.reprojectLayers).toHaveBeenCalledTimes(1);
+    expect(navigation.mapSize).toEqual({ width: WIDTH, height: HEIGHT });
+    expect(navigation.viewBounds).not.toBeNull();
+    expect(navigation.mapView).toBeNull();
+  });
+
+  it('restores the zoomed view saved in the URL', () => {
+    const { result, callbacks } = renderNavigation('mercator', { zoom: 4, center: [140, 35] });
+    act(() => result.current.navigation.attach(WIDTH, HEIGHT));
+
+    const { map, navigation } = result.current;
+    expect(map.zoomTransform.current.k).toBe(4);
+    expect(callbacks.onZoom).toHaveBeenCalledWith(map.zoomTransform.current);
+    expect(navigation.mapView?.zoom).toBe(4);
+    expect(navigation.mapView?.center[0]).toBeCloseTo(140);
+    expect(navigation.mapView?.center[1]).toBeCloseTo(35);
+    // Only the zoomed-in quarter of the world's width (and a margin) is queried
+    const { west, east } = navigation.viewBounds!;
+    expect(west).toBeGreaterThan(80);
+    expect(east - west).toBeLessThan(120);
+  });
+
+  it('zooms in steps, within the zoom limits, and back out', async () => {
+    const { result } = renderNavigation();
+    act(() => result.current.navigation.attach(WIDTH, HEIGHT));
+
+    act(() => result.current.navigation.zoomBy(ZOOM_STEP));
+    await waitFor(() => expect(result.current.navigation.viewTransform.k).toBe(ZOOM_STEP));
+    act(() => result.current.navigation.zoomBy(MAX_ZOOM));
+    await waitFor(() => expect(result.current.navigation.viewTransform.k).toBe(MAX_ZOOM));
+    act(() => result.current.navigation.resetZoom());
+    await waitFor(() => expect(result.current.navigation.viewTransform.k).toBe(1));
+  });
+
+  it('switches to the globe, turned to face the centre of the view', async () => {
+    const { result, callbacks } = renderNavigation('mercator', { zoom: 4, center: [140, 35] });
+    act(() => result.current.navigation.attach(WIDTH, HEIGHT));
+
+    act(() => result.current.navigation.changeProjection('orthographic'));
+    expect(result.current.navigation.projectionId).toBe('orthographic');
+    expect(result.current.map.projectionId.current).toBe('orthographic');
+    await waitFor(() => expect(result.current.navigation.globeRotation[0]).toBeCloseTo(-140));
+    expect(result.current.navigation.globeRotation[1]).toBeCloseTo(-35);
+    expect(callbacks.reprojectLayers.mock.calls.length).toBeGreaterThan(1);
+    // The map zooms back out to the whole globe
+    await waitFor(() => expect(result.current.navigation.viewTransform.k).toBe(1));
+  });
+});
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ANIMATION_DURATION_S, motionMs } from '@/lib/motion';
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  ProjectionId,
+  Rotation,
+  createProjection,
+  interpolateProjection,
+  interpolateRotation,
+  isPointVisible,
+} from '@/lib/projections';
+import { Region, densifyRing, regionToGeoJson } from '@/lib/regions';
+import { GeoBounds, viewportBounds } from '@/lib/spatialIndex';
+import { MapView, ViewState } from '@/lib/urlState';
+import { MapRefs } from './useMapRefs';
+
+// Constants for pan/zoom navigation
+export const ZOOM_STEP = 2; // Zoom factor applied by the +/- buttons and keys
+const VIEWPORT_PADDING_PX = 20; // Markers centred this far outside the viewport are still drawn
+const REGION_FIT_PADDING = 0.9; // Fraction of the map a region fills after zooming to fit it
+const PROJECTION_TRANSITION_MS = 1000; // Duration of the morph between two projections
+
+/**
+ * Zoom transform that scales about the centre of the map: the globe zooms in place and is turned, not panned.
+ */
+export const centeredTransform = (k: number, width: number, height: number): d3.ZoomTransform =>
+  d3.zoomIdentity.translate(width / 2, height / 2).scale(k).translate(-width / 2, -height / 2);
+
+/**
+ * Globe rotation restored from the URL: the saved map centre is the point the globe faces.
+ */
+export const initialGlobeRotation = (viewState: Pick<ViewState, 'projection' | 'mapView'>): Rotation =>
+  viewState.projection === 'orthographic' && viewState.mapView
+    ? [-viewState.mapView.center[0], -viewState.mapView.center[1]]
+    : [0, 0];
+
+// What the map redraws while it is navigated
+export interface MapNavigationCallbacks {
+  /** Redraws every projected layer; called on every frame while the globe turns or the projection morphs. */
+  reprojectLayers: () => void;
+  /** Applies the live zoom transform to the drawn layers, on every zoom event. */
+  onZoom: (transform: d3.ZoomTransform) => void;
+}
+
+// Zoom, projection and globe state, and the controls that animate them
+export interface MapNavigation {
+  projectionId: ProjectionId;
+  globeRotation: Rotation; // Once a drag or turn ends
+  viewTransform: d3.ZoomTransform; // Once a pan/zoom gesture ends
+  mapSize: { width: number; height: number } | null; // null until the map is attached
+  viewBounds: GeoBounds | null; // Geographic bounds of the viewport; null = the whole world
+  mapView: MapView | null; // Zoom and centre for the URL; null = whole world
+  /**
+   * Sets up the projection for a map of this size, redraws the layers for it, and attaches zoom and globe
+   * turning to the SVG. The zoomed view saved in the URL is restored on the first call.
+   */
+  attach: (width: number, height: number) => void;
+  /**
+   * Switches the projection, morphing from the old one to the new one. The globe turns to face the centre of
+   * the current view; flat maps are always centred on Greenwich.
+   */
+  changeProjection: (id: ProjectionId) => void;
+  /** Zooms to fit a region, or back out to the whole world; the globe turns to face the region first. */
+  zoomToRegion: (region: Region | null) => void;
+  /** Zooms by a factor about a screen point (the centre by default). */
+  zoomBy: (factor: number, point?: [number, number]) => void;
+  resetZoom: () => void;
+}
+
+/**
+ * Pan/zoom navigation and the map projection. Markers are counter-scaled by the callbacks so they keep their
+ * on-screen size at every zoom level. On the globe, dragging turns it instead, and zooming stays centred.
+ */
+export const useMapNavigation = (
+  map: MapRefs,
+  initialViewState: Pick<ViewState, 'projection' | 'mapView'>,
+  callbacks: MapNavigationCallbacks,
+): MapNavigation => {
+  const zoomBehaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Zoomed view from the URL, until the map has been attached to restore it
+  const pendingMapViewRef = useRef<MapView | null>(initialViewState.mapView);
+  const callbacksRef = useRef<MapNavigationCallbacks>(callbacks);
+  callbacksRef.current = callbacks;
+
+  const [projectionId, setProjectionId] = useState<ProjectionId>(initialViewState.projection);
+  const [globeRotation, setGlobeRotation] = useState<Rotation>(() => initialGlobeRotation(initialViewState));
+  const [viewTransform, setViewTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [mapSize, setMapSize] = useState<{ width: number; height: number } | null>(null);
+  const [viewBounds, setViewBounds] = useState<GeoBounds | null>(null);
+  const initialRotationRef = useRef<Rotation>(globeRotation);
+
+  const attach = useCallback((width: number, height: number) => {
+    const svgElement = map.svg.current;
+    if (!svgElement) return;
+    const svg = d3.select(svgElement);
+    map.mapSize.current = { width, height };
+    map.projection.current = createProjection(map.projectionId.current, width, height, initialRotationRef.current);
+    callbacksRef.current.reprojectLayers();
+
+    const isGlobe = () => map.projectionId.current === 'orthographic';
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([MIN_ZOOM, MAX_ZOOM])
+      .translateExtent([[0, 0], [width, height]]) // Don't let the map be dragged out of view
+      .filter((event) => (!event.ctrlKey || event.type === 'wheel') && !event.button &&
+        !(isGlobe() && (event.type === 'mousedown' || event.type === 'touchstart')));
+    const defaultConstrain = zoom.constrain();
+    zoom
+      .constrain((transform, extent, translateExtent) =>
+        isGlobe() ? centeredTransform(transform.k, width, height) : defaultConstrain(transform, extent, translateExtent))
+      .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
+        map.zoomTransform.current = event.transform;
+        callbacksRef.current.onZoom(event.transform);
+      })
+      .on('end', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => setViewTransform(event.transform));
+    svg.call(zoom);
+    zoomBehaviorRef.current = zoom;
+
+    // Dragging the globe turns it: a drag across the globe's radius turns it by one radian
+    svg.call(d3.drag<SVGSVGElement, unknown>()
+      .filter((event) => isGlobe() && !event.button)
+      .on('drag', (event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>) => {
+        const projection = map.projection.current;
+        if (!projection) return;
+        const [lambda, phi] = projection.rotate();
+        const degreesPerPx = 180 / Math.PI / (projection.scale() * map.zoomTransform.current.k);
+        projection.rotate([lambda + event.dx * degreesPerPx, Math.max(-90, Math.min(90, phi - event.dy * degreesPerPx))]);
+        callbacksRef.current.reprojectLayers();
+      })
+      .on('end', () => {
+        const [lambda, phi] = map.projection.current?.rotate() ?? [0, 0];
+        setGlobeRotation(prev => (prev[0] === lambda && prev[1] === phi ? prev : [lambda, phi]));
+      }));
+
+    // Restore the zoomed view from the URL once, centring the map on the saved point
+    // (the globe was already turned towards it when the projection was created)
+    const initialMapView = pendingMapViewRef.current;
+    pendingMapViewRef.current = null;
+    const initialCenter = initialMapView && map.projection.current(initialMapView.center);
+    if (initialMapView && isGlobe()) {
+      svg.call(zoom.transform, centeredTransform(initialMapView.zoom, width, height));
+    } else if (initialMapView && initialCenter) {
+      svg.call(zoom.transform, d3.zoomIdentity
+        .translate(width / 2, height / 2)
+        .scale(initialMapView.zoom)
+        .translate(-initialCenter[0], -initialCenter[1]));
+    }
+    setMapSize(prev => (prev?.width === width && prev.height === height ? prev : { width, height }));
+  }, [map]);
+
+  // Geographic bounds of the settled viewport, for the worker's viewport queries
+  useEffect(() => {
+    const projection = map.projection.current;
+    setViewBounds(projection && mapSize
+      ? viewportBounds(projection, viewTransform, mapSize.width, mapSize.height, VIEWPORT_PADDING_PX)
+      : null);
+  }, [map, viewTransform, projectionId, globeRotation, mapSize]);
+
+  // The view saved in the URL
+  const mapView = useMemo<MapView | null>(() => {
+    if (!mapSize) return null;
+    const center = map.projection.current?.invert?.(viewTransform.invert([mapSize.width / 2, mapSize.height / 2]));
+    // A turned globe has a centre worth keeping even when it isn't zoomed
+    const turned = projectionId === 'orthographic' && (globeRotation[0] !== 0 || globeRotation[1] !== 0);
+    return (viewTransform.k === 1 && !turned) || !center ? null : { zoom: viewTransform.k, center };
+  }, [map, viewTransform, projectionId, globeRotation, mapSize]);
+
+  const changeProjection = useCallback((id: ProjectionId) => {
+    const projection = map.projection.current;
+    if (!map.svg.current || !zoomBehaviorRef.current || !projection || id === map.projectionId.current) return;
+    const svg = d3.select(map.svg.current);
+    const { width, height } = map.mapSize.current;
+    const from = { id: map.projectionId.current, rotation: projection.rotate().slice(0, 2) as Rotation };
+    const center = projection.invert?.(map.zoomTransform.current.invert([width / 2, height / 2]));
+    const rotation: Rotation = id !== 'orthographic' ? [0, 0]
+      : from.id === 'orthographic' ? from.rotation
+      : center ? [-center[0], -center[1]] : [0, 0];
+    const interpolate = interpolateProjection(from, { id, rotation }, width, height);
+
+    // The in-between projections can't be inverted, so the target is put in place even if the morph is cut short
+    const finish = () => {
+      map.projection.current = createProjection(id, width, height, rotation);
+      callbacksRef.current.reprojectLayers();
+      setGlobeRotation(rotation);
+    };
+
+    map.projectionId.current = id;
+    setProjectionId(id);
+    const durationMs = motionMs(PROJECTION_TRANSITION_MS, map.reducedMotion.current);
+    svg.transition('projection').duration(durationMs)
+      .tween('projection', () => t => {
+        map.projection.current = interpolate(t);
+        callbacksRef.current.reprojectLayers();
+      })
+      .on('end', finish)
+      .on('interrupt', finish);
+    // Zoom back out to the whole map at the same time
+    svg.transition().duration(durationMs).call(zoomBehaviorRef.current.transform, d3.zoomIdentity);
+  }, [map]);
+
+  // Turns the globe to face the given rotation, animated
+  const turnGlobe = useCallback((rotation: Rotation) => {
+    if (!map.svg.current || !map.projection.current) return;
+    const interpolate = interpolateRotation(map.projection.current.rotate().slice(0, 2) as Rotation, rotation);
+    d3.select(map.svg.current).transition('projection').duration(motionMs(ANIMATION_DURATION_S * 2000, map.reducedMotion.current))
+      .tween('rotate', () => t => {
+        map.projection.current?.rotate(interpolate(t));
+        callbacksRef.current.reprojectLayers();
+      })
+      .on('end', () => setGlobeRotation(rotation));
+  }, [map]);
+
+  const zoomToRegion = useCallback((region: Region | null) => {
+    if (!map.svg.current || !zoomBehaviorRef.current || !map.projection.current) return;
+    const { width, height } = map.mapSize.current;
+    const globe = map.projectionId.current === 'orthographic';
+    let projection = map.projection.current;
+    let transform = d3.zoomIdentity;
+    if (region) {
+      if (globe) {
+        const [lon, lat] = d3.geoCentroid(regionToGeoJson(region));
+        const rotation: Rotation = [-lon, -lat];
+        turnGlobe(rotation);
+        projection = createProjection('orthographic', width, height, rotation);
+      }
+      const points = densifyRing(region.polygon)
+        .filter(p => isPointVisible(projection, p))
+        .map(p => projection(p))
+        .filter((p): p is [number, number] => p !== null);
+      const [x0, x1] = d3.extent(points, p => p[0]) as [number, number];
+      const [y0, y1] = d3.extent(points, p => p[1]) as [number, number];
+      const k = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, REGION_FIT_PADDING / Math.max((x1 - x0) / width, (y1 - y0) / height)));
+      transform = globe
+        ? centeredTransform(k, width, height)
+        : d3.zoomIdentity.translate(width / 2, height / 2).scale(k).translate(-(x0 + x1) / 2, -(y0 + y1) / 2);
+    }
+    d3.select(map.svg.current).transition().duration(motionMs(ANIMATION_DURATION_S * 2000, map.reducedMotion.current))
+      .call(zoomBehaviorRef.current.transform, transform);
+  }, [map, turnGlobe]);
+
+  // Zoom controls animate the d3-zoom behavior, which in turn fires its zoom/end handlers
+  const zoomBy = useCallback((factor: number, point?: [number, number]) => {
+    if (!map.svg.current || !zoomBehaviorRef.current) return;
+    d3.select(map.svg.current).transition().duration(motionMs(ANIMATION_DURATION_S * 1000, map.reducedMotion.current))
+      .call(zoomBehaviorRef.current.scaleBy, factor, point);
+  }, [map]);
+
+  const resetZoom = useCallback(() => {
+    if (!map.svg.current || !zoomBehaviorRef.current) return;
+    d3.select(map.svg.current).transition().duration(motionMs(ANIMATION_DURATION_S * 1000, map.reducedMotion.current))
+      .call(zoomBehaviorRef.current.transform, d3.zoomIdentity);
+  }, [map]);
+
+  return {
+    projectionId,
+    globeRotation,
+    viewTransform,
+    mapSize,
+    viewBounds,
+    mapView,
+    attach,
+    changeProjection,
+    zoomToRegion,
+    zoomBy,
+    resetZoom,
+  };
+};
@@ -0,0 +1,48 @@
+import { RefObject, useRef } from 'react';
+import * as d3 from 'd3';
+import { CanvasLayerStyle, createMarkerStyle } from '@/lib/canvasLayer';
+import { ProjectionId } from '@/lib/projections';
+import { createDepthColorScale, createMagnitudeRadiusScale } from '@/lib/scales';
+
+// The map's D3 state, shared by the map component and its hooks. Gestures and animations change it on every
+// frame, so it lives in refs that are read when needed instead of in state that would re-render the map.
+export interface MapRefs {
+  svg: RefObject<SVGSVGElement | null>; // Map A's SVG, which also receives the pointer for both maps
+  projection: RefObject<d3.GeoProjection | null>; // Set up once the map has a size
+  projectionId: RefObject<ProjectionId>; // Projection in use, or being switched to
+  zoomTransform: RefObject<d3.ZoomTransform>; // Live zoom transform, updated on every zoom event
+  mapSize: RefObject<{ width: number; height: number }>; // Size of the SVG when the projection was set up
+  reducedMotion: RefObject<boolean>; // Whether animations are skipped
+  depthColorScale: d3.ScaleSequential<string, never>;
+  magnitudeRadiusScale: d3.ScalePower<number, number, never>;
+}
+
+/**
+ * Creates the map's shared refs once, starting with the given projection.
+ */
+export const useMapRefs = (initialProjection: ProjectionId): MapRefs => {
+  const svg = useRef<SVGSVGElement | null>(null);
+  const projection = useRef<d3.GeoProjection | null>(null);
+  const projectionId = useRef<ProjectionId>(initialProjection);
+  const zoomTransform = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const mapSize = useRef<{ width: number; height: number }>({ width: 0, height: 0 });
+  const reducedMotion = useRef<boolean>(false);
+  const refs = useRef<MapRefs | null>(null);
+  refs.current ??= {
+    svg,
+    projection,
+    projectionId,
+    zoomTransform,
+    mapSize,
+    reducedMotion,
+    depthColorScale: createDepthColorScale(),
+    magnitudeRadiusScale: createMagnitudeRadiusScale(),
+  };
+  return refs.current;
+};
+
+/**
+ * Marker styling for the map's current projection, or null before the projection is set up.
+ */
+export const mapMarkerStyle = (map: MapRefs): CanvasLayerStyle | null =>
+  map.projection.current ? createMarkerStyle(map.projection.current, map.depthColorScale, map.magnitudeRadiusScale) : null;
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EarthquakeData } from '@/lib/catalog';
+import { DAY_MS } from '@/lib/playback';
+import { DEFAULT_VIEW_STATE } from '@/lib/urlState';
+import { makeEvent } from '@/test/fixtures';
+import { SIMULATION_TICK_MS, usePlayback } from './usePlayback';
+
+const START = Date.UTC(2000, 0, 1);
+
+// Three events ten days apart
+const EVENTS = [0, 10, 20].map(day => makeEvent({ id: `EQ${day}`, time: START + day * DAY_MS }));
+const NO_EVENTS: EarthquakeData[] = [];
+
+// Playback at a day of simulated time per real second, paused unless asked otherwise
+const VIEW_STATE = { ...DEFAULT_VIEW_STATE, playing: false, playbackSpeed: DAY_MS };
+
+describe('usePlayback', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('starts at the first event once the catalog arrives', () => {
+    const { result, rerender } = renderHook(({ events }) => usePlayback(events, VIEW_STATE), { initialProps: { events: NO_EVENTS } });
+    expect(result.current.playheadTime).toBe(0);
+    rerender({ events: EVENTS });
+    expect(result.current.playheadTime).toBe(START);
+    expect(result.current.bounds).toEqual([START, START + 20 * DAY_MS]);
+  });
+
+  it('restores the saved range and playhead, kept inside the catalog', () => {
+    const saved = { ...VIEW_STATE, timeRange: [START + 5 * DAY_MS, START + 30 * DAY_MS] as [number, number], playheadTime: START + 8 * DAY_MS };
+    const { result } = renderHook(() => usePlayback(EVENTS, saved));
+    expect(result.current.timeRange).toEqual([START + 5 * DAY_MS, START + 20 * DAY_MS]);
+    expect(result.current.playheadTime).toBe(START + 8 * DAY_MS);
+  });
+
+  it('advances the playhead by the elapsed time times the speed on each tick, and pauses at the end', () => {
+    const { result } = renderHook(() => usePlayback(EVENTS, VIEW_STATE));
+    act(() => result.current.setSpeed(10 * DAY_MS));
+    act(() => result.current.setRunning(true));
+
+    act(() => vi.advanceTimersByTime(SIMULATION_TICK_MS));
+    expect(result.current.playheadTime).toBe(START + DAY_MS);
+    act(() => vi.advanceTimersByTime(5 * SIMULATION_TICK_MS));
+    expect(result.current.playheadTime).toBe(START + 6 * DAY_MS);
+
+    // Two seconds reach the last event; the playhead stops there rather than running past it
+    act(() => vi.advanceTimersByTime(2000));
+    expect(result.current.playheadTime).toBe(START + 20 * DAY_MS);
+    expect(result.current.isFinished).toBe(true);
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  it('restarts from the start of a brushed range, and keeps seeks inside it', () => {
+    const { result } = renderHook(() => usePlayback(EVENTS, VIEW_STATE));
+    act(() => result.current.changeTimeRange([START + 5 * DAY_MS, START + 15 * DAY_MS]));
+    expect(result.current.playheadTime).toBe(START + 5 * DAY_MS);
+
+    act(() => result.current.seek(START + 30 * DAY_MS));
+    expect(result.current.playheadTime).toBe(START + 15 * DAY_MS);
+    act(() => result.current.seek(START));
+    expect(result.current.playheadTime).toBe(START + 5 * DAY_MS);
+
+    // Clearing the range leaves the playhead where it was
+    act(() => result.current.changeTimeRange(null));
+    expect(result.current.playheadTime).toBe(START + 5 * DAY_MS);
+    expect(result.current.bounds).toEqual([START, START + 20 * DAY_MS]);
+  });
+});
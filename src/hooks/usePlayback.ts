@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { EarthquakeData } from '@/lib/catalog';
+import { TimeRange, advancePlayhead, clampPlayhead, playbackBounds, restorePlayback } from '@/lib/playback';
+import { ViewState } from '@/lib/urlState';
+
+// Real milliseconds between simulation ticks (the playhead speed is set separately)
+export const SIMULATION_TICK_MS = 100;
+
+// Playback state and controls
+export interface Playback {
+  playheadTime: number; // Current simulated time (epoch ms)
+  isRunning: boolean;
+  speed: number; // Simulated ms per real second
+  windowMs: number | null; // null = cumulative
+  timeRange: TimeRange | null; // Date range brushed on the timeline
+  catalogTimeSpan: TimeRange; // Span of the whole catalog
+  bounds: TimeRange; // Earliest and latest playhead times: the brushed range, or the whole catalog
+  isFinished: boolean; // The playhead has reached the end
+  setPlayheadTime: (time: number) => void;
+  setRunning: (running: boolean) => void;
+  setSpeed: (speed: number) => void;
+  setWindowMs: (windowMs: number | null) => void;
+  setTimeRange: (range: TimeRange | null) => void;
+  /** Brushes a new range, restarting playback from its start (null clears it). */
+  changeTimeRange: (range: TimeRange | null) => void;
+  /** Moves the playhead, kept inside the playback bounds. */
+  seek: (time: number) => void;
+}
+
+/**
+ * Plays the catalog back in simulated time. Each tick advances the playhead by the real time elapsed multiplied by
+ * the playback speed, so quiet periods and swarms keep their real proportions; playback pauses at the end. The
+ * time range and playhead saved in the view state are restored once the first catalog arrives.
+ */
+export const usePlayback = (
+  events: EarthquakeData[],
+  initialViewState: Pick<ViewState, 'playing' | 'playbackSpeed' | 'playbackWindowMs' | 'timeRange' | 'playheadTime'>,
+): Playback => {
+  const [playheadTime, setPlayheadTime] = useState<number>(0);
+  const [isRunning, setRunning] = useState<boolean>(initialViewState.playing);
+  const [speed, setSpeed] = useState<number>(initialViewState.playbackSpeed);
+  const [windowMs, setWindowMs] = useState<number | null>(initialViewState.playbackWindowMs);
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null); // Restored once the catalog loads
+  // Saved range and playhead, until the first catalog has been loaded to fit them to
+  const pendingRestoreRef = useRef<typeof initialViewState | null>(initialViewState);
+
+  const catalogTimeSpan = useMemo(() => playbackBounds(events, null), [events]);
+  const bounds = useMemo(() => playbackBounds(events, timeRange), [events, timeRange]);
+  const [, playbackEnd] = bounds;
+  const isFinished = events.length > 0 && playheadTime >= playbackEnd;
+
+  // Restores the time range and playhead from the URL, kept inside the first catalog's time span;
+  // without them, playback starts from the first event
+  useEffect(() => {
+    const saved = pendingRestoreRef.current;
+    if (!saved || events.length === 0) return;
+    pendingRestoreRef.current = null;
+    const restored = restorePlayback(events, saved.timeRange, saved.playheadTime);
+    setTimeRange(restored.timeRange);
+    setPlayheadTime(restored.playheadTime);
+  }, [events]);
+
+  // Runs the simulation timer while playing
+  useEffect(() => {
+    if (events.length === 0 || !isRunning) return; // Don't run if data isn't loaded or paused
+
+    let lastTick = performance.now();
+    const intervalId = setInterval(() => {
+      const now = performance.now();
+      const elapsed = now - lastTick;
+      lastTick = now;
+      setPlayheadTime(prevTime => advancePlayhead(prevTime, elapsed, speed, playbackEnd));
+    }, SIMULATION_TICK_MS);
+
+    // Stop the timer on unmount, pause, or when the speed or range changes
+    return () => clearInterval(intervalId);
+  }, [events, isRunning, speed, playbackEnd]);
+
+  // Automatically pauses the simulation once the playhead reaches the last event
+  useEffect(() => {
+    if (isFinished) setRunning(false);
+  }, [isFinished]);
+
+  return {
+    playheadTime,
+    isRunning,
+    speed,
+    windowMs,
+    timeRange,
+    catalogTimeSpan,
+    bounds,
+    isFinished,
+    setPlayheadTime,
+    setRunning,
+    setSpeed,
+    setWindowMs,
+    setTimeRange,
+    changeTimeRange: range => {
+      setTimeRange(range);
+      if (range) setPlayheadTime(range[0]);
+    },
+    seek: time => setPlayheadTime(clampPlayhead(time, bounds)),
+  };
+};
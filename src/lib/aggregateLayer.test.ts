@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import * as d3 from 'd3';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { AggregateLayerOptions, clusterBadgeRadius, drawAggregateLayer, sameAggregateLegend } from './aggregateLayer';
+import { Cluster } from './aggregation';
+
+// A 800×400 plate carrée map, two events close together in the Pacific and one on its own in the Atlantic
+const PROJECTION = d3.geoEquirectangular().scale(800 / (2 * Math.PI)).translate([400, 200]);
+const EVENTS = [
+  makeEvent({ id: 'A', longitude: 150, latitude: 10, magnitude: 5 }),
+  makeEvent({ id: 'B', longitude: 150.5, latitude: 10.5, magnitude: 7 }),
+  makeEvent({ id: 'C', longitude: -30, latitude: -20, magnitude: 6 }),
+];
+
+const options = (overrides: Partial<AggregateLayerOptions> = {}): AggregateLayerOptions => ({
+  layerMode: 'events',
+  hexbinMetric: 'count',
+  projection: PROJECTION,
+  transform: d3.zoomIdentity,
+  width: 800,
+  height: 400,
+  onClusterClick: () => {},
+  ...overrides,
+});
+
+// An empty aggregate group in a fresh SVG
+const createGroup = () => d3.select(document.body).append('svg').append<SVGGElement>('g').attr('class', 'aggregate');
+
+describe('drawAggregateLayer', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('leaves every event to the markers in the per-event mode', () => {
+    const group = createGroup();
+    expect(drawAggregateLayer(group, EVENTS, options())).toEqual({ markers: EVENTS, legend: null });
+    expect(group.selectAll('*').size()).toBe(0);
+  });
+
+  it('draws density bands for the heatmap, with no markers left', () => {
+    const group = createGroup();
+    const { markers, legend } = drawAggregateLayer(group, EVENTS, options({ layerMode: 'heatmap' }));
+    expect(markers).toEqual([]);
+    expect(legend?.title).toBe('Event density');
+    expect(group.selectAll('path.density').size()).toBeGreaterThan(0);
+  });
+
+  it('colors hexagons by event count or by their largest magnitude', () => {
+    const group = createGroup();
+    const byCount = drawAggregateLayer(group, EVENTS, options({ layerMode: 'hexbin' }));
+    expect(byCount.markers).toEqual([]);
+    expect(byCount.legend?.labels).toEqual(['1', '2']);
+    expect(group.selectAll('path.hexagon').size()).toBe(2);
+    expect(group.selectAll<SVGTitleElement, unknown>('title').nodes().map(node => node.textContent).sort()).toEqual([
+      '1 events, max M6.0',
+      '2 events, max M7.0',
+    ]);
+
+    const byMagnitude = drawAggregateLayer(group, EVENTS, options({ layerMode: 'hexbin', hexbinMetric: 'max-magnitude' }));
+    expect(byMagnitude.legend).toMatchObject({ title: 'Max magnitude per hexagon', labels: ['6.0', '7.0'] });
+  });
+
+  it('draws a badge per cluster, leaving events on their own to the markers', () => {
+    const group = createGroup();
+    const onClusterClick = vi.fn<(cluster: Cluster) => void>();
+    const { markers, legend } = drawAggregateLayer(group, EVENTS, options({ layerMode: 'clusters', onClusterClick }));
+    expect(markers.map(d => d.id)).toEqual(['C']);
+    expect(legend).toBeNull();
+    const badges = group.selectAll<SVGGElement, Cluster>('g.cluster');
+    expect(badges.size()).toBe(1);
+    expect(badges.select('text').text()).toBe('2');
+
+    badges.node()!.dispatchEvent(new MouseEvent('click'));
+    expect(onClusterClick.mock.calls[0][0].events.map(d => d.id)).toEqual(['A', 'B']);
+  });
+
+  it('bins at the zoom it is given, so zooming in splits clusters', () => {
+    const group = createGroup();
+    const zoomedIn = d3.zoomIdentity.scale(100);
+    const { markers } = drawAggregateLayer(group, EVENTS, options({ layerMode: 'clusters', transform: zoomedIn }));
+    expect(markers.map(d => d.id)).toEqual(['A', 'B', 'C']);
+    expect(group.selectAll('g.cluster').size()).toBe(0);
+  });
+
+  it("removes the other modes' shapes when the mode changes", () => {
+    const group = createGroup();
+    drawAggregateLayer(group, EVENTS, options({ layerMode: 'hexbin' }));
+    group.attr('display', 'none');
+    drawAggregateLayer(group, EVENTS, options({ layerMode: 'clusters' }));
+    expect(group.selectAll('path.hexagon').size()).toBe(0);
+    expect(group.attr('display')).toBeNull();
+    drawAggregateLayer(group, EVENTS, options());
+    expect(group.selectAll('*').size()).toBe(0);
+  });
+});
+
+describe('clusterBadgeRadius', () => {
+  it('grows with the number of events, up to a limit', () => {
+    const cluster = (size: number): Cluster => ({ id: '0,0', x: 0, y: 0, events: Array.from({ length: size }, () => makeEvent()) });
+    expect(clusterBadgeRadius(cluster(2))).toBe(12);
+    expect(clusterBadgeRadius(cluster(16))).toBe(21);
+    expect(clusterBadgeRadius(cluster(100_000))).toBe(30);
+  });
+});
+
+describe('sameAggregateLegend', () => {
+  const legend = { title: 'Event density', interpolator: d3.interpolateYlOrRd, labels: ['Low', 'High'] as [string, string] };
+
+  it('compares legends by title and labels', () => {
+    expect(sameAggregateLegend(legend, { ...legend, labels: ['Low', 'High'] })).toBe(true);
+    expect(sameAggregateLegend(legend, { ...legend, labels: ['1', '2'] })).toBe(false);
+    expect(sameAggregateLegend(legend, null)).toBe(false);
+    expect(sameAggregateLegend(null, null)).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import * as d3 from 'd3';
+import {
+  AggregateLegend,
+  CLUSTER_CELL_PX,
+  Cluster,
+  HEXBIN_RADIUS_PX,
+  HexBin,
+  HexbinMetric,
+  LayerMode,
+  ScreenPoint,
+  clusterPoints,
+  densityContours,
+  hexagonPath,
+  hexbin,
+} from './aggregation';
+import { EarthquakeData } from './catalog';
+
+// What the aggregated layer is drawn for
+export interface AggregateLayerOptions {
+  layerMode: LayerMode;
+  hexbinMetric: HexbinMetric;
+  projection: d3.GeoProjection;
+  transform: d3.ZoomTransform; // The zoom the events are binned at, in screen space
+  width: number;
+  height: number;
+  onClusterClick: (cluster: Cluster) => void;
+}
+
+// The drawn layer: the events still to be drawn as markers, and the color ramp for the legend
+export interface AggregateLayer {
+  markers: EarthquakeData[];
+  legend: AggregateLegend | null; // null in the per-event mode and clusters mode, which have no ramp
+}
+
+// On-screen radius of a cluster badge, growing slowly with the number of events it holds
+export const clusterBadgeRadius = (cluster: Cluster) => Math.min(30, 9 + 3 * Math.log2(cluster.events.length));
+
+/**
+ * Whether two aggregate legends show the same thing, so unchanged legends don't re-render the map.
+ */
+export const sameAggregateLegend = (a: AggregateLegend | null, b: AggregateLegend | null): boolean =>
+  a === b || (a !== null && b !== null && a.title === b.title && a.labels[0] === b.labels[0] && a.labels[1] === b.labels[1]);
+
+/**
+ * Draws the aggregated layer modes into a group, binned in screen space at the given zoom, and returns the
+ * events still to be drawn as markers: all of them in the per-event mode, none under the heatmap or
+ * hexagons, and the events left on their own in clusters mode. The other modes' shapes are removed.
+ */
+export const drawAggregateLayer = (
+  group: d3.Selection<SVGGElement, unknown, null, undefined>,
+  events: EarthquakeData[],
+  { layerMode, hexbinMetric, projection, transform, width, height, onClusterClick }: AggregateLayerOptions,
+): AggregateLayer => {
+  group.attr('transform', null).attr('display', null);
+  const points: ScreenPoint[] = layerMode === 'events' ? [] : events.map(event => {
+    const [x, y] = transform.apply(projection([event.longitude, event.latitude]) ?? [0, 0]);
+    return { event, x, y };
+  });
+  let legend: AggregateLegend | null = null;
+
+  // Density heatmap: nested kernel density bands, so denser areas build up stronger color
+  const contours = layerMode === 'heatmap' ? densityContours(points, width, height) : [];
+  const densityColor = d3.scaleSequential(d3.interpolateYlOrRd).domain([0, d3.max(contours, c => c.value) ?? 1]);
+  group.selectAll<SVGPathElement, d3.ContourMultiPolygon>('path.density')
+    .data(contours)
+    .join('path')
+    .attr('class', 'density')
+    .attr('d', d3.geoPath())
+    .attr('fill', c => densityColor(c.value))
+    .attr('fill-opacity', 0.3)
+    .attr('pointer-events', 'none');
+  if (layerMode === 'heatmap') legend = { title: 'Event density', interpolator: d3.interpolateYlOrRd, labels: ['Low', 'High'] };
+
+  // Hexagonal bins colored by event count (log scale) or by the largest magnitude inside
+  const bins = layerMode === 'hexbin' ? hexbin(points, HEXBIN_RADIUS_PX) : [];
+  const byMagnitude = hexbinMetric === 'max-magnitude';
+  const maxCount = Math.max(2, d3.max(bins, b => b.events.length) ?? 2);
+  const [minMagnitude, maxMagnitude] = d3.extent(bins.filter(b => Number.isFinite(b.maxMagnitude)), b => b.maxMagnitude);
+  const magnitudeDomain: [number, number] = minMagnitude === undefined || maxMagnitude === undefined || minMagnitude === maxMagnitude
+    ? [0, 10]
+    : [minMagnitude, maxMagnitude];
+  const countColor = d3.scaleSequentialLog(d3.interpolateYlOrRd).domain([1, maxCount]);
+  const magnitudeColor = d3.scaleSequential(d3.interpolateYlOrRd).domain(magnitudeDomain);
+  group.selectAll<SVGPathElement, HexBin>('path.hexagon')
+    .data(bins)
+    .join('path')
+    .attr('class', 'hexagon')
+    .attr('d', hexagonPath(HEXBIN_RADIUS_PX))
+    .attr('transform', b => `translate(${b.x},${b.y})`)
+    .attr('fill', b => byMagnitude
+      ? (Number.isFinite(b.maxMagnitude) ? magnitudeColor(b.maxMagnitude) : '#d1d5db')
+      : countColor(b.events.length))
+    .attr('fill-opacity', 0.8)
+    .attr('stroke', '#ffffff')
+    .attr('stroke-width', 0.5)
+    .attr('vector-effect', 'non-scaling-stroke')
+    .selectAll('title')
+    .data(b => [b])
+    .join('title')
+    .text(b => `${b.events.length.toLocaleString()} events${Number.isFinite(b.maxMagnitude) ? `, max M${b.maxMagnitude.toFixed(1)}` : ''}`);
+  if (layerMode === 'hexbin') {
+    legend = byMagnitude
+      ? { title: 'Max magnitude per hexagon', interpolator: d3.interpolateYlOrRd, labels: [magnitudeDomain[0].toFixed(1), magnitudeDomain[1].toFixed(1)] }
+      : { title: 'Events per hexagon (log scale)', interpolator: d3.interpolateYlOrRd, labels: ['1', maxCount.toLocaleString()] };
+  }
+
+  // Clusters: a numbered badge per group of nearby events
+  const clusters = layerMode === 'clusters' ? clusterPoints(points, CLUSTER_CELL_PX) : [];
+  group.selectAll<SVGGElement, Cluster>('g.cluster')
+    .data(clusters.filter(c => c.events.length > 1), c => c.id)
+    .join(enter => {
+      const badge = enter.append('g').attr('class', 'cluster').style('cursor', 'pointer');
+      badge.append('circle')
+        .attr('fill', '#1d4ed8')
+        .attr('fill-opacity', 0.75)
+        .attr('stroke', '#ffffff')
+        .attr('stroke-width', 1.5)
+        .attr('vector-effect', 'non-scaling-stroke');
+      badge.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '0.35em')
+        .attr('font-size', 10)
+        .attr('font-weight', 600)
+        .attr('fill', '#ffffff')
+        .attr('pointer-events', 'none');
+      badge.append('title');
+      return badge;
+    })
+    .attr('transform', c => `translate(${c.x},${c.y})`)
+    .on('click', (_event, c) => onClusterClick(c))
+    .call(badge => badge.select('circle').attr('r', clusterBadgeRadius))
+    .call(badge => badge.select('text').text(c => c.events.length.toLocaleString()))
+    .call(badge => badge.select('title').text(c => `${c.events.length.toLocaleString()} events; click to zoom in`));
+
+  const markers = layerMode === 'events' ? events : clusters.filter(c => c.events.length === 1).map(c => c.events[0]);
+  return { markers, legend };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { ScreenPoint, clusterPoints, densityContours, hexagonPath, hexbin } from './aggregation';
+
+const point = (id: string, x: number, y: number, magnitude = 5): ScreenPoint => ({ event: makeEvent({ id, magnitude }), x, y });
+
+describe('hexbin', () => {
+  // Hexagons of circumradius 10 are 10√3 ≈ 17.3 px apart in a row, and rows are 15 px apart
+  it('groups points into the hexagon whose centre is nearest', () => {
+    const bins = hexbin([point('A', 1, 1, 5), point('B', -2, 3, 6.5), point('C', 17, 0), point('D', 9, 15)], 10);
+    expect(bins.map(b => ({ x: b.x, y: b.y, ids: b.events.map(d => d.id) }))).toEqual([
+      { x: 0, y: 0, ids: ['A', 'B'] },
+      { x: 10 * Math.sqrt(3), y: 0, ids: ['C'] },
+      { x: 5 * Math.sqrt(3), y: 15, ids: ['D'] },
+    ]);
+    expect(bins[0].maxMagnitude).toBe(6.5);
+  });
+
+  it('assigns points near a slanted edge to the hexagon of the neighbouring row', () => {
+    // Just above the top-right slanted edge of the hexagon at (0, 0), between its corners (0, 10) and (8.66, 5)
+    const [bin] = hexbin([point('A', 6, 9)], 10);
+    expect([bin.x, bin.y]).toEqual([5 * Math.sqrt(3), 15]);
+  });
+
+  it('leaves the largest magnitude unset for hexagons of events without one', () => {
+    expect(hexbin([point('A', 0, 0, NaN)], 10)[0].maxMagnitude).toBe(-Infinity);
+  });
+});
+
+describe('hexagonPath', () => {
+  it('outlines a pointy-topped hexagon around the origin', () => {
+    const path = hexagonPath(10);
+    expect(path).toMatch(/^M.+Z$/);
+    const corners = path.slice(1, -1).split('L').map(corner => corner.split(',').map(Number));
+    const half = 5 * Math.sqrt(3);
+    const expected = [[0, -10], [half, -5], [half, 5], [0, 10], [-half, 5], [-half, -5]];
+    expect(corners).toHaveLength(6);
+    corners.forEach(([x, y], i) => {
+      expect(x).toBeCloseTo(expected[i][0]);
+      expect(y).toBeCloseTo(expected[i][1]);
+    });
+  });
+});
+
+describe('clusterPoints', () => {
+  it('groups points sharing a screen cell, placing each cluster at the mean of its members', () => {
+    const clusters = clusterPoints([point('A', 10, 10), point('B', 30, 50), point('C', 70, 10), point('D', -10, 10)], 60);
+    expect(clusters).toEqual([
+      { id: '0,0', x: 20, y: 30, events: [expect.objectContaining({ id: 'A' }), expect.objectContaining({ id: 'B' })] },
+      { id: '1,0', x: 70, y: 10, events: [expect.objectContaining({ id: 'C' })] },
+      { id: '-1,0', x: -10, y: 10, events: [expect.objectContaining({ id: 'D' })] },
+    ]);
+  });
+});
+
+describe('densityContours', () => {
+  it('returns nested bands of increasing density, densest where the points gather', () => {
+    const points = [...Array.from({ length: 20 }, (_, i) => point(`A${i}`, 100 + (i % 5), 100 + i / 5)), point('B', 300, 150)];
+    const bands = densityContours(points, 400, 200);
+    expect(bands.length).toBeGreaterThan(1);
+    bands.slice(1).forEach((band, i) => expect(band.value).toBeGreaterThan(bands[i].value));
+  });
+
+  it('has no bands without points', () => {
+    expect(densityContours([], 400, 200)).toEqual([]);
+  });
+});
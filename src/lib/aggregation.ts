@@ -0,0 +1,147 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+
+// How the earthquake layer is drawn: one marker per event, or aggregated in screen space
+export type LayerMode = 'events' | 'heatmap' | 'hexbin' | 'clusters';
+
+export interface LayerModeOption {
+  id: LayerMode;
+  label: string;
+}
+
+export const LAYER_MODE_OPTIONS: LayerModeOption[] = [
+  { id: 'events', label: 'Individual events' },
+  { id: 'heatmap', label: 'Density heatmap' },
+  { id: 'hexbin', label: 'Hexagonal bins' },
+  { id: 'clusters', label: 'Clusters' },
+];
+
+export const DEFAULT_LAYER_MODE: LayerMode = 'events';
+
+// What colors a hexagon: how many events it holds, or the largest magnitude among them
+export type HexbinMetric = 'count' | 'max-magnitude';
+
+export const HEXBIN_METRIC_OPTIONS: { id: HexbinMetric; label: string }[] = [
+  { id: 'count', label: 'Event count' },
+  { id: 'max-magnitude', label: 'Max magnitude' },
+];
+
+export const DEFAULT_HEXBIN_METRIC: HexbinMetric = 'count';
+
+// Sizes in screen pixels, so aggregation gets finer as the map is zoomed in
+export const HEXBIN_RADIUS_PX = 12;
+export const CLUSTER_CELL_PX = 60;
+export const DENSITY_BANDWIDTH_PX = 12;
+export const DENSITY_THRESHOLDS = 12;
+
+// An event at its position on screen
+export interface ScreenPoint {
+  event: EarthquakeData;
+  x: number;
+  y: number;
+}
+
+// A hexagon of the grid and the events that fall into it; x/y is its centre
+export interface HexBin {
+  x: number;
+  y: number;
+  events: EarthquakeData[];
+  maxMagnitude: number;
+}
+
+// Events grouped together at the current zoom; x/y is the mean position of its members
+export interface Cluster {
+  id: string;
+  x: number;
+  y: number;
+  events: EarthquakeData[];
+}
+
+// Color ramp shown in the legend for an aggregated mode
+export interface AggregateLegend {
+  title: string;
+  interpolator: (t: number) => string;
+  labels: [string, string]; // Text at the low and high ends of the ramp
+}
+
+/**
+ * Sorts points into a grid of pointy-topped hexagons with the given circumradius (the d3-hexbin layout).
+ * Only non-empty hexagons are returned.
+ */
+export const hexbin = (points: ScreenPoint[], radius: number): HexBin[] => {
+  const dx = radius * Math.sqrt(3);
+  const dy = radius * 1.5;
+  const bins = new Map<string, HexBin>();
+  points.forEach(point => {
+    // Nearest row and column, then a check against the neighbouring row for points near a slanted edge
+    const py = point.y / dy;
+    let pj = Math.round(py);
+    const px = point.x / dx - (pj & 1) / 2;
+    let pi = Math.round(px);
+    const py1 = py - pj;
+    if (Math.abs(py1) * 3 > 1) {
+      const px1 = px - pi;
+      const pi2 = pi + (px < pi ? -1 : 1) / 2;
+      const pj2 = pj + (py < pj ? -1 : 1);
+      const px2 = px - pi2;
+      const py2 = py - pj2;
+      if (px1 * px1 + py1 * py1 > px2 * px2 + py2 * py2) {
+        pi = pi2 + (pj & 1 ? 1 : -1) / 2;
+        pj = pj2;
+      }
+    }
+    const key = `${pi},${pj}`;
+    let bin = bins.get(key);
+    if (!bin) {
+      bin = { x: (pi + (pj & 1) / 2) * dx, y: pj * dy, events: [], maxMagnitude: -Infinity };
+      bins.set(key, bin);
+    }
+    bin.events.push(point.event);
+    if (point.event.magnitude > bin.maxMagnitude) bin.maxMagnitude = point.event.magnitude;
+  });
+  return Array.from(bins.values());
+};
+
+/**
+ * SVG path of a pointy-topped hexagon centred on the origin.
+ */
+export const hexagonPath = (radius: number): string => {
+  const corners = d3.range(6).map(i => {
+    const angle = (i * Math.PI) / 3;
+    return [Math.sin(angle) * radius, -Math.cos(angle) * radius] as [number, number];
+  });
+  return `M${corners.map(c => c.join(',')).join('L')}Z`;
+};
+
+/**
+ * Groups points that share a square screen cell. Each cluster sits at the mean position of its members,
+ * so it lands on the events rather than on the grid; zooming in spreads events over more cells.
+ */
+export const clusterPoints = (points: ScreenPoint[], cellSize: number): Cluster[] => {
+  const cells = new Map<string, { sumX: number; sumY: number; events: EarthquakeData[] }>();
+  points.forEach(point => {
+    const key = `${Math.floor(point.x / cellSize)},${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key) ?? { sumX: 0, sumY: 0, events: [] };
+    cell.sumX += point.x;
+    cell.sumY += point.y;
+    cell.events.push(point.event);
+    cells.set(key, cell);
+  });
+  return Array.from(cells, ([key, cell]) => ({
+    id: key,
+    x: cell.sumX / cell.events.length,
+    y: cell.sumY / cell.events.length,
+    events: cell.events,
+  }));
+};
+
+/**
+ * Kernel density estimate of the points over a map of the given size, as filled contour bands.
+ */
+export const densityContours = (points: ScreenPoint[], width: number, height: number): d3.ContourMultiPolygon[] =>
+  d3.contourDensity<ScreenPoint>()
+    .x(p => p.x)
+    .y(p => p.y)
+    .size([width, height])
+    .bandwidth(DENSITY_BANDWIDTH_PX)
+    .thresholds(DENSITY_THRESHOLDS)(points);
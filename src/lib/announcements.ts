@@ -0,0 +1,44 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+import { NearestPlace } from './geo';
+
+// Screen reader announcements for the map: the event the keyboard focus is on, and events appearing
+// during playback. Times are UTC, as in the exported map summary.
+
+const formatUtc = d3.utcFormat('%Y-%m-%d %H:%M');
+
+/**
+ * Where an event is, relative to the nearest country: 'in Japan' or 'about 120 km from Chile'.
+ */
+export const describePlace = (place: NearestPlace | null): string | null => {
+  if (!place) return null;
+  return place.inside ? `in ${place.name}` : `about ${Math.round(place.distanceKm).toLocaleString()} km from ${place.name}`;
+};
+
+// Magnitude as read out, e.g. 'magnitude 6.1' ('unknown magnitude' for events without one)
+const describeMagnitude = (d: EarthquakeData): string =>
+  Number.isFinite(d.magnitude) ? `magnitude ${d.magnitude.toFixed(1)}` : 'unknown magnitude';
+
+/**
+ * One event in a sentence, e.g. 'Earthquake, magnitude 6.1, 35 km deep, 2011-03-11 05:46 UTC, in Japan'.
+ */
+export const describeEvent = (d: EarthquakeData, place: NearestPlace | null): string =>
+  [d.type, describeMagnitude(d), `${d.depth.toFixed(0)} km deep`, `${formatUtc(new Date(d.time))} UTC`, describePlace(place)]
+    .filter(part => part !== null)
+    .join(', ');
+
+/**
+ * Events that appeared since the last announcement, led by the largest, e.g.
+ * '3 new events. Largest: magnitude 6.2, 2010-02-27 06:34 UTC, in Chile'. `locate` finds the largest one's place.
+ */
+export const describeNewEvents = (events: EarthquakeData[], locate: (d: EarthquakeData) => NearestPlace | null): string => {
+  const largest = d3.greatest(events, d => (Number.isFinite(d.magnitude) ? d.magnitude : -Infinity));
+  if (!largest) return '';
+  const count = events.length === 1 ? '1 new event' : `${events.length.toLocaleString()} new events`;
+  const details = [describeMagnitude(largest), `${formatUtc(new Date(largest.time))} UTC`, describePlace(locate(largest))]
+    .filter(part => part !== null)
+    .join(', ');
+  return events.length === 1
+    ? `${count}. ${details.charAt(0).toUpperCase()}${details.slice(1)}`
+    : `${count}. Largest: ${details}`;
+};
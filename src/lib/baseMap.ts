@@ -0,0 +1,65 @@
+import * as d3 from 'd3';
+import { FeatureCollection } from 'geojson';
+import { SPHERE } from './projections';
+
+const OCEAN_COLOR = '#a0c4ff'; // Light blue for oceans
+const OFF_MAP_COLOR = '#f3f4f6'; // Around the world outline of the non-rectangular projections
+
+/**
+ * Draws the static base map into an SVG: the background and, in their own group, the ocean sphere and the land.
+ * The shapes themselves are set by projectBaseMap, like every other projected shape.
+ */
+export const drawBaseMap = (
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  geoData: FeatureCollection,
+  width: number,
+  height: number,
+): void => {
+  // Use join pattern to add rect if it doesn't exist, or update dimensions if it does
+  svg.selectAll('.map-background')
+     .data([null]) // Bind a single data point
+     .join('rect') // Enter/Update/Exit pattern
+     .attr('class', 'map-background')
+     .attr('width', width)
+     .attr('height', height);
+
+  // Select the group for land features, create if it doesn't exist
+  let landGroup = svg.select<SVGGElement>('g.land-features');
+  if (landGroup.empty()) {
+      landGroup = svg.append('g').attr('class', 'land-features');
+  }
+
+  // The sphere: the ocean inside the world outline, underneath the land
+  landGroup.selectAll('path.sphere')
+    .data([SPHERE])
+    .join('path')
+    .attr('class', 'sphere')
+    .attr('fill', OCEAN_COLOR)
+    .attr('stroke-width', 1);
+
+  // Draw paths for each country/feature in the GeoJSON data
+  landGroup.selectAll('path.land')
+    .data(geoData.features)
+    .join('path') // Use join for efficient updates if geoData were to change
+    .attr('class', 'land')
+    .attr('fill', '#cccccc') // Light grey for land
+    .attr('stroke', '#ffffff') // White borders between countries
+    .attr('stroke-width', 0.5);
+
+  // Keep country borders hairline-thin regardless of zoom
+  landGroup.selectAll('path').attr('vector-effect', 'non-scaling-stroke');
+};
+
+/**
+ * Projects a base map drawn by drawBaseMap. Mercator fills the whole map with ocean; the other projections
+ * have an outline with the ocean inside.
+ */
+export const projectBaseMap = (
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  projection: d3.GeoProjection,
+  flat: boolean,
+): void => {
+  svg.select('.map-background').attr('fill', flat ? OCEAN_COLOR : OFF_MAP_COLOR);
+  svg.select('g.land-features').selectAll<SVGPathElement, d3.GeoPermissibleObjects>('path').attr('d', d3.geoPath().projection(projection));
+  svg.select('path.sphere').attr('stroke', flat ? 'none' : '#9ca3af');
+};
@@ -0,0 +1,222 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+import { eventSymbolType, isEarthquakeType } from './markers';
+import { isPointVisible } from './projections';
+import { markerRadius } from './scales';
+
+// Which renderer draws the earthquake layer; 'auto' picks canvas once the drawn set gets large
+export type RendererMode = 'auto' | 'svg' | 'canvas';
+
+// Number of drawn events above which 'auto' switches from SVG to canvas
+export const CANVAS_AUTO_THRESHOLD = 2000;
+
+// Resolves 'auto' to a concrete renderer for a drawn set of the given size
+export const resolveRenderer = (mode: RendererMode, eventCount: number): 'svg' | 'canvas' =>
+  mode === 'auto' ? (eventCount > CANVAS_AUTO_THRESHOLD ? 'canvas' : 'svg') : mode;
+
+// How markers are positioned, coloured and sized; mirrors the scales used by the SVG renderer
+export interface CanvasLayerStyle {
+  projection: d3.GeoProjection;
+  color: (depth: number) => string;
+  radius: (d: EarthquakeData) => number; // On-screen radius in pixels
+  circleOpacity: number;
+  symbolOpacity: number;
+}
+
+/**
+ * Marker styling from the map's scales, shared by the canvas layers and the exported map image.
+ */
+export const createMarkerStyle = (
+  projection: d3.GeoProjection,
+  color: d3.ScaleSequential<string, never>,
+  radiusScale: d3.ScalePower<number, number, never> | null,
+): CanvasLayerStyle => ({
+  projection,
+  color,
+  radius: d => markerRadius(radiusScale, d),
+  circleOpacity: 0.7,
+  symbolOpacity: 0.85,
+});
+
+// A Canvas 2D earthquake layer: draws thousands of markers without creating a DOM node per event
+export interface CanvasLayer {
+  /** Replaces the drawn event set; added events fade in and removed events fade out. */
+  update: (events: EarthquakeData[], style: CanvasLayerStyle) => void;
+  /** Changes the length of the enter/exit fades (0 disables them, e.g. for reduced motion). */
+  setFadeDuration: (durationMs: number) => void;
+  /** Redraws for a new pan/zoom transform (called on every zoom event). */
+  setTransform: (transform: d3.ZoomTransform) => void;
+  /** Resizes the backing store to the given CSS size, accounting for the device pixel ratio. */
+  resize: (width: number, height: number) => void;
+  /** Returns the drawn event whose marker covers a point (canvas CSS pixels), nearest centre first. */
+  hitTest: (x: number, y: number) => EarthquakeData | null;
+  /** Removes every marker immediately. */
+  clear: () => void;
+  /** Stops any running animation frame. */
+  destroy: () => void;
+}
+
+// A marker as last drawn, in screen space, used for hit-testing
+interface DrawnMarker {
+  event: EarthquakeData;
+  x: number;
+  y: number;
+  r: number;
+}
+
+// Extra pixels of slack when hit-testing very small markers
+const HIT_TOLERANCE_PX = 2;
+
+/**
+ * Creates a canvas layer bound to the given element. Enter/exit fades last `initialFadeDurationMs`
+ * (0 disables them), matching the SVG renderer's enter transition and GSAP exit animation.
+ */
+export const createCanvasLayer = (canvas: HTMLCanvasElement, initialFadeDurationMs: number): CanvasLayer => {
+  let fadeDurationMs = initialFadeDurationMs;
+  const context = canvas.getContext('2d');
+  let style: CanvasLayerStyle | null = null;
+  let transform = d3.zoomIdentity;
+  let width = 0;
+  let height = 0;
+
+  // Events currently shown, in draw order, with the time each one started fading in
+  let current = new Map<string, { event: EarthquakeData; start: number }>();
+  // Events fading out, with the time each one started fading out
+  const exiting = new Map<string, { event: EarthquakeData; start: number }>();
+
+  let frameId: number | null = null;
+  let drawn: DrawnMarker[] = [];
+  let hitIndex: d3.Quadtree<DrawnMarker> | null = null; // Built lazily from `drawn` on the first hit test after a draw
+  let maxDrawnRadius = 0;
+
+  // Draws a single marker: circles for earthquakes, the SVG renderer's symbol shapes for everything else
+  const drawMarker = (ctx: CanvasRenderingContext2D, d: EarthquakeData, x: number, y: number, r: number, alpha: number) => {
+    if (!style || r <= 0 || alpha <= 0) return;
+    const earthquake = isEarthquakeType(d.type);
+    ctx.globalAlpha = alpha * (earthquake ? style.circleOpacity : style.symbolOpacity);
+    ctx.fillStyle = style.color(d.depth);
+    ctx.beginPath();
+    if (earthquake) {
+      ctx.arc(x, y, r, 0, 2 * Math.PI);
+    } else {
+      ctx.save();
+      ctx.translate(x, y);
+      d3.symbol(eventSymbolType(d.type), Math.PI * r * r).context(ctx)();
+      ctx.restore();
+    }
+    ctx.fill();
+    ctx.lineWidth = earthquake ? 0.5 : 1;
+    ctx.strokeStyle = earthquake ? '#333' : '#000';
+    ctx.stroke();
+  };
+
+  // Renders one frame and schedules another while any fade is still running
+  const draw = () => {
+    frameId = null;
+    if (!context || !style) return;
+    const now = performance.now();
+    const dpr = window.devicePixelRatio || 1;
+    context.setTransform(dpr, 0, 0, dpr, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    let animating = false;
+    drawn = [];
+    hitIndex = null;
+    maxDrawnRadius = 0;
+
+    // Progress of a fade that started at `start`, from 0 to 1
+    const progress = (start: number) => fadeDurationMs > 0 ? Math.min(1, (now - start) / fadeDurationMs) : 1;
+
+    // Projects an event to screen space, or returns null when it lies outside the canvas or on the far side of the globe
+    const toScreen = (d: EarthquakeData, r: number): [number, number] | null => {
+      if (!isPointVisible(style!.projection, [d.longitude, d.latitude])) return null;
+      const projected = style!.projection([d.longitude, d.latitude]);
+      if (!projected) return null;
+      const [x, y] = transform.apply(projected);
+      return x + r < 0 || y + r < 0 || x - r > width || y - r > height ? null : [x, y];
+    };
+
+    // Fading-out markers go underneath the live ones
+    exiting.forEach(({ event, start }, id) => {
+      const t = progress(start);
+      if (t >= 1) {
+        exiting.delete(id);
+        return;
+      }
+      animating = true;
+      const r = style!.radius(event) * (1 - t);
+      const point = toScreen(event, r);
+      if (point) drawMarker(context, event, point[0], point[1], r, 1 - t);
+    });
+
+    current.forEach(({ event, start }) => {
+      const t = progress(start);
+      if (t < 1) animating = true;
+      const r = style!.radius(event) * t;
+      const point = toScreen(event, r);
+      if (!point) return;
+      drawMarker(context, event, point[0], point[1], r, t);
+      drawn.push({ event, x: point[0], y: point[1], r });
+      maxDrawnRadius = Math.max(maxDrawnRadius, r);
+    });
+    context.globalAlpha = 1;
+
+    if (animating) frameId = requestAnimationFrame(draw);
+  };
+
+  // Coalesces redraw requests into the next animation frame
+  const scheduleDraw = () => {
+    if (frameId === null) frameId = requestAnimationFrame(draw);
+  };
+
+  return {
+    update: (events, nextStyle) => {
+      style = nextStyle;
+      const now = performance.now();
+      const next = new Map<string, { event: EarthquakeData; start: number }>();
+      events.forEach(event => {
+        // Keep the fade start of markers already shown; everything else starts fading in now
+        next.set(event.id, { event, start: current.get(event.id)?.start ?? now });
+        exiting.delete(event.id);
+      });
+      current.forEach((entry, id) => {
+        if (!next.has(id)) exiting.set(id, { event: entry.event, start: now });
+      });
+      current = next;
+      scheduleDraw();
+    },
+    setFadeDuration: durationMs => {
+      fadeDurationMs = durationMs;
+      scheduleDraw();
+    },
+    setTransform: nextTransform => {
+      transform = nextTransform;
+      scheduleDraw();
+    },
+    resize: (nextWidth, nextHeight) => {
+      width = nextWidth;
+      height = nextHeight;
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      scheduleDraw();
+    },
+    hitTest: (x, y) => {
+      if (drawn.length === 0) return null;
+      hitIndex ??= d3.quadtree<DrawnMarker>().x(m => m.x).y(m => m.y).addAll(drawn);
+      const nearest = hitIndex.find(x, y, maxDrawnRadius + HIT_TOLERANCE_PX);
+      if (!nearest) return null;
+      const hit = Math.hypot(nearest.x - x, nearest.y - y) <= nearest.r + HIT_TOLERANCE_PX;
+      return hit ? nearest.event : null;
+    },
+    clear: () => {
+      current = new Map();
+      exiting.clear();
+      scheduleDraw();
+    },
+    destroy: () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+    },
+  };
+};
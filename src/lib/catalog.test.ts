@@ -0,0 +1,176 @@
+import * as d3 from 'd3';
+import { describe, expect, it } from 'vitest';
+import { CATALOG_HEADER, catalogRow } from '@/test/fixtures';
+import {
+  applyMergeOrder,
+  diffCatalogs,
+  expandTwoDigitYear,
+  mergeCatalogOrder,
+  mergeCatalogs,
+  parseCatalog,
+  parseCatalogRow,
+  parseCatalogTimestamp,
+} from './catalog';
+
+// Parses CSV lines (without the header) into rows keyed by the bundled catalog's columns
+const rows = (...lines: string[]) => d3.csvParse([CATALOG_HEADER, ...lines].join('\n'));
+
+describe('expandTwoDigitYear', () => {
+  it('reads years below the pivot as 20xx and the rest as 19xx', () => {
+    expect(expandTwoDigitYear(5)).toBe(2005);
+    expect(expandTwoDigitYear(69)).toBe(2069);
+    expect(expandTwoDigitYear(70)).toBe(1970);
+    expect(expandTwoDigitYear(99)).toBe(1999);
+  });
+});
+
+describe('parseCatalogTimestamp', () => {
+  it('combines month-first dates and times as UTC', () => {
+    expect(parseCatalogTimestamp('01/02/1965', '13:44:18')).toEqual({
+      time: Date.UTC(1965, 0, 2, 13, 44, 18),
+      expandedYear: null,
+    });
+  });
+
+  it('accepts year-first dates and fractional seconds', () => {
+    expect(parseCatalogTimestamp('2016-12-28', '08:22:12.5').time).toBe(Date.UTC(2016, 11, 28, 8, 22, 12, 500));
+  });
+
+  it('reports a guessed century for two-digit years', () => {
+    expect(parseCatalogTimestamp('3/4/99', '00:00:00')).toEqual({
+      time: Date.UTC(1999, 2, 4),
+      expandedYear: { from: '99', to: 1999 },
+    });
+    expect(parseCatalogTimestamp('3/4/05', '00:00:00').expandedYear).toEqual({ from: '05', to: 2005 });
+  });
+
+  it('takes full ISO timestamps in the Date column as-is, as UTC without an offset', () => {
+    expect(parseCatalogTimestamp('1975-02-23T02:58:41.000Z', '').time).toBe(Date.UTC(1975, 1, 23, 2, 58, 41));
+    expect(parseCatalogTimestamp('2023-01-01 12:00:00', '').time).toBe(Date.UTC(2023, 0, 1, 12));
+    expect(parseCatalogTimestamp('2023-01-01T12:00:00+02:00', '').time).toBe(Date.UTC(2023, 0, 1, 10));
+  });
+
+  it('rejects dates that are not real calendar instants', () => {
+    expect(parseCatalogTimestamp('02/30/2001', '00:00:00').time).toBeNull();
+    expect(parseCatalogTimestamp('01/01/2001', '24:00:00').time).toBeNull();
+    expect(parseCatalogTimestamp('yesterday', '12:00:00').time).toBeNull();
+  });
+
+  it('rejects ISO timestamps that are not real calendar instants', () => {
+    expect(parseCatalogTimestamp('2001-02-30T00:00:00Z', '').time).toBeNull();
+    expect(parseCatalogTimestamp('2001-01-01T24:00:00Z', '').time).toBeNull();
+    expect(parseCatalogTimestamp('2001-01-01 12:61:00', '').time).toBeNull();
+    expect(parseCatalogTimestamp('2001-01-01T12:00:00+25:00', '').time).toBeNull();
+  });
+
+  it('rejects ISO-looking values with trailing text', () => {
+    expect(parseCatalogTimestamp('2001-01-01T12:00:00 UTC', '').time).toBeNull();
+    expect(parseCatalogTimestamp('2001-01-01T1200', '').time).toBeNull();
+  });
+
+  it('accepts ISO timestamps without seconds or with compact offsets', () => {
+    expect(parseCatalogTimestamp('2001-01-01T12:30', '').time).toBe(Date.UTC(2001, 0, 1, 12, 30));
+    expect(parseCatalogTimestamp('2001-01-01T12:00:00.250-0330', '').time).toBe(Date.UTC(2001, 0, 1, 15, 30, 0, 250));
+  });
+});
+
+describe('parseCatalogRow', () => {
+  it('parses every column of a valid row', () => {
+    const [row] = rows(catalogRow('EQ1', '01/02/1965', '13:44:18', 19.246, 145.616, 6, 131.6));
+    const { event, issues } = parseCatalogRow(row, 2);
+    expect(issues).toEqual([]);
+    expect(event).toMatchObject({
+      id: 'EQ1',
+      latitude: 19.246,
+      longitude: 145.616,
+      magnitude: 6,
+      depth: 131.6,
+      timestamp: '1965-01-02T13:44:18.000Z',
+      type: 'Earthquake',
+      magnitudeType: 'MW',
+      depthError: null,
+      source: 'ISCGEM',
+      status: 'Automatic',
+    });
+  });
+
+  it('keeps rows with a two-digit year, with a warning', () => {
+    const [row] = rows(catalogRow('EQ1', '1/2/65', '13:44:18', 0, 0, 6, 10));
+    const { event, issues } = parseCatalogRow(row, 7);
+    expect(event?.time).toBe(Date.UTC(2065, 0, 2, 13, 44, 18));
+    expect(issues).toEqual([expect.objectContaining({ line: 7, id: 'EQ1', code: 'two-digit-year', severity: 'warning' })]);
+  });
+
+  it('rejects rows with bad coordinates, magnitude or depth, reporting each problem', () => {
+    const [row] = rows('01/02/1965,13:44:18,95,0,Earthquake,,,,,MW,,,,,,,EQ1,,,,');
+    const { event, issues } = parseCatalogRow(row, 2);
+    expect(event).toBeNull();
+    expect(issues.map(issue => issue.code)).toEqual(['invalid-coordinates', 'missing-magnitude', 'missing-depth']);
+  });
+
+  it('normalizes the case of event types and statuses', () => {
+    const [row] = rows(catalogRow('EQ1', '01/02/1965', '13:44:18', 0, 0, 6, 10, 'quarry blast'));
+    expect(parseCatalogRow({ ...row, Status: 'reviewed' }, 2).event).toMatchObject({ type: 'Quarry Blast', status: 'Reviewed' });
+  });
+});
+
+describe('parseCatalog', () => {
+  it('sorts events chronologically and summarizes the accepted and rejected rows', () => {
+    const catalog = parseCatalog(rows(
+      catalogRow('LATE', '01/01/1990', '00:00:00', 0, 0, 6, 10),
+      'not,a,valid,row',
+      catalogRow('EARLY', '01/01/1970', '00:00:00', 0, 0, 6, 10),
+    ));
+    expect(catalog.events.map(d => d.id)).toEqual(['EARLY', 'LATE']);
+    expect(catalog.report).toMatchObject({ totalRows: 3, acceptedRows: 2, rejectedRows: 1 });
+    expect(catalog.report.issues.every(issue => issue.line === 3)).toBe(true);
+  });
+
+  it('suffixes duplicate IDs and assigns IDs to rows without one', () => {
+    const catalog = parseCatalog(rows(
+      catalogRow('EQ1', '01/01/1970', '00:00:00', 0, 0, 6, 10),
+      catalogRow('EQ1', '01/02/1970', '00:00:00', 0, 0, 6, 10),
+      catalogRow('', '01/03/1970', '00:00:00', 0, 0, 6, 10),
+    ));
+    expect(catalog.events.map(d => d.id)).toEqual(['EQ1', 'EQ1#2', 'line-4']);
+    expect(catalog.report.issues.map(issue => issue.code)).toEqual(['duplicate-id', 'missing-id']);
+  });
+});
+
+describe('mergeCatalogs', () => {
+  it('replaces events by ID and keeps the result sorted', () => {
+    const [a, b] = parseCatalog(rows(
+      catalogRow('A', '01/01/1970', '00:00:00', 0, 0, 6, 10),
+      catalogRow('B', '01/01/1980', '00:00:00', 0, 0, 6, 10),
+    )).events;
+    const revisedA = { ...a, magnitude: 6.5, time: Date.UTC(1990, 0, 1) };
+    expect(mergeCatalogs([a, b], [revisedA])).toEqual([b, revisedA]);
+  });
+});
+
+describe('mergeCatalogOrder', () => {
+  it('describes the merged catalog by where each event comes from', () => {
+    const [a, b, c] = parseCatalog(rows(
+      catalogRow('A', '01/01/1970', '00:00:00', 0, 0, 6, 10),
+      catalogRow('B', '01/01/1980', '00:00:00', 0, 0, 6, 10),
+      catalogRow('C', '01/01/1990', '00:00:00', 0, 0, 6, 10),
+    )).events;
+    const revisedC = { ...c, time: Date.UTC(1975, 0, 1) };
+    const added = { ...a, id: 'D', time: Date.UTC(1985, 0, 1) };
+    const order = mergeCatalogOrder([a, b, c], [added, revisedC]);
+    expect(Array.from(order)).toEqual([0, -2, 1, -1]);
+    expect(applyMergeOrder([a, b, c], [added, revisedC], order)).toEqual(mergeCatalogs([a, b, c], [added, revisedC]));
+  });
+});
+
+describe('diffCatalogs', () => {
+  it('leaves out incoming events the catalog already has unchanged', () => {
+    const [a, b] = parseCatalog(rows(
+      catalogRow('A', '01/01/1970', '00:00:00', 0, 0, 6, 10),
+      catalogRow('B', '01/01/1980', '00:00:00', 0, 0, 6, 10),
+    )).events;
+    const revisedB = { ...b, status: 'Reviewed' };
+    const added = { ...a, id: 'C' };
+    expect(diffCatalogs([a, b], [{ ...a }, revisedB, added])).toEqual({ added: [added], updated: [revisedB] });
+  });
+});
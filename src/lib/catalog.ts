@@ -0,0 +1,346 @@
+import * as d3 from 'd3';
+
+// Full record for a single catalog event, mirroring every column of the USGS-style `database.csv`
+export interface EarthquakeData {
+  id: string; // Catalog event ID (e.g. 'ISCGEM860706'), unique within a loaded catalog
+  latitude: number;
+  longitude: number;
+  magnitude: number;
+  depth: number; // Kilometres below the surface
+  timestamp: string; // ISO 8601 format timestamp (UTC)
+  time: number; // Same instant as `timestamp`, in epoch milliseconds
+  type: string; // Event type, e.g. 'Earthquake', 'Nuclear Explosion'
+  magnitudeType: string | null; // e.g. 'MW', 'MB', 'MS'
+  depthError: number | null;
+  depthSeismicStations: number | null;
+  magnitudeError: number | null;
+  magnitudeSeismicStations: number | null;
+  azimuthalGap: number | null;
+  horizontalDistance: number | null;
+  horizontalError: number | null;
+  rootMeanSquare: number | null;
+  source: string | null;
+  locationSource: string | null;
+  magnitudeSource: string | null;
+  status: string | null; // 'Automatic' or 'Reviewed'
+}
+
+// Identifies the kind of problem found while parsing a row
+export type CatalogIssueCode =
+  | 'invalid-date' // Date/Time columns missing or not a real calendar instant
+  | 'invalid-coordinates' // Latitude/Longitude missing or out of range
+  | 'missing-magnitude'
+  | 'missing-depth'
+  | 'two-digit-year' // Year was expanded from two digits using a century guess
+  | 'missing-id' // No ID column value; a synthetic ID was assigned
+  | 'duplicate-id'; // ID already used by an earlier row; a suffixed ID was assigned
+
+// A single finding from the validation report. Errors reject the row, warnings keep it.
+export interface CatalogIssue {
+  line: number; // 1-based line number in a CSV source (the header is line 1), or record number in other formats
+  id: string | null; // ID of the affected event, if one could be determined
+  code: CatalogIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Per-load summary of what was accepted and what went wrong
+export interface CatalogReport {
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  issues: CatalogIssue[];
+}
+
+// A parsed catalog: events sorted chronologically plus the validation report
+export interface Catalog {
+  events: EarthquakeData[];
+  report: CatalogReport;
+}
+
+// Result of parsing one row in isolation
+export interface ParsedRow {
+  event: EarthquakeData | null; // null when the row was rejected
+  issues: CatalogIssue[];
+}
+
+// URL of the catalog bundled with the app
+export const DEFAULT_CATALOG_URL = '/database.csv';
+
+// Two-digit years below this pivot are read as 20xx, the rest as 19xx
+const TWO_DIGIT_YEAR_PIVOT = 70;
+
+// Parses an optional numeric column; empty or non-numeric values become null
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Parses an optional text column; empty values become null
+const parseOptionalString = (value: string | undefined): string | null => {
+  const trimmed = value?.trim() ?? '';
+  return trimmed === '' ? null : trimmed;
+};
+
+// Capitalizes each word ('quarry blast' -> 'Quarry Blast'), so catalogs that lowercase their
+// event types and statuses (e.g. USGS feeds) share filter categories with the bundled catalog
+const toTitleCase = (value: string): string => value.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase());
+
+/**
+ * Expands a two-digit year using the catalog's century heuristic ('99' -> 1999, '05' -> 2005).
+ */
+export const expandTwoDigitYear = (year: number): number =>
+  year < TWO_DIGIT_YEAR_PIVOT ? 2000 + year : 1900 + year;
+
+// Outcome of combining the Date and Time columns
+interface ParsedTimestamp {
+  time: number | null; // Epoch milliseconds, or null when the columns don't describe a real instant
+  expandedYear: { from: string; to: number } | null; // Set when a two-digit year had to be guessed
+}
+
+// Epoch milliseconds (UTC) of calendar and clock parts, or null when they don't name a real instant.
+// Date.UTC silently rolls over out-of-range parts (e.g. 02/30 -> 03/02), so check they round-trip.
+const utcFromParts = (
+  year: number,
+  month: number, // 1-12
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  millis: number,
+): number | null => {
+  const parsed = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis);
+  const check = new Date(parsed);
+  const isRealInstant =
+    check.getUTCFullYear() === year &&
+    check.getUTCMonth() === month - 1 &&
+    check.getUTCDate() === day &&
+    check.getUTCHours() === hours &&
+    check.getUTCMinutes() === minutes &&
+    check.getUTCSeconds() === seconds;
+  return isRealInstant ? parsed : null;
+};
+
+// Milliseconds of a fractional-seconds suffix ('.5' -> 500)
+const parseFraction = (fraction: string | undefined): number => (fraction ? Math.round(parseFloat(fraction) * 1000) : 0);
+
+/**
+ * Combines the `Date` (MM/DD/YYYY, MM/DD/YY or YYYY-MM-DD) and `Time` (HH:mm:ss) columns into epoch milliseconds (UTC).
+ * A handful of rows in the USGS export, and every row of most other catalog formats, carry a full ISO 8601
+ * timestamp in the Date column instead; those are read as UTC when they have no offset. Either way, dates
+ * and times that don't exist on the calendar (Feb 30th, hour 24) are rejected rather than rolled over.
+ */
+export const parseCatalogTimestamp = (dateStr: string, timeStr: string): ParsedTimestamp => {
+  const date = dateStr.trim();
+  const time = timeStr.trim();
+
+  // ISO 8601 timestamp in the Date column (e.g. '1975-02-23T02:58:41.000Z', or '2023-01-01 12:00:00' from FDSN text exports)
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d/.test(date)) {
+    const isoMatch = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|([+-])(\d{2}):?(\d{2}))?$/i.exec(date);
+    if (!isoMatch) return { time: null, expandedYear: null };
+    const [, year, month, day, hours, minutes, seconds, fraction, , offsetSign, offsetHours, offsetMinutes] = isoMatch;
+    const wallTime = utcFromParts(
+      parseInt(year, 10), parseInt(month, 10), parseInt(day, 10),
+      parseInt(hours, 10), parseInt(minutes, 10), seconds ? parseInt(seconds, 10) : 0, parseFraction(fraction),
+    );
+    const offsetMs = offsetSign
+      ? (offsetSign === '-' ? -1 : 1) * (parseInt(offsetHours, 10) * 60 + parseInt(offsetMinutes, 10)) * 60_000
+      : 0;
+    const validOffset = !offsetSign || (parseInt(offsetHours, 10) <= 23 && parseInt(offsetMinutes, 10) <= 59);
+    return { time: wallTime !== null && validOffset ? wallTime - offsetMs : null, expandedYear: null };
+  }
+
+  // Month-first US dates as in the bundled catalog, or year-first ISO dates as in most regional exports
+  const usDateMatch = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(date);
+  const isoDateMatch = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(date);
+  const dateParts = usDateMatch
+    ? [usDateMatch[3], usDateMatch[1], usDateMatch[2]]
+    : isoDateMatch ? [isoDateMatch[1], isoDateMatch[2], isoDateMatch[3]] : null; // [year, month, day]
+  const timeMatch = /^(\d{1,2}):(\d{2}):(\d{2})(\.\d+)?$/.exec(time);
+  if (!dateParts || !timeMatch) return { time: null, expandedYear: null };
+
+  const [yearStr, monthStr, dayStr] = dateParts;
+  let year = parseInt(yearStr, 10);
+  let expandedYear: ParsedTimestamp['expandedYear'] = null;
+  if (yearStr.length === 2) {
+    year = expandTwoDigitYear(year);
+    expandedYear = { from: yearStr, to: year };
+  }
+
+  const parsed = utcFromParts(
+    year, parseInt(monthStr, 10), parseInt(dayStr, 10),
+    parseInt(timeMatch[1], 10), parseInt(timeMatch[2], 10), parseInt(timeMatch[3], 10), parseFraction(timeMatch[4]),
+  );
+  return { time: parsed, expandedYear };
+};
+
+/**
+ * Parses a single CSV row into an event, collecting every problem found along the way.
+ * `line` is the row's line number in the source file and is only used for reporting.
+ */
+export const parseCatalogRow = (row: d3.DSVRowString, line: number): ParsedRow => {
+  const issues: CatalogIssue[] = [];
+  const id = parseOptionalString(row.ID);
+  const report = (code: CatalogIssueCode, severity: CatalogIssue['severity'], message: string) =>
+    issues.push({ line, id, code, severity, message });
+
+  const { time, expandedYear } = parseCatalogTimestamp(row.Date ?? '', row.Time ?? '');
+  if (time === null) {
+    report('invalid-date', 'error', `Unreadable date/time '${row.Date ?? ''} ${row.Time ?? ''}'`);
+  } else if (expandedYear) {
+    report('two-digit-year', 'warning', `Two-digit year '${expandedYear.from}' read as ${expandedYear.to}`);
+  }
+
+  const latitude = parseOptionalNumber(row.Latitude);
+  const longitude = parseOptionalNumber(row.Longitude);
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    report('invalid-coordinates', 'error', `Invalid coordinates '${row.Latitude ?? ''}, ${row.Longitude ?? ''}'`);
+  }
+
+  const magnitude = parseOptionalNumber(row.Magnitude);
+  if (magnitude === null) report('missing-magnitude', 'error', 'Magnitude is missing or not a number');
+
+  const depth = parseOptionalNumber(row.Depth);
+  if (depth === null) report('missing-depth', 'error', 'Depth is missing or not a number');
+
+  const status = parseOptionalString(row.Status);
+
+  if (time === null || latitude === null || longitude === null || magnitude === null || depth === null ||
+      issues.some(issue => issue.severity === 'error')) {
+    return { event: null, issues };
+  }
+
+  return {
+    event: {
+      id: id ?? '', // Filled in by parseCatalog, which can see the whole file
+      latitude,
+      longitude,
+      magnitude,
+      depth,
+      timestamp: new Date(time).toISOString(),
+      time,
+      type: toTitleCase(parseOptionalString(row.Type) ?? 'Earthquake'),
+      magnitudeType: parseOptionalString(row['Magnitude Type'])?.toUpperCase() ?? null,
+      depthError: parseOptionalNumber(row['Depth Error']),
+      depthSeismicStations: parseOptionalNumber(row['Depth Seismic Stations']),
+      magnitudeError: parseOptionalNumber(row['Magnitude Error']),
+      magnitudeSeismicStations: parseOptionalNumber(row['Magnitude Seismic Stations']),
+      azimuthalGap: parseOptionalNumber(row['Azimuthal Gap']),
+      horizontalDistance: parseOptionalNumber(row['Horizontal Distance']),
+      horizontalError: parseOptionalNumber(row['Horizontal Error']),
+      rootMeanSquare: parseOptionalNumber(row['Root Mean Square']),
+      source: parseOptionalString(row.Source),
+      locationSource: parseOptionalString(row['Location Source']),
+      magnitudeSource: parseOptionalString(row['Magnitude Source']),
+      status: status === null ? null : toTitleCase(status),
+    },
+    issues,
+  };
+};
+
+/**
+ * Parses all rows of a catalog CSV, assigns unique IDs, and sorts the accepted events chronologically.
+ * Rows are keyed by the bundled catalog's column names; other formats are mapped onto them first.
+ * `firstLine` is the reported line number of the first row (2, after a CSV header, by default).
+ */
+export const parseCatalog = (rows: d3.DSVRowString[], firstLine = 2): Catalog => {
+  const events: EarthquakeData[] = [];
+  const issues: CatalogIssue[] = [];
+  const seenIds = new Map<string, number>(); // ID -> number of times it has been used so far
+
+  rows.forEach((row, index) => {
+    const line = index + firstLine;
+    const parsed = parseCatalogRow(row, line);
+    issues.push(...parsed.issues);
+    if (!parsed.event) return;
+
+    const event = parsed.event;
+    if (event.id === '') {
+      event.id = `line-${line}`;
+      issues.push({ line, id: event.id, code: 'missing-id', severity: 'warning', message: `No ID; assigned '${event.id}'` });
+    }
+    const uses = seenIds.get(event.id) ?? 0;
+    seenIds.set(event.id, uses + 1);
+    if (uses > 0) {
+      const originalId = event.id;
+      event.id = `${originalId}#${uses + 1}`;
+      issues.push({ line, id: originalId, code: 'duplicate-id', severity: 'warning', message: `Duplicate ID; assigned '${event.id}'` });
+    }
+    events.push(event);
+  });
+
+  // Sort chronologically for the time-based simulation; fall back to ID so ties are deterministic
+  events.sort((a, b) => a.time - b.time || a.id.localeCompare(b.id));
+
+  return {
+    events,
+    report: {
+      totalRows: rows.length,
+      acceptedRows: events.length,
+      rejectedRows: rows.length - events.length,
+      issues,
+    },
+  };
+};
+
+// Events of an incoming list that would change a catalog if merged into it
+export interface CatalogDiff {
+  added: EarthquakeData[]; // Events not seen before
+  updated: EarthquakeData[]; // Known events whose fields changed, e.g. status automatic -> reviewed
+}
+
+// Whether two versions of an event carry the same values (NaN compares equal to NaN)
+const sameEvent = (a: EarthquakeData, b: EarthquakeData): boolean =>
+  (Object.keys(a) as (keyof EarthquakeData)[]).every(key => Object.is(a[key], b[key]));
+
+/**
+ * Compares incoming events (a live feed snapshot, an overlaid file) with a catalog by ID. Unchanged events are
+ * left out, so re-polling a feed that hasn't moved on changes nothing and nothing re-renders.
+ */
+export const diffCatalogs = (current: EarthquakeData[], incoming: EarthquakeData[]): CatalogDiff => {
+  const byId = new Map(current.map(d => [d.id, d]));
+  const added: EarthquakeData[] = [];
+  const updated: EarthquakeData[] = [];
+  incoming.forEach(d => {
+    const existing = byId.get(d.id);
+    if (!existing) added.push(d);
+    else if (!sameEvent(existing, d)) updated.push(d);
+  });
+  return { added, updated };
+};
+
+/**
+ * Where each event of `mergeCatalogs(base, overlay)` comes from: `i` for `base[i]` and `-1 - j` for `overlay[j]`.
+ * The catalog worker describes its merges to the map this way rather than sending the merged events.
+ */
+export const mergeCatalogOrder = (base: EarthquakeData[], overlay: EarthquakeData[]): Int32Array => {
+  const overlayIds = new Set(overlay.map(d => d.id));
+  const eventAt = (k: number) => (k >= 0 ? base[k] : overlay[-1 - k]);
+  const order = [...d3.range(base.length).filter(i => !overlayIds.has(base[i].id)), ...overlay.map((_d, j) => -1 - j)];
+  return Int32Array.from(order.sort((a, b) => {
+    const [da, db] = [eventAt(a), eventAt(b)];
+    return da.time - db.time || da.id.localeCompare(db.id);
+  }));
+};
+
+/**
+ * The merged events described by a `mergeCatalogOrder` of `base` and `overlay`.
+ */
+export const applyMergeOrder = (base: EarthquakeData[], overlay: EarthquakeData[], order: Int32Array): EarthquakeData[] =>
+  Array.from(order, k => (k >= 0 ? base[k] : overlay[-1 - k]));
+
+/**
+ * Merges two chronologically sorted event lists by ID: events in `overlay` replace `base` events with
+ * the same ID (e.g. a revised location or a status change), and the result is sorted again.
+ */
+export const mergeCatalogs = (base: EarthquakeData[], overlay: EarthquakeData[]): EarthquakeData[] =>
+  applyMergeOrder(base, overlay, mergeCatalogOrder(base, overlay));
+
+/**
+ * Fetches and parses a catalog CSV (the bundled `database.csv` by default).
+ */
+export const loadCatalog = async (url: string = DEFAULT_CATALOG_URL): Promise<Catalog> => {
+  const rows = await d3.csv(url);
+  return parseCatalog(rows);
+};
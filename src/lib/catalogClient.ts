@@ -0,0 +1,177 @@
+import { CatalogReport, EarthquakeData, applyMergeOrder } from './catalog';
+import { ColumnMapping } from './catalogFormats';
+import {
+  CatalogFileInfo,
+  CatalogLoadMode,
+  CatalogQuery,
+  CatalogQueryResult,
+  CatalogRequest,
+  CatalogRequestMessage,
+  CatalogResponse,
+  CatalogResponseMessage,
+  CatalogSummary,
+  NearbyResult,
+  SequenceResult,
+} from './catalogProtocol';
+import { createCatalogService } from './catalogService';
+import { decodeEvents } from './eventColumns';
+import { EventFilters } from './filters';
+import { Region } from './regions';
+
+// The catalog after the worker has changed it
+export interface CatalogChange {
+  events: EarthquakeData[]; // The whole catalog; the previous array itself when a merge changed nothing
+  report: CatalogReport | null; // Report of the catalog or file loaded; null for merged events sent from here
+  summary: CatalogSummary;
+  added: EarthquakeData[]; // Events a merge added
+  updated: EarthquakeData[]; // Events a merge revised
+}
+
+// Main-thread side of the catalog worker
+export interface CatalogClient {
+  /**
+   * The worker's catalog, as this side holds it, once every change sent to the worker has come back;
+   * null while one is still on its way, since answers to questions sent meanwhile may refer to the next catalog.
+   */
+  catalog: () => EarthquakeData[] | null;
+  load: (url: string) => Promise<CatalogChange>;
+  /** Merges new or revised events into the worker's catalog by ID (see `mergeCatalogs`). */
+  mergeEvents: (events: EarthquakeData[]) => Promise<CatalogChange>;
+  /** Reads a user's catalog file in the worker and keeps it there for `previewImport` and `importFile`. */
+  readFile: (fileName: string, text: string) => Promise<CatalogFileInfo>;
+  previewImport: (mapping: ColumnMapping) => Promise<CatalogReport>;
+  importFile: (mapping: ColumnMapping, mode: CatalogLoadMode) => Promise<CatalogChange>;
+  setRegions: (regions: Region[]) => Promise<void>;
+  filter: (filters: EventFilters) => Promise<Int32Array>;
+  /**
+   * Coalesced per channel: a query still waiting when a newer one is sent on the same channel is dropped,
+   * and its callback never runs. Separate channels (e.g. the two maps of comparison mode) don't replace each other.
+   */
+  query: (query: CatalogQuery, onResult: (result: CatalogQueryResult) => void, channel?: string) => void;
+  findNearby: (eventId: string, radiusKm: number, windowDays: number) => Promise<NearbyResult>;
+  findSequence: (eventId: string) => Promise<SequenceResult | null>;
+  terminate: () => void;
+}
+
+// Queries sent without a channel share this one
+const DEFAULT_QUERY_CHANNEL = 'map';
+
+// A stream of coalesced queries: the one with the worker, and the latest one waiting to be sent
+interface QueryChannel {
+  inFlight: boolean;
+  waiting: { query: CatalogQuery; onResult: (result: CatalogQueryResult) => void } | null;
+}
+
+type ResponseOfType<T extends CatalogResponse['type']> = Extract<CatalogResponse, { type: T }>;
+
+/**
+ * Starts the catalog worker and returns a promise-based client for it. Where workers aren't available
+ * (e.g. under test) the same service runs on the calling thread, behind the same asynchronous interface.
+ */
+export const createCatalogClient = (): CatalogClient => {
+  const pending = new Map<number, (response: CatalogResponse) => void>();
+  let nextId = 0;
+  const receive = ({ id, response }: CatalogResponseMessage) => {
+    pending.get(id)?.(response);
+    pending.delete(id);
+  };
+
+  let send: (message: CatalogRequestMessage) => void;
+  let terminate = () => {};
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('../workers/catalog.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<CatalogResponseMessage>) => receive(event.data);
+    worker.onerror = event => console.error('Catalog worker error:', event.message);
+    send = message => worker.postMessage(message);
+    terminate = () => worker.terminate();
+  } else {
+    const service = createCatalogService();
+    send = ({ id, request }) => {
+      service.handle(request).then(response => receive({ id, response }));
+    };
+  }
+
+  // Sends a request and resolves with what `read` takes from its response, rejecting on an error response.
+  // `read` runs as soon as the response arrives, so responses are read in the order the worker sent them.
+  const request = <T extends CatalogResponse['type'], R>(
+    message: CatalogRequest,
+    expected: T,
+    read: (response: ResponseOfType<T>) => R,
+  ): Promise<R> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, response => {
+        if (response.type === expected) resolve(read(response as ResponseOfType<T>));
+        else reject(new Error(response.type === 'error' ? response.message : `Unexpected '${response.type}' response to '${message.type}'`));
+      });
+      send({ id, request: message });
+    });
+
+  // At most one query per channel is with the worker at a time; playback ticks that arrive meanwhile replace
+  // each other, so a slow answer never builds up a backlog
+  const channels = new Map<string, QueryChannel>();
+  const sendWaitingQuery = (channel: QueryChannel) => {
+    const next = channel.waiting;
+    if (!next) return;
+    channel.waiting = null;
+    channel.inFlight = true;
+    request({ type: 'query', query: next.query }, 'queried', ({ result }) => result)
+      .then(result => next.onResult(result))
+      .catch(err => console.error('Error querying the catalog:', err))
+      .finally(() => {
+        channel.inFlight = false;
+        sendWaitingQuery(channel);
+      });
+  };
+
+  // Waiting queries' indices would refer to the previous catalog once a new one is set
+  const dropWaitingQueries = () => channels.forEach(channel => { channel.waiting = null; });
+
+  // The worker's catalog as this side holds it, and the number of changes to it still on their way
+  let events: EarthquakeData[] = [];
+  let changesInFlight = 0;
+
+  // Applies a replaced or merged catalog to this side's copy
+  const applyChange = (response: ResponseOfType<'loaded' | 'merged'>): CatalogChange => {
+    const { report, summary } = response;
+    if (response.type === 'loaded') {
+      events = decodeEvents(response.events);
+      return { events, report, summary, added: [], updated: [] };
+    }
+    const { changed, addedCount, order } = response.merge;
+    const changedEvents = decodeEvents(changed);
+    if (order.length > 0) events = applyMergeOrder(events, changedEvents, order);
+    return { events, report, summary, added: changedEvents.slice(0, addedCount), updated: changedEvents.slice(addedCount) };
+  };
+
+  // Sends a request that changes the catalog
+  const change = (message: CatalogRequest, expected: 'loaded' | 'merged'): Promise<CatalogChange> => {
+    dropWaitingQueries();
+    changesInFlight++;
+    return request(message, expected, applyChange).finally(() => { changesInFlight--; });
+  };
+
+  return {
+    catalog: () => (changesInFlight === 0 ? events : null),
+    load: url => change({ type: 'load', url }, 'loaded'),
+    mergeEvents: merged => change({ type: 'merge-events', events: merged }, 'merged'),
+    readFile: (fileName, text) => request({ type: 'read-file', fileName, text }, 'file-read', ({ file }) => file),
+    previewImport: mapping => request({ type: 'preview-import', mapping }, 'import-previewed', ({ report }) => report),
+    importFile: (mapping, mode) => change({ type: 'import-file', mapping, mode }, mode === 'overlay' ? 'merged' : 'loaded'),
+    setRegions: regions => request({ type: 'set-regions', regions }, 'regions-set', () => undefined),
+    filter: filters => request({ type: 'filter', filters }, 'filtered', ({ matching }) => matching),
+    query: (query, onResult, channelName = DEFAULT_QUERY_CHANNEL) => {
+      let channel = channels.get(channelName);
+      if (!channel) {
+        channel = { inFlight: false, waiting: null };
+        channels.set(channelName, channel);
+      }
+      channel.waiting = { query, onResult };
+      if (!channel.inFlight) sendWaitingQuery(channel);
+    },
+    findNearby: (eventId, radiusKm, windowDays) =>
+      request({ type: 'find-nearby', eventId, radiusKm, windowDays }, 'nearby-found', ({ nearby }) => nearby),
+    findSequence: eventId => request({ type: 'find-sequence', eventId }, 'sequence-found', ({ sequence }) => sequence),
+    terminate,
+  };
+};
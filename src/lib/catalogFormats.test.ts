@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { CATALOG_HEADER, FIXTURE_CATALOG_CSV, catalogRow } from '@/test/fixtures';
+import { applyColumnMapping, detectColumnMapping, missingRequiredFields, readCatalogFile } from './catalogFormats';
+
+// Reads a file and parses it with the detected column mapping, as the import dialog does by default
+const importFile = (fileName: string, text: string) => {
+  const source = readCatalogFile(fileName, text);
+  return applyColumnMapping(source, detectColumnMapping(source.columns));
+};
+
+// Two events of a USGS GeoJSON feed, with times in epoch milliseconds like the feed's
+const GEOJSON = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    {
+      id: 'us1',
+      properties: { mag: 5.4, magType: 'mww', time: Date.UTC(2024, 0, 1, 12), type: 'earthquake', status: 'reviewed', net: 'us' },
+      geometry: { type: 'Point', coordinates: [142.5, 38.1, 30] },
+    },
+    {
+      id: 'us2',
+      properties: { mag: 4.8, magType: 'mb', time: Date.UTC(2024, 0, 2), type: 'earthquake', status: 'automatic', net: 'us' },
+      geometry: { type: 'Point', coordinates: [-70.4, -20.5, 45.5] },
+    },
+  ],
+});
+
+// One QuakeML event with two origins, of which the second is preferred; depths are in metres
+const QUAKEML = `<?xml version="1.0" encoding="UTF-8"?>
+<q:quakeml xmlns="http://quakeml.org/xmlns/bed/1.2" xmlns:q="http://quakeml.org/xmlns/quakeml/1.2">
+  <eventParameters publicID="smi:test/params">
+    <event publicID="smi:test/event/1">
+      <preferredOriginID>smi:test/origin/2</preferredOriginID>
+      <preferredMagnitudeID>smi:test/magnitude/1</preferredMagnitudeID>
+      <type>earthquake</type>
+      <origin publicID="smi:test/origin/1">
+        <time><value>2024-03-01T00:00:00Z</value></time>
+        <latitude><value>10</value></latitude>
+        <longitude><value>20</value></longitude>
+        <depth><value>5000</value></depth>
+      </origin>
+      <origin publicID="smi:test/origin/2">
+        <time><value>2024-03-01T00:00:01.5Z</value></time>
+        <latitude><value>10.5</value></latitude>
+        <longitude><value>20.5</value></longitude>
+        <depth><value>12500</value><uncertainty>1500</uncertainty></depth>
+        <evaluationMode>manual</evaluationMode>
+      </origin>
+      <magnitude publicID="smi:test/magnitude/1">
+        <mag><value>6.1</value></mag>
+        <type>Mw</type>
+      </magnitude>
+    </event>
+  </eventParameters>
+</q:quakeml>`;
+
+describe('readCatalogFile', () => {
+  it('reads the bundled CSV layout', () => {
+    const source = readCatalogFile('database.csv', FIXTURE_CATALOG_CSV);
+    expect(source.format).toBe('csv');
+    expect(source.columns).toEqual(CATALOG_HEADER.split(','));
+    expect(source.records).toHaveLength(6);
+  });
+
+  it('detects the delimiter and drops the # before an FDSN text header', () => {
+    const text = '#EventID|Time|Latitude|Longitude|Depth/km|Magnitude\nev1|2024-01-01T00:00:00|10|20|30|5.5';
+    const source = readCatalogFile('fdsn.txt', text);
+    expect(source.columns).toEqual(['EventID', 'Time', 'Latitude', 'Longitude', 'Depth/km', 'Magnitude']);
+    expect(source.records[0].Latitude).toBe('10');
+  });
+
+  it('tells GeoJSON feeds from arrays of JSON events', () => {
+    expect(readCatalogFile('feed.geojson', GEOJSON).format).toBe('geojson');
+    const json = JSON.stringify([{ latitude: 10, longitude: 20, depth: 5, magnitude: 6, timestamp: '2024-01-01T00:00:00Z' }]);
+    expect(readCatalogFile('events.json', json)).toMatchObject({ format: 'json', records: [{ latitude: '10', magnitude: '6' }] });
+  });
+
+  it('explains files it cannot read', () => {
+    expect(() => readCatalogFile('broken.json', '{"features": [')).toThrow('The file looks like JSON but could not be parsed');
+    expect(() => readCatalogFile('empty.csv', CATALOG_HEADER)).toThrow('No events found in empty.csv');
+    expect(() => readCatalogFile('points.geojson', '{"type": "Point"}')).toThrow('GeoJSON has no features array');
+    expect(() => readCatalogFile('broken.xml', '<quakeml><event>')).toThrow('The file is not well-formed XML');
+  });
+});
+
+describe('detectColumnMapping', () => {
+  it('matches column names case- and punctuation-insensitively, reading `time` as the time of day next to a date', () => {
+    expect(detectColumnMapping(['Date', 'time', 'LAT', 'Lon', 'depth_km', 'Mag', 'mag_type'])).toEqual({
+      'Date': 'Date',
+      'Time': 'time',
+      'Latitude': 'LAT',
+      'Longitude': 'Lon',
+      'Depth': 'depth_km',
+      'Magnitude': 'Mag',
+      'Magnitude Type': 'mag_type',
+    });
+  });
+
+  it('reads a lone `time` column as the full date-time', () => {
+    expect(detectColumnMapping(['time', 'latitude'])).toEqual({ 'Date': 'time', 'Latitude': 'latitude' });
+  });
+
+  it('leaves required fields without a column for the user to map', () => {
+    const mapping = detectColumnMapping(['when', 'latitude', 'longitude', 'magnitude']);
+    expect(missingRequiredFields(mapping)).toEqual(['Date', 'Depth']);
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('parses a GeoJSON feed with the geometry as coordinates and depth', () => {
+    const { events, report } = importFile('feed.geojson', GEOJSON);
+    expect(report).toMatchObject({ totalRows: 2, acceptedRows: 2, rejectedRows: 0 });
+    expect(events[0]).toMatchObject({
+      id: 'us1',
+      longitude: 142.5,
+      latitude: 38.1,
+      depth: 30,
+      magnitude: 5.4,
+      magnitudeType: 'MWW', // Magnitude types are upper-cased, as in the bundled catalog
+      time: Date.UTC(2024, 0, 1, 12),
+      source: 'us',
+    });
+  });
+
+  it("parses QuakeML from each event's preferred origin and magnitude, in km", () => {
+    const { events } = importFile('events.xml', QUAKEML);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: 'smi:test/event/1',
+      time: Date.UTC(2024, 2, 1, 0, 0, 1, 500),
+      latitude: 10.5,
+      longitude: 20.5,
+      depth: 12.5,
+      depthError: 1.5,
+      magnitude: 6.1,
+      magnitudeType: 'MW',
+      status: 'Reviewed',
+    });
+  });
+
+  it('reports rejected rows by their line in a delimited file', () => {
+    const text = [
+      CATALOG_HEADER,
+      catalogRow('OK', '01/02/1965', '13:44:18', 10, 20, 6, 30),
+      catalogRow('BAD', '01/03/1965', '00:00:00', 95, 20, 6, 30), // Latitude out of range
+    ].join('\n');
+    const { events, report } = importFile('catalog.csv', text);
+    expect(events.map(d => d.id)).toEqual(['OK']);
+    expect(report.rejectedRows).toBe(1);
+    expect(report.issues[0]).toMatchObject({ line: 3, id: 'BAD', severity: 'error' });
+  });
+});
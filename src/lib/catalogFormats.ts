@@ -0,0 +1,267 @@
+import * as d3 from 'd3';
+import { Catalog, parseCatalog } from './catalog';
+
+// File formats a user-supplied catalog can be read from
+export type CatalogFormat =
+  | 'csv' // Delimited text: USGS FDSN CSV, FDSN text ('|'-separated), the bundled layout, or a regional export
+  | 'geojson' // USGS GeoJSON feed (FeatureCollection of Point features)
+  | 'quakeml' // QuakeML XML (e.g. an FDSN event web service response)
+  | 'json'; // Array of flat event objects, as in the `earthquakes.json` schema from PRD.md
+
+// Human-readable names for each format
+export const CATALOG_FORMAT_LABELS: Record<CatalogFormat, string> = {
+  csv: 'CSV / delimited text',
+  geojson: 'GeoJSON',
+  quakeml: 'QuakeML',
+  json: 'JSON event list',
+};
+
+// Fields of the bundled catalog that a source column can be mapped onto; these are `database.csv`'s column names
+export const CATALOG_FIELDS = [
+  'Date', // Date, or a full date-time
+  'Time', // Time of day, when the date-time is split over two columns
+  'Latitude',
+  'Longitude',
+  'Depth',
+  'Magnitude',
+  'Magnitude Type',
+  'Type',
+  'ID',
+  'Depth Error',
+  'Depth Seismic Stations',
+  'Magnitude Error',
+  'Magnitude Seismic Stations',
+  'Azimuthal Gap',
+  'Horizontal Distance',
+  'Horizontal Error',
+  'Root Mean Square',
+  'Source',
+  'Location Source',
+  'Magnitude Source',
+  'Status',
+] as const;
+
+export type CatalogField = (typeof CATALOG_FIELDS)[number];
+
+// Fields without which no row can be accepted
+export const REQUIRED_CATALOG_FIELDS: CatalogField[] = ['Date', 'Latitude', 'Longitude', 'Depth', 'Magnitude'];
+
+// Which source column feeds each catalog field; unmapped fields are left empty
+export type ColumnMapping = Partial<Record<CatalogField, string>>;
+
+// A user-supplied file read into flat records, before the column mapping is applied
+export interface CatalogSource {
+  fileName: string;
+  format: CatalogFormat;
+  columns: string[]; // Every key found in the records, in first-seen order
+  records: Record<string, string>[];
+}
+
+// Alternative column names for each field, compared after lowercasing and dropping non-alphanumerics.
+// Covers the bundled layout, USGS FDSN CSV/text and GeoJSON, the flattened QuakeML records below, and the PRD schema.
+const FIELD_ALIASES: Record<CatalogField, string[]> = {
+  'Date': ['date', 'datetime', 'timestamp', 'origintime', 'eventdate', 'time'],
+  'Time': ['time', 'eventtime', 'timeofday'],
+  'Latitude': ['latitude', 'lat'],
+  'Longitude': ['longitude', 'lon', 'lng', 'long'],
+  'Depth': ['depth', 'depthkm'],
+  'Magnitude': ['magnitude', 'mag'],
+  'Magnitude Type': ['magnitudetype', 'magtype'],
+  'Type': ['type', 'eventtype'],
+  'ID': ['id', 'eventid', 'publicid'],
+  'Depth Error': ['deptherror', 'deptherr', 'depthuncertainty'],
+  'Depth Seismic Stations': ['depthseismicstations', 'nst', 'usedstationcount'],
+  'Magnitude Error': ['magnitudeerror', 'magerror', 'magnitudeuncertainty'],
+  'Magnitude Seismic Stations': ['magnitudeseismicstations', 'magnst', 'magnitudestationcount'],
+  'Azimuthal Gap': ['azimuthalgap', 'gap'],
+  'Horizontal Distance': ['horizontaldistance', 'dmin', 'minimumdistance'],
+  'Horizontal Error': ['horizontalerror', 'horizontaluncertainty'],
+  'Root Mean Square': ['rootmeansquare', 'rms', 'standarderror'],
+  'Source': ['source', 'net', 'contributor', 'agency'],
+  'Location Source': ['locationsource', 'locsource', 'author'],
+  'Magnitude Source': ['magnitudesource', 'magsource', 'magauthor'],
+  'Status': ['status', 'reviewstatus', 'evaluationmode'],
+};
+
+// Column name reduced to lowercase letters and digits, so 'Magnitude Type', 'magType' and 'mag_type' compare equal
+const normalizeColumn = (column: string): string => column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Converts any JSON value to the string form the row parser expects
+const toText = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Every key of the records, in the order they were first seen
+const collectColumns = (records: Record<string, string>[]): string[] => {
+  const columns = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(key => columns.add(key)));
+  return Array.from(columns);
+};
+
+// Delimited text: the delimiter is whichever of comma, tab, pipe or semicolon appears most in the header line.
+// FDSN text exports prefix the header with '#', which is dropped.
+const readDelimitedText = (text: string): Record<string, string>[] => {
+  const [headerLine] = text.split(/\r?\n/, 1);
+  const delimiter = [',', '\t', '|', ';']
+    .map(d => ({ d, count: headerLine.split(d).length }))
+    .reduce((best, c) => (c.count > best.count ? c : best)).d;
+  const body = text.startsWith('#') ? text.slice(1) : text;
+  const rows = d3.dsvFormat(delimiter).parse(body);
+  // Trim header whitespace ('Depth/km ' -> 'Depth/km'), which regional exports often pad
+  return rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim(), value ?? ''])));
+};
+
+// USGS GeoJSON: properties plus the geometry's longitude, latitude and depth (km). The feed's
+// `time` is in epoch milliseconds and becomes an ISO timestamp.
+const readGeoJson = (json: { features?: unknown }): Record<string, string>[] => {
+  if (!Array.isArray(json.features)) throw new Error('GeoJSON has no features array');
+  return json.features.map((feature: { id?: unknown; properties?: Record<string, unknown>; geometry?: { coordinates?: unknown[] } }) => {
+    const properties = feature.properties ?? {};
+    const [longitude, latitude, depth] = feature.geometry?.coordinates ?? [];
+    const record: Record<string, string> = {};
+    Object.entries(properties).forEach(([key, value]) => { record[key] = toText(value); });
+    if (typeof properties.time === 'number') record.time = new Date(properties.time).toISOString();
+    record.id = toText(feature.id ?? properties.code);
+    record.longitude = toText(longitude);
+    record.latitude = toText(latitude);
+    record.depth = toText(depth);
+    return record;
+  });
+};
+
+// An array of flat event objects (the PRD schema: latitude, longitude, magnitude, depth, timestamp, region)
+const readJsonEvents = (json: unknown[]): Record<string, string>[] =>
+  json.map(item => {
+    const record: Record<string, string> = {};
+    if (item && typeof item === 'object') {
+      Object.entries(item as Record<string, unknown>).forEach(([key, value]) => { record[key] = toText(value); });
+    }
+    return record;
+  });
+
+// Direct child elements of a QuakeML element with the given local name (namespace prefixes vary between services)
+const childElements = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter(child => child.localName === name) : [];
+
+// Text of a nested QuakeML element, e.g. path ['latitude', 'value'] under an origin
+const childText = (parent: Element | null | undefined, ...path: string[]): string => {
+  let element = parent;
+  for (const name of path) element = childElements(element, name)[0];
+  return element?.textContent?.trim() ?? '';
+};
+
+// Metres to kilometres, keeping empty values empty
+const metresToKm = (metres: string): string => (metres === '' ? '' : String(Number(metres) / 1000));
+
+// QuakeML: one record per event, from its preferred origin and magnitude (or the first of each).
+// Depths and uncertainties are converted from metres to km; evaluation modes map to the catalog's statuses.
+const readQuakeMl = (text: string): Record<string, string>[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not well-formed XML');
+  const events = Array.from(doc.getElementsByTagNameNS('*', 'event'));
+  return events.map(event => {
+    const preferred = (name: string, preferredIdElement: string) => {
+      const candidates = childElements(event, name);
+      const preferredId = childText(event, preferredIdElement);
+      return candidates.find(c => c.getAttribute('publicID') === preferredId) ?? candidates[0];
+    };
+    const origin = preferred('origin', 'preferredOriginID');
+    const magnitude = preferred('magnitude', 'preferredMagnitudeID');
+    const evaluationMode = childText(origin, 'evaluationMode');
+    return {
+      publicID: event.getAttribute('publicID') ?? '',
+      time: childText(origin, 'time', 'value'),
+      latitude: childText(origin, 'latitude', 'value'),
+      longitude: childText(origin, 'longitude', 'value'),
+      depth: metresToKm(childText(origin, 'depth', 'value')),
+      depthUncertainty: metresToKm(childText(origin, 'depth', 'uncertainty')),
+      usedStationCount: childText(origin, 'quality', 'usedStationCount'),
+      azimuthalGap: childText(origin, 'quality', 'azimuthalGap'),
+      minimumDistance: childText(origin, 'quality', 'minimumDistance'),
+      standardError: childText(origin, 'quality', 'standardError'),
+      horizontalUncertainty: metresToKm(childText(origin, 'originUncertainty', 'horizontalUncertainty')),
+      mag: childText(magnitude, 'mag', 'value'),
+      magnitudeUncertainty: childText(magnitude, 'mag', 'uncertainty'),
+      magType: childText(magnitude, 'type'),
+      magnitudeStationCount: childText(magnitude, 'stationCount'),
+      type: childText(event, 'type'),
+      agency: childText(event, 'creationInfo', 'agencyID'),
+      locationSource: childText(origin, 'creationInfo', 'agencyID'),
+      magnitudeSource: childText(magnitude, 'creationInfo', 'agencyID'),
+      status: evaluationMode === 'manual' ? 'Reviewed' : evaluationMode === 'automatic' ? 'Automatic' : evaluationMode,
+    };
+  });
+};
+
+/**
+ * Detects the format of a user-supplied catalog file and reads it into flat records.
+ * Throws an Error describing the problem when the file can't be read or contains no events.
+ */
+export const readCatalogFile = (fileName: string, text: string): CatalogSource => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim(); // Drop a byte-order mark left by spreadsheet exports
+  let format: CatalogFormat;
+  let records: Record<string, string>[];
+
+  if (trimmed.startsWith('<')) {
+    format = 'quakeml';
+    records = readQuakeMl(trimmed);
+  } else if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file looks like JSON but could not be parsed');
+    }
+    if (Array.isArray(json)) {
+      format = 'json';
+      records = readJsonEvents(json);
+    } else {
+      format = 'geojson';
+      records = readGeoJson(json as { features?: unknown });
+    }
+  } else {
+    format = 'csv';
+    records = readDelimitedText(trimmed);
+  }
+
+  if (records.length === 0) throw new Error(`No events found in ${fileName}`);
+  return { fileName, format, columns: collectColumns(records), records };
+};
+
+/**
+ * Guesses which source column feeds each catalog field from the column names.
+ * A `time` column is read as the time of day when there is also a date column, and as a full date-time otherwise.
+ */
+export const detectColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  CATALOG_FIELDS.forEach(field => {
+    const column = FIELD_ALIASES[field]
+      .map(alias => columns.find(c => !used.has(c) && normalizeColumn(c) === alias))
+      .find(c => c !== undefined);
+    if (column === undefined) return;
+    mapping[field] = column;
+    used.add(column);
+  });
+  return mapping;
+};
+
+/**
+ * Required fields that have no source column in the mapping.
+ */
+export const missingRequiredFields = (mapping: ColumnMapping): CatalogField[] =>
+  REQUIRED_CATALOG_FIELDS.filter(field => !mapping[field]);
+
+/**
+ * Renames each record's columns to the bundled catalog's field names and parses the result
+ * with the same validation as the bundled catalog.
+ */
+export const applyColumnMapping = (source: CatalogSource, mapping: ColumnMapping): Catalog => {
+  const mapped = Object.entries(mapping) as [CatalogField, string][];
+  const rows = source.records.map(record => {
+    const row: d3.DSVRowString = {};
+    mapped.forEach(([field, column]) => { row[field] = record[column]; });
+    return row;
+  });
+  // Delimited files report file line numbers (after the header); other formats report record numbers
+  return parseCatalog(rows, source.format === 'csv' ? 2 : 1);
+};
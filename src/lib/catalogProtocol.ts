@@ -0,0 +1,144 @@
+import { CatalogReport, EarthquakeData } from './catalog';
+import { CatalogFormat, ColumnMapping } from './catalogFormats';
+import { DepthProfile } from './crossSection';
+import { SequenceRole } from './declustering';
+import { EventColumns, eventColumnsTransferables } from './eventColumns';
+import { CategoryCount, EventFilters } from './filters';
+import { TimeRange } from './playback';
+import { Region } from './regions';
+import { GeoBounds } from './spatialIndex';
+import { SelectionStats } from './stats';
+
+// Messages between the map and the catalog worker. The worker owns the catalog and everything derived
+// from it (spatial index, declustering, region membership) and answers with indices into the catalog,
+// which the map resolves against its own copy of the events. Catalogs are parsed and merged in the worker:
+// the map is sent a catalog whole (in columns) only when one replaces it, and otherwise just the order of
+// the merged catalog and the events that changed.
+
+// How a loaded catalog is combined with the one already on the map
+export type CatalogLoadMode = 'replace' | 'overlay';
+
+// What the worker derives from a catalog once, when it is loaded or replaced
+export interface CatalogSummary {
+  eventTypes: CategoryCount[];
+  magnitudeTypes: CategoryCount[];
+  mainshockCount: number; // Events that are mainshocks of their sequence (see `findMainshockIndices`)
+}
+
+// A catalog file the worker has read for import, as the import dialog shows it (see `readCatalogFile`)
+export interface CatalogFileInfo {
+  fileName: string;
+  format: CatalogFormat;
+  columns: string[];
+  recordCount: number;
+  preview: Record<string, string>[]; // The first few records, to check the column mapping against
+}
+
+// New or revised events merged into the catalog (see `mergeCatalogOrder`)
+export interface CatalogMerge {
+  changed: EventColumns; // The events added, then those revised; events the catalog already had unchanged are left out
+  addedCount: number;
+  order: Int32Array; // `i` for the previous catalog's event i, `-1 - j` for changed event j; empty when nothing changed
+}
+
+// Which events the map shows at the playhead
+export interface CatalogQuery {
+  filters: EventFilters;
+  playheadTime: number;
+  playbackWindowMs: number | null; // null = cumulative
+  timeRange: TimeRange | null;
+  bounds: GeoBounds | null; // Viewport bounds; null when the whole world is in view
+  profile: DepthProfile | null; // Depth profile to place the selected events on, if one is drawn
+}
+
+// Selected events inside a profile's swath, placed along it (see `projectOntoProfile`)
+export interface CrossSectionResult {
+  indices: Int32Array; // In catalog order
+  distancesKm: Float64Array; // Along the profile from A
+  offsetsKm: Float64Array; // Perpendicular to the profile
+}
+
+export interface CatalogQueryResult {
+  selected: Int32Array; // Events in the playback window passing the filters, in catalog order
+  visible: Int32Array; // Those of them inside the viewport bounds
+  stats: SelectionStats; // Statistics of the selected events
+  crossSection: CrossSectionResult | null; // null without a profile
+}
+
+// Other events near a pinned event (see `findNearbyEvents`)
+export interface NearbyResult {
+  indices: Int32Array; // In catalog order
+  distancesKm: Float64Array;
+}
+
+// The sequence a pinned event belongs to (see `summarizeSequence`)
+export interface SequenceResult {
+  role: SequenceRole;
+  mainshock: number;
+  events: Int32Array; // The whole sequence, mainshock included, in catalog order
+  foreshockCount: number;
+  aftershockCount: number;
+}
+
+export type CatalogRequest =
+  | { type: 'load'; url: string } // Fetch and parse a catalog CSV
+  | { type: 'merge-events'; events: EarthquakeData[] } // Merge new or revised events in by ID (see `mergeCatalogs`)
+  | { type: 'read-file'; fileName: string; text: string } // Read a user's catalog file, to import it
+  | { type: 'preview-import'; mapping: ColumnMapping } // Parse the file read last with a column mapping
+  | { type: 'import-file'; mapping: ColumnMapping; mode: CatalogLoadMode } // Load the file read last
+  | { type: 'set-regions'; regions: Region[] } // Regions counted in the statistics
+  | { type: 'filter'; filters: EventFilters } // Events passing the filters at any time, for the timeline
+  | { type: 'query'; query: CatalogQuery }
+  | { type: 'find-nearby'; eventId: string; radiusKm: number; windowDays: number }
+  | { type: 'find-sequence'; eventId: string };
+
+export type CatalogResponse =
+  | { type: 'loaded'; events: EventColumns; report: CatalogReport; summary: CatalogSummary } // The catalog was replaced
+  | { type: 'merged'; merge: CatalogMerge; report: CatalogReport | null; summary: CatalogSummary } // null for sent events
+  | { type: 'file-read'; file: CatalogFileInfo }
+  | { type: 'import-previewed'; report: CatalogReport }
+  | { type: 'regions-set' }
+  | { type: 'filtered'; matching: Int32Array }
+  | { type: 'queried'; result: CatalogQueryResult }
+  | { type: 'nearby-found'; nearby: NearbyResult }
+  | { type: 'sequence-found'; sequence: SequenceResult | null } // null for an event the catalog doesn't have
+  | { type: 'error'; message: string };
+
+// Envelopes pairing each response with its request
+export interface CatalogRequestMessage {
+  id: number;
+  request: CatalogRequest;
+}
+
+export interface CatalogResponseMessage {
+  id: number;
+  response: CatalogResponse;
+}
+
+/**
+ * Buffers of a response's index arrays and event columns, transferred to the main thread rather than copied.
+ */
+export const responseTransferables = (response: CatalogResponse): ArrayBuffer[] => {
+  switch (response.type) {
+    case 'loaded':
+      return eventColumnsTransferables(response.events);
+    case 'merged':
+      return [...eventColumnsTransferables(response.merge.changed), response.merge.order.buffer as ArrayBuffer];
+    case 'filtered':
+      return [response.matching.buffer as ArrayBuffer];
+    case 'queried': {
+      const { selected, visible, crossSection } = response.result;
+      return [
+        selected.buffer as ArrayBuffer,
+        visible.buffer as ArrayBuffer,
+        ...(crossSection ? [crossSection.indices.buffer, crossSection.distancesKm.buffer, crossSection.offsetsKm.buffer] as ArrayBuffer[] : []),
+      ];
+    }
+    case 'nearby-found':
+      return [response.nearby.indices.buffer as ArrayBuffer, response.nearby.distancesKm.buffer as ArrayBuffer];
+    case 'sequence-found':
+      return response.sequence ? [response.sequence.events.buffer as ArrayBuffer] : [];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { CATALOG_HEADER, catalogRow, makeEvent } from '@/test/fixtures';
+import { EarthquakeData, applyMergeOrder, mergeCatalogs } from './catalog';
+import { CatalogQuery, CatalogRequest, CatalogResponse } from './catalogProtocol';
+import { createCatalogService } from './catalogService';
+import { decodeEvents } from './eventColumns';
+import { DEPTH_FILTER_DOMAIN_KM } from './filters';
+import { DAY_MS } from './playback';
+
+const T0 = Date.UTC(2000, 0, 1);
+
+// A magnitude 7 mainshock with two aftershocks close by, and an unrelated event on the other side of the world
+const CATALOG: EarthquakeData[] = [
+  makeEvent({ id: 'MAIN', time: T0, magnitude: 7, longitude: 140, latitude: 35 }),
+  makeEvent({ id: 'AFTER1', time: T0 + DAY_MS, magnitude: 5, longitude: 140.1, latitude: 35 }),
+  makeEvent({ id: 'AFTER2', time: T0 + 2 * DAY_MS, magnitude: 4.5, longitude: 140, latitude: 35.2 }),
+  makeEvent({ id: 'FAR', time: T0 + 3 * DAY_MS, magnitude: 6, longitude: -70, latitude: -20 }),
+];
+
+// Whole catalog at the end of playback, without filters
+const QUERY: CatalogQuery = {
+  filters: {
+    minMagnitude: 0,
+    depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+    excludedEventTypes: [],
+    excludedMagnitudeTypes: [],
+    region: null,
+    mainshocksOnly: false,
+  },
+  playheadTime: T0 + 10 * DAY_MS,
+  playbackWindowMs: null,
+  timeRange: null,
+  bounds: null,
+  profile: null,
+};
+
+// Sends a request and narrows the response to the expected type
+const send = async <T extends CatalogResponse['type']>(
+  service: ReturnType<typeof createCatalogService>,
+  request: CatalogRequest,
+  type: T,
+): Promise<Extract<CatalogResponse, { type: T }>> => {
+  const response = await service.handle(request);
+  if (response.type !== type) throw new Error(`Expected '${type}', got ${JSON.stringify(response)}`);
+  return response as Extract<CatalogResponse, { type: T }>;
+};
+
+const serviceWith = async (events: EarthquakeData[]) => {
+  const service = createCatalogService();
+  await send(service, { type: 'merge-events', events }, 'merged');
+  return service;
+};
+
+describe('createCatalogService', () => {
+  it('summarizes a new catalog, counting mainshocks', async () => {
+    const service = createCatalogService();
+    const { summary } = await send(service, { type: 'merge-events', events: CATALOG }, 'merged');
+    expect(summary.mainshockCount).toBe(2);
+    expect(summary.eventTypes).toEqual([{ value: 'Earthquake', count: 4 }]);
+  });
+
+  it('merges sent events in the same order as mergeCatalogs, answering with just the events that changed', async () => {
+    const service = await serviceWith(CATALOG);
+    const revised = { ...CATALOG[3], magnitude: 6.2 };
+    const added = makeEvent({ id: 'NEW', time: T0 + 1.5 * DAY_MS, longitude: 0, latitude: 0 });
+    const merged = mergeCatalogs(CATALOG, [added, revised]);
+
+    const { merge, summary } = await send(service, { type: 'merge-events', events: [CATALOG[0], revised, added] }, 'merged');
+    expect(summary.mainshockCount).toBe(3);
+    const changed = decodeEvents(merge.changed);
+    expect(changed).toEqual([added, revised]);
+    expect(merge.addedCount).toBe(1);
+    expect(applyMergeOrder(CATALOG, changed, merge.order)).toEqual(merged);
+    const { result } = await send(service, { type: 'query', query: QUERY }, 'queried');
+    expect(Array.from(result.selected, i => merged[i].id)).toEqual(merged.map(d => d.id));
+    expect(result.stats.maxMagnitude).toBe(7);
+
+    const unchanged = await send(service, { type: 'merge-events', events: [added, revised] }, 'merged');
+    expect(unchanged.merge.order).toHaveLength(0);
+    expect(unchanged.merge.changed.ids).toEqual([]);
+  });
+
+  it('reads a file, previews it with a column mapping and imports it in place of or on top of the catalog', async () => {
+    const service = await serviceWith(CATALOG);
+    const text = [
+      'when,lat,lon,km,mag,code',
+      '2000-01-01T12:00:00Z,10,20,30,5.5,FILE1',
+      '2000-01-01T12:00:00Z,95,20,30,5.5,BAD',
+      '2000-01-01T12:00:00Z,11,21,33,5.8,FILE2',
+      '2000-01-01T12:00:00Z,12,22,36,6.1,FILE3',
+    ].join('\n');
+    const { file } = await send(service, { type: 'read-file', fileName: 'mine.csv', text }, 'file-read');
+    expect(file).toMatchObject({ fileName: 'mine.csv', format: 'csv', columns: ['when', 'lat', 'lon', 'km', 'mag', 'code'], recordCount: 4 });
+    expect(file.preview).toHaveLength(3);
+
+    const mapping = { Date: 'when', Latitude: 'lat', Longitude: 'lon', Depth: 'km', Magnitude: 'mag', ID: 'code' };
+    const { report } = await send(service, { type: 'preview-import', mapping }, 'import-previewed');
+    expect(report).toMatchObject({ totalRows: 4, acceptedRows: 3, rejectedRows: 1 });
+
+    const overlaid = await send(service, { type: 'import-file', mapping, mode: 'overlay' }, 'merged');
+    expect(overlaid.merge.addedCount).toBe(3);
+    expect(overlaid.report).toEqual(report);
+    expect(overlaid.summary.eventTypes).toEqual([{ value: 'Earthquake', count: 7 }]);
+
+    const replaced = await send(service, { type: 'import-file', mapping, mode: 'replace' }, 'loaded');
+    expect(replaced.events.ids).toEqual(['FILE1', 'FILE2', 'FILE3']);
+    expect(replaced.summary.eventTypes).toEqual([{ value: 'Earthquake', count: 3 }]);
+  });
+
+  it('answers with an error for a file it cannot read, and has nothing to import afterwards', async () => {
+    const service = createCatalogService();
+    const csv = [CATALOG_HEADER, catalogRow('EQ1', '01/02/1965', '13:44:18', 19.2, 145.6, 6, 131.6)].join('\n');
+    await send(service, { type: 'read-file', fileName: 'good.csv', text: csv }, 'file-read');
+    expect(await service.handle({ type: 'read-file', fileName: 'bad.json', text: '{ nope' }))
+      .toEqual({ type: 'error', message: 'The file looks like JSON but could not be parsed' });
+    expect(await service.handle({ type: 'preview-import', mapping: { Date: 'Date' } }))
+      .toEqual({ type: 'error', message: 'No catalog file has been read' });
+  });
+
+  it('finds the events near a pinned event as catalog indices with their distances', async () => {
+    const service = await serviceWith(CATALOG);
+    const { nearby } = await send(service, { type: 'find-nearby', eventId: 'MAIN', radiusKm: 50, windowDays: 30 }, 'nearby-found');
+    expect(Array.from(nearby.indices)).toEqual([1, 2]);
+    expect(nearby.distancesKm[0]).toBeCloseTo(9.1, 0);
+    expect(nearby.distancesKm[1]).toBeCloseTo(22.2, 0);
+
+    const unknown = await send(service, { type: 'find-nearby', eventId: 'NOPE', radiusKm: 50, windowDays: 30 }, 'nearby-found');
+    expect(unknown.nearby.indices).toHaveLength(0);
+  });
+
+  it("finds a pinned event's sequence", async () => {
+    const service = await serviceWith(CATALOG);
+    const { sequence } = await send(service, { type: 'find-sequence', eventId: 'AFTER2' }, 'sequence-found');
+    expect(sequence).toMatchObject({ role: 'aftershock', mainshock: 0, foreshockCount: 0, aftershockCount: 2 });
+    expect(Array.from(sequence?.events ?? [])).toEqual([0, 1, 2]);
+
+    expect((await send(service, { type: 'find-sequence', eventId: 'NOPE' }, 'sequence-found')).sequence).toBeNull();
+  });
+
+  it('places the selected events inside the swath along the profile', async () => {
+    const service = await serviceWith(CATALOG);
+    const profile = { start: [139, 35] as [number, number], end: [141, 35] as [number, number], swathKm: 20 };
+    const { result } = await send(service, { type: 'query', query: { ...QUERY, profile } }, 'queried');
+    expect(Array.from(result.crossSection?.indices ?? [])).toEqual([0, 1]);
+    expect(result.crossSection?.distancesKm[0]).toBeCloseTo(91, 0);
+
+    const withoutProfile = await send(service, { type: 'query', query: QUERY }, 'queried');
+    expect(withoutProfile.result.crossSection).toBeNull();
+  });
+});
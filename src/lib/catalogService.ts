@@ -0,0 +1,211 @@
+import { Catalog, CatalogReport, EarthquakeData, applyMergeOrder, diffCatalogs, loadCatalog, mergeCatalogOrder } from './catalog';
+import { CatalogSource, ColumnMapping, applyColumnMapping, readCatalogFile } from './catalogFormats';
+import {
+  CatalogFileInfo,
+  CatalogMerge,
+  CatalogQuery,
+  CatalogQueryResult,
+  CatalogRequest,
+  CatalogResponse,
+  CatalogSummary,
+  CrossSectionResult,
+  NearbyResult,
+  SequenceResult,
+} from './catalogProtocol';
+import { DepthProfile, projectOntoProfile } from './crossSection';
+import { Declustering, buildDeclustering, findMainshockIndices, summarizeSequence } from './declustering';
+import { encodeEvents } from './eventColumns';
+import { EventFilters, countCategories, createEventFilter, magnitudeTypeOf } from './filters';
+import { findNearbyEvents } from './nearby';
+import { visibleIndexRange } from './playback';
+import { Region } from './regions';
+import { createSpatialIndex } from './spatialIndex';
+import { RegionMembership, computeRegionMembership, computeSelectionStats } from './stats';
+
+// Answers catalog requests (see `catalogProtocol.ts`); runs inside the catalog worker
+export interface CatalogService {
+  handle: (request: CatalogRequest) => Promise<CatalogResponse>;
+}
+
+// Number of a file's records sent for the import dialog's preview
+const FILE_PREVIEW_RECORDS = 3;
+
+/**
+ * Creates the state behind the catalog worker: the catalog, parsed once, and the indexes built from it.
+ * Requests are handled one at a time in the order they arrive, so a query sent right after a load
+ * waits for the loaded catalog instead of answering for the previous one.
+ */
+export const createCatalogService = (): CatalogService => {
+  let events: EarthquakeData[] = [];
+  let summary: CatalogSummary = { eventTypes: [], magnitudeTypes: [], mainshockCount: 0 };
+  let spatialIndex = createSpatialIndex(events);
+  let mainshocks = new Set<EarthquakeData>();
+  let declustering: Declustering = buildDeclustering(events, new Int32Array(0));
+  let indexById = new Map<string, number>();
+  let regions: Region[] = [];
+  let regionMembership: RegionMembership = [];
+  // The file being imported, and the last parse of it with its mapping (the dialog previews before loading)
+  let source: CatalogSource | null = null;
+  let imported: { mapping: string; catalog: Catalog } | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Indexes a new catalog and summarizes it for the map
+  const setCatalog = (next: EarthquakeData[]): CatalogSummary => {
+    events = next;
+    spatialIndex = createSpatialIndex(events);
+    const mainshockIndex = findMainshockIndices(events);
+    mainshocks = new Set(events.filter((_d, i) => mainshockIndex[i] === i));
+    declustering = buildDeclustering(events, mainshockIndex);
+    indexById = new Map(events.map((d, i) => [d.id, i]));
+    regionMembership = computeRegionMembership(events, regions);
+    summary = {
+      eventTypes: countCategories(events, d => d.type),
+      magnitudeTypes: countCategories(events, magnitudeTypeOf),
+      mainshockCount: mainshocks.size,
+    };
+    return summary;
+  };
+
+  // Replaces the catalog, answering with all of it
+  const replace = ({ events: next, report }: Catalog): CatalogResponse =>
+    ({ type: 'loaded', summary: setCatalog(next), events: encodeEvents(next), report });
+
+  // Merges incoming events in by ID, answering with just the ones that changed the catalog
+  const merge = (incoming: EarthquakeData[], report: CatalogReport | null): CatalogResponse => {
+    const { added, updated } = diffCatalogs(events, incoming);
+    const changed = [...added, ...updated];
+    let order: Int32Array = new Int32Array(0);
+    if (changed.length > 0) {
+      order = mergeCatalogOrder(events, changed);
+      setCatalog(applyMergeOrder(events, changed, order));
+    }
+    const result: CatalogMerge = { changed: encodeEvents(changed), addedCount: added.length, order };
+    return { type: 'merged', merge: result, report, summary };
+  };
+
+  // The file read last, parsed with a column mapping; the parse is kept for the same mapping
+  const parseFile = (mapping: ColumnMapping): Catalog => {
+    if (!source) throw new Error('No catalog file has been read');
+    const key = JSON.stringify(mapping);
+    if (imported?.mapping !== key) imported = { mapping: key, catalog: applyColumnMapping(source, mapping) };
+    return imported.catalog;
+  };
+
+  const readFile = (fileName: string, text: string): CatalogFileInfo => {
+    // A file that can't be read leaves nothing to import
+    source = null;
+    imported = null;
+    source = readCatalogFile(fileName, text);
+    return {
+      fileName,
+      format: source.format,
+      columns: source.columns,
+      recordCount: source.records.length,
+      preview: source.records.slice(0, FILE_PREVIEW_RECORDS),
+    };
+  };
+
+  // Catalog index of an event object held by the service, through its ID
+  const indexOf = (d: EarthquakeData) => indexById.get(d.id) ?? -1;
+
+  const createFilter = (filters: EventFilters) => createEventFilter(filters, d => mainshocks.has(d));
+
+  const filter = (filters: EventFilters): Int32Array => {
+    const passes = createFilter(filters);
+    const matching: number[] = [];
+    events.forEach((d, i) => {
+      if (passes(d)) matching.push(i);
+    });
+    return Int32Array.from(matching);
+  };
+
+  // Events in the playback window passing the filters, then those inside the viewport (through the quadtree)
+  const query = ({ filters, playheadTime, playbackWindowMs, timeRange, bounds, profile }: CatalogQuery): CatalogQueryResult => {
+    const passes = createFilter(filters);
+    const [start, end] = visibleIndexRange(events, playheadTime, playbackWindowMs, timeRange);
+    const selected: number[] = [];
+    for (let i = start; i < end; i++) {
+      if (passes(events[i])) selected.push(i);
+    }
+    const visible = bounds
+      ? spatialIndex.query(bounds).filter(i => i >= start && i < end && passes(events[i]))
+      : selected;
+    return {
+      selected: Int32Array.from(selected),
+      visible: Int32Array.from(visible),
+      stats: computeSelectionStats(selected.map(i => events[i]), regionMembership),
+      crossSection: profile ? crossSection(selected, profile) : null,
+    };
+  };
+
+  // Selected events inside the profile's swath, placed along it
+  const crossSection = (selected: number[], profile: DepthProfile): CrossSectionResult => {
+    const points = projectOntoProfile(selected.map(i => events[i]), profile);
+    return {
+      indices: Int32Array.from(points, p => indexOf(p.event)),
+      distancesKm: Float64Array.from(points, p => p.distanceKm),
+      offsetsKm: Float64Array.from(points, p => p.offsetKm),
+    };
+  };
+
+  const findNearby = (eventId: string, radiusKm: number, windowDays: number): NearbyResult => {
+    const target = events[indexById.get(eventId) ?? -1];
+    const nearby = target ? findNearbyEvents(events, target, radiusKm, windowDays) : [];
+    return {
+      indices: Int32Array.from(nearby, n => indexOf(n.event)),
+      distancesKm: Float64Array.from(nearby, n => n.distanceKm),
+    };
+  };
+
+  const findSequence = (eventId: string): SequenceResult | null => {
+    const target = events[indexById.get(eventId) ?? -1];
+    const sequence = target ? summarizeSequence(declustering, target) : null;
+    return sequence && {
+      role: sequence.role,
+      mainshock: indexOf(sequence.mainshock),
+      events: Int32Array.from(sequence.events, indexOf),
+      foreshockCount: sequence.foreshockCount,
+      aftershockCount: sequence.aftershockCount,
+    };
+  };
+
+  const respond = async (request: CatalogRequest): Promise<CatalogResponse> => {
+    switch (request.type) {
+      case 'load':
+        return replace(await loadCatalog(request.url));
+      case 'merge-events':
+        return merge(request.events, null);
+      case 'read-file':
+        return { type: 'file-read', file: readFile(request.fileName, request.text) };
+      case 'preview-import':
+        return { type: 'import-previewed', report: parseFile(request.mapping).report };
+      case 'import-file': {
+        const catalog = parseFile(request.mapping);
+        return request.mode === 'overlay' ? merge(catalog.events, catalog.report) : replace(catalog);
+      }
+      case 'set-regions':
+        regions = request.regions;
+        regionMembership = computeRegionMembership(events, regions);
+        return { type: 'regions-set' };
+      case 'filter':
+        return { type: 'filtered', matching: filter(request.filters) };
+      case 'query':
+        return { type: 'queried', result: query(request.query) };
+      case 'find-nearby':
+        return { type: 'nearby-found', nearby: findNearby(request.eventId, request.radiusKm, request.windowDays) };
+      case 'find-sequence':
+        return { type: 'sequence-found', sequence: findSequence(request.eventId) };
+    }
+  };
+
+  return {
+    handle: request => {
+      const response = queue.then(() => respond(request)).catch((err: unknown): CatalogResponse => ({
+        type: 'error',
+        message: err instanceof Error ? err.message : String(err),
+      }));
+      queue = response;
+      return response;
+    },
+  };
+};
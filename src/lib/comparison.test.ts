@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { EventFilters } from './filters';
+import { DAY_MS } from './playback';
+import { PREDEFINED_REGIONS } from './regions';
+import {
+  DEFAULT_COMPARISON_SETTINGS,
+  YEAR_MS,
+  comparisonFilters,
+  comparisonPlayhead,
+  comparisonSettingsFrom,
+  relativeChange,
+  selectionPeriod,
+  summarizeSide,
+} from './comparison';
+
+describe('comparisonFilters', () => {
+  const filters: EventFilters = {
+    minMagnitude: 5,
+    depthRangeKm: [0, 70],
+    excludedEventTypes: ['Nuclear Explosion'],
+    excludedMagnitudeTypes: ['MB'],
+    region: PREDEFINED_REGIONS[0],
+    mainshocksOnly: true,
+  };
+
+  it("are map B's own, and start as a copy of map A's", () => {
+    const settings = comparisonSettingsFrom(filters, null);
+    expect(comparisonFilters(settings, PREDEFINED_REGIONS)).toEqual(filters);
+    expect(comparisonFilters({ ...settings, excludedEventTypes: [], regionId: null, mainshocksOnly: false }, PREDEFINED_REGIONS))
+      .toEqual({ ...filters, excludedEventTypes: [], region: null, mainshocksOnly: false });
+  });
+
+  it('cover the whole world once their region has been deleted', () => {
+    const settings = { ...DEFAULT_COMPARISON_SETTINGS, regionId: 'custom-1' };
+    expect(comparisonFilters(settings, PREDEFINED_REGIONS).region).toBeNull();
+  });
+});
+
+describe('comparisonPlayhead', () => {
+  it('keeps B the same share of the way through its own period as A', () => {
+    expect(comparisonPlayhead(13 * DAY_MS, [10 * DAY_MS, 20 * DAY_MS], [100 * DAY_MS, 200 * DAY_MS])).toBe(130 * DAY_MS);
+    expect(comparisonPlayhead(15 * DAY_MS, [0, 20 * DAY_MS], [100 * DAY_MS, 104 * DAY_MS])).toBe(103 * DAY_MS);
+  });
+
+  it('starts and finishes both periods together', () => {
+    const from: [number, number] = [0, 20 * DAY_MS];
+    const to: [number, number] = [100 * DAY_MS, 500 * DAY_MS];
+    expect(comparisonPlayhead(-DAY_MS, from, to)).toBe(100 * DAY_MS);
+    expect(comparisonPlayhead(20 * DAY_MS, from, to)).toBe(500 * DAY_MS);
+    expect(comparisonPlayhead(30 * DAY_MS, from, to)).toBe(500 * DAY_MS);
+  });
+
+  it("keeps B at the end of its period when A's is a single moment", () => {
+    expect(comparisonPlayhead(10 * DAY_MS, [10 * DAY_MS, 10 * DAY_MS], [100 * DAY_MS, 200 * DAY_MS])).toBe(200 * DAY_MS);
+  });
+});
+
+describe('selectionPeriod', () => {
+  it('runs from the start of the bounds to the playhead', () => {
+    expect(selectionPeriod(5 * DAY_MS, null, [DAY_MS, 10 * DAY_MS])).toEqual([DAY_MS, 5 * DAY_MS]);
+  });
+
+  it('is no longer than the playback window', () => {
+    expect(selectionPeriod(5 * DAY_MS, 2 * DAY_MS, [DAY_MS, 10 * DAY_MS])).toEqual([3 * DAY_MS, 5 * DAY_MS]);
+    expect(selectionPeriod(2 * DAY_MS, 7 * DAY_MS, [DAY_MS, 10 * DAY_MS])).toEqual([DAY_MS, 2 * DAY_MS]);
+  });
+
+  it('is empty with the playhead at the start', () => {
+    expect(selectionPeriod(0, null, [DAY_MS, 10 * DAY_MS])).toEqual([DAY_MS, DAY_MS]);
+  });
+});
+
+describe('summarizeSide', () => {
+  it('gives the rate in events per year over the period', () => {
+    expect(summarizeSide({ count: 30, meanMagnitude: 6.2 }, [0, 2 * YEAR_MS])).toEqual({
+      count: 30,
+      periodMs: 2 * YEAR_MS,
+      ratePerYear: 15,
+      meanMagnitude: 6.2,
+    });
+  });
+
+  it('has no rate over an empty period', () => {
+    expect(summarizeSide({ count: 0, meanMagnitude: null }, [DAY_MS, DAY_MS]).ratePerYear).toBeNull();
+  });
+});
+
+describe('relativeChange', () => {
+  it('is the change from A as a share of A', () => {
+    expect(relativeChange(20, 25)).toBe(0.25);
+    expect(relativeChange(20, 10)).toBe(-0.5);
+  });
+
+  it('is null without a value or against zero', () => {
+    expect(relativeChange(0, 5)).toBeNull();
+    expect(relativeChange(null, 5)).toBeNull();
+    expect(relativeChange(5, null)).toBeNull();
+  });
+});
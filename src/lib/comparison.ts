@@ -0,0 +1,106 @@
+import { DEPTH_FILTER_DOMAIN_KM, DepthRange, EventFilters } from './filters';
+import { DAY_MS, TimeRange, clampPlayhead } from './playback';
+import { Region } from './regions';
+import { SelectionStats } from './stats';
+
+// Length of a year for rates, averaged over leap years
+export const YEAR_MS = 365.25 * DAY_MS;
+
+// Settings of the comparison map (B), shown right of the swipe divider. Map A, on the left, keeps the main
+// filters and time range; B has a full set of filters and a period of its own. Only the projection, zoom and
+// playback window are shared.
+export interface ComparisonSettings {
+  minMagnitude: number;
+  depthRangeKm: DepthRange;
+  excludedEventTypes: string[];
+  excludedMagnitudeTypes: string[];
+  regionId: string | null; // null = whole world
+  mainshocksOnly: boolean;
+  timeRange: TimeRange | null; // null = the whole catalog
+}
+
+export const DEFAULT_COMPARISON_SETTINGS: ComparisonSettings = {
+  minMagnitude: 0,
+  depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+  excludedEventTypes: [],
+  excludedMagnitudeTypes: [],
+  regionId: null,
+  mainshocksOnly: false,
+  timeRange: null,
+};
+
+// Default position of the swipe divider, as a share of the map width from the left
+export const DEFAULT_SWIPE_POSITION = 0.5;
+
+// What one side of the comparison shows at the playhead
+export interface SideSummary {
+  count: number;
+  periodMs: number; // Length of simulated time the shown events span (see `selectionPeriod`)
+  ratePerYear: number | null; // null while the period is empty
+  meanMagnitude: number | null;
+}
+
+/**
+ * Map B's filters, from its settings. A region that is no longer among `regions` (a deleted custom region)
+ * falls back to the whole world.
+ */
+export const comparisonFilters = (settings: ComparisonSettings, regions: Region[]): EventFilters => ({
+  minMagnitude: settings.minMagnitude,
+  depthRangeKm: settings.depthRangeKm,
+  excludedEventTypes: settings.excludedEventTypes,
+  excludedMagnitudeTypes: settings.excludedMagnitudeTypes,
+  region: regions.find(r => r.id === settings.regionId) ?? null,
+  mainshocksOnly: settings.mainshocksOnly,
+});
+
+/**
+ * Map B's settings as a copy of map A's filters, over the given period.
+ */
+export const comparisonSettingsFrom = (filters: EventFilters, timeRange: TimeRange | null): ComparisonSettings => ({
+  minMagnitude: filters.minMagnitude,
+  depthRangeKm: filters.depthRangeKm,
+  excludedEventTypes: filters.excludedEventTypes,
+  excludedMagnitudeTypes: filters.excludedMagnitudeTypes,
+  regionId: filters.region?.id ?? null,
+  mainshocksOnly: filters.mainshocksOnly,
+  timeRange,
+});
+
+/**
+ * Map B's playhead, kept in step with A's: the same share of the way through its own playback bounds, so both
+ * periods play side by side and finish together. A longer period plays faster, by the ratio of the two lengths.
+ */
+export const comparisonPlayhead = (playheadTime: number, fromBounds: TimeRange, toBounds: TimeRange): number => {
+  const fromSpan = fromBounds[1] - fromBounds[0];
+  const progress = fromSpan > 0 ? (clampPlayhead(playheadTime, fromBounds) - fromBounds[0]) / fromSpan : 1;
+  return toBounds[0] + progress * (toBounds[1] - toBounds[0]);
+};
+
+/**
+ * The simulated time the events shown at a playhead span: from the start of the playback bounds (or of the
+ * playback window, when later) up to the playhead.
+ */
+export const selectionPeriod = (playheadTime: number, windowMs: number | null, bounds: TimeRange): TimeRange => {
+  const end = clampPlayhead(playheadTime, bounds);
+  const start = windowMs === null ? bounds[0] : Math.max(bounds[0], end - windowMs);
+  return [Math.min(start, end), end];
+};
+
+/**
+ * Counts, rate and mean magnitude of one side, from the statistics of its shown events and the period they span.
+ */
+export const summarizeSide = (stats: Pick<SelectionStats, 'count' | 'meanMagnitude'>, [start, end]: TimeRange): SideSummary => {
+  const periodMs = end - start;
+  return {
+    count: stats.count,
+    periodMs,
+    ratePerYear: periodMs > 0 ? stats.count / (periodMs / YEAR_MS) : null,
+    meanMagnitude: stats.meanMagnitude,
+  };
+};
+
+/**
+ * Change from A to B as a share of A (0.25 = 25% more), or null when there is nothing to compare against.
+ */
+export const relativeChange = (a: number | null, b: number | null): number | null =>
+  a === null || b === null || a === 0 ? null : (b - a) / a;
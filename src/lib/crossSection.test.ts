@@ -0,0 +1,55 @@
+import * as d3 from 'd3';
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { DepthProfile, profileLengthKm, projectOntoProfile, swathToGeoJson } from './crossSection';
+
+// A profile eastwards along the equator, ten degrees (about 1,112 km) long, with a 100 km swath
+const PROFILE: DepthProfile = { start: [0, 0], end: [10, 0], swathKm: 100 };
+const KM_PER_DEGREE = 111.19;
+
+describe('profileLengthKm', () => {
+  it('measures the great-circle length of the profile', () => {
+    expect(profileLengthKm(PROFILE)).toBeCloseTo(10 * KM_PER_DEGREE, 0);
+  });
+});
+
+describe('projectOntoProfile', () => {
+  it('places events inside the swath by distance along the profile and offset from it', () => {
+    const north = makeEvent({ id: 'N', longitude: 5, latitude: 0.3 });
+    const south = makeEvent({ id: 'S', longitude: 2, latitude: -0.2 });
+    const [n, s] = projectOntoProfile([north, south], PROFILE);
+    expect(n.event).toBe(north);
+    expect(n.distanceKm).toBeCloseTo(5 * KM_PER_DEGREE, 0);
+    // Looking from A to B (east), north is to the left
+    expect(n.offsetKm).toBeCloseTo(-0.3 * KM_PER_DEGREE, 0);
+    expect(s.distanceKm).toBeCloseTo(2 * KM_PER_DEGREE, 0);
+    expect(s.offsetKm).toBeCloseTo(0.2 * KM_PER_DEGREE, 0);
+  });
+
+  it('drops events outside the swath or beyond either end, keeping the input order', () => {
+    const events = [
+      makeEvent({ id: 'WIDE', longitude: 5, latitude: 0.5 }), // 56 km off the line
+      makeEvent({ id: 'BEHIND', longitude: -0.5, latitude: 0 }),
+      makeEvent({ id: 'LAST', longitude: 9.9, latitude: 0 }),
+      makeEvent({ id: 'PAST', longitude: 10.5, latitude: 0 }),
+      makeEvent({ id: 'FIRST', longitude: 0.1, latitude: 0 }),
+    ];
+    expect(projectOntoProfile(events, PROFILE).map(p => p.event.id)).toEqual(['LAST', 'FIRST']);
+  });
+
+  it('measures profiles across the antimeridian', () => {
+    const profile: DepthProfile = { start: [175, -20], end: [-175, -20], swathKm: 100 };
+    const [point] = projectOntoProfile([makeEvent({ longitude: 180, latitude: -20 })], profile);
+    expect(point.distanceKm).toBeCloseTo(profileLengthKm(profile) / 2, -1);
+  });
+});
+
+describe('swathToGeoJson', () => {
+  it('outlines the band around the profile rather than the rest of the globe', () => {
+    const swath = swathToGeoJson(PROFILE);
+    expect(d3.geoArea(swath)).toBeLessThan(2 * Math.PI);
+    expect(d3.geoContains(swath, [5, 0.4])).toBe(true);
+    expect(d3.geoContains(swath, [5, 0.5])).toBe(false);
+    expect(d3.geoContains(swath, [11, 0])).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import * as d3 from 'd3';
+import { LineString, Polygon } from 'geojson';
+import { EarthquakeData } from './catalog';
+import { EARTH_RADIUS_KM, destinationPoint, initialBearing } from './geo';
+import { LonLat } from './regions';
+
+// Swath width choices (km): events at most half this far from the profile line are plotted
+export const SWATH_WIDTH_OPTIONS_KM = [25, 50, 100, 200, 400];
+export const DEFAULT_SWATH_WIDTH_KM = 100;
+
+// A depth profile: the great circle from `start` (A) to `end` (B), and the width of the band around it
+export interface DepthProfile {
+  start: LonLat;
+  end: LonLat;
+  swathKm: number;
+}
+
+// An event inside the swath, placed on the profile
+export interface CrossSectionPoint {
+  event: EarthquakeData;
+  distanceKm: number; // Along the profile from A
+  offsetKm: number; // Perpendicular to the profile; positive to the right when looking from A to B
+}
+
+// Number of points per side of the swath outline
+const SWATH_OUTLINE_STEPS = 32;
+
+/**
+ * Length of the profile line in km.
+ */
+export const profileLengthKm = (profile: DepthProfile): number =>
+  d3.geoDistance(profile.start, profile.end) * EARTH_RADIUS_KM;
+
+/**
+ * Projects events onto the profile, keeping those within half the swath width of the line and between
+ * its ends. Uses spherical along-track/cross-track distances, so long profiles are measured correctly.
+ * Events keep their input order (chronological for the catalog), so later events plot on top.
+ */
+export const projectOntoProfile = (events: EarthquakeData[], profile: DepthProfile): CrossSectionPoint[] => {
+  const lengthKm = profileLengthKm(profile);
+  const halfSwathKm = profile.swathKm / 2;
+  const bearing = initialBearing(profile.start, profile.end);
+  const points: CrossSectionPoint[] = [];
+  events.forEach(event => {
+    const point: LonLat = [event.longitude, event.latitude];
+    const delta = d3.geoDistance(profile.start, point); // Angular distance from A
+    const theta = initialBearing(profile.start, point) - bearing;
+    const crossTrack = Math.asin(Math.sin(delta) * Math.sin(theta));
+    const offsetKm = crossTrack * EARTH_RADIUS_KM;
+    if (Math.abs(offsetKm) > halfSwathKm) return;
+    // Signed along-track distance: negative behind A
+    const distanceKm = Math.atan2(Math.sin(delta) * Math.cos(theta), Math.cos(delta)) * EARTH_RADIUS_KM;
+    if (distanceKm < 0 || distanceKm > lengthKm) return;
+    points.push({ event, distanceKm, offsetKm });
+  });
+  return points;
+};
+
+/**
+ * The profile line as GeoJSON, drawn as a great-circle arc by d3-geo.
+ */
+export const profileToGeoJson = (profile: DepthProfile): LineString => ({
+  type: 'LineString',
+  coordinates: [profile.start, profile.end],
+});
+
+/**
+ * Outline of the swath as a GeoJSON polygon: points offset to either side along the profile line.
+ * The ring is wound the way d3-geo expects, so the band is filled rather than the rest of the globe.
+ */
+export const swathToGeoJson = (profile: DepthProfile): Polygon => {
+  const halfSwathKm = profile.swathKm / 2;
+  const along = d3.geoInterpolate(profile.start, profile.end);
+  const finalBearing = initialBearing(profile.end, profile.start) + Math.PI;
+  const left: LonLat[] = [];
+  const right: LonLat[] = [];
+  for (let i = 0; i <= SWATH_OUTLINE_STEPS; i++) {
+    const point = along(i / SWATH_OUTLINE_STEPS) as LonLat;
+    const bearing = i < SWATH_OUTLINE_STEPS ? initialBearing(point, profile.end) : finalBearing;
+    left.push(destinationPoint(point, bearing - Math.PI / 2, halfSwathKm));
+    right.push(destinationPoint(point, bearing + Math.PI / 2, halfSwathKm));
+  }
+  const ring = [...left, ...right.reverse(), left[0]];
+  const polygon: Polygon = { type: 'Polygon', coordinates: [ring] };
+  // An area over a hemisphere means the ring runs the wrong way round
+  return d3.geoArea(polygon) > 2 * Math.PI ? { type: 'Polygon', coordinates: [ring.reverse()] } : polygon;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import {
+  declusterCatalog,
+  findMainshockIndices,
+  gardnerKnopoffDistanceKm,
+  gardnerKnopoffTimeDays,
+  isMainshock,
+  summarizeSequence,
+} from './declustering';
+import { DAY_MS } from './playback';
+
+const T0 = Date.UTC(2000, 0, 1);
+
+// An event on the equator, `days` after T0; a degree of longitude there is about 111 km
+const event = (id: string, magnitude: number, days: number, longitude = 0) =>
+  makeEvent({ id, magnitude, longitude, latitude: 0, time: T0 + days * DAY_MS });
+
+describe('Gardner–Knopoff windows', () => {
+  it('match the published space and time windows', () => {
+    expect(gardnerKnopoffDistanceKm(5)).toBeCloseTo(40.0, 1);
+    expect(gardnerKnopoffDistanceKm(7)).toBeCloseTo(70.7, 1);
+    expect(gardnerKnopoffTimeDays(5)).toBeCloseTo(143.7, 1);
+    // The time window switches to the flatter fit from M6.5
+    expect(gardnerKnopoffTimeDays(6.5)).toBeCloseTo(884.9, 1);
+    expect(gardnerKnopoffTimeDays(7)).toBeCloseTo(918.1, 1);
+  });
+});
+
+describe('findMainshockIndices', () => {
+  // An M7 mainshock (70.7 km, 918 days) with events just inside and just outside each of its windows
+  const events = [
+    event('FORE', 5, -5, 0.2),
+    event('MAIN', 7, 0),
+    event('NOMAG', NaN, 1),
+    event('NEAR', 5.5, 10, 0.6), // 67 km away
+    event('FAR', 5, 10, 0.7), // 78 km away
+    event('LATE', 5, 900),
+    event('TOO_LATE', 5, 930),
+  ];
+
+  it('claims events inside the windows of the largest event, as foreshocks before it and aftershocks after', () => {
+    expect(Array.from(findMainshockIndices(events))).toEqual([1, 1, 1, 1, 4, 1, 6]);
+    const declustering = declusterCatalog(events);
+    expect(declustering.mainshockCount).toBe(3);
+    expect(declustering.membership.get('FORE')?.role).toBe('foreshock');
+    expect(declustering.membership.get('NEAR')?.role).toBe('aftershock');
+    expect(isMainshock(declustering, events[4])).toBe(true);
+    expect(isMainshock(declustering, events[5])).toBe(false);
+  });
+
+  it('measures distances across the antimeridian', () => {
+    const indices = findMainshockIndices([event('MAIN', 7, 0, 179.9), event('AFTER', 5, 1, -179.8)]);
+    expect(Array.from(indices)).toEqual([0, 0]);
+  });
+
+  it('never makes an event without a magnitude the mainshock of another', () => {
+    expect(Array.from(findMainshockIndices([event('A', NaN, 0), event('B', NaN, 1)]))).toEqual([0, 1]);
+  });
+
+  it('leaves events claimed by a larger mainshock to it', () => {
+    // B is inside both A's and C's windows; A is larger, so B is A's, and C stays a mainshock
+    const indices = findMainshockIndices([event('A', 7, 0), event('B', 5, 10, 0.5), event('C', 6, 20, 0.9)]);
+    expect(Array.from(indices)).toEqual([0, 0, 2]);
+  });
+});
+
+describe('summarizeSequence', () => {
+  it("summarizes an event's sequence from any of its members", () => {
+    const events = [event('FORE', 5, -5), event('MAIN', 7, 0), event('AFTER1', 5, 1), event('AFTER2', 5, 2)];
+    const declustering = declusterCatalog(events);
+    const summary = summarizeSequence(declustering, events[2]);
+    expect(summary).toMatchObject({ role: 'aftershock', mainshock: events[1], foreshockCount: 1, aftershockCount: 2 });
+    expect(summary?.events.map(d => d.id)).toEqual(['FORE', 'MAIN', 'AFTER1', 'AFTER2']);
+    expect(summarizeSequence(declustering, event('OTHER', 5, 0))).toBeNull();
+  });
+});
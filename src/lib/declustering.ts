@@ -0,0 +1,127 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+import { distanceKm, EARTH_RADIUS_KM } from './geo';
+import { DAY_MS, eventIndexAtTime } from './playback';
+
+// An event's part in its sequence. Events without foreshocks or aftershocks are mainshocks of their own.
+export type SequenceRole = 'mainshock' | 'foreshock' | 'aftershock';
+
+export interface SequenceMembership {
+  mainshock: EarthquakeData;
+  role: SequenceRole;
+}
+
+// Mainshock/aftershock sequences of a whole catalog
+export interface Declustering {
+  membership: Map<string, SequenceMembership>; // Keyed by event ID
+  sequences: Map<string, EarthquakeData[]>; // Mainshock ID -> the whole sequence, mainshock included, in time order
+  mainshockCount: number;
+}
+
+// A pinned event's sequence, as shown in the detail panel
+export interface SequenceSummary {
+  role: SequenceRole;
+  mainshock: EarthquakeData;
+  events: EarthquakeData[];
+  foreshockCount: number;
+  aftershockCount: number;
+}
+
+// Kilometres per degree of latitude, for a cheap rejection before the great-circle distance
+const KM_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_KM;
+
+/**
+ * Gardner & Knopoff (1974) space window: events within this distance (km) of a magnitude-M mainshock
+ * can belong to its sequence.
+ */
+export const gardnerKnopoffDistanceKm = (magnitude: number): number => 10 ** (0.1238 * magnitude + 0.983);
+
+/**
+ * Gardner & Knopoff (1974) time window in days after (and, for foreshocks, before) a magnitude-M mainshock.
+ */
+export const gardnerKnopoffTimeDays = (magnitude: number): number =>
+  magnitude >= 6.5 ? 10 ** (0.032 * magnitude + 2.7389) : 10 ** (0.5409 * magnitude - 0.547);
+
+/**
+ * Assigns each event of a chronologically sorted catalog to a mainshock with Gardner–Knopoff space-time
+ * windows, returning the mainshock's index for every event (its own index for mainshocks).
+ * Events are visited from the largest magnitude down; each one not yet claimed becomes a mainshock and
+ * claims the unclaimed events inside its windows, as aftershocks if later and foreshocks if earlier.
+ * Events without a magnitude are never mainshocks of anything but themselves.
+ */
+export const findMainshockIndices = (events: EarthquakeData[]): Int32Array => {
+  const mainshockIndex = new Int32Array(events.length).fill(-1);
+  const order = d3.range(events.length).sort((a, b) => {
+    const ma = Number.isFinite(events[a].magnitude) ? events[a].magnitude : -Infinity;
+    const mb = Number.isFinite(events[b].magnitude) ? events[b].magnitude : -Infinity;
+    return mb - ma || a - b;
+  });
+
+  order.forEach(i => {
+    if (mainshockIndex[i] !== -1) return;
+    mainshockIndex[i] = i;
+    const mainshock = events[i];
+    if (!Number.isFinite(mainshock.magnitude)) return;
+    const windowKm = gardnerKnopoffDistanceKm(mainshock.magnitude);
+    const windowMs = gardnerKnopoffTimeDays(mainshock.magnitude) * DAY_MS;
+    const windowLatitude = windowKm / KM_PER_DEGREE;
+    const start = eventIndexAtTime(events, mainshock.time - windowMs);
+    const end = eventIndexAtTime(events, mainshock.time + windowMs);
+    for (let j = start; j < end; j++) {
+      if (mainshockIndex[j] !== -1) continue;
+      const d = events[j];
+      if (Math.abs(d.latitude - mainshock.latitude) > windowLatitude) continue;
+      if (distanceKm([mainshock.longitude, mainshock.latitude], [d.longitude, d.latitude]) <= windowKm) mainshockIndex[j] = i;
+    }
+  });
+  return mainshockIndex;
+};
+
+/**
+ * Builds the sequences from the mainshock index of every event (see `findMainshockIndices`), for looking up
+ * the sequence of a single event (see `summarizeSequence`).
+ */
+export const buildDeclustering = (events: EarthquakeData[], mainshockIndex: Int32Array): Declustering => {
+  const membership = new Map<string, SequenceMembership>();
+  const sequences = new Map<string, EarthquakeData[]>();
+  let mainshockCount = 0;
+  events.forEach((d, j) => {
+    const mainshock = events[mainshockIndex[j]];
+    const role: SequenceRole = j === mainshockIndex[j] ? 'mainshock' : d.time < mainshock.time ? 'foreshock' : 'aftershock';
+    if (role === 'mainshock') mainshockCount++;
+    membership.set(d.id, { mainshock, role });
+    const sequence = sequences.get(mainshock.id);
+    if (sequence) sequence.push(d);
+    else sequences.set(mainshock.id, [d]);
+  });
+  return { membership, sequences, mainshockCount };
+};
+
+/**
+ * Groups a chronologically sorted catalog into mainshock/aftershock sequences.
+ */
+export const declusterCatalog = (events: EarthquakeData[]): Declustering =>
+  buildDeclustering(events, findMainshockIndices(events));
+
+/**
+ * Whether an event is a mainshock (events unknown to the declustering count as mainshocks).
+ */
+export const isMainshock = (declustering: Declustering, d: EarthquakeData): boolean =>
+  (declustering.membership.get(d.id)?.role ?? 'mainshock') === 'mainshock';
+
+/**
+ * The sequence an event belongs to, or null for an event the declustering doesn't know.
+ */
+export const summarizeSequence = (declustering: Declustering, d: EarthquakeData): SequenceSummary | null => {
+  const member = declustering.membership.get(d.id);
+  if (!member) return null;
+  const events = declustering.sequences.get(member.mainshock.id) ?? [d];
+  const foreshockCount = events.filter(e => e.time < member.mainshock.time).length;
+  return {
+    role: member.role,
+    mainshock: member.mainshock,
+    events,
+    foreshockCount,
+    aftershockCount: events.length - foreshockCount - 1,
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { decodeEvents, encodeEvents, eventColumnsTransferables } from './eventColumns';
+
+describe('encodeEvents', () => {
+  it('stores events by field, and decodeEvents rebuilds equal events', () => {
+    const events = [
+      makeEvent({ id: 'A', magnitudeType: null, depthError: 0, source: 'us', status: null }),
+      makeEvent({ id: 'B', time: Date.UTC(2001, 0, 1), type: 'Explosion', azimuthalGap: 123.5, rootMeanSquare: 0.8 }),
+      makeEvent({ id: 'C', magnitude: NaN, source: 'us' }),
+    ];
+    const columns = encodeEvents(events);
+    expect(columns.ids).toEqual(['A', 'B', 'C']);
+    expect(columns.categories.source).toEqual({ values: ['us', null], codes: Int32Array.from([0, 1, 0]) });
+    expect(decodeEvents(columns)).toEqual(events);
+    expect(decodeEvents(encodeEvents([]))).toEqual([]);
+  });
+
+  it('hands over every column buffer for transfer', () => {
+    const columns = encodeEvents([makeEvent()]);
+    const buffers = eventColumnsTransferables(columns);
+    expect(buffers).toHaveLength(13 + 6);
+    expect(new Set(buffers).size).toBe(buffers.length);
+  });
+});
@@ -0,0 +1,102 @@
+import { EarthquakeData } from './catalog';
+
+// Numeric fields every event has
+const NUMBER_FIELDS = ['latitude', 'longitude', 'magnitude', 'depth', 'time'] as const;
+// Numeric fields that may be missing; stored as NaN
+const OPTIONAL_NUMBER_FIELDS = [
+  'depthError',
+  'depthSeismicStations',
+  'magnitudeError',
+  'magnitudeSeismicStations',
+  'azimuthalGap',
+  'horizontalDistance',
+  'horizontalError',
+  'rootMeanSquare',
+] as const;
+// Text fields with few distinct values across a catalog; stored as codes into a list of the values
+const CATEGORY_FIELDS = ['type', 'magnitudeType', 'source', 'locationSource', 'magnitudeSource', 'status'] as const;
+
+type NumberField = (typeof NUMBER_FIELDS)[number] | (typeof OPTIONAL_NUMBER_FIELDS)[number];
+type CategoryField = (typeof CATEGORY_FIELDS)[number];
+
+// One text field of every event: each event's value is `values[codes[i]]`
+export interface CategoryColumn {
+  values: (string | null)[];
+  codes: Int32Array;
+}
+
+/**
+ * A list of events stored by field rather than by event, so that the catalog worker can hand a catalog to the
+ * map as a few transferred buffers instead of structured-cloning an object per event.
+ */
+export interface EventColumns {
+  ids: string[];
+  timestamps: string[];
+  numbers: Record<NumberField, Float64Array>;
+  categories: Record<CategoryField, CategoryColumn>;
+}
+
+const encodeCategory = (events: EarthquakeData[], field: CategoryField): CategoryColumn => {
+  const codeByValue = new Map<string | null, number>();
+  const codes = Int32Array.from(events, d => {
+    let code = codeByValue.get(d[field]);
+    if (code === undefined) {
+      code = codeByValue.size;
+      codeByValue.set(d[field], code);
+    }
+    return code;
+  });
+  return { values: Array.from(codeByValue.keys()), codes };
+};
+
+/**
+ * Stores events by field (see `EventColumns`); `decodeEvents` turns them back into equal events.
+ */
+export const encodeEvents = (events: EarthquakeData[]): EventColumns => ({
+  ids: events.map(d => d.id),
+  timestamps: events.map(d => d.timestamp),
+  numbers: {
+    ...Object.fromEntries(NUMBER_FIELDS.map(field => [field, Float64Array.from(events, d => d[field])])),
+    ...Object.fromEntries(OPTIONAL_NUMBER_FIELDS.map(field => [field, Float64Array.from(events, d => d[field] ?? NaN)])),
+  } as Record<NumberField, Float64Array>,
+  categories: Object.fromEntries(CATEGORY_FIELDS.map(field => [field, encodeCategory(events, field)])) as Record<CategoryField, CategoryColumn>,
+});
+
+/**
+ * Rebuilds the events stored by `encodeEvents`.
+ */
+export const decodeEvents = ({ ids, timestamps, numbers, categories }: EventColumns): EarthquakeData[] => {
+  const optional = (column: Float64Array, i: number) => (Number.isNaN(column[i]) ? null : column[i]);
+  const category = ({ values, codes }: CategoryColumn, i: number) => values[codes[i]];
+  return ids.map((id, i) => ({
+    id,
+    latitude: numbers.latitude[i],
+    longitude: numbers.longitude[i],
+    magnitude: numbers.magnitude[i],
+    depth: numbers.depth[i],
+    timestamp: timestamps[i],
+    time: numbers.time[i],
+    type: category(categories.type, i) as string,
+    magnitudeType: category(categories.magnitudeType, i),
+    depthError: optional(numbers.depthError, i),
+    depthSeismicStations: optional(numbers.depthSeismicStations, i),
+    magnitudeError: optional(numbers.magnitudeError, i),
+    magnitudeSeismicStations: optional(numbers.magnitudeSeismicStations, i),
+    azimuthalGap: optional(numbers.azimuthalGap, i),
+    horizontalDistance: optional(numbers.horizontalDistance, i),
+    horizontalError: optional(numbers.horizontalError, i),
+    rootMeanSquare: optional(numbers.rootMeanSquare, i),
+    source: category(categories.source, i),
+    locationSource: category(categories.locationSource, i),
+    magnitudeSource: category(categories.magnitudeSource, i),
+    status: category(categories.status, i),
+  }));
+};
+
+/**
+ * Buffers of the columns, transferred to the main thread rather than copied.
+ */
+export const eventColumnsTransferables = ({ numbers, categories }: EventColumns): ArrayBuffer[] => [
+  ...Object.values(numbers).map(column => column.buffer as ArrayBuffer),
+  ...Object.values(categories).map(column => column.codes.buffer as ArrayBuffer),
+];
@@ -0,0 +1,75 @@
+import * as d3 from 'd3';
+import { ScreenPoint } from './aggregation';
+import { EarthquakeData } from './catalog';
+import { isPointVisible } from './projections';
+
+// Keyboard and touch navigation between the markers on screen
+
+// Direction of an arrow key
+export type NavigationDirection = 'left' | 'right' | 'up' | 'down';
+
+// A position on screen, in pixels (y grows downwards)
+interface Position {
+  x: number;
+  y: number;
+}
+
+// Unit vector of each direction in screen space
+const DIRECTION_VECTORS: Record<NavigationDirection, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1],
+};
+
+// How much a pixel off to the side counts against a candidate, compared with a pixel straight ahead
+const SIDEWAYS_PENALTY = 2;
+
+/**
+ * The point to move to from `from` when an arrow key is pressed: among the points ahead in that direction,
+ * the one with the smallest distance ahead plus a penalty for sideways distance, so the focus follows the
+ * key instead of jumping to a closer point off to one side. Null when nothing lies that way.
+ */
+export const nearestInDirection = <T extends Position>(points: T[], from: Position, direction: NavigationDirection): T | null => {
+  const [dx, dy] = DIRECTION_VECTORS[direction];
+  let best: T | null = null;
+  let bestScore = Infinity;
+  points.forEach(point => {
+    const ahead = (point.x - from.x) * dx + (point.y - from.y) * dy;
+    if (ahead <= 0) return;
+    const sideways = Math.abs((point.x - from.x) * dy - (point.y - from.y) * dx);
+    const score = ahead + SIDEWAYS_PENALTY * sideways;
+    if (score < bestScore) {
+      best = point;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * The point nearest to `target` and at most `maxDistance` px from it, or null.
+ */
+export const nearestToPoint = <T extends Position>(points: T[], target: Position, maxDistance = Infinity): T | null => {
+  let best: T | null = null;
+  let bestDistance = maxDistance;
+  points.forEach(point => {
+    const distance = Math.hypot(point.x - target.x, point.y - target.y);
+    if (distance <= bestDistance) {
+      best = point;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+/**
+ * On-screen positions of markers (through the zoom transform), leaving out those on the far side of the globe.
+ */
+export const markerScreenPoints = (events: EarthquakeData[], projection: d3.GeoProjection, transform: d3.ZoomTransform): ScreenPoint[] =>
+  events
+    .filter(event => isPointVisible(projection, [event.longitude, event.latitude]))
+    .map(event => {
+      const [x, y] = transform.apply(projection([event.longitude, event.latitude]) ?? [0, 0]);
+      return { event, x, y };
+    });
@@ -0,0 +1,73 @@
+import * as d3 from 'd3';
+import { Feature, FeatureCollection, Point } from 'geojson';
+import { EarthquakeData } from './catalog';
+
+// Column order of the bundled `database.csv`, with the value written for each event
+const CSV_COLUMNS: [string, (d: EarthquakeData) => string | number | null][] = [
+  ['Date', d => d3.utcFormat('%m/%d/%Y')(new Date(d.time))],
+  ['Time', d => d3.utcFormat('%H:%M:%S')(new Date(d.time))],
+  ['Latitude', d => d.latitude],
+  ['Longitude', d => d.longitude],
+  ['Type', d => d.type],
+  ['Depth', d => d.depth],
+  ['Depth Error', d => d.depthError],
+  ['Depth Seismic Stations', d => d.depthSeismicStations],
+  ['Magnitude', d => d.magnitude],
+  ['Magnitude Type', d => d.magnitudeType],
+  ['Magnitude Error', d => d.magnitudeError],
+  ['Magnitude Seismic Stations', d => d.magnitudeSeismicStations],
+  ['Azimuthal Gap', d => d.azimuthalGap],
+  ['Horizontal Distance', d => d.horizontalDistance],
+  ['Horizontal Error', d => d.horizontalError],
+  ['Root Mean Square', d => d.rootMeanSquare],
+  ['ID', d => d.id],
+  ['Source', d => d.source],
+  ['Location Source', d => d.locationSource],
+  ['Magnitude Source', d => d.magnitudeSource],
+  ['Status', d => d.status],
+];
+
+/**
+ * Formats events as CSV in the bundled catalog's column layout, so an export can be loaded again.
+ * Missing values are written as empty cells.
+ */
+export const eventsToCsv = (events: EarthquakeData[]): string =>
+  d3.csvFormatRows([
+    CSV_COLUMNS.map(([name]) => name),
+    ...events.map(d => CSV_COLUMNS.map(([, value]) => {
+      const v = value(d);
+      return v === null ? '' : String(v);
+    })),
+  ]);
+
+/**
+ * Formats events as a GeoJSON FeatureCollection of points ([longitude, latitude, depth in km]),
+ * keyed by event ID, with every other catalog field as a property.
+ */
+export const eventsToGeoJson = (events: EarthquakeData[]): FeatureCollection<Point> => ({
+  type: 'FeatureCollection',
+  features: events.map((d): Feature<Point> => {
+    const { id, longitude, latitude, depth, ...properties } = d;
+    return {
+      type: 'Feature',
+      id,
+      geometry: { type: 'Point', coordinates: [longitude, latitude, depth] },
+      properties,
+    };
+  }),
+});
+
+/**
+ * Saves a blob through the browser's download mechanism.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the URL is released
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,78 @@
+import { Feature, FeatureCollection, Point } from 'geojson';
+import { EarthquakeData } from './catalog';
+import { DAY_MS, eventIndexAtTime } from './playback';
+
+// How a catalog is replayed as a fake live feed
+export interface FeedReplayOptions {
+  windowMs: number; // Events within this much simulated time before "now" are in the feed (cf. USGS all_day, all_week)
+  reviewDelayMs: number; // Events younger than this are reported as automatic, older ones with their catalog status
+}
+
+export const DEFAULT_FEED_REPLAY_OPTIONS: FeedReplayOptions = {
+  windowMs: 7 * DAY_MS,
+  reviewDelayMs: DAY_MS,
+};
+
+// Extra share of a poll interval each response covers, for polls that arrive late
+const POLL_INTERVAL_SLACK = 0.5;
+
+/**
+ * Simulated time each response of a replay running at `speed` (simulated ms per real ms) has to cover so that
+ * a client polling every `pollIntervalMs` of real time misses no events: as far as the replay clock runs
+ * between two polls, with slack for late ones, and at least `minWindowMs`.
+ */
+export const replayWindowMs = (
+  speed: number,
+  pollIntervalMs: number,
+  minWindowMs: number = DEFAULT_FEED_REPLAY_OPTIONS.windowMs,
+): number => Math.max(minWindowMs, speed * pollIntervalMs * (1 + POLL_INTERVAL_SLACK));
+
+// A catalog event as a USGS summary feed feature. The summary properties are lowercased the way USGS
+// writes them; the uncertainty and source fields use the names of the USGS CSV format, so the replay
+// parses back to exactly the catalog's values.
+const toFeedFeature = (d: EarthquakeData, status: string): Feature<Point> => ({
+  type: 'Feature',
+  id: d.id,
+  geometry: { type: 'Point', coordinates: [d.longitude, d.latitude, d.depth] },
+  properties: {
+    mag: d.magnitude,
+    time: d.time,
+    updated: d.time,
+    status: status.toLowerCase(),
+    type: d.type.toLowerCase(),
+    net: d.source,
+    magType: d.magnitudeType,
+    nst: d.depthSeismicStations,
+    dmin: d.horizontalDistance,
+    rms: d.rootMeanSquare,
+    gap: d.azimuthalGap,
+    depthError: d.depthError,
+    magError: d.magnitudeError,
+    magNst: d.magnitudeSeismicStations,
+    horizontalError: d.horizontalError,
+    locationSource: d.locationSource,
+    magSource: d.magnitudeSource,
+  },
+});
+
+/**
+ * Builds the USGS-style GeoJSON feed a chronologically sorted catalog would have served at the simulated
+ * time `now`: the events of the last `windowMs`, newest first, with recent ones still automatic.
+ * `metadata.generated` carries the simulated time so clients can follow the replay clock.
+ */
+export const buildReplayFeed = (
+  events: EarthquakeData[],
+  now: number,
+  options: FeedReplayOptions = DEFAULT_FEED_REPLAY_OPTIONS,
+): FeatureCollection<Point> & { metadata: { generated: number; title: string; count: number } } => {
+  const start = eventIndexAtTime(events, now - options.windowMs);
+  const end = eventIndexAtTime(events, now);
+  const features = events.slice(start, end).reverse().map(d =>
+    toFeedFeature(d, now - d.time < options.reviewDelayMs ? 'Automatic' : d.status ?? 'Reviewed'),
+  );
+  return {
+    type: 'FeatureCollection',
+    metadata: { generated: now, title: 'Replay of database.csv', count: features.length },
+    features,
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import {
+  DEPTH_FILTER_DOMAIN_KM,
+  EventFilters,
+  UNKNOWN_MAGNITUDE_TYPE,
+  countCategories,
+  createEventFilter,
+  isFullDepthRange,
+  magnitudeTypeOf,
+} from './filters';
+
+// Filters that let every event through
+const NO_FILTERS: EventFilters = {
+  minMagnitude: 0,
+  depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+  excludedEventTypes: [],
+  excludedMagnitudeTypes: [],
+  region: null,
+  mainshocksOnly: false,
+};
+
+describe('createEventFilter', () => {
+  it('passes everything with the default filters, including negative depths', () => {
+    const passes = createEventFilter(NO_FILTERS);
+    expect(passes(makeEvent({ magnitude: 0, depth: -2 }))).toBe(true);
+    expect(passes(makeEvent({ depth: 800 }))).toBe(true);
+  });
+
+  it('drops events below the minimum magnitude', () => {
+    const passes = createEventFilter({ ...NO_FILTERS, minMagnitude: 6.5 });
+    expect(passes(makeEvent({ magnitude: 6.4 }))).toBe(false);
+    expect(passes(makeEvent({ magnitude: 6.5 }))).toBe(true);
+  });
+
+  it('keeps only events inside a narrowed depth range', () => {
+    const passes = createEventFilter({ ...NO_FILTERS, depthRangeKm: [50, 300] });
+    expect([10, 50, 300, 301].map(depth => passes(makeEvent({ depth })))).toEqual([false, true, true, false]);
+  });
+
+  it('drops excluded event and magnitude types, with missing magnitude types in their own bucket', () => {
+    const passes = createEventFilter({
+      ...NO_FILTERS,
+      excludedEventTypes: ['Nuclear Explosion'],
+      excludedMagnitudeTypes: [UNKNOWN_MAGNITUDE_TYPE],
+    });
+    expect(passes(makeEvent({ type: 'Nuclear Explosion' }))).toBe(false);
+    expect(passes(makeEvent({ magnitudeType: null }))).toBe(false);
+    expect(passes(makeEvent({ magnitudeType: 'MB' }))).toBe(true);
+  });
+
+  it('keeps only events inside the region, across the antimeridian', () => {
+    const region = { id: 'pacific', name: 'Pacific', polygon: [[170, -10], [-170, -10], [-170, 10], [170, 10]] as [number, number][] };
+    const passes = createEventFilter({ ...NO_FILTERS, region });
+    expect(passes(makeEvent({ longitude: 179, latitude: 0 }))).toBe(true);
+    expect(passes(makeEvent({ longitude: -175, latitude: 0 }))).toBe(true);
+    expect(passes(makeEvent({ longitude: 0, latitude: 0 }))).toBe(false);
+  });
+
+  it('consults the declustering only for the mainshocks-only filter', () => {
+    const aftershock = makeEvent({ id: 'AFTER' });
+    const isMainshock = (d: typeof aftershock) => d.id !== 'AFTER';
+    expect(createEventFilter(NO_FILTERS, isMainshock)(aftershock)).toBe(true);
+    expect(createEventFilter({ ...NO_FILTERS, mainshocksOnly: true }, isMainshock)(aftershock)).toBe(false);
+  });
+});
+
+describe('countCategories', () => {
+  it('counts values most frequent first, ties alphabetically', () => {
+    const events = ['MW', 'MB', 'MW', null, 'MS'].map(magnitudeType => makeEvent({ magnitudeType }));
+    expect(countCategories(events, magnitudeTypeOf)).toEqual([
+      { value: 'MW', count: 2 },
+      { value: 'MB', count: 1 },
+      { value: 'MS', count: 1 },
+      { value: UNKNOWN_MAGNITUDE_TYPE, count: 1 },
+    ]);
+  });
+});
+
+describe('isFullDepthRange', () => {
+  it('is true only with both ends at the ends of the slider', () => {
+    expect(isFullDepthRange(DEPTH_FILTER_DOMAIN_KM)).toBe(true);
+    expect(isFullDepthRange([0, 300])).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { EarthquakeData } from './catalog';
+import { Region, createRegionTest } from './regions';
+import { MAX_DEPTH_KM, MIN_DEPTH_KM } from './scales';
+
+// Label used for events whose catalog row had no magnitude type
+export const UNKNOWN_MAGNITUDE_TYPE = 'Unknown';
+
+// Depth (km) below which an event counts as shallow; the old shallow-only toggle stood for [0, 50]
+export const SHALLOW_DEPTH_KM = 50;
+
+// Depth range in km, [shallowest, deepest]
+export type DepthRange = [number, number];
+
+// Range covered by the depth slider. Its ends are open: at the default both thumbs are at the ends and
+// every event passes, including the slightly negative depths (above sea level) some catalogs report.
+export const DEPTH_FILTER_DOMAIN_KM: DepthRange = [MIN_DEPTH_KM, MAX_DEPTH_KM];
+
+// Every user-controllable filter applied to the displayed events
+export interface EventFilters {
+  minMagnitude: number;
+  depthRangeKm: DepthRange; // Only events within this depth range; open-ended at the slider's ends
+  // Exclusion lists rather than inclusion lists, so types first seen in a new catalog are shown by default
+  excludedEventTypes: string[];
+  excludedMagnitudeTypes: string[];
+  region: Region | null; // Only events inside this region, or everywhere when null
+  mainshocksOnly: boolean; // Drop foreshocks and aftershocks (see declustering.ts)
+}
+
+// A distinct value of a categorical field and how many events carry it
+export interface CategoryCount {
+  value: string;
+  count: number;
+}
+
+// Magnitude type used for filtering, with missing values folded into a single bucket
+export const magnitudeTypeOf = (d: EarthquakeData): string => d.magnitudeType ?? UNKNOWN_MAGNITUDE_TYPE;
+
+/**
+ * Builds a predicate for the given filters. Lookup sets are built once so the predicate stays cheap per event.
+ * `isMainshock` comes from the catalog's declustering and is only consulted when `mainshocksOnly` is set.
+ */
+export const createEventFilter = (
+  filters: EventFilters,
+  isMainshock: (d: EarthquakeData) => boolean = () => true,
+): ((d: EarthquakeData) => boolean) => {
+  const excludedEventTypes = new Set(filters.excludedEventTypes);
+  const excludedMagnitudeTypes = new Set(filters.excludedMagnitudeTypes);
+  const inRegion = filters.region ? createRegionTest(filters.region) : null;
+  const [minDepth, maxDepth] = filters.depthRangeKm;
+  const minDepthOpen = minDepth <= DEPTH_FILTER_DOMAIN_KM[0];
+  const maxDepthOpen = maxDepth >= DEPTH_FILTER_DOMAIN_KM[1];
+  return d =>
+    d.magnitude >= filters.minMagnitude &&
+    (minDepthOpen || d.depth >= minDepth) &&
+    (maxDepthOpen || d.depth <= maxDepth) &&
+    !excludedEventTypes.has(d.type) &&
+    !excludedMagnitudeTypes.has(magnitudeTypeOf(d)) &&
+    (!inRegion || inRegion(d.longitude, d.latitude)) &&
+    (!filters.mainshocksOnly || isMainshock(d));
+};
+
+/**
+ * Counts the distinct values of a categorical field, most frequent first.
+ */
+export const countCategories = (
+  events: EarthquakeData[],
+  key: (d: EarthquakeData) => string,
+): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  events.forEach(d => counts.set(key(d), (counts.get(key(d)) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Whether a depth range leaves every event in, i.e. both ends sit at the ends of the slider.
+ */
+export const isFullDepthRange = ([minDepth, maxDepth]: DepthRange): boolean =>
+  minDepth <= DEPTH_FILTER_DOMAIN_KM[0] && maxDepth >= DEPTH_FILTER_DOMAIN_KM[1];
+
+/**
+ * Depth range in words, e.g. "0–50 km", "≥ 300 km" or "Any depth".
+ */
+export const formatDepthRange = (range: DepthRange): string => {
+  const [minDepth, maxDepth] = range;
+  if (isFullDepthRange(range)) return 'Any depth';
+  if (minDepth <= DEPTH_FILTER_DOMAIN_KM[0]) return `≤ ${maxDepth} km`;
+  if (maxDepth >= DEPTH_FILTER_DOMAIN_KM[1]) return `≥ ${minDepth} km`;
+  return `${minDepth}–${maxDepth} km`;
+};
+
+/**
+ * Describes the active filters in words, one per line (e.g. for an exported map); empty when nothing is filtered.
+ */
+export const describeFilters = (filters: EventFilters): string[] => {
+  const lines: string[] = [];
+  if (filters.minMagnitude > 0) lines.push(`Magnitude ≥ ${filters.minMagnitude.toFixed(1)}`);
+  if (!isFullDepthRange(filters.depthRangeKm)) lines.push(`Depth ${formatDepthRange(filters.depthRangeKm)}`);
+  if (filters.region) lines.push(`Region: ${filters.region.name}`);
+  if (filters.mainshocksOnly) lines.push('Mainshocks only (Gardner–Knopoff declustering)');
+  if (filters.excludedEventTypes.length > 0) lines.push(`Excluded event types: ${filters.excludedEventTypes.join(', ')}`);
+  if (filters.excludedMagnitudeTypes.length > 0) lines.push(`Excluded magnitude types: ${filters.excludedMagnitudeTypes.join(', ')}`);
+  return lines;
+};
@@ -0,0 +1,116 @@
+import * as d3 from 'd3';
+import { Feature, FeatureCollection, Position } from 'geojson';
+import { LonLat } from './regions';
+
+// Mean Earth radius (km), used to turn great-circle angles into distances
+export const EARTH_RADIUS_KM = 6371;
+
+// Kilometres per degree of latitude (and of longitude at the equator)
+const KM_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_KM;
+
+// The country nearest to a point, and how far away its border is (0 when the point is inside it)
+export interface NearestPlace {
+  name: string;
+  distanceKm: number;
+  inside: boolean;
+}
+
+export interface PlaceLocator {
+  // Nearest country to a point, or null when the map has no named features
+  nearestCountry: (point: LonLat) => NearestPlace | null;
+}
+
+/**
+ * Great-circle distance between two points in km.
+ */
+export const distanceKm = (a: LonLat, b: LonLat): number => d3.geoDistance(a, b) * EARTH_RADIUS_KM;
+
+const RADIANS = Math.PI / 180;
+
+/**
+ * Initial bearing of the great circle from `a` to `b`, in radians clockwise from north.
+ */
+export const initialBearing = ([lon1, lat1]: LonLat, [lon2, lat2]: LonLat): number => {
+  const phi1 = lat1 * RADIANS;
+  const phi2 = lat2 * RADIANS;
+  const dLambda = (lon2 - lon1) * RADIANS;
+  return Math.atan2(
+    Math.sin(dLambda) * Math.cos(phi2),
+    Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda),
+  );
+};
+
+/**
+ * The point reached by travelling `distance` km from `origin` along a great circle with the given
+ * initial bearing (radians clockwise from north). Longitudes are normalised to [-180, 180).
+ */
+export const destinationPoint = ([lon, lat]: LonLat, bearing: number, distance: number): LonLat => {
+  const delta = distance / EARTH_RADIUS_KM;
+  const phi1 = lat * RADIANS;
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(bearing));
+  const lambda2 = lon * RADIANS + Math.atan2(
+    Math.sin(bearing) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2),
+  );
+  return [((lambda2 / RADIANS + 540) % 360) - 180, phi2 / RADIANS];
+};
+
+// Outer and inner rings of a polygon feature, flattened so multipolygons are handled alike
+const featureRings = (feature: Feature): Position[][] => {
+  const geometry = feature.geometry;
+  if (geometry.type === 'Polygon') return geometry.coordinates;
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates.flat();
+  return [];
+};
+
+// Distance (km) from a point to the nearest edge of a set of rings. Edges are measured in a local
+// equirectangular plane centred on the point, which is accurate for the short edges of world-110m
+// near the point; far-away edges are distorted but are never the nearest.
+const distanceToRingsKm = ([lon0, lat0]: LonLat, rings: Position[][]): number => {
+  const cosLat = Math.cos(lat0 * Math.PI / 180);
+  // Longitude difference wrapped to [-180, 180)
+  const wrap = (dLon: number) => ((dLon + 540) % 360) - 180;
+  let minSquared = Infinity;
+  rings.forEach(ring => {
+    for (let i = 1; i < ring.length; i++) {
+      // Both ends relative to the point, in degrees of latitude. The second end is unwrapped relative to
+      // the first, so an edge near the far side of the globe isn't stretched across the point.
+      const aLon = wrap(ring[i - 1][0] - lon0);
+      const bLon = aLon + wrap(ring[i][0] - ring[i - 1][0]);
+      const [ax, ay] = [aLon * cosLat, ring[i - 1][1] - lat0];
+      const [bx, by] = [bLon * cosLat, ring[i][1] - lat0];
+      // Closest point on segment a-b to the origin
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+      const x = ax + t * dx;
+      const y = ay + t * dy;
+      minSquared = Math.min(minSquared, x * x + y * y);
+    }
+  });
+  return Math.sqrt(minSquared) * KM_PER_DEGREE;
+};
+
+/**
+ * Builds an offline reverse-geocoder over the country outlines of the base map (e.g. `world-110m.json`).
+ */
+export const createPlaceLocator = (geo: FeatureCollection): PlaceLocator => {
+  // Only features with a name can be reported; rings are extracted once
+  const countries = geo.features
+    .filter(f => typeof f.properties?.name === 'string')
+    .map(f => ({ feature: f, name: f.properties!.name as string, rings: featureRings(f) }));
+
+  const nearestCountry = (point: LonLat): NearestPlace | null => {
+    const containing = countries.find(c => d3.geoContains(c.feature, point));
+    if (containing) return { name: containing.name, distanceKm: 0, inside: true };
+    let nearest: NearestPlace | null = null;
+    countries.forEach(c => {
+      const distance = distanceToRingsKm(point, c.rings);
+      if (!nearest || distance < nearest.distanceKm) nearest = { name: c.name, distanceKm: distance, inside: false };
+    });
+    return nearest;
+  };
+
+  return { nearestCountry };
+};
@@ -0,0 +1,70 @@
+import { PlayheadMove } from './playback';
+
+// Playback commands bound to keys anywhere on the page
+export type PlaybackCommand = 'toggle-play' | PlayheadMove;
+
+// Commands for the focused map
+export type MapCommand = 'move-left' | 'move-right' | 'move-up' | 'move-down' | 'pin' | 'clear-focus' | 'zoom-in' | 'zoom-out';
+
+export interface KeyboardShortcut<C extends string> {
+  keys: string[]; // KeyboardEvent.key values
+  command: C;
+  label: string;
+}
+
+// Share of the playback range skipped by one seek
+export const SEEK_FRACTION = 0.1;
+
+export const PLAYBACK_SHORTCUTS: KeyboardShortcut<PlaybackCommand>[] = [
+  { keys: [' ', 'k'], command: 'toggle-play', label: 'Play / pause' },
+  { keys: ['.'], command: 'step-forward', label: 'Step forward' },
+  { keys: [','], command: 'step-back', label: 'Step back' },
+  { keys: [']'], command: 'seek-forward', label: `Skip ${SEEK_FRACTION * 100}% forward` },
+  { keys: ['['], command: 'seek-back', label: `Skip ${SEEK_FRACTION * 100}% back` },
+  { keys: ['Home'], command: 'seek-start', label: 'Go to start' },
+  { keys: ['End'], command: 'seek-end', label: 'Go to end' },
+];
+
+export const MAP_SHORTCUTS: KeyboardShortcut<MapCommand>[] = [
+  { keys: ['ArrowLeft'], command: 'move-left', label: 'Nearest event to the left' },
+  { keys: ['ArrowRight'], command: 'move-right', label: 'Nearest event to the right' },
+  { keys: ['ArrowUp'], command: 'move-up', label: 'Nearest event above' },
+  { keys: ['ArrowDown'], command: 'move-down', label: 'Nearest event below' },
+  { keys: ['Enter'], command: 'pin', label: 'Pin the focused event' },
+  { keys: ['Escape'], command: 'clear-focus', label: 'Leave the focused event' },
+  { keys: ['+', '='], command: 'zoom-in', label: 'Zoom in' },
+  { keys: ['-'], command: 'zoom-out', label: 'Zoom out' },
+];
+
+// Key names as shown to the user
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+/**
+ * How a key is written in the shortcut list (e.g. 'Space' for ' ').
+ */
+export const keyLabel = (key: string): string => KEY_LABELS[key] ?? key;
+
+// Elements that use these keys themselves: typing, choosing, sliding or pressing
+const isInteractiveTarget = (target: EventTarget | null): boolean => {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'SUMMARY'].includes(target.tagName);
+};
+
+/**
+ * The command bound to a key press, or null. Presses with Ctrl, Alt or Meta held are left to the browser,
+ * and presses on form fields and buttons to the element itself.
+ */
+export const shortcutCommand = <C extends string>(
+  shortcuts: KeyboardShortcut<C>[],
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey' | 'target'>,
+): C | null => {
+  if (event.ctrlKey || event.altKey || event.metaKey || isInteractiveTarget(event.target)) return null;
+  return shortcuts.find(s => s.keys.includes(event.key))?.command ?? null;
+};
@@ -0,0 +1,65 @@
+import { CatalogReport, EarthquakeData, parseCatalog } from './catalog';
+import { applyColumnMapping, detectColumnMapping, readCatalogFile } from './catalogFormats';
+
+// A selectable feed; any other USGS-compatible GeoJSON URL can be typed in
+export interface LiveFeedPreset {
+  label: string;
+  url: string;
+}
+
+const USGS_FEED_BASE_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary';
+
+export const LIVE_FEED_PRESETS: LiveFeedPreset[] = [
+  { label: 'Local replay of database.csv', url: '/api/feed' },
+  { label: 'USGS: all events, past hour', url: `${USGS_FEED_BASE_URL}/all_hour.geojson` },
+  { label: 'USGS: M2.5+, past day', url: `${USGS_FEED_BASE_URL}/2.5_day.geojson` },
+  { label: 'USGS: M4.5+, past week', url: `${USGS_FEED_BASE_URL}/4.5_week.geojson` },
+];
+
+// The local replay works offline, so it is the default
+export const DEFAULT_LIVE_FEED_URL = LIVE_FEED_PRESETS[0].url;
+
+// Seconds between polls; the USGS summary feeds are regenerated about once a minute
+export const LIVE_FEED_INTERVAL_OPTIONS_S = [10, 30, 60, 300];
+export const DEFAULT_LIVE_FEED_INTERVAL_S = 60;
+
+// One poll of the feed
+export interface LiveFeedSnapshot {
+  events: EarthquakeData[];
+  report: CatalogReport;
+  generated: number; // Feed generation time (epoch ms): the "now" the feed describes
+  receivedAt: number; // Real time the response arrived
+}
+
+// Outcome of the most recent poll that changed the catalog
+export interface LiveFeedChanges {
+  added: number;
+  updated: number;
+}
+
+/**
+ * Fetches a USGS-compatible GeoJSON feed (or any format `readCatalogFile` understands) and parses it with
+ * the automatically detected column mapping. An empty feed yields no events rather than an error.
+ */
+export const fetchLiveFeed = async (url: string, signal?: AbortSignal): Promise<LiveFeedSnapshot> => {
+  const response = await fetch(url, { signal, cache: 'no-store' });
+  if (!response.ok) throw new Error(`Feed request failed: ${response.status} ${response.statusText}`);
+  const text = await response.text();
+  const receivedAt = Date.now();
+
+  // The feed's own clock, when it reports one (USGS `metadata.generated`); otherwise the arrival time
+  let json: { features?: unknown[]; metadata?: { generated?: unknown } } | null = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not JSON: left to readCatalogFile, which also accepts CSV and QuakeML
+  }
+  const generated = typeof json?.metadata?.generated === 'number' ? json.metadata.generated : receivedAt;
+  if (Array.isArray(json?.features) && json.features.length === 0) {
+    return { ...parseCatalog([]), generated, receivedAt };
+  }
+
+  const source = readCatalogFile(url, text);
+  const { events, report } = applyColumnMapping(source, detectColumnMapping(source.columns));
+  return { events, report, generated, receivedAt };
+};
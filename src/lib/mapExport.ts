@@ -0,0 +1,187 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+import { CanvasLayerStyle } from './canvasLayer';
+import { SYMBOL_EVENT_TYPES, eventSymbolPath, isEarthquakeType } from './markers';
+import { MAX_DEPTH_KM, MIN_DEPTH_KM, createDepthColorScale, createMagnitudeRadiusScale } from './scales';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Layout of the legend and filter summary boxes drawn onto the exported image
+const BOX_MARGIN_PX = 12;
+const BOX_PADDING_PX = 8;
+const LINE_HEIGHT_PX = 14;
+const FONT = '11px system-ui, -apple-system, "Segoe UI", sans-serif';
+const LEGEND_WIDTH_PX = 180;
+const LEGEND_MAGNITUDES = [4, 5, 6, 7, 8];
+
+// What to draw: the live map's size and zoom, the events currently on screen, and how they are styled
+export interface MapExportOptions {
+  width: number;
+  height: number;
+  transform: d3.ZoomTransform;
+  events: EarthquakeData[];
+  style: CanvasLayerStyle; // The same style the canvas renderer uses, so both renderers export alike
+  summary: string[]; // Lines describing the active filters and time span
+}
+
+// Redraws the earthquake markers at full size and opacity. Rebuilding them from data rather than copying
+// the live DOM covers the canvas renderer and markers caught mid-animation.
+const drawMarkers = (group: d3.Selection<SVGGElement, unknown, null, undefined>, options: MapExportOptions) => {
+  const { events, style, transform } = options;
+  group.selectAll('*').remove();
+  events.forEach(d => {
+    const [x, y] = style.projection([d.longitude, d.latitude]) ?? [0, 0];
+    const radius = style.radius(d);
+    if (isEarthquakeType(d.type)) {
+      group.append('circle')
+        .attr('cx', x)
+        .attr('cy', y)
+        .attr('r', radius / transform.k)
+        .attr('fill', style.color(d.depth))
+        .attr('opacity', style.circleOpacity)
+        .attr('stroke', '#333')
+        .attr('stroke-width', 0.5 / transform.k);
+    } else {
+      group.append('path')
+        .attr('d', eventSymbolPath(d.type, radius))
+        .attr('transform', `translate(${x},${y}) scale(${1 / transform.k})`)
+        .attr('fill', style.color(d.depth))
+        .attr('opacity', style.symbolOpacity)
+        .attr('stroke', '#000')
+        .attr('stroke-width', 1);
+    }
+  });
+};
+
+// White rounded box behind a legend or summary
+const appendBox = (parent: d3.Selection<SVGGElement, unknown, null, undefined>, width: number, height: number) =>
+  parent.append('rect')
+    .attr('width', width)
+    .attr('height', height)
+    .attr('rx', 4)
+    .attr('fill', '#ffffff')
+    .attr('fill-opacity', 0.85);
+
+// Depth color ramp, magnitude circles and marker shapes, matching the on-screen legend
+const drawLegend = (svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, width: number, height: number) => {
+  const depthColorScale = createDepthColorScale();
+  const radiusScale = createMagnitudeRadiusScale();
+  const maxRadius = radiusScale(LEGEND_MAGNITUDES[LEGEND_MAGNITUDES.length - 1]);
+  const rampWidth = LEGEND_WIDTH_PX - 2 * BOX_PADDING_PX;
+  const magnitudesHeight = LINE_HEIGHT_PX + 2 * maxRadius + 14;
+  const boxHeight = 2 * BOX_PADDING_PX + LINE_HEIGHT_PX + 24 + magnitudesHeight + SYMBOL_EVENT_TYPES.length * LINE_HEIGHT_PX;
+
+  const legend = svg.append('g')
+    .attr('transform', `translate(${width - LEGEND_WIDTH_PX - BOX_MARGIN_PX},${height - boxHeight - BOX_MARGIN_PX})`)
+    .style('font', FONT)
+    .attr('fill', '#374151');
+  appendBox(legend, LEGEND_WIDTH_PX, boxHeight);
+  const body = legend.append('g').attr('transform', `translate(${BOX_PADDING_PX},${BOX_PADDING_PX})`);
+
+  // Depth ramp with ticks
+  body.append('text').attr('y', 10).attr('font-weight', 600).text('Depth (km)');
+  const gradientId = 'export-depth-gradient';
+  const gradient = svg.append('defs').append('linearGradient').attr('id', gradientId);
+  d3.range(0, 1.0001, 0.1).forEach(t => {
+    gradient.append('stop')
+      .attr('offset', `${t * 100}%`)
+      .attr('stop-color', depthColorScale(MIN_DEPTH_KM + t * (MAX_DEPTH_KM - MIN_DEPTH_KM)));
+  });
+  const ramp = body.append('g').attr('transform', `translate(0,${LINE_HEIGHT_PX})`);
+  ramp.append('rect').attr('width', rampWidth).attr('height', 8).attr('fill', `url(#${gradientId})`).attr('opacity', 0.7);
+  d3.ticks(MIN_DEPTH_KM, MAX_DEPTH_KM, 4).forEach(tick => {
+    const x = ((tick - MIN_DEPTH_KM) / (MAX_DEPTH_KM - MIN_DEPTH_KM)) * rampWidth;
+    ramp.append('line').attr('x1', x).attr('x2', x).attr('y1', 8).attr('y2', 11).attr('stroke', '#6b7280');
+    ramp.append('text').attr('x', x).attr('y', 21).attr('text-anchor', 'middle').text(tick);
+  });
+
+  // Magnitude circles
+  const magnitudes = body.append('g').attr('transform', `translate(0,${LINE_HEIGHT_PX + 24})`);
+  magnitudes.append('text').attr('y', 10).attr('font-weight', 600).text('Magnitude');
+  LEGEND_MAGNITUDES.forEach((magnitude, i) => {
+    const g = magnitudes.append('g').attr('transform', `translate(${12 + i * 34},${LINE_HEIGHT_PX + maxRadius})`);
+    g.append('circle').attr('r', radiusScale(magnitude)).attr('fill', '#9ca3af').attr('fill-opacity', 0.7).attr('stroke', '#333').attr('stroke-width', 0.5);
+    g.append('text').attr('y', maxRadius + 11).attr('text-anchor', 'middle').text(magnitude);
+  });
+
+  // Marker shapes for non-earthquake events
+  const shapes = body.append('g').attr('transform', `translate(0,${LINE_HEIGHT_PX + 24 + magnitudesHeight})`);
+  SYMBOL_EVENT_TYPES.forEach((type, i) => {
+    const g = shapes.append('g').attr('transform', `translate(0,${i * LINE_HEIGHT_PX})`);
+    g.append('path').attr('d', eventSymbolPath(type, 5)).attr('transform', 'translate(6,6)').attr('fill', '#9ca3af').attr('stroke', '#000');
+    g.append('text').attr('x', 16).attr('y', 10).text(type);
+  });
+};
+
+// Active filters and time span, one line each, in the bottom-left corner
+const drawSummary = (svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, height: number, lines: string[]) => {
+  if (lines.length === 0) return;
+  // Rough text width: the export can't measure text without a rendered document
+  const boxWidth = 2 * BOX_PADDING_PX + 6 * (d3.max(lines, l => l.length) ?? 0);
+  const boxHeight = 2 * BOX_PADDING_PX + lines.length * LINE_HEIGHT_PX;
+  const summary = svg.append('g')
+    .attr('transform', `translate(${BOX_MARGIN_PX},${height - boxHeight - BOX_MARGIN_PX})`)
+    .style('font', FONT)
+    .attr('fill', '#374151');
+  appendBox(summary, boxWidth, boxHeight);
+  lines.forEach((line, i) => {
+    summary.append('text')
+      .attr('x', BOX_PADDING_PX)
+      .attr('y', BOX_PADDING_PX + (i + 1) * LINE_HEIGHT_PX - 3)
+      .text(line);
+  });
+};
+
+/**
+ * Builds a standalone copy of the live map SVG: land, region outline and selection rings as drawn,
+ * earthquake markers redrawn from data, plus the legend and a filter summary.
+ */
+export const buildMapSvg = (mapSvg: SVGSVGElement, options: MapExportOptions): SVGSVGElement => {
+  const { width, height } = options;
+  const clone = mapSvg.cloneNode(true) as SVGSVGElement;
+  const svg = d3.select(clone)
+    .attr('xmlns', SVG_NS)
+    .attr('width', width)
+    .attr('height', height)
+    .attr('viewBox', `0 0 ${width} ${height}`);
+  svg.selectAll('g.region-draw, g.profile-draw').remove(); // Drawing-tool overlays, if active
+  drawMarkers(svg.select<SVGGElement>('g.earthquakes'), options);
+  drawLegend(svg, width, height);
+  drawSummary(svg, height, options.summary);
+  return clone;
+};
+
+/**
+ * Serializes an SVG element as a standalone SVG document.
+ */
+export const serializeSvg = (svg: SVGSVGElement): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+
+/**
+ * Rasterizes an SVG document to PNG at `scale` times its size (2 by default, for sharp text in reports).
+ */
+export const svgToPngBlob = (svgText: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas 2D is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The map SVG could not be rasterized'));
+    };
+    image.src = url;
+  });
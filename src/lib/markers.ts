@@ -0,0 +1,30 @@
+import * as d3 from 'd3';
+
+// Event type used by the bulk of the catalog; these are drawn as plain circles
+export const EARTHQUAKE_TYPE = 'Earthquake';
+
+// Marker shapes for non-earthquake event types, so explosions and the like stand out from natural seismicity
+const EVENT_TYPE_SYMBOLS: Record<string, d3.SymbolType> = {
+  'Nuclear Explosion': d3.symbolTriangle,
+  'Explosion': d3.symbolDiamond,
+  'Rock Burst': d3.symbolSquare,
+};
+
+// Non-earthquake types with a dedicated shape, in legend order
+export const SYMBOL_EVENT_TYPES = Object.keys(EVENT_TYPE_SYMBOLS);
+
+// Shape for any other non-earthquake type a catalog may contain
+const FALLBACK_SYMBOL: d3.SymbolType = d3.symbolCross;
+
+// Whether an event of this type is drawn as a circle (true) or a symbol path (false)
+export const isEarthquakeType = (type: string): boolean => type === EARTHQUAKE_TYPE;
+
+// Symbol type used to draw a non-earthquake event of the given type
+export const eventSymbolType = (type: string): d3.SymbolType => EVENT_TYPE_SYMBOLS[type] ?? FALLBACK_SYMBOL;
+
+/**
+ * Returns the SVG path for a non-earthquake marker whose area matches a circle of the given radius,
+ * centred on the origin (position it with a transform).
+ */
+export const eventSymbolPath = (type: string, radius: number): string =>
+  d3.symbol(eventSymbolType(type), Math.PI * radius * radius)() ?? '';
@@ -0,0 +1,9 @@
+// Animation lengths shared by the map's renderers and navigation, and reduced-motion mode
+
+// Duration of earthquake appearance/disappearance animations
+export const ANIMATION_DURATION_S = 0.5;
+
+/**
+ * Length of an animation, or none at all in reduced-motion mode.
+ */
+export const motionMs = (durationMs: number, reducedMotion: boolean): number => (reducedMotion ? 0 : durationMs);
@@ -0,0 +1,42 @@
+import { EarthquakeData } from './catalog';
+import { distanceKm } from './geo';
+import { DAY_MS, eventIndexAtTime } from './playback';
+
+// Search radius choices (km) for events near a pinned event
+export const NEARBY_RADIUS_OPTIONS_KM = [25, 50, 100, 250, 500];
+// Time window choices (days either side of the pinned event)
+export const NEARBY_WINDOW_OPTIONS_DAYS = [1, 7, 30, 90, 365];
+
+// Defaults: wide enough to catch a typical aftershock sequence
+export const DEFAULT_NEARBY_RADIUS_KM = 100;
+export const DEFAULT_NEARBY_WINDOW_DAYS = 30;
+
+// Another event close to the pinned one in space and time
+export interface NearbyEvent {
+  event: EarthquakeData;
+  distanceKm: number;
+  offsetMs: number; // Time relative to the pinned event; negative for earlier events (possible foreshocks)
+}
+
+/**
+ * Finds the other events within `radiusKm` and ±`windowDays` of `target`, in chronological order.
+ * `events` must be sorted by time, so only the time window is scanned.
+ */
+export const findNearbyEvents = (
+  events: EarthquakeData[],
+  target: EarthquakeData,
+  radiusKm: number,
+  windowDays: number,
+): NearbyEvent[] => {
+  const windowMs = windowDays * DAY_MS;
+  const start = eventIndexAtTime(events, target.time - windowMs - 1); // Events strictly after this time
+  const end = eventIndexAtTime(events, target.time + windowMs);
+  const nearby: NearbyEvent[] = [];
+  for (let i = start; i < end; i++) {
+    const d = events[i];
+    if (d.id === target.id) continue;
+    const distance = distanceKm([target.longitude, target.latitude], [d.longitude, d.latitude]);
+    if (distance <= radiusKm) nearby.push({ event: d, distanceKm: distance, offsetMs: d.time - target.time });
+  }
+  return nearby;
+};
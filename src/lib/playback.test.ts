@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import {
+  DAY_MS,
+  advancePlayhead,
+  clampPlayhead,
+  eventIndexAtTime,
+  movePlayhead,
+  playbackBounds,
+  restorePlayback,
+  visibleIndexRange,
+} from './playback';
+
+// Five events, one a day from day 0 to day 4
+const EVENTS = [0, 1, 2, 3, 4].map(day => makeEvent({ id: `D${day}`, time: day * DAY_MS }));
+
+describe('eventIndexAtTime', () => {
+  it('counts the events at or before a time', () => {
+    expect(eventIndexAtTime(EVENTS, -1)).toBe(0);
+    expect(eventIndexAtTime(EVENTS, 0)).toBe(1);
+    expect(eventIndexAtTime(EVENTS, 2.5 * DAY_MS)).toBe(3);
+    expect(eventIndexAtTime(EVENTS, 10 * DAY_MS)).toBe(5);
+  });
+});
+
+describe('visibleIndexRange', () => {
+  it('shows everything that has happened without a window', () => {
+    expect(visibleIndexRange(EVENTS, 2 * DAY_MS, null)).toEqual([0, 3]);
+  });
+
+  it('shows only the last window of simulated time', () => {
+    expect(visibleIndexRange(EVENTS, 3 * DAY_MS, 1.5 * DAY_MS)).toEqual([2, 4]);
+  });
+
+  it('keeps to the time range', () => {
+    expect(visibleIndexRange(EVENTS, 10 * DAY_MS, null, [DAY_MS, 3 * DAY_MS])).toEqual([1, 4]);
+  });
+});
+
+describe('playbackBounds', () => {
+  it('spans the catalog, or the time range when there is one', () => {
+    expect(playbackBounds(EVENTS, null)).toEqual([0, 4 * DAY_MS]);
+    expect(playbackBounds(EVENTS, [DAY_MS, 2 * DAY_MS])).toEqual([DAY_MS, 2 * DAY_MS]);
+    expect(playbackBounds([], null)).toEqual([0, 0]);
+  });
+});
+
+describe('clampPlayhead', () => {
+  it('keeps the playhead inside the bounds', () => {
+    expect(clampPlayhead(-5, [0, 10])).toBe(0);
+    expect(clampPlayhead(5, [0, 10])).toBe(5);
+    expect(clampPlayhead(15, [0, 10])).toBe(10);
+  });
+});
+
+describe('advancePlayhead', () => {
+  it('moves by the elapsed real time at the playback speed, stopping at the end', () => {
+    expect(advancePlayhead(0, 500, DAY_MS, 4 * DAY_MS)).toBe(0.5 * DAY_MS);
+    expect(advancePlayhead(3 * DAY_MS, 2000, DAY_MS, 4 * DAY_MS)).toBe(4 * DAY_MS);
+  });
+});
+
+describe('movePlayhead', () => {
+  const bounds: [number, number] = [0, 10 * DAY_MS];
+
+  it('steps by one second of playback in either direction', () => {
+    expect(movePlayhead(5 * DAY_MS, 'step-forward', DAY_MS, bounds, 0.1)).toBe(6 * DAY_MS);
+    expect(movePlayhead(5 * DAY_MS, 'step-back', DAY_MS, bounds, 0.1)).toBe(4 * DAY_MS);
+    expect(movePlayhead(0, 'step-back', DAY_MS, bounds, 0.1)).toBe(0);
+  });
+
+  it('seeks by a share of the bounds, stopping at either end', () => {
+    expect(movePlayhead(5 * DAY_MS, 'seek-forward', DAY_MS, bounds, 0.1)).toBe(6 * DAY_MS);
+    expect(movePlayhead(5 * DAY_MS, 'seek-back', DAY_MS, bounds, 0.2)).toBe(3 * DAY_MS);
+    expect(movePlayhead(9.5 * DAY_MS, 'seek-forward', DAY_MS, bounds, 0.1)).toBe(10 * DAY_MS);
+  });
+
+  it('jumps to the start or end', () => {
+    expect(movePlayhead(5 * DAY_MS, 'seek-start', DAY_MS, bounds, 0.1)).toBe(0);
+    expect(movePlayhead(5 * DAY_MS, 'seek-end', DAY_MS, bounds, 0.1)).toBe(10 * DAY_MS);
+  });
+});
+
+describe('restorePlayback', () => {
+  it('starts at the first event when nothing was saved', () => {
+    expect(restorePlayback(EVENTS, null, null)).toEqual({ timeRange: null, playheadTime: 0 });
+  });
+
+  it('clips the saved range to the catalog and keeps the playhead inside it', () => {
+    expect(restorePlayback(EVENTS, [2 * DAY_MS, 40 * DAY_MS], 40 * DAY_MS)).toEqual({
+      timeRange: [2 * DAY_MS, 4 * DAY_MS],
+      playheadTime: 4 * DAY_MS,
+    });
+  });
+
+  it('drops a saved range outside the catalog', () => {
+    expect(restorePlayback(EVENTS, [10 * DAY_MS, 20 * DAY_MS], 3 * DAY_MS)).toEqual({
+      timeRange: null,
+      playheadTime: 3 * DAY_MS,
+    });
+  });
+});
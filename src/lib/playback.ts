@@ -0,0 +1,160 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Explicit [start, end] date range (epoch ms) that playback and the displayed events are constrained to
+export type TimeRange = [number, number];
+
+// Jumps of the playhead, independent of whether playback is running
+export type PlayheadMove = 'step-forward' | 'step-back' | 'seek-forward' | 'seek-back' | 'seek-start' | 'seek-end';
+
+// A selectable playback window; `durationMs: null` shows everything since the start of the catalog
+export interface PlaybackWindowOption {
+  label: string;
+  durationMs: number | null;
+}
+
+// A selectable playback speed, in simulated milliseconds per real second
+export interface PlaybackSpeedOption {
+  label: string;
+  simulatedMsPerSecond: number;
+}
+
+export const PLAYBACK_WINDOW_OPTIONS: PlaybackWindowOption[] = [
+  { label: 'All (cumulative)', durationMs: null },
+  { label: 'Last 1 day', durationMs: DAY_MS },
+  { label: 'Last 7 days', durationMs: 7 * DAY_MS },
+  { label: 'Last 30 days', durationMs: 30 * DAY_MS },
+  { label: 'Last 90 days', durationMs: 90 * DAY_MS },
+  { label: 'Last year', durationMs: 365 * DAY_MS },
+  { label: 'Last 5 years', durationMs: 5 * 365 * DAY_MS },
+];
+
+export const PLAYBACK_SPEED_OPTIONS: PlaybackSpeedOption[] = [
+  { label: '1 day / s', simulatedMsPerSecond: DAY_MS },
+  { label: '1 week / s', simulatedMsPerSecond: 7 * DAY_MS },
+  { label: '1 month / s', simulatedMsPerSecond: 30 * DAY_MS },
+  { label: '3 months / s', simulatedMsPerSecond: 91 * DAY_MS },
+  { label: '1 year / s', simulatedMsPerSecond: 365 * DAY_MS },
+];
+
+// Defaults: cumulative display at roughly the pace of the old one-event-per-100ms playback
+export const DEFAULT_PLAYBACK_WINDOW_MS: number | null = null;
+export const DEFAULT_PLAYBACK_SPEED = 7 * DAY_MS;
+
+const timeBisector = d3.bisector((d: EarthquakeData) => d.time);
+
+/**
+ * Number of events (in a chronologically sorted catalog) that occurred at or before `time`.
+ * This is the playback's end index: `events.slice(0, eventIndexAtTime(...))` have happened.
+ */
+export const eventIndexAtTime = (events: EarthquakeData[], time: number): number =>
+  timeBisector.right(events, time);
+
+/**
+ * Index range `[start, end)` of the events visible at `playheadTime`: everything that has happened,
+ * or, with a window, only what happened within the last `windowMs` of simulated time.
+ * With a time range, events before the range start are excluded too.
+ */
+export const visibleIndexRange = (
+  events: EarthquakeData[],
+  playheadTime: number,
+  windowMs: number | null,
+  timeRange: TimeRange | null = null,
+): [number, number] => {
+  const end = eventIndexAtTime(events, timeRange ? Math.min(playheadTime, timeRange[1]) : playheadTime);
+  const windowStart = windowMs === null ? 0 : eventIndexAtTime(events, playheadTime - windowMs);
+  const rangeStart = timeRange ? timeBisector.left(events, timeRange[0]) : 0;
+  return [Math.min(Math.max(windowStart, rangeStart), end), end];
+};
+
+/**
+ * Earliest and latest playhead times: the selected time range, or the span of the whole catalog.
+ */
+export const playbackBounds = (events: EarthquakeData[], timeRange: TimeRange | null): TimeRange => {
+  if (timeRange) return timeRange;
+  return events.length > 0 ? [events[0].time, events[events.length - 1].time] : [0, 0];
+};
+
+/**
+ * Clamps a playhead time into the given bounds.
+ */
+export const clampPlayhead = (time: number, [start, end]: TimeRange): number =>
+  Math.min(end, Math.max(start, time));
+
+/**
+ * Moves the playhead forward by `elapsedRealMs` of wall-clock time at the given speed, stopping at `endTime`.
+ */
+export const advancePlayhead = (
+  playheadTime: number,
+  elapsedRealMs: number,
+  simulatedMsPerSecond: number,
+  endTime: number,
+): number => Math.min(endTime, playheadTime + (elapsedRealMs / 1000) * simulatedMsPerSecond);
+
+/**
+ * Moves the playhead one step forwards or backwards: the simulated time one real second of playback covers
+ * at the given speed, kept inside the bounds.
+ */
+export const stepPlayhead = (
+  playheadTime: number,
+  direction: 1 | -1,
+  simulatedMsPerSecond: number,
+  bounds: TimeRange,
+): number => clampPlayhead(playheadTime + direction * simulatedMsPerSecond, bounds);
+
+/**
+ * Moves the playhead by a fraction of the bounds' span (negative to seek backwards), kept inside the bounds.
+ */
+export const seekPlayhead = (playheadTime: number, fraction: number, bounds: TimeRange): number =>
+  clampPlayhead(playheadTime + fraction * (bounds[1] - bounds[0]), bounds);
+
+/**
+ * Applies a playhead jump: a step of one second of playback, a seek by `seekFraction` of the bounds' span,
+ * or a jump to either end of the bounds.
+ */
+export const movePlayhead = (
+  playheadTime: number,
+  move: PlayheadMove,
+  simulatedMsPerSecond: number,
+  bounds: TimeRange,
+  seekFraction: number,
+): number => {
+  switch (move) {
+    case 'step-forward':
+      return stepPlayhead(playheadTime, 1, simulatedMsPerSecond, bounds);
+    case 'step-back':
+      return stepPlayhead(playheadTime, -1, simulatedMsPerSecond, bounds);
+    case 'seek-forward':
+      return seekPlayhead(playheadTime, seekFraction, bounds);
+    case 'seek-back':
+      return seekPlayhead(playheadTime, -seekFraction, bounds);
+    case 'seek-start':
+      return bounds[0];
+    case 'seek-end':
+      return bounds[1];
+  }
+};
+
+/**
+ * Fits a saved time range and playhead (e.g. from the URL) to a catalog: the range is clipped to the
+ * catalog's span and dropped when nothing of it is left, and the playhead is kept inside the playback
+ * bounds, starting at the first event when none was saved.
+ */
+export const restorePlayback = (
+  events: EarthquakeData[],
+  savedTimeRange: TimeRange | null,
+  savedPlayheadTime: number | null,
+): { timeRange: TimeRange | null; playheadTime: number } => {
+  const [catalogStart, catalogEnd] = playbackBounds(events, null);
+  const range: TimeRange | null = savedTimeRange
+    ? [Math.max(savedTimeRange[0], catalogStart), Math.min(savedTimeRange[1], catalogEnd)]
+    : null;
+  const timeRange = range && range[0] < range[1] ? range : null;
+  const bounds = playbackBounds(events, timeRange);
+  return {
+    timeRange,
+    playheadTime: savedPlayheadTime === null ? bounds[0] : clampPlayhead(savedPlayheadTime, bounds),
+  };
+};
@@ -0,0 +1,116 @@
+import * as d3 from 'd3';
+import { LonLat } from './regions';
+
+// Map projections the user can switch between
+export type ProjectionId = 'mercator' | 'natural-earth' | 'equal-earth' | 'orthographic';
+
+export interface ProjectionOption {
+  id: ProjectionId;
+  label: string;
+}
+
+export const PROJECTION_OPTIONS: ProjectionOption[] = [
+  { id: 'mercator', label: 'Mercator' },
+  { id: 'natural-earth', label: 'Natural Earth' },
+  { id: 'equal-earth', label: 'Equal Earth' },
+  { id: 'orthographic', label: 'Globe (orthographic)' },
+];
+
+export const DEFAULT_PROJECTION: ProjectionId = 'mercator';
+
+// Globe rotation as [λ, φ] in degrees (d3's projection.rotate); the globe faces [-λ, -φ]
+export type Rotation = [number, number];
+
+// Zoom factors the map allows, relative to the initial world view; shared by pan/zoom and the URL's map view
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 40;
+
+// The whole globe as a GeoJSON-like object: drawn as the ocean and the map's outline
+export const SPHERE: d3.GeoSphere = { type: 'Sphere' };
+
+const FIT_MARGIN_PX = 10; // Space between the world outline and the map edge, for the non-Mercator projections
+const MERCATOR_MAX_LATITUDE = 85.05113; // Mercator runs off to infinity at the poles; d3 clips it here too
+
+/**
+ * Creates a projection fitted to a map of the given size. Mercator keeps the original framing
+ * (90% of the width, centred on 20°N); the other projections fit the whole sphere. Only the globe uses
+ * `rotation`, and it is clipped to the visible hemisphere.
+ */
+export const createProjection = (id: ProjectionId, width: number, height: number, rotation: Rotation = [0, 0]): d3.GeoProjection => {
+  const extent: [[number, number], [number, number]] = [[FIT_MARGIN_PX, FIT_MARGIN_PX], [width - FIT_MARGIN_PX, height - FIT_MARGIN_PX]];
+  switch (id) {
+    case 'natural-earth':
+      return d3.geoNaturalEarth1().fitExtent(extent, SPHERE);
+    case 'equal-earth':
+      return d3.geoEqualEarth().fitExtent(extent, SPHERE);
+    case 'orthographic':
+      return d3.geoOrthographic().fitExtent(extent, SPHERE).rotate(rotation).clipAngle(90);
+    default:
+      return d3.geoMercator()
+        .scale(width / (2 * Math.PI) * 0.9) // Scale based on width, slightly adjusted
+        .center([0, 20]) // Center the map view (longitude 0, latitude 20)
+        .translate([width / 2, height / 2]); // Center projection within the SVG container
+  }
+};
+
+/**
+ * Whether a point is on the drawn side of the projection. Flat maps show everything; the globe hides
+ * points more than its clip angle away from the centre of the visible hemisphere. (Projecting a point
+ * doesn't clip it, so far-side points would otherwise land on top of the near side.)
+ */
+export const isPointVisible = (projection: d3.GeoProjection, point: LonLat): boolean => {
+  const clipAngle = projection.clipAngle();
+  if (!clipAngle) return true;
+  const [lambda, phi] = projection.rotate();
+  return d3.geoDistance(point, [-lambda, -phi]) <= clipAngle * Math.PI / 180;
+};
+
+/**
+ * Linear interpolation between two rotations, turning the short way round in longitude.
+ */
+export const interpolateRotation = (from: Rotation, to: Rotation) => {
+  const dLambda = ((to[0] - from[0]) % 360 + 540) % 360 - 180;
+  return (t: number): Rotation => [from[0] + dLambda * t, from[1] + (to[1] - from[1]) * t];
+};
+
+/**
+ * Animates between two projections: returns the projection partway through (t from 0 to 1).
+ * Each point's screen position is blended between both fitted projections, so land, outlines and
+ * markers morph smoothly; the globe's hemisphere clip opens or closes along the way.
+ * The result has no inverse, so it is only meant to be drawn with until the transition ends.
+ */
+export const interpolateProjection = (
+  from: { id: ProjectionId; rotation: Rotation },
+  to: { id: ProjectionId; rotation: Rotation },
+  width: number,
+  height: number,
+): ((t: number) => d3.GeoProjection) => {
+  // Unrotated copies; the rotation is blended separately so the globe turns while it unfolds
+  const p0 = createProjection(from.id, width, height);
+  const p1 = createProjection(to.id, width, height);
+  const rotation = interpolateRotation(from.rotation, to.rotation);
+  const toScreen = (projection: d3.GeoProjection, lambda: number, phi: number): [number, number] => {
+    const latitude = Math.max(-MERCATOR_MAX_LATITUDE, Math.min(MERCATOR_MAX_LATITUDE, phi * 180 / Math.PI));
+    return projection([lambda * 180 / Math.PI, latitude]) ?? [0, 0];
+  };
+
+  return t => {
+    const blend = (lambda: number, phi: number): [number, number] => {
+      const [x0, y0] = toScreen(p0, lambda, phi);
+      const [x1, y1] = toScreen(p1, lambda, phi);
+      return [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t];
+    };
+    // d3 flips y and centres the projection on [0, 0], so the raw function returns -y and the
+    // translate puts the centre back where the blend has it
+    const projection = d3.geoProjection((lambda, phi) => {
+      const [x, y] = blend(lambda, phi);
+      return [x, -y];
+    })
+      .scale(1)
+      .translate(blend(0, 0))
+      .rotate(rotation(t));
+    // Share of the transition spent as a globe: its 90° clip widens to (almost) the whole sphere as it flattens
+    const globe = to.id === 'orthographic' ? (from.id === 'orthographic' ? 1 : t) : (from.id === 'orthographic' ? 1 - t : 0);
+    return globe > 0 ? projection.clipAngle(Math.min(179.9, 90 + (1 - globe) * 90)) : projection;
+  };
+};
@@ -0,0 +1,69 @@
+import * as d3 from 'd3';
+import { describe, expect, it } from 'vitest';
+import { PREDEFINED_REGIONS, Region, createRegionTest, densifyRing, regionBounds, regionToGeoJson, unwrapRing } from './regions';
+
+const region = (id: string): Region => PREDEFINED_REGIONS.find(r => r.id === id)!;
+
+describe('unwrapRing', () => {
+  it('takes each edge the short way round, past ±180 if need be', () => {
+    expect(unwrapRing([[170, 0], [-170, 0], [-170, 10], [170, 10]])).toEqual([[170, 0], [190, 0], [190, 10], [170, 10]]);
+    expect(unwrapRing([[-10, 0], [10, 0], [10, 10]])).toEqual([[-10, 0], [10, 0], [10, 10]]);
+  });
+});
+
+describe('createRegionTest', () => {
+  it('tests points against a region as drawn in longitude/latitude', () => {
+    const inMediterranean = createRegionTest(region('mediterranean'));
+    expect(inMediterranean(15, 38)).toBe(true);
+    expect(inMediterranean(15, 50)).toBe(false);
+    expect(inMediterranean(-20, 38)).toBe(false);
+  });
+
+  it('matches points on both sides of the antimeridian for a region crossing it', () => {
+    const inTonga = createRegionTest(region('tonga-kermadec'));
+    expect(inTonga(175, -20)).toBe(true);
+    expect(inTonga(-175, -20)).toBe(true);
+    expect(inTonga(180, -20)).toBe(true);
+    expect(inTonga(-180, -20)).toBe(true);
+    expect(inTonga(165, -20)).toBe(false);
+    expect(inTonga(-165, -20)).toBe(false);
+    // Not the rest of the globe, as a ring with a -170..170 edge taken the long way round would be
+    expect(inTonga(0, -20)).toBe(false);
+  });
+
+  it('matches a region given with longitudes past 180', () => {
+    const inRingOfFire = createRegionTest(region('ring-of-fire'));
+    expect(inRingOfFire(142, 38)).toBe(true); // Japan
+    expect(inRingOfFire(-72, -33)).toBe(true); // Chile, at 288° in the ring
+    expect(inRingOfFire(-150, 0)).toBe(false); // Mid-Pacific
+    expect(inRingOfFire(10, 45)).toBe(false);
+  });
+});
+
+describe('regionBounds', () => {
+  it('bounds a region, with west > east when it crosses the antimeridian', () => {
+    expect(regionBounds(region('mediterranean'))).toEqual({ west: -10, south: 30, east: 40, north: 46 });
+    expect(regionBounds(region('tonga-kermadec'))).toEqual({ west: 170, south: -40, east: -170, north: -14 });
+    expect(regionBounds(region('aleutians'))).toEqual({ west: 165, south: 48, east: -140, north: 65 });
+  });
+});
+
+describe('densifyRing', () => {
+  it('adds a vertex per degree along each edge', () => {
+    const ring = densifyRing([[0, 0], [2, 0], [2, 2], [0, 2]]);
+    expect(ring).toHaveLength(8);
+    expect(ring.slice(0, 3)).toEqual([[0, 0], [1, 0], [2, 0]]);
+  });
+});
+
+describe('regionToGeoJson', () => {
+  it('winds every region to enclose the region rather than the rest of the globe', () => {
+    PREDEFINED_REGIONS.forEach(r => {
+      const polygon = regionToGeoJson(r);
+      expect(d3.geoArea(polygon)).toBeLessThan(2 * Math.PI);
+      polygon.coordinates[0].forEach(([lon]) => expect(Math.abs(lon)).toBeLessThanOrEqual(180));
+    });
+    expect(d3.geoContains(regionToGeoJson(region('tonga-kermadec')), [-175, -20])).toBe(true);
+    expect(d3.geoContains(regionToGeoJson(region('tonga-kermadec')), [0, -20])).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import * as d3 from 'd3';
+import { Polygon } from 'geojson';
+import { GeoBounds } from './spatialIndex';
+
+// A [longitude, latitude] vertex in degrees
+export type LonLat = [number, number];
+
+// A named area of interest. The polygon is a single ring (not closed: the last vertex connects back
+// to the first) with edges treated as straight lines in longitude/latitude, i.e. as drawn on the map.
+export interface Region {
+  id: string;
+  name: string;
+  polygon: LonLat[];
+  custom?: boolean; // Drawn by the user rather than predefined
+}
+
+// Predefined tectonic regions. Longitudes may run past ±180 so rings that cross the antimeridian stay continuous.
+export const PREDEFINED_REGIONS: Region[] = [
+  {
+    id: 'ring-of-fire',
+    name: 'Pacific Ring of Fire',
+    // Horseshoe around the Pacific: continental side south→north→south, then the ocean side back
+    polygon: [
+      [160, -60], [150, -25], [110, -12], [93, -8], [95, 8], [115, 15], [118, 25], [125, 35], [135, 45],
+      [150, 60], [165, 65], [190, 68], [205, 65], [215, 62], [228, 58], [235, 50], [240, 40], [248, 30],
+      [255, 20], [265, 15], [275, 10], [282, 5], [287, -5], [292, -20], [293, -40], [290, -57],
+      [285, -57], [281, -40], [279, -20], [276, -5], [272, 0], [262, 5], [250, 10], [242, 18], [234, 28],
+      [228, 38], [227, 48], [215, 52], [200, 48], [180, 47], [165, 45], [150, 35], [145, 25], [140, 10],
+      [150, -5], [165, -12], [178, -18], [183, -30], [180, -45], [170, -60],
+    ],
+  },
+  { id: 'himalaya', name: 'Himalaya', polygon: [[70, 25], [98, 25], [98, 37], [70, 37]] },
+  { id: 'mediterranean', name: 'Mediterranean', polygon: [[-10, 30], [40, 30], [40, 46], [-10, 46]] },
+  { id: 'japan', name: 'Japan', polygon: [[128, 30], [148, 30], [148, 46], [128, 46]] },
+  { id: 'indonesia', name: 'Indonesia', polygon: [[94, -12], [142, -12], [142, 7], [94, 7]] },
+  { id: 'andes', name: 'Andes', polygon: [[-82, -56], [-65, -56], [-65, 12], [-82, 12]] },
+  { id: 'aleutians', name: 'Aleutians & Alaska', polygon: [[165, 48], [-140, 48], [-140, 65], [165, 65]] },
+  { id: 'tonga-kermadec', name: 'Tonga–Kermadec', polygon: [[170, -40], [-170, -40], [-170, -14], [170, -14]] },
+];
+
+// Degrees between interpolated points when turning straight lon/lat edges into map geometry
+const EDGE_STEP_DEG = 1;
+
+/**
+ * Returns the ring with longitudes unwrapped so consecutive vertices are less than 180° apart.
+ * An edge is always taken the short way round, which is how regions crossing the antimeridian are expressed.
+ */
+export const unwrapRing = (ring: LonLat[]): LonLat[] => {
+  const out: LonLat[] = [];
+  ring.forEach(([lon, lat], i) => {
+    if (i === 0) {
+      out.push([lon, lat]);
+      return;
+    }
+    const previous = out[i - 1][0];
+    out.push([lon + 360 * Math.round((previous - lon) / 360), lat]);
+  });
+  return out;
+};
+
+// Planar ray-casting point-in-polygon test on an already unwrapped ring
+const containsPlanar = (ring: LonLat[], lon: number, lat: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Builds a point-in-region test. The ring is unwrapped once; each point is then tested at its own
+ * longitude and shifted by ±360°, so regions crossing the antimeridian match on both sides of it.
+ */
+export const createRegionTest = (region: Region): ((lon: number, lat: number) => boolean) => {
+  const ring = unwrapRing(region.polygon);
+  return (lon, lat) =>
+    containsPlanar(ring, lon, lat) || containsPlanar(ring, lon + 360, lat) || containsPlanar(ring, lon - 360, lat);
+};
+
+/**
+ * Geographic bounding box of a region. `west > east` when the region crosses the antimeridian.
+ */
+export const regionBounds = (region: Region): GeoBounds => {
+  const ring = unwrapRing(region.polygon);
+  const lons = ring.map(p => p[0]);
+  const lats = ring.map(p => p[1]);
+  const west = Math.min(...lons);
+  const east = Math.max(...lons);
+  if (east - west >= 360) return { west: -180, south: Math.min(...lats), east: 180, north: Math.max(...lats) };
+  // Shift both edges by the same whole turn so `west` lands in [-180, 180)
+  const shift = -360 * Math.floor((west + 180) / 360);
+  const normalise = (lon: number) => (lon + shift > 180 ? lon + shift - 360 : lon + shift);
+  return { west: west + shift, south: Math.min(...lats), east: normalise(east), north: Math.max(...lats) };
+};
+
+/**
+ * Densifies the ring's straight lon/lat edges so it renders (and fits) as drawn, even though
+ * D3 draws polygon edges as great-circle arcs.
+ */
+export const densifyRing = (ring: LonLat[]): LonLat[] => {
+  const unwrapped = unwrapRing(ring);
+  const out: LonLat[] = [];
+  unwrapped.forEach((start, i) => {
+    const end = unwrapped[(i + 1) % unwrapped.length];
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(end[0] - start[0]), Math.abs(end[1] - start[1])) / EDGE_STEP_DEG));
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      out.push([start[0] + (end[0] - start[0]) * t, start[1] + (end[1] - start[1]) * t]);
+    }
+  });
+  return out;
+};
+
+/**
+ * GeoJSON polygon for drawing a region with d3.geoPath. D3 treats rings as spherical polygons whose
+ * winding picks the inside, so the ring is reversed if it would otherwise enclose the rest of the globe.
+ */
+export const regionToGeoJson = (region: Region): Polygon => {
+  const ring = densifyRing(region.polygon).map(([lon, lat]) => [((lon + 540) % 360) - 180, lat]);
+  const closed = [...ring, ring[0]];
+  const polygon: Polygon = { type: 'Polygon', coordinates: [closed] };
+  if (d3.geoArea(polygon) > 2 * Math.PI) polygon.coordinates = [closed.reverse()];
+  return polygon;
+};
+
+// localStorage key for user-drawn regions
+const CUSTOM_REGIONS_STORAGE_KEY = 'earthquake-viz:custom-regions';
+
+/**
+ * Loads the user's saved regions, ignoring anything malformed.
+ */
+export const loadCustomRegions = (): Region[] => {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(CUSTOM_REGIONS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((r): r is Region =>
+      typeof r?.id === 'string' && typeof r?.name === 'string' && Array.isArray(r?.polygon) && r.polygon.length >= 3 &&
+      r.polygon.every((p: unknown) => Array.isArray(p) && p.length === 2 && p.every(Number.isFinite)))
+      .map(r => ({ ...r, custom: true }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persists the user's saved regions.
+ */
+export const saveCustomRegions = (regions: Region[]): void => {
+  try {
+    window.localStorage.setItem(CUSTOM_REGIONS_STORAGE_KEY, JSON.stringify(regions));
+  } catch (e) {
+    console.warn('Could not save custom regions:', e);
+  }
+};
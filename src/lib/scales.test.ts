@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { MAX_MARKER_RADIUS_PX, createDepthColorScale, createMagnitudeRadiusScale, markerRadius } from './scales';
+
+describe('createMagnitudeRadiusScale', () => {
+  it('grows quadratically with magnitude up to the largest marker', () => {
+    const scale = createMagnitudeRadiusScale();
+    expect(scale(0)).toBe(0);
+    expect(scale(10)).toBe(MAX_MARKER_RADIUS_PX);
+    expect(scale(5)).toBeCloseTo(MAX_MARKER_RADIUS_PX / 4);
+  });
+});
+
+describe('createDepthColorScale', () => {
+  it('gives shallow and deep events different colors', () => {
+    const scale = createDepthColorScale();
+    expect(scale(0)).not.toBe(scale(700));
+  });
+});
+
+describe('markerRadius', () => {
+  it('sizes markers by magnitude', () => {
+    expect(markerRadius(createMagnitudeRadiusScale(), makeEvent({ magnitude: 10 }))).toBe(MAX_MARKER_RADIUS_PX);
+  });
+
+  it('falls back to 1px without a scale or a magnitude', () => {
+    expect(markerRadius(null, makeEvent())).toBe(1);
+    expect(markerRadius(createMagnitudeRadiusScale(), makeEvent({ magnitude: NaN }))).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+
+// Depth range (km) covered by the color scale
+export const MIN_DEPTH_KM = 0; // Assumed minimum depth
+export const MAX_DEPTH_KM = 700; // Assumed maximum depth from typical earthquake data
+
+// Magnitude range mapped onto marker radii
+export const MAGNITUDE_DOMAIN: [number, number] = [0, 10]; // Input magnitude range (Richter scale)
+export const MAX_MARKER_RADIUS_PX = 20; // Output radius for the top of the magnitude range
+
+/**
+ * Sequential color scale for depth (Red=Shallow, Blue=Deep). Shared by the map renderers and the legend.
+ */
+export const createDepthColorScale = (): d3.ScaleSequential<string, never> =>
+  d3.scaleSequential(d3.interpolateRgb('red', 'blue'))
+    .domain([MIN_DEPTH_KM, MAX_DEPTH_KM]); // Map depth range to color gradient
+
+/**
+ * Power scale for magnitude -> marker radius in pixels. Shared by the map renderers and the legend.
+ */
+export const createMagnitudeRadiusScale = (): d3.ScalePower<number, number, never> =>
+  d3.scalePow()
+    .exponent(2) // Make radius grow quadratically with magnitude
+    .domain(MAGNITUDE_DOMAIN)
+    .range([0, MAX_MARKER_RADIUS_PX]);
+
+/**
+ * Target on-screen radius for an event's marker, falling back to 1px for missing or invalid magnitudes
+ * (and while there is no scale yet).
+ */
+export const markerRadius = (scale: d3.ScalePower<number, number, never> | null, d: EarthquakeData): number => {
+  const targetRadius = scale && !isNaN(d.magnitude) ? scale(d.magnitude) : 1; // Default to 1px
+  return !isNaN(targetRadius) ? targetRadius : 1; // Ensure not NaN
+};
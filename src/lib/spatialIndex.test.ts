@@ -0,0 +1,80 @@
+import * as d3 from 'd3';
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { createSpatialIndex, viewportBounds } from './spatialIndex';
+
+// An 800×400 plate carrée map: x = 400 + longitude × 20/9, y = 200 − latitude × 20/9
+const WORLD = d3.geoEquirectangular().scale(800 / (2 * Math.PI)).translate([400, 200]);
+
+// The zoom that shows the map's point (x, y) at the centre of the 800×400 viewport, magnified k times
+const zoomedOn = (x: number, y: number, k: number) => d3.zoomIdentity.translate(400 - k * x, 200 - k * y).scale(k);
+
+describe('createSpatialIndex', () => {
+  const events = [
+    makeEvent({ id: 'A', longitude: 10, latitude: 10 }),
+    makeEvent({ id: 'B', longitude: 175, latitude: -20 }),
+    makeEvent({ id: 'C', longitude: -175, latitude: -20 }),
+    makeEvent({ id: 'D', longitude: 10, latitude: 10 }), // Same place as A
+    makeEvent({ id: 'E', longitude: 0, latitude: -60 }),
+  ];
+  const index = createSpatialIndex(events);
+
+  it('returns the indices of events inside the bounds, in ascending order', () => {
+    expect(index.query({ west: 0, south: 0, east: 20, north: 20 })).toEqual([0, 3]);
+    expect(index.query({ west: -180, south: -90, east: 180, north: 90 })).toEqual([0, 1, 2, 3, 4]);
+    expect(index.query({ west: 20, south: 0, east: 40, north: 20 })).toEqual([]);
+  });
+
+  it('includes events on the edges of the bounds', () => {
+    expect(index.query({ west: 10, south: 10, east: 10, north: 10 })).toEqual([0, 3]);
+  });
+
+  it('splits bounds crossing the antimeridian into both halves', () => {
+    expect(index.query({ west: 170, south: -30, east: -170, north: -10 })).toEqual([1, 2]);
+  });
+});
+
+describe('viewportBounds', () => {
+  it('bounds the whole world when the whole map is in view', () => {
+    expect(viewportBounds(WORLD, d3.zoomIdentity, 800, 400)).toEqual({ west: -180, south: -90, east: 180, north: 90 });
+  });
+
+  it('bounds a zoomed-in viewport', () => {
+    const bounds = viewportBounds(WORLD, zoomedOn(400, 200, 4), 800, 400)!;
+    expect(bounds.west).toBeCloseTo(-45);
+    expect(bounds.east).toBeCloseTo(45);
+    expect(bounds.south).toBeCloseTo(-22.5);
+    expect(bounds.north).toBeCloseTo(22.5);
+  });
+
+  it('widens the bounds by the padding', () => {
+    const bounds = viewportBounds(WORLD, zoomedOn(400, 200, 4), 800, 400, 40)!;
+    expect(bounds.west).toBeCloseTo(-49.5);
+    expect(bounds.east).toBeCloseTo(49.5);
+  });
+
+  it('returns west > east for a viewport over the antimeridian', () => {
+    // Centred on 180° (x = 800), where the inverse projection wraps from 180 to -180
+    const bounds = viewportBounds(WORLD, zoomedOn(800, 200, 4), 800, 400)!;
+    expect(bounds.west).toBeCloseTo(135);
+    expect(bounds.east).toBeCloseTo(-135);
+  });
+
+  it('sees every longitude around a pole in view on the globe', () => {
+    // Centred on 75°N and zoomed in, so the viewport shows the pole but nothing south of about 30°N
+    const globe = d3.geoOrthographic().scale(600).translate([400, 200]).rotate([0, -75]);
+    const bounds = viewportBounds(globe, d3.zoomIdentity, 800, 400)!;
+    expect(bounds).toMatchObject({ west: -180, east: 180, north: 90 });
+    expect(bounds.south).toBeGreaterThan(30);
+  });
+
+  it('bounds the whole world when the whole globe is in view', () => {
+    const globe = d3.geoOrthographic().scale(100).translate([400, 200]);
+    expect(viewportBounds(globe, d3.zoomIdentity, 800, 400)).toEqual({ west: -180, south: -90, east: 180, north: 90 });
+  });
+
+  it('returns null for a projection that cannot be inverted', () => {
+    const noInverse = d3.geoProjection((x, y) => [x, y]);
+    expect(viewportBounds(noInverse, d3.zoomIdentity, 800, 400)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+import { isPointVisible } from './projections';
+
+// Geographic bounding box in degrees. `west > east` means the box crosses the antimeridian.
+export interface GeoBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Spatial index over a catalog, answering "which events lie inside these bounds?"
+export interface SpatialIndex {
+  /** Indices (into the indexed array) of events inside the bounds, in ascending order. */
+  query: (bounds: GeoBounds) => number[];
+}
+
+// Number of grid intervals per viewport axis used when inverting the viewport to geographic bounds
+const VIEWPORT_GRID_STEPS = 16;
+
+/**
+ * Builds a quadtree over event longitude/latitude. The tree stores array indices, so callers can
+ * cheaply combine spatial queries with the index range of the playback window (see `visibleIndexRange`).
+ */
+export const createSpatialIndex = (events: EarthquakeData[]): SpatialIndex => {
+  const tree = d3.quadtree<number>()
+    .x(i => events[i].longitude)
+    .y(i => events[i].latitude)
+    .addAll(d3.range(events.length));
+
+  // Collects indices inside a single non-wrapping box
+  const queryBox = (x0: number, y0: number, x1: number, y1: number, out: number[]) => {
+    tree.visit((node, nx0, ny0, nx1, ny1) => {
+      if (!node.length) {
+        // Leaf: walk the chain of coincident points stored at this node
+        let leaf: d3.QuadtreeLeaf<number> | undefined = node as d3.QuadtreeLeaf<number>;
+        while (leaf) {
+          const { longitude, latitude } = events[leaf.data];
+          if (longitude >= x0 && longitude <= x1 && latitude >= y0 && latitude <= y1) out.push(leaf.data);
+          leaf = leaf.next;
+        }
+      }
+      // Returning true skips this node's children when it doesn't overlap the box
+      return nx0 > x1 || ny0 > y1 || nx1 < x0 || ny1 < y0;
+    });
+  };
+
+  return {
+    query: ({ west, south, east, north }) => {
+      const out: number[] = [];
+      if (west <= east) {
+        queryBox(west, south, east, north, out);
+      } else {
+        // Split boxes that cross the antimeridian into an eastern and a western half
+        queryBox(west, south, 180, north, out);
+        queryBox(-180, south, east, north, out);
+      }
+      return out.sort((a, b) => a - b);
+    },
+  };
+};
+
+// Shifts a longitude by whole turns so it lies within 180° of a reference longitude
+const unwrapLongitude = (longitude: number, reference: number): number =>
+  longitude + 360 * Math.round((reference - longitude) / 360);
+
+/**
+ * Computes the geographic bounds of the visible map area by inverting a grid of viewport points
+ * through the zoom transform and the projection. `padding` (screen pixels) widens the viewport so
+ * markers centred just outside still get drawn. Returns null when the viewport can't be bounded
+ * (e.g. part of it lies outside the projection's domain), in which case callers should treat the
+ * whole world as visible.
+ */
+export const viewportBounds = (
+  projection: d3.GeoProjection,
+  transform: d3.ZoomTransform,
+  width: number,
+  height: number,
+  padding = 0,
+): GeoBounds | null => {
+  if (!projection.invert) return null;
+  const x0 = -padding;
+  const y0 = -padding;
+  const x1 = width + padding;
+  const y1 = height + padding;
+
+  let west = Infinity;
+  let east = -Infinity;
+  let south = Infinity;
+  let north = -Infinity;
+  let rowStart: number | null = null; // Unwrapped longitude of the previous row's first sample
+
+  // Walk the grid row by row, unwrapping longitudes so a viewport spanning the antimeridian
+  // (or wider than the world, where the projection's inverse wraps) yields a continuous range
+  for (let row = 0; row <= VIEWPORT_GRID_STEPS; row++) {
+    const y = y0 + (y1 - y0) * (row / VIEWPORT_GRID_STEPS);
+    let previous: number | null = null;
+    for (let col = 0; col <= VIEWPORT_GRID_STEPS; col++) {
+      const x = x0 + (x1 - x0) * (col / VIEWPORT_GRID_STEPS);
+      const geo = projection.invert(transform.invert([x, y]));
+      if (!geo || !Number.isFinite(geo[0]) || !Number.isFinite(geo[1])) return null;
+      const reference: number | null = previous ?? rowStart;
+      const longitude: number = reference === null ? geo[0] : unwrapLongitude(geo[0], reference);
+      if (col === 0) rowStart = longitude;
+      previous = longitude;
+      west = Math.min(west, longitude);
+      east = Math.max(east, longitude);
+      south = Math.min(south, geo[1]);
+      north = Math.max(north, geo[1]);
+    }
+  }
+
+  // A pole inside the viewport (e.g. on the globe) sees every longitude, which the grid samples around it can miss
+  for (const pole of [90, -90]) {
+    const projected = isPointVisible(projection, [0, pole]) ? projection([0, pole]) : null;
+    if (!projected) continue;
+    const [x, y] = transform.apply(projected);
+    if (x < x0 || x > x1 || y < y0 || y > y1) continue;
+    if (pole > 0) north = 90;
+    else south = -90;
+    west = -180;
+    east = 180;
+  }
+
+  south = Math.max(south, -90);
+  north = Math.min(north, 90);
+  // A viewport at least one full turn wide sees every longitude
+  if (east - west >= 360) return { west: -180, south, east: 180, north };
+  // Normalise back into [-180, 180]; west > east afterwards means the box crosses the antimeridian
+  return { west: unwrapLongitude(west, 0), south, east: unwrapLongitude(east, 0), north };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { PREDEFINED_REGIONS } from './regions';
+import { computeRegionMembership, computeSelectionStats, estimateBValue, magnitudeFrequency } from './stats';
+
+const withMagnitudes = (...magnitudes: number[]) => magnitudes.map((magnitude, i) => makeEvent({ id: `E${i}`, magnitude }));
+
+describe('magnitudeFrequency', () => {
+  it('counts events per 0.1 magnitude bin and at or above each bin, lowest first', () => {
+    expect(magnitudeFrequency(withMagnitudes(6.3, 5.0, 5.1, 5.0, 5.19))).toEqual([
+      { magnitude: 5.0, count: 2, cumulativeCount: 5 },
+      { magnitude: 5.1, count: 2, cumulativeCount: 3 },
+      { magnitude: 6.3, count: 1, cumulativeCount: 1 },
+    ]);
+  });
+
+  it('puts magnitudes on a bin edge into that bin despite floating-point error', () => {
+    expect(magnitudeFrequency(withMagnitudes(0.3, 5.7)).map(b => b.magnitude)).toEqual([0.3, 5.7]);
+  });
+});
+
+describe('estimateBValue', () => {
+  it('is the Aki maximum-likelihood estimate with the binning correction', () => {
+    // Mean 5.1 above Mc 5.0, whose bin starts half a bin lower, at 4.95
+    expect(estimateBValue(withMagnitudes(5.0, 5.0, 5.2, 5.2, 4.5), 5.0, 4)).toBeCloseTo(Math.LOG10E / 0.15);
+  });
+
+  it('needs enough events at or above Mc', () => {
+    expect(estimateBValue(withMagnitudes(5.0, 5.2, 4.5), 5.0, 3)).toBeNull();
+    expect(estimateBValue(withMagnitudes(...Array<number>(49).fill(5)), 5.0)).toBeNull();
+  });
+});
+
+describe('computeSelectionStats', () => {
+  const events = [
+    makeEvent({ id: 'JP1', longitude: 142, latitude: 38, magnitude: 6, depth: 30 }),
+    makeEvent({ id: 'JP2', longitude: 143, latitude: 40, magnitude: 6, depth: 100 }),
+    makeEvent({ id: 'MED', longitude: 15, latitude: 38, magnitude: 5, depth: 650 }),
+  ];
+  const membership = computeRegionMembership(events, PREDEFINED_REGIONS);
+
+  it('counts depth classes and finds the most active region', () => {
+    const stats = computeSelectionStats(events, membership);
+    expect(stats.count).toBe(3);
+    expect(stats.meanMagnitude).toBeCloseTo(17 / 3);
+    expect(stats.maxMagnitude).toBe(6);
+    expect(stats.depthCounts.map(c => c.count)).toEqual([1, 1, 1]);
+    // Japan and the Ring of Fire both hold two; the first region listed wins ties
+    expect(stats.mostActiveRegion).toEqual({ name: 'Pacific Ring of Fire', count: 2 });
+    expect(stats.completenessMagnitude).toBe(6);
+    expect(stats.bValue).toBeNull();
+  });
+
+  it('only counts the selected events in each region', () => {
+    expect(computeSelectionStats([events[2]], membership).mostActiveRegion).toEqual({ name: 'Mediterranean', count: 1 });
+  });
+
+  it('has no magnitudes or region for an empty selection', () => {
+    expect(computeSelectionStats([], membership)).toMatchObject({
+      count: 0,
+      meanMagnitude: null,
+      maxMagnitude: null,
+      mostActiveRegion: null,
+      completenessMagnitude: null,
+      bValue: null,
+    });
+  });
+});
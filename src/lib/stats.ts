@@ -0,0 +1,113 @@
+import * as d3 from 'd3';
+import { EarthquakeData } from './catalog';
+import { Region, createRegionTest } from './regions';
+
+// Conventional seismological depth classes (km)
+export const DEPTH_CLASSES = [
+  { label: 'Shallow', min: 0, max: 70 },
+  { label: 'Intermediate', min: 70, max: 300 },
+  { label: 'Deep', min: 300, max: Infinity },
+] as const;
+
+// Width of the magnitude bins used for the magnitude-frequency distribution
+export const MAGNITUDE_BIN_WIDTH = 0.1;
+
+// Which catalog events fall inside each region, computed once per catalog
+// (sets hold the event objects themselves, which is faster to look up than IDs)
+export type RegionMembership = { region: Region; events: Set<EarthquakeData> }[];
+
+// One bin of the Gutenberg–Richter distribution
+export interface MagnitudeFrequencyBin {
+  magnitude: number; // Lower edge of the bin
+  count: number; // Events in this bin
+  cumulativeCount: number; // Events at or above this magnitude, N(≥M)
+}
+
+// Summary statistics of the currently displayed selection
+export interface SelectionStats {
+  count: number;
+  meanMagnitude: number | null;
+  maxMagnitude: number | null;
+  depthCounts: { label: string; min: number; max: number; count: number }[];
+  mostActiveRegion: { name: string; count: number } | null;
+  magnitudeFrequency: MagnitudeFrequencyBin[];
+  completenessMagnitude: number | null; // Mc, estimated as the most populated magnitude bin
+  bValue: number | null; // Aki maximum-likelihood b-value for events at or above Mc
+}
+
+/**
+ * Tests every event against every region once, so per-tick statistics only need set lookups.
+ */
+export const computeRegionMembership = (events: EarthquakeData[], regions: Region[]): RegionMembership =>
+  regions.map(region => {
+    const inRegion = createRegionTest(region);
+    return { region, events: new Set(events.filter(d => inRegion(d.longitude, d.latitude))) };
+  });
+
+// Rounds a magnitude down to its bin, guarding against floating-point error (5.0 / 0.1 = 49.99...)
+const magnitudeBin = (magnitude: number): number =>
+  Math.floor(magnitude / MAGNITUDE_BIN_WIDTH + 1e-9) * MAGNITUDE_BIN_WIDTH;
+
+/**
+ * Builds the non-cumulative and cumulative magnitude-frequency distribution, lowest magnitude first.
+ */
+export const magnitudeFrequency = (events: EarthquakeData[]): MagnitudeFrequencyBin[] => {
+  const counts = new Map<number, number>(); // Bin index (in tenths of a magnitude unit) -> count
+  for (const d of events) {
+    const tenths = Math.round(magnitudeBin(d.magnitude) * 10);
+    counts.set(tenths, (counts.get(tenths) ?? 0) + 1);
+  }
+  const bins = Array.from(counts, ([tenths, count]) => ({ magnitude: tenths / 10, count, cumulativeCount: 0 }))
+    .sort((a, b) => a.magnitude - b.magnitude);
+  let cumulative = 0;
+  for (let i = bins.length - 1; i >= 0; i--) {
+    cumulative += bins[i].count;
+    bins[i].cumulativeCount = cumulative;
+  }
+  return bins;
+};
+
+/**
+ * Aki (1965) maximum-likelihood b-value for events at or above the completeness magnitude `mc`,
+ * with Utsu's correction for binned magnitudes. Returns null with too few events to be meaningful.
+ */
+export const estimateBValue = (events: EarthquakeData[], mc: number, minEvents = 50): number | null => {
+  const complete = events.filter(d => d.magnitude >= mc - 1e-9);
+  if (complete.length < minEvents) return null;
+  const meanMagnitude = d3.mean(complete, d => d.magnitude)!;
+  const denominator = meanMagnitude - (mc - MAGNITUDE_BIN_WIDTH / 2);
+  return denominator > 0 ? Math.LOG10E / denominator : null;
+};
+
+/**
+ * Computes the statistics shown in the stats panel for a selection of events.
+ */
+export const computeSelectionStats = (events: EarthquakeData[], membership: RegionMembership): SelectionStats => {
+  const depthCounts = DEPTH_CLASSES.map(c => ({ ...c, count: 0 }));
+  for (const d of events) {
+    const depthClass = depthCounts.find(c => d.depth >= c.min && d.depth < c.max) ?? depthCounts[0];
+    depthClass.count++;
+  }
+
+  let mostActiveRegion: SelectionStats['mostActiveRegion'] = null;
+  membership.forEach(({ region, events: regionEvents }) => {
+    let count = 0;
+    for (const d of events) if (regionEvents.has(d)) count++;
+    if (count > 0 && (!mostActiveRegion || count > mostActiveRegion.count)) mostActiveRegion = { name: region.name, count };
+  });
+
+  const frequency = magnitudeFrequency(events);
+  const mcBin = d3.greatest(frequency, b => b.count);
+  const completenessMagnitude = mcBin ? mcBin.magnitude : null;
+
+  return {
+    count: events.length,
+    meanMagnitude: d3.mean(events, d => d.magnitude) ?? null,
+    maxMagnitude: d3.max(events, d => d.magnitude) ?? null,
+    depthCounts,
+    mostActiveRegion,
+    magnitudeFrequency: frequency,
+    completenessMagnitude,
+    bValue: completenessMagnitude === null ? null : estimateBValue(events, completenessMagnitude),
+  };
+};
@@ -0,0 +1,140 @@
+// @vitest-environment jsdom
+import * as d3 from 'd3';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { makeEvent } from '@/test/fixtures';
+import { EarthquakeData } from './catalog';
+import { createMarkerStyle } from './canvasLayer';
+import { createDepthColorScale, createMagnitudeRadiusScale } from './scales';
+import { MarkerPointerHandlers, SvgMarkerOptions, joinSvgMarkers, projectSvgMarkers, scaleSvgMarkers } from './svgMarkers';
+
+// jsdom has no SVG transform lists, which d3 reads to interpolate transform transitions (the symbol
+// markers grow in with one); reading none makes them interpolate from the identity instead
+Object.defineProperty(SVGElement.prototype, 'transform', {
+  configurable: true,
+  get: () => ({ baseVal: { consolidate: () => null } }),
+});
+
+// A 800×400 plate carrée map with two earthquakes and an explosion
+const STYLE = createMarkerStyle(
+  d3.geoEquirectangular().scale(800 / (2 * Math.PI)).translate([400, 200]),
+  createDepthColorScale(),
+  createMagnitudeRadiusScale(),
+);
+const QUAKE_A = makeEvent({ id: 'A', longitude: 0, latitude: 0, magnitude: 6 });
+const QUAKE_B = makeEvent({ id: 'B', longitude: 90, latitude: 45, magnitude: 8 });
+const BLAST = makeEvent({ id: 'X', longitude: -90, latitude: 0, magnitude: 5, type: 'Nuclear Explosion' });
+
+const handlers = (): MarkerPointerHandlers => ({ over: vi.fn(), move: vi.fn(), out: vi.fn(), click: vi.fn() });
+
+// Joins without animation, so markers are drawn in their final state once the transitions' first frame has run
+const options = (overrides: Partial<SvgMarkerOptions> = {}): SvgMarkerOptions => ({
+  style: STYLE,
+  zoomScale: 1,
+  zoomChanged: false,
+  revisedIds: new Set(),
+  durationMs: 0,
+  handlers: handlers(),
+  ...overrides,
+});
+
+// An empty marker group in a fresh SVG
+const createGroup = () => d3.select(document.body).append('svg').append<SVGGElement>('g').attr('class', 'earthquakes');
+
+const circles = (group: d3.Selection<SVGGElement, unknown, null, undefined>) =>
+  group.selectAll<SVGCircleElement, EarthquakeData>('circle');
+
+// Waits for the transitions started by a join to reach their end
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('joinSvgMarkers', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('draws a circle per earthquake and a symbol per other event type, growing them to their size', async () => {
+    const group = createGroup();
+    joinSvgMarkers(group, [QUAKE_A, QUAKE_B, BLAST], options({ zoomScale: 2 }));
+    expect(circles(group).data().map(d => d.id)).toEqual(['A', 'B']);
+    expect(group.selectAll('path.event-symbol').size()).toBe(1);
+    expect(circles(group).attr('cx')).toBe('400');
+    expect(circles(group).attr('r')).toBe('0');
+
+    await settle();
+    expect(Number(circles(group).attr('r'))).toBeCloseTo(STYLE.radius(QUAKE_A) / 2);
+    expect(circles(group).attr('opacity')).toBe(String(STYLE.circleOpacity));
+    expect(group.select('path.event-symbol').attr('opacity')).toBe(String(STYLE.symbolOpacity));
+  });
+
+  it('removes markers of events gone and leaves the rest alone unless revised', async () => {
+    const group = createGroup();
+    joinSvgMarkers(group, [QUAKE_A, QUAKE_B, BLAST], options());
+    await settle();
+
+    const movedB = { ...QUAKE_B, longitude: -90 };
+    joinSvgMarkers(group, [QUAKE_A, movedB], options());
+    await settle();
+    expect(circles(group).data().map(d => d.id)).toEqual(['A', 'B']);
+    expect(group.selectAll('path.event-symbol').size()).toBe(0);
+    // B's marker keeps its place until the event is marked as revised
+    expect(circles(group).filter(d => d.id === 'B').attr('cx')).toBe('600');
+
+    joinSvgMarkers(group, [QUAKE_A, movedB], options({ revisedIds: new Set(['B']) }));
+    await settle();
+    expect(circles(group).filter(d => d.id === 'B').attr('cx')).toBe('200');
+  });
+
+  it('resizes remaining markers straight away when the zoom changed', async () => {
+    const group = createGroup();
+    joinSvgMarkers(group, [QUAKE_A], options());
+    await settle();
+    joinSvgMarkers(group, [QUAKE_A], options({ zoomScale: 4, zoomChanged: true }));
+    expect(Number(circles(group).attr('r'))).toBeCloseTo(STYLE.radius(QUAKE_A) / 4);
+  });
+
+  it('passes pointer events on with the event under the pointer', () => {
+    const group = createGroup();
+    const pointer = handlers();
+    joinSvgMarkers(group, [QUAKE_A, BLAST], options({ handlers: pointer }));
+    group.select<SVGCircleElement>('circle').node()!.dispatchEvent(new MouseEvent('mouseover'));
+    group.select<SVGPathElement>('path.event-symbol').node()!.dispatchEvent(new MouseEvent('click'));
+    group.select<SVGCircleElement>('circle').node()!.dispatchEvent(new MouseEvent('mouseout'));
+    expect(pointer.over).toHaveBeenCalledWith(QUAKE_A, expect.any(Array));
+    expect(pointer.click).toHaveBeenCalledWith(BLAST, expect.any(Array));
+    expect(pointer.out).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('projectSvgMarkers', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('moves markers to a new projection, hiding those on the far side of the globe', async () => {
+    const group = createGroup();
+    joinSvgMarkers(group, [QUAKE_A, QUAKE_B, BLAST], options());
+    await settle();
+    const globe = d3.geoOrthographic().scale(200).translate([400, 200]).rotate([0, 0]);
+    projectSvgMarkers(group, globe, 2);
+    expect(circles(group).filter(d => d.id === 'A').attr('cx')).toBe('400');
+    expect(circles(group).filter(d => d.id === 'A').attr('display')).toBeNull();
+    expect(group.select('path.event-symbol').attr('transform')).toBe('translate(200,200) scale(0.5)');
+
+    projectSvgMarkers(group, globe.rotate([180, 0]), 2);
+    expect(circles(group).filter(d => d.id === 'A').attr('display')).toBe('none');
+  });
+});
+
+describe('scaleSvgMarkers', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('keeps markers at their on-screen size under a new zoom scale', async () => {
+    const group = createGroup();
+    joinSvgMarkers(group, [QUAKE_A, BLAST], options());
+    await settle();
+    scaleSvgMarkers(group, STYLE, 8);
+    expect(Number(circles(group).attr('r'))).toBeCloseTo(STYLE.radius(QUAKE_A) / 8);
+    expect(group.select('path.event-symbol').attr('transform')).toBe('translate(200,200) scale(0.125)');
+  });
+});
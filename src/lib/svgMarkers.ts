@@ -0,0 +1,179 @@
+import * as d3 from 'd3';
+import { gsap } from 'gsap';
+import { CanvasLayerStyle } from './canvasLayer';
+import { EarthquakeData } from './catalog';
+import { eventSymbolPath, isEarthquakeType } from './markers';
+import { isPointVisible } from './projections';
+
+// A group of SVG markers: a circle per earthquake, and a symbol path per other event type (explosions, rock bursts)
+type MarkerGroup = d3.Selection<SVGGElement, unknown, null, undefined>;
+
+// What the map does when the pointer meets a marker; points are in the SVG's pixels
+export interface MarkerPointerHandlers {
+  over: (d: EarthquakeData, point: [number, number]) => void;
+  move: (point: [number, number]) => void;
+  out: (point: [number, number]) => void;
+  click: (d: EarthquakeData, point: [number, number]) => void;
+}
+
+// How a join draws the markers
+export interface SvgMarkerOptions {
+  style: CanvasLayerStyle; // The same style the canvas renderer uses, so both renderers look alike
+  zoomScale: number; // Markers are divided by it to keep their on-screen size
+  zoomChanged: boolean; // Whether the zoom scale changed since the last join, so remaining markers need new sizes
+  revisedIds: Set<string>; // Events revised by the live feed, whose markers move and resize in place
+  durationMs: number; // Enter, update and exit animations; 0 puts markers straight into their final state
+  handlers: MarkerPointerHandlers;
+}
+
+/**
+ * Transform for a non-earthquake symbol path, which is drawn centred on the origin.
+ */
+export const symbolTransform = (projection: d3.GeoProjection, d: EarthquakeData, scale: number): string => {
+  const [x, y] = projection([d.longitude, d.latitude]) ?? [0, 0];
+  return `translate(${x},${y}) scale(${scale})`;
+};
+
+/**
+ * Joins a group's markers to the events by catalog ID: markers of new events grow in, those of events gone
+ * shrink out (tagged as exiting, so later joins skip them), and the rest are left alone unless the zoom
+ * changed or the event was revised. Existing markers skipping attribute updates keeps each playback tick
+ * cheap with thousands of markers.
+ */
+export const joinSvgMarkers = (
+  group: MarkerGroup,
+  events: EarthquakeData[],
+  { style, zoomScale: k, zoomChanged, revisedIds, durationMs, handlers }: SvgMarkerOptions,
+): void => {
+  const { projection, color, radius, circleOpacity, symbolOpacity } = style;
+  const svg = group.node()?.ownerSVGElement ?? null;
+  const projectX = (d: EarthquakeData) => projection([d.longitude, d.latitude])?.[0] ?? 0;
+  const projectY = (d: EarthquakeData) => projection([d.longitude, d.latitude])?.[1] ?? 0;
+  // Marker radius in map units: divided by the zoom scale so the on-screen size stays constant
+  const radiusAtZoom = (d: EarthquakeData) => radius(d) / k;
+  const isRevised = (d: EarthquakeData) => revisedIds.has(d.id);
+
+  // Tooltip and pin handlers shared by circles and symbols
+  const addPointerHandlers = <E extends SVGElement>(selection: d3.Selection<E, EarthquakeData, SVGGElement, unknown>) => selection
+    .style('cursor', 'pointer')
+    .on('mouseover', (event, d) => handlers.over(d, d3.pointer(event, svg)))
+    .on('mousemove', event => handlers.move(d3.pointer(event, svg)))
+    .on('mouseout', event => handlers.out(d3.pointer(event, svg)))
+    .on('click', (event, d) => handlers.click(d, d3.pointer(event, svg)));
+
+  // GSAP exit animation shared by circles and symbols: shrink and fade, then remove the element
+  const animateExit = (element: SVGElement, vars: gsap.TweenVars) => {
+    if (durationMs === 0) {
+      d3.select(element).remove();
+      return;
+    }
+    d3.select(element).classed('exiting', true);
+    gsap.to(element, {
+      ...vars,
+      autoAlpha: 0,
+      duration: durationMs / 1000,
+      ease: 'power1.in',
+      onComplete: () => {
+        d3.select(element).remove();
+      },
+    });
+  };
+
+  group.selectAll<SVGCircleElement, EarthquakeData>('circle:not(.exiting)')
+    .data(events.filter(d => isEarthquakeType(d.type)), d => d.id)
+    .join(
+      enter => enter.append('circle')
+        .attr('cx', projectX)
+        .attr('cy', projectY)
+        .attr('fill', d => color(d.depth))
+        .attr('stroke', '#333')
+        .attr('stroke-width', 0.5)
+        .attr('vector-effect', 'non-scaling-stroke')
+        .attr('r', 0)
+        .attr('opacity', 0)
+        .call(addPointerHandlers)
+        .call(enter => enter.transition()
+          .duration(durationMs)
+          .attr('r', radiusAtZoom)
+          .attr('opacity', circleOpacity)
+        ),
+      update => zoomChanged
+        // Snap to the new zoom scale, overriding any enter transition still targeting the old one
+        ? update.interrupt()
+          .attr('cx', projectX)
+          .attr('cy', projectY)
+          .attr('r', radiusAtZoom)
+          .attr('fill', d => color(d.depth))
+          .attr('opacity', circleOpacity)
+        : update.call(update => update.filter(isRevised).transition()
+          .duration(durationMs)
+          .attr('cx', projectX)
+          .attr('cy', projectY)
+          .attr('r', radiusAtZoom)
+          .attr('fill', d => color(d.depth))
+        ),
+      exit => exit.each(function() {
+        animateExit(this, { attr: { r: 0 } });
+      }),
+    );
+
+  // Symbol paths are sized in screen pixels and positioned and scaled with a transform, so the same
+  // grow/shrink animation applies regardless of shape
+  group.selectAll<SVGPathElement, EarthquakeData>('path.event-symbol:not(.exiting)')
+    .data(events.filter(d => !isEarthquakeType(d.type)), d => d.id)
+    .join(
+      enter => enter.append('path')
+        .attr('class', 'event-symbol')
+        .attr('d', d => eventSymbolPath(d.type, radius(d)))
+        .attr('fill', d => color(d.depth))
+        .attr('stroke', '#000')
+        .attr('stroke-width', 1)
+        .attr('vector-effect', 'non-scaling-stroke')
+        .attr('transform', d => symbolTransform(projection, d, 0))
+        .attr('opacity', 0)
+        .call(addPointerHandlers)
+        .call(enter => enter.transition()
+          .duration(durationMs)
+          .attr('transform', d => symbolTransform(projection, d, 1 / k))
+          .attr('opacity', symbolOpacity)
+        ),
+      update => zoomChanged
+        ? update.interrupt()
+          .attr('transform', d => symbolTransform(projection, d, 1 / k))
+          .attr('fill', d => color(d.depth))
+          .attr('opacity', symbolOpacity)
+        : update.call(update => update.filter(isRevised).transition()
+          .duration(durationMs)
+          .attr('d', d => eventSymbolPath(d.type, radius(d)))
+          .attr('transform', d => symbolTransform(projection, d, 1 / k))
+          .attr('fill', d => color(d.depth))
+        ),
+      exit => exit.each(function() {
+        animateExit(this, { scale: 0, transformOrigin: '50% 50%' });
+      }),
+    );
+};
+
+/**
+ * Places a group's markers for a new projection, hiding those on the far side of the globe.
+ */
+export const projectSvgMarkers = (group: MarkerGroup, projection: d3.GeoProjection, zoomScale: number): void => {
+  const position = (d: EarthquakeData) => projection([d.longitude, d.latitude]) ?? [0, 0];
+  const display = (d: EarthquakeData) => (isPointVisible(projection, [d.longitude, d.latitude]) ? null : 'none');
+  group.selectAll<SVGCircleElement, EarthquakeData>('circle')
+    .attr('cx', d => position(d)[0])
+    .attr('cy', d => position(d)[1])
+    .attr('display', display);
+  group.selectAll<SVGPathElement, EarthquakeData>('path.event-symbol')
+    .attr('transform', d => symbolTransform(projection, d, 1 / zoomScale))
+    .attr('display', display);
+};
+
+/**
+ * Keeps a group's markers at their on-screen size under a new zoom scale.
+ */
+export const scaleSvgMarkers = (group: MarkerGroup, style: CanvasLayerStyle, zoomScale: number): void => {
+  group.selectAll<SVGCircleElement, EarthquakeData>('circle').attr('r', d => style.radius(d) / zoomScale);
+  group.selectAll<SVGPathElement, EarthquakeData>('path.event-symbol')
+    .attr('transform', d => symbolTransform(style.projection, d, 1 / zoomScale));
+};
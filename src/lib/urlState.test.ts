@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COMPARISON_SETTINGS } from './comparison';
+import { DAY_MS } from './playback';
+import { MAX_ZOOM } from './projections';
+import { DEFAULT_VIEW_STATE, SearchParams, ViewState, parseViewState, serializeViewState } from './urlState';
+
+// Query parameters the way the app router hands them over: repeated keys as arrays
+const toSearchParams = (query: string | URLSearchParams): SearchParams => {
+  const params: SearchParams = {};
+  new URLSearchParams(query).forEach((value, key) => {
+    const existing = params[key];
+    params[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  });
+  return params;
+};
+
+const parse = (query: string) => parseViewState(toSearchParams(query));
+const roundTrip = (state: ViewState) => parseViewState(toSearchParams(serializeViewState(state)));
+
+// A view with every setting changed from its default
+const CUSTOM_STATE: ViewState = {
+  minMagnitude: 5.5,
+  depthRangeKm: [70, 300],
+  excludedEventTypes: ['Nuclear Explosion', 'Rock Burst'],
+  excludedMagnitudeTypes: ['MB'],
+  regionId: 'ring-of-fire',
+  mainshocksOnly: true,
+  playheadTime: Date.UTC(1990, 5, 15, 12, 30, 5),
+  playing: false,
+  playbackSpeed: 30 * DAY_MS,
+  playbackWindowMs: 90 * DAY_MS,
+  timeRange: [Date.UTC(1980, 0, 1), Date.UTC(2000, 0, 1)],
+  projection: 'orthographic',
+  mapView: { zoom: 4.5, center: [139.7, 35.7] },
+  pinnedEventId: 'ISCGEM860706',
+  rendererMode: 'canvas',
+  layerMode: 'hexbin',
+  hexbinMetric: 'max-magnitude',
+  nearbyRadiusKm: 250,
+  nearbyWindowDays: 7,
+  comparison: {
+    minMagnitude: 7,
+    depthRangeKm: [0, 70],
+    excludedEventTypes: ['Explosion'],
+    excludedMagnitudeTypes: ['MS'],
+    regionId: 'himalaya',
+    mainshocksOnly: true,
+    timeRange: [Date.UTC(2000, 0, 1), Date.UTC(2010, 0, 1)],
+  },
+};
+
+describe('serializeViewState', () => {
+  it('leaves out every default, so an untouched map has a clean URL', () => {
+    expect(serializeViewState(DEFAULT_VIEW_STATE).toString()).toBe('');
+  });
+
+  it('shortens midnight to the date and writes other times to the second', () => {
+    const params = serializeViewState(CUSTOM_STATE);
+    expect(params.get('from')).toBe('1980-01-01');
+    expect(params.get('t')).toBe('1990-06-15T12:30:05Z');
+    expect(params.getAll('xtype')).toEqual(['Nuclear Explosion', 'Rock Burst']);
+  });
+});
+
+describe('parseViewState', () => {
+  it('reads back what serializeViewState wrote', () => {
+    expect(roundTrip(DEFAULT_VIEW_STATE)).toEqual(DEFAULT_VIEW_STATE);
+    expect(roundTrip(CUSTOM_STATE)).toEqual(CUSTOM_STATE);
+    expect(roundTrip({ ...CUSTOM_STATE, playbackWindowMs: null, comparison: DEFAULT_COMPARISON_SETTINGS })).toEqual({
+      ...CUSTOM_STATE,
+      playbackWindowMs: null,
+      comparison: DEFAULT_COMPARISON_SETTINGS,
+    });
+  });
+
+  it('falls back to the default of each malformed parameter on its own', () => {
+    expect(parse('mag=abc&depth=deep&t=1990-13-45&speed=2&window=3&proj=lambert&map=4/x/0&renderer=webgl&layer=dots&nearbyKm=75'))
+      .toEqual(DEFAULT_VIEW_STATE);
+    expect(parse('mag=abc&proj=orthographic')).toEqual({ ...DEFAULT_VIEW_STATE, projection: 'orthographic' });
+  });
+
+  it('rejects values out of range', () => {
+    expect(parse('mag=11').minMagnitude).toBe(DEFAULT_VIEW_STATE.minMagnitude);
+    expect(parse('mag=-1').minMagnitude).toBe(DEFAULT_VIEW_STATE.minMagnitude);
+    expect(parse('depth=300-70').depthRangeKm).toEqual(DEFAULT_VIEW_STATE.depthRangeKm);
+    expect(parse('depth=0-5000').depthRangeKm).toEqual(DEFAULT_VIEW_STATE.depthRangeKm);
+    expect(parse('map=4/91/0').mapView).toBeNull();
+    expect(parse('map=4/0/181').mapView).toBeNull();
+    expect(parse('map=0.5/0/0').mapView).toBeNull();
+  });
+
+  it("keeps the zoom within the map's zoom limits", () => {
+    expect(parse(`map=${MAX_ZOOM}/0/0`).mapView).toEqual({ zoom: MAX_ZOOM, center: [0, 0] });
+    expect(parse('map=1000/0/0').mapView).toBeNull();
+  });
+
+  it('only applies a time range with both ends, in order', () => {
+    expect(parse('from=1980-01-01').timeRange).toBeNull();
+    expect(parse('from=2000-01-01&to=1980-01-01').timeRange).toBeNull();
+    expect(parse('from=1980-01-01&to=2000-01-01').timeRange).toEqual([Date.UTC(1980, 0, 1), Date.UTC(2000, 0, 1)]);
+  });
+
+  it("reads map B's settings only in comparison mode, each with its own default", () => {
+    expect(parse('bmag=7&bfrom=1980-01-01&bto=2000-01-01').comparison).toBeNull();
+    expect(parse('compare=1').comparison).toEqual(DEFAULT_COMPARISON_SETTINGS);
+    expect(parse('compare=1&bmag=12&bdepth=0-70&bxtype=Explosion&bmainshocks=1').comparison).toEqual({
+      ...DEFAULT_COMPARISON_SETTINGS,
+      depthRangeKm: [0, 70],
+      excludedEventTypes: ['Explosion'],
+      mainshocksOnly: true,
+    });
+  });
+
+  it('turns the shallow=1 of older links into a 0-50 km depth range, unless a depth range is given', () => {
+    expect(parse('shallow=1').depthRangeKm).toEqual([0, 50]);
+    expect(parse('shallow=1&depth=70-300').depthRangeKm).toEqual([70, 300]);
+  });
+});
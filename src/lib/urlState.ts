@@ -0,0 +1,303 @@
+import { RendererMode } from './canvasLayer';
+import {
+  DEFAULT_HEXBIN_METRIC,
+  DEFAULT_LAYER_MODE,
+  HEXBIN_METRIC_OPTIONS,
+  HexbinMetric,
+  LAYER_MODE_OPTIONS,
+  LayerMode,
+} from './aggregation';
+import { DEPTH_FILTER_DOMAIN_KM, DepthRange, SHALLOW_DEPTH_KM, isFullDepthRange } from './filters';
+import { ComparisonSettings, DEFAULT_COMPARISON_SETTINGS } from './comparison';
+import { LonLat } from './regions';
+import { DEFAULT_PROJECTION, MAX_ZOOM, MIN_ZOOM, PROJECTION_OPTIONS, ProjectionId } from './projections';
+import {
+  DAY_MS,
+  DEFAULT_PLAYBACK_SPEED,
+  DEFAULT_PLAYBACK_WINDOW_MS,
+  PLAYBACK_SPEED_OPTIONS,
+  PLAYBACK_WINDOW_OPTIONS,
+  TimeRange,
+} from './playback';
+import {
+  DEFAULT_NEARBY_RADIUS_KM,
+  DEFAULT_NEARBY_WINDOW_DAYS,
+  NEARBY_RADIUS_OPTIONS_KM,
+  NEARBY_WINDOW_OPTIONS_DAYS,
+} from './nearby';
+
+// Query parameters as delivered by the Next.js app router: repeated keys arrive as arrays
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+// Zoomed-in map view: zoom factor relative to the whole-world view, and the point at the centre of the map
+// (on the globe, the point it is turned towards)
+export interface MapView {
+  zoom: number;
+  center: LonLat;
+}
+
+// Everything needed to reopen the map exactly as it was
+export interface ViewState {
+  minMagnitude: number;
+  depthRangeKm: DepthRange;
+  excludedEventTypes: string[];
+  excludedMagnitudeTypes: string[];
+  regionId: string | null; // null = whole world
+  mainshocksOnly: boolean;
+  playheadTime: number | null; // null = start of the catalog (or of the time range)
+  playing: boolean;
+  playbackSpeed: number; // Simulated ms per real second
+  playbackWindowMs: number | null; // null = cumulative
+  timeRange: TimeRange | null;
+  projection: ProjectionId;
+  mapView: MapView | null; // null = whole world
+  pinnedEventId: string | null;
+  rendererMode: RendererMode;
+  layerMode: LayerMode;
+  hexbinMetric: HexbinMetric;
+  nearbyRadiusKm: number;
+  nearbyWindowDays: number;
+  comparison: ComparisonSettings | null; // Map B of comparison mode; null = comparison mode off
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  minMagnitude: 0,
+  depthRangeKm: DEPTH_FILTER_DOMAIN_KM,
+  excludedEventTypes: [],
+  excludedMagnitudeTypes: [],
+  regionId: null,
+  mainshocksOnly: false,
+  playheadTime: null,
+  playing: true,
+  playbackSpeed: DEFAULT_PLAYBACK_SPEED,
+  playbackWindowMs: DEFAULT_PLAYBACK_WINDOW_MS,
+  timeRange: null,
+  projection: DEFAULT_PROJECTION,
+  mapView: null,
+  pinnedEventId: null,
+  rendererMode: 'auto',
+  layerMode: DEFAULT_LAYER_MODE,
+  hexbinMetric: DEFAULT_HEXBIN_METRIC,
+  nearbyRadiusKm: DEFAULT_NEARBY_RADIUS_KM,
+  nearbyWindowDays: DEFAULT_NEARBY_WINDOW_DAYS,
+  comparison: null,
+};
+
+// Query parameter names, kept short so shared links stay readable
+const PARAM = {
+  minMagnitude: 'mag',
+  depthRange: 'depth', // min-max km, e.g. 70-300
+  legacyShallow: 'shallow', // Written by older links: shallow=1 stands for a 0-50 km depth range
+  excludedEventTypes: 'xtype',
+  excludedMagnitudeTypes: 'xmagtype',
+  regionId: 'region',
+  mainshocksOnly: 'mainshocks',
+  playheadTime: 't',
+  playing: 'play',
+  playbackSpeed: 'speed', // Simulated days per second
+  playbackWindow: 'window', // Days, or 'all'
+  rangeStart: 'from',
+  rangeEnd: 'to',
+  projection: 'proj',
+  mapView: 'map', // zoom/lat/lon
+  pinnedEventId: 'event',
+  rendererMode: 'renderer',
+  layerMode: 'layer',
+  hexbinMetric: 'hexMetric',
+  nearbyRadiusKm: 'nearbyKm',
+  nearbyWindowDays: 'nearbyDays',
+  comparison: 'compare', // 1 = comparison mode on; the b* parameters below are only read with it
+  comparisonMinMagnitude: 'bmag',
+  comparisonDepthRange: 'bdepth',
+  comparisonExcludedEventTypes: 'bxtype',
+  comparisonExcludedMagnitudeTypes: 'bxmagtype',
+  comparisonRegionId: 'bregion',
+  comparisonMainshocksOnly: 'bmainshocks',
+  comparisonRangeStart: 'bfrom',
+  comparisonRangeEnd: 'bto',
+} as const;
+
+const RENDERER_MODES: RendererMode[] = ['auto', 'svg', 'canvas'];
+
+// First value of a parameter, or undefined when absent or empty
+const firstParam = (params: SearchParams, key: string): string | undefined => {
+  const value = params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined || first === '' ? undefined : first;
+};
+
+// Every non-empty value of a (possibly repeated) parameter
+const allParams = (params: SearchParams, key: string): string[] => {
+  const value = params[key];
+  return (value === undefined ? [] : Array.isArray(value) ? value : [value]).filter(v => v !== '');
+};
+
+// Number parameter; NaN when missing or malformed, so range checks below reject it
+const numberParam = (params: SearchParams, key: string): number => {
+  const value = firstParam(params, key);
+  return value === undefined ? NaN : Number(value);
+};
+
+// ISO 8601 UTC date or date-time, as written by formatTimeParam
+const ISO_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z)?$/;
+
+// Time parameter (epoch ms); NaN when missing or malformed
+const timeParam = (params: SearchParams, key: string): number => {
+  const value = firstParam(params, key);
+  return value === undefined || !ISO_TIME_PATTERN.test(value) ? NaN : Date.parse(value);
+};
+
+// A number rounded to a fixed number of decimals, without trailing zeros
+const roundParam = (value: number, decimals: number) => String(Number(value.toFixed(decimals)));
+
+// UTC time as an ISO 8601 string without milliseconds; midnight is shortened to the date alone
+const formatTimeParam = (time: number): string => {
+  const iso = new Date(time).toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : `${iso.slice(0, 19)}Z`;
+};
+
+// "min-max" in km, e.g. "70-300"; must lie within the slider's range
+const parseDepthRange = (value: string | undefined): DepthRange | null => {
+  const parts = value?.split('-').map(Number) ?? [];
+  if (parts.length !== 2 || parts.some(p => !Number.isFinite(p))) return null;
+  const [minDepth, maxDepth] = parts;
+  if (minDepth < DEPTH_FILTER_DOMAIN_KM[0] || maxDepth > DEPTH_FILTER_DOMAIN_KM[1] || minDepth >= maxDepth) return null;
+  return [minDepth, maxDepth];
+};
+
+// "zoom/lat/lon", e.g. "4/35.7/139.7"; the zoom must lie within the map's zoom limits
+const parseMapView = (value: string | undefined): MapView | null => {
+  const parts = value?.split('/').map(Number) ?? [];
+  if (parts.length !== 3 || parts.some(p => !Number.isFinite(p))) return null;
+  const [zoom, lat, lon] = parts;
+  if (zoom < MIN_ZOOM || zoom > MAX_ZOOM || lat < -90 || lat > 90 || lon < -180 || lon > 180) return null;
+  return { zoom, center: [lon, lat] };
+};
+
+// Time range from a pair of time parameters, or null unless both are valid and in order
+const timeRangeParams = (params: SearchParams, startKey: string, endKey: string): TimeRange | null => {
+  const start = timeParam(params, startKey);
+  const end = timeParam(params, endKey);
+  return Number.isFinite(start) && Number.isFinite(end) && start < end ? [start, end] : null;
+};
+
+// Map B's settings, each falling back to its default on its own
+const parseComparison = (params: SearchParams): ComparisonSettings | null => {
+  if (firstParam(params, PARAM.comparison) !== '1') return null;
+  const defaults = DEFAULT_COMPARISON_SETTINGS;
+  const minMagnitude = numberParam(params, PARAM.comparisonMinMagnitude);
+  const mainshocks = firstParam(params, PARAM.comparisonMainshocksOnly);
+  return {
+    minMagnitude: minMagnitude >= 0 && minMagnitude <= 10 ? minMagnitude : defaults.minMagnitude,
+    depthRangeKm: parseDepthRange(firstParam(params, PARAM.comparisonDepthRange)) ?? defaults.depthRangeKm,
+    excludedEventTypes: allParams(params, PARAM.comparisonExcludedEventTypes),
+    excludedMagnitudeTypes: allParams(params, PARAM.comparisonExcludedMagnitudeTypes),
+    regionId: firstParam(params, PARAM.comparisonRegionId) ?? defaults.regionId,
+    mainshocksOnly: mainshocks === '1' ? true : mainshocks === '0' ? false : defaults.mainshocksOnly,
+    timeRange: timeRangeParams(params, PARAM.comparisonRangeStart, PARAM.comparisonRangeEnd) ?? defaults.timeRange,
+  };
+};
+
+/**
+ * Reads a view state from URL query parameters. Each parameter is validated on its own:
+ * a missing, malformed or out-of-range value falls back to its default without affecting the others.
+ */
+export const parseViewState = (params: SearchParams): ViewState => {
+  const defaults = DEFAULT_VIEW_STATE;
+
+  const minMagnitude = numberParam(params, PARAM.minMagnitude);
+  const depthRange = parseDepthRange(firstParam(params, PARAM.depthRange));
+  const legacyShallow = firstParam(params, PARAM.legacyShallow) === '1';
+  const play = firstParam(params, PARAM.playing);
+  const mainshocks = firstParam(params, PARAM.mainshocksOnly);
+  const playheadTime = timeParam(params, PARAM.playheadTime);
+
+  const speedMs = numberParam(params, PARAM.playbackSpeed) * DAY_MS;
+  const speedOption = PLAYBACK_SPEED_OPTIONS.find(o => o.simulatedMsPerSecond === speedMs);
+  const windowParam = firstParam(params, PARAM.playbackWindow);
+  const windowMs = windowParam === 'all' ? null : Number(windowParam) * DAY_MS;
+  const windowOption = PLAYBACK_WINDOW_OPTIONS.find(o => o.durationMs === windowMs);
+
+  const renderer = firstParam(params, PARAM.rendererMode) as RendererMode | undefined;
+  const projection = firstParam(params, PARAM.projection);
+  const layerMode = firstParam(params, PARAM.layerMode);
+  const hexbinMetric = firstParam(params, PARAM.hexbinMetric);
+  const nearbyRadiusKm = numberParam(params, PARAM.nearbyRadiusKm);
+  const nearbyWindowDays = numberParam(params, PARAM.nearbyWindowDays);
+
+  return {
+    minMagnitude: minMagnitude >= 0 && minMagnitude <= 10 ? minMagnitude : defaults.minMagnitude,
+    depthRangeKm: depthRange ?? (legacyShallow ? [DEPTH_FILTER_DOMAIN_KM[0], SHALLOW_DEPTH_KM] : defaults.depthRangeKm),
+    excludedEventTypes: allParams(params, PARAM.excludedEventTypes),
+    excludedMagnitudeTypes: allParams(params, PARAM.excludedMagnitudeTypes),
+    regionId: firstParam(params, PARAM.regionId) ?? defaults.regionId,
+    mainshocksOnly: mainshocks === '1' ? true : mainshocks === '0' ? false : defaults.mainshocksOnly,
+    playheadTime: Number.isFinite(playheadTime) ? playheadTime : defaults.playheadTime,
+    playing: play === '1' ? true : play === '0' ? false : defaults.playing,
+    playbackSpeed: speedOption ? speedOption.simulatedMsPerSecond : defaults.playbackSpeed,
+    playbackWindowMs: windowOption ? windowOption.durationMs : defaults.playbackWindowMs,
+    timeRange: timeRangeParams(params, PARAM.rangeStart, PARAM.rangeEnd) ?? defaults.timeRange,
+    projection: PROJECTION_OPTIONS.find(o => o.id === projection)?.id ?? defaults.projection,
+    mapView: parseMapView(firstParam(params, PARAM.mapView)),
+    pinnedEventId: firstParam(params, PARAM.pinnedEventId) ?? defaults.pinnedEventId,
+    rendererMode: renderer && RENDERER_MODES.includes(renderer) ? renderer : defaults.rendererMode,
+    layerMode: LAYER_MODE_OPTIONS.find(o => o.id === layerMode)?.id ?? defaults.layerMode,
+    hexbinMetric: HEXBIN_METRIC_OPTIONS.find(o => o.id === hexbinMetric)?.id ?? defaults.hexbinMetric,
+    nearbyRadiusKm: NEARBY_RADIUS_OPTIONS_KM.includes(nearbyRadiusKm) ? nearbyRadiusKm : defaults.nearbyRadiusKm,
+    nearbyWindowDays: NEARBY_WINDOW_OPTIONS_DAYS.includes(nearbyWindowDays) ? nearbyWindowDays : defaults.nearbyWindowDays,
+    comparison: parseComparison(params),
+  };
+};
+
+/**
+ * Writes a view state as URL query parameters. Values equal to their default are left out,
+ * so an untouched map has a clean URL.
+ */
+export const serializeViewState = (state: ViewState): URLSearchParams => {
+  const defaults = DEFAULT_VIEW_STATE;
+  const params = new URLSearchParams();
+
+  if (state.minMagnitude !== defaults.minMagnitude) params.set(PARAM.minMagnitude, roundParam(state.minMagnitude, 1));
+  if (!isFullDepthRange(state.depthRangeKm)) params.set(PARAM.depthRange, state.depthRangeKm.join('-'));
+  state.excludedEventTypes.forEach(type => params.append(PARAM.excludedEventTypes, type));
+  state.excludedMagnitudeTypes.forEach(type => params.append(PARAM.excludedMagnitudeTypes, type));
+  if (state.regionId !== null) params.set(PARAM.regionId, state.regionId);
+  if (state.mainshocksOnly !== defaults.mainshocksOnly) params.set(PARAM.mainshocksOnly, state.mainshocksOnly ? '1' : '0');
+  if (state.timeRange) {
+    params.set(PARAM.rangeStart, formatTimeParam(state.timeRange[0]));
+    params.set(PARAM.rangeEnd, formatTimeParam(state.timeRange[1]));
+  }
+  if (state.playheadTime !== null) params.set(PARAM.playheadTime, formatTimeParam(state.playheadTime));
+  if (state.playing !== defaults.playing) params.set(PARAM.playing, state.playing ? '1' : '0');
+  if (state.playbackSpeed !== defaults.playbackSpeed) params.set(PARAM.playbackSpeed, String(state.playbackSpeed / DAY_MS));
+  if (state.playbackWindowMs !== defaults.playbackWindowMs) {
+    params.set(PARAM.playbackWindow, state.playbackWindowMs === null ? 'all' : String(state.playbackWindowMs / DAY_MS));
+  }
+  if (state.projection !== defaults.projection) params.set(PARAM.projection, state.projection);
+  if (state.mapView) {
+    const { zoom, center: [lon, lat] } = state.mapView;
+    params.set(PARAM.mapView, `${roundParam(zoom, 2)}/${roundParam(lat, 3)}/${roundParam(lon, 3)}`);
+  }
+  if (state.pinnedEventId !== null) params.set(PARAM.pinnedEventId, state.pinnedEventId);
+  if (state.rendererMode !== defaults.rendererMode) params.set(PARAM.rendererMode, state.rendererMode);
+  if (state.layerMode !== defaults.layerMode) params.set(PARAM.layerMode, state.layerMode);
+  if (state.hexbinMetric !== defaults.hexbinMetric) params.set(PARAM.hexbinMetric, state.hexbinMetric);
+  if (state.nearbyRadiusKm !== defaults.nearbyRadiusKm) params.set(PARAM.nearbyRadiusKm, String(state.nearbyRadiusKm));
+  if (state.nearbyWindowDays !== defaults.nearbyWindowDays) params.set(PARAM.nearbyWindowDays, String(state.nearbyWindowDays));
+  if (state.comparison) {
+    const { minMagnitude, depthRangeKm, excludedEventTypes, excludedMagnitudeTypes, regionId, mainshocksOnly, timeRange } = state.comparison;
+    params.set(PARAM.comparison, '1');
+    if (minMagnitude !== DEFAULT_COMPARISON_SETTINGS.minMagnitude) params.set(PARAM.comparisonMinMagnitude, roundParam(minMagnitude, 1));
+    if (!isFullDepthRange(depthRangeKm)) params.set(PARAM.comparisonDepthRange, depthRangeKm.join('-'));
+    excludedEventTypes.forEach(type => params.append(PARAM.comparisonExcludedEventTypes, type));
+    excludedMagnitudeTypes.forEach(type => params.append(PARAM.comparisonExcludedMagnitudeTypes, type));
+    if (regionId !== null) params.set(PARAM.comparisonRegionId, regionId);
+    if (mainshocksOnly !== DEFAULT_COMPARISON_SETTINGS.mainshocksOnly) params.set(PARAM.comparisonMainshocksOnly, mainshocksOnly ? '1' : '0');
+    if (timeRange) {
+      params.set(PARAM.comparisonRangeStart, formatTimeParam(timeRange[0]));
+      params.set(PARAM.comparisonRangeEnd, formatTimeParam(timeRange[1]));
+    }
+  }
+
+  return params;
+};
@@ -0,0 +1,65 @@
+import { EarthquakeData } from '@/lib/catalog';
+
+// Shared test data: events built from a few fields, and a small catalog CSV in the bundled format
+
+/**
+ * An event with plausible defaults for every field not given.
+ */
+export const makeEvent = (overrides: Partial<EarthquakeData> = {}): EarthquakeData => {
+  const time = overrides.time ?? Date.UTC(2000, 0, 1);
+  return {
+    id: 'TEST1',
+    latitude: 0,
+    longitude: 0,
+    magnitude: 6,
+    depth: 10,
+    timestamp: new Date(time).toISOString(),
+    time,
+    type: 'Earthquake',
+    magnitudeType: 'MW',
+    depthError: null,
+    depthSeismicStations: null,
+    magnitudeError: null,
+    magnitudeSeismicStations: null,
+    azimuthalGap: null,
+    horizontalDistance: null,
+    horizontalError: null,
+    rootMeanSquare: null,
+    source: null,
+    locationSource: null,
+    magnitudeSource: null,
+    status: 'Reviewed',
+    ...overrides,
+  };
+};
+
+// Header of the bundled `database.csv`
+export const CATALOG_HEADER =
+  'Date,Time,Latitude,Longitude,Type,Depth,Depth Error,Depth Seismic Stations,Magnitude,Magnitude Type,' +
+  'Magnitude Error,Magnitude Seismic Stations,Azimuthal Gap,Horizontal Distance,Horizontal Error,' +
+  'Root Mean Square,ID,Source,Location Source,Magnitude Source,Status';
+
+/**
+ * One row of the bundled catalog format, with the columns the app relies on.
+ */
+export const catalogRow = (
+  id: string,
+  date: string,
+  time: string,
+  latitude: number,
+  longitude: number,
+  magnitude: number,
+  depth: number,
+  type = 'Earthquake',
+): string => `${date},${time},${latitude},${longitude},${type},${depth},,,${magnitude},MW,,,,,,,${id},ISCGEM,ISCGEM,ISCGEM,Automatic`;
+
+// Six events a year apart, far enough from each other that none is another's aftershock
+export const FIXTURE_CATALOG_CSV = [
+  CATALOG_HEADER,
+  catalogRow('EQ1', '01/02/1965', '13:44:18', 19.246, 145.616, 6.0, 131.6),
+  catalogRow('EQ2', '06/15/1966', '05:10:00', -20.5, -70.4, 7.5, 35),
+  catalogRow('EQ3', '03/01/1967', '00:00:00', 35.7, 139.7, 5.6, 60),
+  catalogRow('EQ4', '09/10/1968', '12:00:00', 40.1, 22.3, 6.4, 12),
+  catalogRow('EQ5', '11/20/1969', '08:30:00', -6.2, 106.8, 5.8, 520),
+  catalogRow('NX1', '07/04/1970', '16:00:00', 37.1, -116.0, 5.9, 0, 'Nuclear Explosion'),
+].join('\n');
@@ -0,0 +1,16 @@
+import { CatalogRequestMessage, CatalogResponseMessage, responseTransferables } from '@/lib/catalogProtocol';
+import { createCatalogService } from '@/lib/catalogService';
+
+// The worker's global scope (the DOM typings only describe windows)
+interface CatalogWorkerScope {
+  onmessage: ((event: MessageEvent<CatalogRequestMessage>) => void) | null;
+  postMessage: (message: CatalogResponseMessage, transfer: Transferable[]) => void;
+}
+
+const scope = self as unknown as CatalogWorkerScope;
+const service = createCatalogService();
+
+// Each request is answered with a message carrying the same ID; index arrays are transferred, not copied
+scope.onmessage = ({ data: { id, request } }) => {
+  service.handle(request).then(response => scope.postMessage({ id, response }, responseTransferables(response)));
+};
@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests run in Node; component tests opt into jsdom with a `@vitest-environment jsdom` comment
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  esbuild: {
+    jsx: 'automatic', // tsconfig leaves JSX to Next.js
+  },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
+});